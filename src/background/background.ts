@@ -1,11 +1,18 @@
 import { AppSettings } from '../types/index';
 import { SettingsService } from '../services/SettingsService';
+import { PrintQueueService } from '../services/PrintQueueService';
+import { validateXProfile } from '../utils/validation';
+import { DownloadError, DownloadRequest, DownloadResponse, DownloadService } from '../services/DownloadService';
 
 class BackgroundScript {
   private settingsService: SettingsService;
+  private downloadService: DownloadService;
+  private printQueue: PrintQueueService;
 
   constructor() {
     this.settingsService = new SettingsService();
+    this.downloadService = new DownloadService(this.settingsService);
+    this.printQueue = new PrintQueueService();
     this.initialize();
   }
 
@@ -24,6 +31,10 @@ class BackgroundScript {
     // Context menu setup
     this.setupContextMenu();
 
+    // Show the number of queued profiles on the extension icon
+    this.printQueue.watch(entries => this.updateQueueBadge(entries.length));
+    this.updateQueueBadge((await this.printQueue.getEntries()).length);
+
     // Initialize default settings
     await this.initializeSettings();
   }
@@ -87,16 +98,56 @@ class BackgroundScript {
       documentUrlPatterns: ['*://x.com/*', '*://twitter.com/*']
     });
 
+    chrome.contextMenus.create({
+      id: 'add-to-print-queue',
+      title: 'Add this profile to the print queue',
+      contexts: ['page'],
+      documentUrlPatterns: ['*://x.com/*', '*://twitter.com/*']
+    });
+
     chrome.contextMenus.onClicked.addListener((info, tab) => {
       if (info.menuItemId === 'generate-name-tag' && tab?.id) {
         // Send message to content script to extract profile
         chrome.tabs.sendMessage(tab.id, { 
           action: 'extractProfile' 
         });
+      } else if (info.menuItemId === 'add-to-print-queue' && tab?.id) {
+        this.addTabProfileToQueue(tab.id);
+      }
+    });
+  }
+
+  private addTabProfileToQueue(tabId: number): void {
+    chrome.tabs.sendMessage(tabId, { action: 'extractProfileInfo' }, async (response) => {
+      const profile = chrome.runtime.lastError ? null : validateXProfile(response?.data);
+      if (!profile) {
+        console.error('[Background] No profile to queue:', chrome.runtime.lastError || response?.error);
+        this.flashQueueBadge('!');
+        return;
+      }
+
+      try {
+        const settings = await this.settingsService.getSettings();
+        await this.printQueue.add(profile, settings.defaultTemplate);
+      } catch (error) {
+        console.error('[Background] Failed to queue profile:', error);
+        this.flashQueueBadge('!');
       }
     });
   }
 
+  private updateQueueBadge(count: number): void {
+    chrome.action.setBadgeBackgroundColor({ color: '#1da1f2' });
+    chrome.action.setBadgeText({ text: count > 0 ? String(count) : '' });
+  }
+
+  // Show a mark on the badge for a few seconds, then the queue size again
+  private flashQueueBadge(text: string): void {
+    chrome.action.setBadgeBackgroundColor({ color: '#e0245e' });
+    chrome.action.setBadgeText({ text });
+    setTimeout(async () => this.updateQueueBadge((await this.printQueue.getEntries()).length), 3000);
+  }
+
   private updateIcon(): void {
     chrome.action.setIcon({
       path: {
@@ -147,6 +198,10 @@ class BackgroundScript {
           await this.handleProfileFetch(request.url, sendResponse);
           break;
 
+        case 'download':
+          await this.handleDownload(request, sendResponse);
+          break;
+
         case 'onProfilePage':
           if (sender.tab?.id) {
             this.updateIconForTab(sender.tab.id, true);
@@ -212,6 +267,20 @@ class BackgroundScript {
     }
   }
 
+  private async handleDownload(request: DownloadRequest, sendResponse: (response: DownloadResponse) => void): Promise<void> {
+    try {
+      const result = await this.downloadService.download({ url: request.url, fileName: request.fileName });
+      sendResponse({ success: true, data: result });
+    } catch (error) {
+      console.error('[Background] Download failed:', error);
+      sendResponse({
+        success: false,
+        error: error instanceof Error ? error.message : 'Download failed',
+        cancelled: error instanceof DownloadError && error.cancelled
+      });
+    }
+  }
+
   private updateIconForTab(tabId: number, isProfilePage: boolean): void {
     // For now, use the same icons for both states since we don't have active variants
     const iconPath = {
@@ -1,45 +1,297 @@
 import express from 'express';
+import * as fs from 'fs';
+import { pipeline } from 'stream/promises';
+import { APIError, ErrorCode } from './types';
+import { createAPIError, extractUsernameFromUrl, getTemplateValidationErrors } from './utils/validation';
+import { EXPORT_FORMATS, isExportFormat, negotiateExportFormat } from './utils/exportFormats';
+import { DEFAULT_FILE_NAME_PATTERN, formatFileName, getFileNamePatternErrors } from './utils/fileNames';
+import { importTemplatePackage, TemplatePackage, TemplatePackageError } from './utils/templatePackage';
 import { NameTagGenerator } from './services/NameTagGenerator';
+import { ProfileFetcher, FixtureProfileFetcher } from './services/ProfileFetcher';
+import { PuppeteerProfileFetcher } from './services/PuppeteerProfileFetcher';
+import { JobQueue } from './services/JobQueue';
+import { JobStore, GenerationJob } from './services/JobStore';
+import { NameTagService } from './services/NameTagService';
+import { TemplateStore } from './services/TemplateStore';
 
 const app = express();
 const port = process.env.PORT || 3000;
+const defaultFileNamePattern = process.env.FILE_NAME_PATTERN || DEFAULT_FILE_NAME_PATTERN;
 
-app.use(express.json());
+app.use(express.json({ limit: '1mb' }));
 app.use(express.static('public'));
 
-const nameTagGenerator = new NameTagGenerator();
-
-app.post('/api/generate', async (req, res) => {
-  try {
-    const { profileUrl } = req.body;
-    
-    if (!profileUrl) {
-      return res.status(400).json({ 
-        success: false, 
-        error: { 
-          code: 'MISSING_URL', 
-          message: 'Profile URL is required' 
-        } 
+// HTTP status for each error code returned by the generation pipeline
+const ERROR_STATUS: Record<ErrorCode, number> = {
+  [ErrorCode.INVALID_URL]: 400,
+  [ErrorCode.PROFILE_NOT_FOUND]: 404,
+  [ErrorCode.NETWORK_ERROR]: 502,
+  [ErrorCode.RATE_LIMIT_EXCEEDED]: 429,
+  [ErrorCode.PARSING_ERROR]: 502,
+  [ErrorCode.GENERATION_ERROR]: 500,
+  [ErrorCode.STORAGE_ERROR]: 500,
+  [ErrorCode.PERMISSION_DENIED]: 403,
+  [ErrorCode.INVALID_REQUEST]: 400,
+  [ErrorCode.UNKNOWN_ERROR]: 500
+};
+
+function sendError(res: express.Response, error: APIError, status?: number) {
+  return res.status(status || ERROR_STATUS[error.code] || 500).json({
+    success: false,
+    error
+  });
+}
+
+// Job representation for API responses (the submitted profile list is omitted)
+function toJobResponse(job: GenerationJob) {
+  const { request, ...summary } = job;
+  return {
+    ...summary,
+    templateId: request.templateId
+  };
+}
+
+// Download names come from the request's `fileName` pattern, or the server default
+function getFileNamePattern(value: unknown): { pattern: string; errors: string[] } {
+  const pattern = value ?? defaultFileNamePattern;
+  return { pattern: pattern as string, errors: getFileNamePatternErrors(pattern) };
+}
+
+async function createProfileFetcher(): Promise<ProfileFetcher> {
+  // Serve profiles from local JSON fixtures instead of scraping X
+  if (process.env.PROFILE_FIXTURES_DIR) {
+    return FixtureProfileFetcher.fromDirectory(process.env.PROFILE_FIXTURES_DIR);
+  }
+  return new PuppeteerProfileFetcher();
+}
+
+// Read an uploaded template: a package zip, or a template definition as JSON
+function readTemplateUpload(req: express.Request): TemplatePackage {
+  if (Buffer.isBuffer(req.body)) {
+    return importTemplatePackage(req.body);
+  }
+
+  const errors = getTemplateValidationErrors(req.body);
+  if (errors.length) {
+    throw new TemplatePackageError(errors.map(error => ({ ...error, field: `template.${error.field}` })));
+  }
+  return { template: req.body, fonts: [] };
+}
+
+async function start() {
+  const fileNamePatternErrors = getFileNamePatternErrors(defaultFileNamePattern);
+  if (fileNamePatternErrors.length > 0) {
+    throw new Error(`Invalid FILE_NAME_PATTERN: ${fileNamePatternErrors.join(', ')}`);
+  }
+
+  const templateStore = new TemplateStore(process.env.TEMPLATES_DIR || 'data/templates');
+  await templateStore.initialize();
+
+  const nameTagService = new NameTagService(undefined, templateStore);
+  const nameTagGenerator = new NameTagGenerator(await createProfileFetcher(), nameTagService);
+  const jobRetentionHours = Number(process.env.JOB_RETENTION_HOURS);
+  const jobQueue = new JobQueue(
+    nameTagGenerator,
+    new JobStore(process.env.JOBS_DIR || 'data/jobs'),
+    jobRetentionHours > 0 ? jobRetentionHours * 60 * 60 * 1000 : JobQueue.DEFAULT_RETENTION_MS
+  );
+  await jobQueue.initialize();
+
+  // Delete expired job results hourly
+  setInterval(() => {
+    jobQueue.purgeExpired().catch(error => console.error('Error purging expired jobs:', error));
+  }, 60 * 60 * 1000).unref();
+
+  app.post('/api/generate', async (req, res) => {
+    try {
+      const { profileUrl, templateId, backSide, pdfOptions, dpi, transparent, event } = req.body;
+
+      // An explicit format wins over the Accept header; PDF unless an image is asked for
+      const format = req.body.format ?? (typeof req.query.format === 'string' ? req.query.format : undefined) ??
+        negotiateExportFormat(req.get('Accept')) ?? 'pdf';
+      res.setHeader('Vary', 'Accept');
+
+      if (!profileUrl) {
+        return sendError(res, createAPIError(ErrorCode.INVALID_URL, 'Profile URL is required'));
+      }
+
+      if (!isExportFormat(format)) {
+        return sendError(res, createAPIError(ErrorCode.INVALID_REQUEST, `format must be one of ${Object.keys(EXPORT_FORMATS).join(', ')}`));
+      }
+
+      const fileName = getFileNamePattern(req.body.fileName);
+      if (fileName.errors.length > 0) {
+        return sendError(res, createAPIError(ErrorCode.INVALID_REQUEST, fileName.errors[0], { errors: fileName.errors }));
+      }
+      const fileNameValues = {
+        username: extractUsernameFromUrl(profileUrl) || undefined,
+        event: typeof event === 'string' ? event : undefined,
+        template: nameTagService.getTemplateById(templateId || 'default')?.name
+      };
+
+      if (format !== 'pdf') {
+        const image = await nameTagGenerator.generateImage(profileUrl, { format, dpi, transparent }, { templateId });
+
+        if (!image.success || !image.data) {
+          return sendError(res, image.error || createAPIError(ErrorCode.UNKNOWN_ERROR, 'Failed to generate name tag'));
+        }
+
+        res.attachment(formatFileName(fileName.pattern, { ...fileNameValues, format }));
+        res.setHeader('Content-Type', image.data.mimeType);
+        return res.send(image.data.data);
+      }
+
+      const result = await nameTagGenerator.generateNameTag(profileUrl, { templateId, backSide, pdfOptions });
+
+      if (!result.success || !result.data) {
+        return sendError(res, result.error || createAPIError(ErrorCode.UNKNOWN_ERROR, 'Failed to generate name tag'));
+      }
+
+      res.attachment(formatFileName(fileName.pattern, { ...fileNameValues, format: 'pdf' }));
+      res.setHeader('Content-Type', 'application/pdf');
+      res.send(result.data.pdfBuffer);
+    } catch (error) {
+      console.error('Error generating name tag:', error);
+      sendError(res, createAPIError(ErrorCode.UNKNOWN_ERROR, 'Failed to generate name tag', undefined, false));
+    }
+  });
+
+  app.post('/api/batch', async (req, res) => {
+    try {
+      const { profiles, templateId, backSide, pdfOptions, event } = req.body;
+
+      if (!Array.isArray(profiles)) {
+        return sendError(res, createAPIError(ErrorCode.INVALID_REQUEST, 'profiles must be an array of profile URLs or profile objects'));
+      }
+
+      const fileName = getFileNamePattern(req.body.fileName);
+      if (fileName.errors.length > 0) {
+        return sendError(res, createAPIError(ErrorCode.INVALID_REQUEST, fileName.errors[0], { errors: fileName.errors }));
+      }
+
+      // Clients that accept PDF get the document streamed page by page instead of a JSON envelope
+      if (req.accepts(['application/json', 'application/pdf']) === 'application/pdf') {
+        const result = await nameTagGenerator.streamBatch(profiles, { templateId, backSide, pdfOptions });
+
+        if (!result.success || !result.data) {
+          return sendError(res, result.error || createAPIError(ErrorCode.UNKNOWN_ERROR, 'Failed to generate name tags'));
+        }
+
+        const { stream, nameTagCount, pageCount, manifest } = result.data;
+        res.attachment(formatFileName(fileName.pattern, {
+          format: 'pdf',
+          event: typeof event === 'string' ? event : undefined,
+          template: nameTagService.getTemplateById(templateId || 'default')?.name,
+          count: nameTagCount
+        }));
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('X-Name-Tag-Count', nameTagCount.toString());
+        res.setHeader('X-Page-Count', pageCount.toString());
+        res.setHeader('X-Failed-Count', manifest.failed.length.toString());
+
+        return pipeline(stream, res).catch(error => {
+          console.error('Error streaming name tags:', error);
+        });
+      }
+
+      const result = await nameTagGenerator.generateBatch(profiles, { templateId, backSide, pdfOptions });
+
+      if (!result.success || !result.data) {
+        return sendError(res, result.error || createAPIError(ErrorCode.UNKNOWN_ERROR, 'Failed to generate name tags'));
+      }
+
+      const { pdfBuffer, nameTagCount, pageCount, fileSize, manifest } = result.data;
+      res.json({
+        success: true,
+        data: {
+          pdf: pdfBuffer.toString('base64'),
+          nameTagCount,
+          pageCount,
+          fileSize,
+          manifest
+        }
       });
+    } catch (error) {
+      console.error('Error generating name tags:', error);
+      sendError(res, createAPIError(ErrorCode.UNKNOWN_ERROR, 'Failed to generate name tags', undefined, false));
+    }
+  });
+
+  app.post('/api/templates', express.raw({ type: ['application/zip', 'application/octet-stream'], limit: '32mb' }), async (req, res) => {
+    try {
+      const { template, fonts } = await templateStore.save(readTemplateUpload(req));
+      res.status(201).json({ success: true, data: { id: template.id, name: template.name, fonts } });
+    } catch (error) {
+      if (error instanceof TemplatePackageError) {
+        return sendError(res, createAPIError(ErrorCode.INVALID_REQUEST, error.message, { errors: error.errors }));
+      }
+      console.error('Error saving template:', error);
+      sendError(res, createAPIError(ErrorCode.STORAGE_ERROR, 'Failed to save template', undefined, false));
+    }
+  });
+
+  app.post('/api/jobs', async (req, res) => {
+    try {
+      const { profiles, templateId, backSide, pdfOptions } = req.body;
+      const result = await jobQueue.createJob({ profiles, templateId, backSide, pdfOptions });
+
+      if (!result.success || !result.data) {
+        return sendError(res, result.error || createAPIError(ErrorCode.UNKNOWN_ERROR, 'Failed to create job'));
+      }
+
+      res.status(202).json({ success: true, data: toJobResponse(result.data) });
+    } catch (error) {
+      console.error('Error creating job:', error);
+      sendError(res, createAPIError(ErrorCode.UNKNOWN_ERROR, 'Failed to create job', undefined, false));
+    }
+  });
+
+  app.get('/api/jobs/:id', (req, res) => {
+    const job = jobQueue.getJob(req.params.id);
+
+    if (!job) {
+      return sendError(res, createAPIError(ErrorCode.INVALID_REQUEST, `Job not found: ${req.params.id}`), 404);
+    }
+
+    res.json({ success: true, data: toJobResponse(job) });
+  });
+
+  app.get('/api/jobs/:id/result', (req, res) => {
+    const job = jobQueue.getJob(req.params.id);
+
+    if (!job) {
+      return sendError(res, createAPIError(ErrorCode.INVALID_REQUEST, `Job not found: ${req.params.id}`), 404);
+    }
+
+    const resultPath = jobQueue.getResultPath(job.id);
+    if (!resultPath) {
+      return sendError(res, createAPIError(ErrorCode.INVALID_REQUEST, `Job is ${job.status}, no result available`), 409);
+    }
+
+    const fileName = getFileNamePattern(req.query.fileName);
+    if (fileName.errors.length > 0) {
+      return sendError(res, createAPIError(ErrorCode.INVALID_REQUEST, fileName.errors[0], { errors: fileName.errors }));
     }
 
-    const pdfBuffer = await nameTagGenerator.generateNameTag(profileUrl);
-    
+    res.attachment(formatFileName(fileName.pattern, {
+      format: 'pdf',
+      event: typeof req.query.event === 'string' ? req.query.event : undefined,
+      template: nameTagService.getTemplateById(job.request.templateId || 'default')?.name,
+      count: job.progress.rendered,
+      date: new Date(job.createdAt)
+    }));
     res.setHeader('Content-Type', 'application/pdf');
-    res.setHeader('Content-Disposition', 'attachment; filename="name-tag.pdf"');
-    res.send(pdfBuffer);
-  } catch (error) {
-    console.error('Error generating name tag:', error);
-    res.status(500).json({ 
-      success: false, 
-      error: { 
-        code: 'GENERATION_FAILED', 
-        message: 'Failed to generate name tag' 
-      } 
+    pipeline(fs.createReadStream(resultPath), res).catch(error => {
+      console.error('Error streaming job result:', error);
     });
-  }
-});
+  });
+
+  app.listen(port, () => {
+    console.log(`Server running on port ${port}`);
+  });
+}
 
-app.listen(port, () => {
-  console.log(`Server running on port ${port}`);
-});
\ No newline at end of file
+start().catch(error => {
+  console.error('Failed to start server:', error);
+  process.exit(1);
+});
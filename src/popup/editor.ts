@@ -0,0 +1,392 @@
+import { SettingsService } from '../services/SettingsService';
+import { BrowserNameTagService } from '../services/BrowserNameTagService';
+import { TemplateLibraryService } from '../services/TemplateLibraryService';
+import { NameTagTemplate, TemplateElement, XProfile } from '../types';
+import { getDefaultTemplate } from '../utils/templates';
+import {
+  AlignmentGuide,
+  EditHistory,
+  ElementBox,
+  hitTest,
+  moveBox,
+  resizeBox,
+  ResizeHandle,
+  SnapOptions,
+  toEditableTemplate,
+  updateElementBox
+} from '../utils/templateEditor';
+
+const EDITOR_SCALE = 2; // Canvas pixels per template unit
+const HANDLE_SIZE = 8; // Pixels
+const RESIZE_CURSORS: Record<ResizeHandle, string> = {
+  n: 'ns-resize', s: 'ns-resize', e: 'ew-resize', w: 'ew-resize',
+  ne: 'nesw-resize', sw: 'nesw-resize', nw: 'nwse-resize', se: 'nwse-resize'
+};
+
+document.addEventListener('DOMContentLoaded', async () => {
+  const settingsService = new SettingsService();
+  const nameTagService = BrowserNameTagService.getInstance();
+  const templateLibrary = new TemplateLibraryService();
+
+  // DOM Elements
+  const backBtn = document.getElementById('back-btn') as HTMLButtonElement;
+  const editorTitle = document.getElementById('editor-title') as HTMLHeadingElement;
+  const undoBtn = document.getElementById('undo-btn') as HTMLButtonElement;
+  const redoBtn = document.getElementById('redo-btn') as HTMLButtonElement;
+  const gridSizeSelect = document.getElementById('grid-size') as HTMLSelectElement;
+  const showGuidesCheckbox = document.getElementById('show-guides') as HTMLInputElement;
+  const previewCanvas = document.getElementById('editor-canvas') as HTMLCanvasElement;
+  const overlayCanvas = document.getElementById('editor-overlay') as HTMLCanvasElement;
+  const selectedElementLabel = document.getElementById('selected-element') as HTMLSpanElement;
+  const elementInputs = {
+    x: document.getElementById('element-x') as HTMLInputElement,
+    y: document.getElementById('element-y') as HTMLInputElement,
+    width: document.getElementById('element-width') as HTMLInputElement,
+    height: document.getElementById('element-height') as HTMLInputElement
+  };
+  const saveBtn = document.getElementById('save-btn') as HTMLButtonElement;
+  const editorStatus = document.getElementById('editor-status') as HTMLParagraphElement;
+
+  // Sample profile for preview
+  const sampleProfile: XProfile = {
+    username: 'sampleuser',
+    displayName: 'Sample User',
+    bio: 'This is a sample profile for preview purposes.',
+    avatarUrl: '/icons/icon-128.png', // Use extension icon as placeholder
+    profileUrl: 'https://x.com/sampleuser',
+    verified: true,
+    followerCount: '1,234',
+    followingCount: '567',
+    extractedAt: new Date()
+  };
+
+  // The template named in the URL, or the default one; fixed layouts are edited as elements
+  const settings = await settingsService.loadSettings();
+  const requestedId = new URLSearchParams(window.location.search).get('template') || settings.defaultTemplate;
+  const source = await templateLibrary.getTemplate(requestedId) || getDefaultTemplate();
+
+  // Edit state. `template` runs ahead of the history while an element is dragged.
+  const edits = new EditHistory<NameTagTemplate>(toEditableTemplate(source));
+  let template = edits.present;
+  let savedTemplate = template;
+  let target = { id: source.id, name: source.name }; // Where saves go; built-in templates are saved as a copy
+  let selected: number | null = null;
+  let guides: AlignmentGuide[] = [];
+  let drag: { handle: ResizeHandle | null; startX: number; startY: number; box: ElementBox } | null = null;
+  let rendering = false;
+  let renderAgain = false;
+
+  // Render the tag as it prints; renders requested mid-render collapse into one
+  async function updatePreview() {
+    if (rendering) {
+      renderAgain = true;
+      return;
+    }
+
+    rendering = true;
+    do {
+      renderAgain = false;
+      try {
+        const canvas = await nameTagService.generateNameTag(sampleProfile, template, EDITOR_SCALE);
+        previewCanvas.width = canvas.width;
+        previewCanvas.height = canvas.height;
+        previewCanvas.getContext('2d')!.drawImage(canvas, 0, 0);
+      } catch (error) {
+        console.error('Error updating preview:', error);
+      }
+    } while (renderAgain);
+    rendering = false;
+  }
+
+  // Draw the grid, element outlines, selection handles and alignment guides over the preview
+  function drawOverlay() {
+    const { width, height } = template.dimensions;
+    overlayCanvas.width = Math.round(width * EDITOR_SCALE);
+    overlayCanvas.height = Math.round(height * EDITOR_SCALE);
+    const ctx = overlayCanvas.getContext('2d')!;
+    ctx.scale(EDITOR_SCALE, EDITOR_SCALE);
+    ctx.lineWidth = 1 / EDITOR_SCALE;
+
+    const gridSize = Number(gridSizeSelect.value);
+    if (gridSize > 0) {
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.06)';
+      ctx.beginPath();
+      for (let x = gridSize; x < width; x += gridSize) {
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x, height);
+      }
+      for (let y = gridSize; y < height; y += gridSize) {
+        ctx.moveTo(0, y);
+        ctx.lineTo(width, y);
+      }
+      ctx.stroke();
+    }
+
+    ctx.setLineDash([3 / EDITOR_SCALE, 3 / EDITOR_SCALE]);
+    ctx.strokeStyle = 'rgba(29, 161, 242, 0.5)';
+    (template.elements || []).forEach((element, index) => {
+      if (index !== selected) {
+        ctx.strokeRect(element.x, element.y, element.width, element.height);
+      }
+    });
+    ctx.setLineDash([]);
+
+    if (selected !== null) {
+      const box = getBox(selected);
+      ctx.strokeStyle = '#1da1f2';
+      ctx.strokeRect(box.x, box.y, box.width, box.height);
+
+      const size = HANDLE_SIZE / EDITOR_SCALE;
+      ctx.fillStyle = '#ffffff';
+      Object.values(getHandles(box)).forEach(point => {
+        ctx.fillRect(point.x - size / 2, point.y - size / 2, size, size);
+        ctx.strokeRect(point.x - size / 2, point.y - size / 2, size, size);
+      });
+    }
+
+    ctx.strokeStyle = '#e0245e';
+    ctx.beginPath();
+    guides.forEach(guide => {
+      if (guide.orientation === 'vertical') {
+        ctx.moveTo(guide.position, 0);
+        ctx.lineTo(guide.position, height);
+      } else {
+        ctx.moveTo(0, guide.position);
+        ctx.lineTo(width, guide.position);
+      }
+    });
+    ctx.stroke();
+  }
+
+  // Show the selected element's box and which edits can be undone
+  function updateControls() {
+    const element = selected !== null ? template.elements![selected] : null;
+    selectedElementLabel.textContent = element ? describeElement(element) : 'Select an element to move or resize it';
+    (Object.keys(elementInputs) as Array<keyof ElementBox>).forEach(key => {
+      elementInputs[key].disabled = !element;
+      elementInputs[key].value = element ? String(element[key]) : '';
+    });
+
+    undoBtn.disabled = !edits.canUndo;
+    redoBtn.disabled = !edits.canRedo;
+    editorTitle.textContent = `Edit ${target.name}`;
+  }
+
+  function refresh() {
+    drawOverlay();
+    updateControls();
+    updatePreview();
+  }
+
+  // Record an edit so it can be undone
+  function commit(next: NameTagTemplate) {
+    if (next !== edits.present) {
+      edits.push(next);
+    }
+    template = next;
+    refresh();
+  }
+
+  function restore(state: NameTagTemplate) {
+    template = state;
+    if (selected !== null && selected >= (template.elements || []).length) {
+      selected = null;
+    }
+    refresh();
+  }
+
+  function getBox(index: number): ElementBox {
+    const { x, y, width, height } = template.elements![index];
+    return { x, y, width, height };
+  }
+
+  function getHandles(box: ElementBox): Record<ResizeHandle, { x: number; y: number }> {
+    const centerX = box.x + box.width / 2;
+    const centerY = box.y + box.height / 2;
+    const right = box.x + box.width;
+    const bottom = box.y + box.height;
+    return {
+      nw: { x: box.x, y: box.y }, n: { x: centerX, y: box.y }, ne: { x: right, y: box.y },
+      w: { x: box.x, y: centerY }, e: { x: right, y: centerY },
+      sw: { x: box.x, y: bottom }, s: { x: centerX, y: bottom }, se: { x: right, y: bottom }
+    };
+  }
+
+  function findHandle(box: ElementBox, x: number, y: number): ResizeHandle | null {
+    const reach = HANDLE_SIZE / EDITOR_SCALE;
+    const handles = getHandles(box);
+    return (Object.keys(handles) as ResizeHandle[])
+      .find(handle => Math.abs(handles[handle].x - x) <= reach && Math.abs(handles[handle].y - y) <= reach) || null;
+  }
+
+  // Snap to the grid, and to the tag and the other elements when guides are on
+  function getSnapOptions(index: number): SnapOptions {
+    return {
+      gridSize: Number(gridSizeSelect.value),
+      guides: showGuidesCheckbox.checked,
+      targets: (template.elements || []).filter((_, other) => other !== index),
+      bounds: template.dimensions
+    };
+  }
+
+  function toTemplatePoint(event: PointerEvent): { x: number; y: number } {
+    const rect = overlayCanvas.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left) * template.dimensions.width / rect.width,
+      y: (event.clientY - rect.top) * template.dimensions.height / rect.height
+    };
+  }
+
+  function describeElement(element: TemplateElement): string {
+    switch (element.type) {
+      case 'text':
+        return `Text “${element.text}”`;
+      case 'image':
+        return element.src === 'avatar' ? 'Avatar' : 'Image';
+      case 'qrcode':
+        return 'QR code';
+      case 'shape':
+        return element.shape === 'ellipse' ? 'Ellipse' : 'Rectangle';
+      case 'divider':
+        return 'Divider';
+    }
+  }
+
+  // Drag to move the element under the pointer, or a handle of the selected one to resize it
+  overlayCanvas.addEventListener('pointerdown', event => {
+    const { x, y } = toTemplatePoint(event);
+    const handle = selected !== null ? findHandle(getBox(selected), x, y) : null;
+    if (!handle) {
+      selected = hitTest(template, x, y);
+    }
+
+    if (selected !== null) {
+      drag = { handle, startX: x, startY: y, box: getBox(selected) };
+      overlayCanvas.setPointerCapture(event.pointerId);
+    }
+    overlayCanvas.focus();
+    drawOverlay();
+    updateControls();
+  });
+
+  overlayCanvas.addEventListener('pointermove', event => {
+    const { x, y } = toTemplatePoint(event);
+    if (!drag || selected === null) {
+      const handle = selected !== null ? findHandle(getBox(selected), x, y) : null;
+      overlayCanvas.style.cursor = handle ? RESIZE_CURSORS[handle] : hitTest(template, x, y) !== null ? 'move' : 'default';
+      return;
+    }
+
+    const options = getSnapOptions(selected);
+    const result = drag.handle
+      ? resizeBox(drag.box, drag.handle, x - drag.startX, y - drag.startY, options)
+      : moveBox(drag.box, x - drag.startX, y - drag.startY, options);
+    template = updateElementBox(edits.present, selected, result.box);
+    guides = result.guides;
+    refresh();
+  });
+
+  const endDrag = () => {
+    if (drag) {
+      drag = null;
+      guides = [];
+      commit(template);
+    }
+  };
+  overlayCanvas.addEventListener('pointerup', endDrag);
+  overlayCanvas.addEventListener('pointercancel', endDrag);
+
+  // Arrow keys nudge the selected element, by a grid step with Shift
+  overlayCanvas.addEventListener('keydown', event => {
+    const steps: Record<string, [number, number]> = {
+      ArrowLeft: [-1, 0], ArrowRight: [1, 0], ArrowUp: [0, -1], ArrowDown: [0, 1]
+    };
+    if (selected === null || !steps[event.key]) {
+      return;
+    }
+
+    event.preventDefault();
+    const distance = event.shiftKey ? Number(gridSizeSelect.value) || 10 : 1;
+    const box = getBox(selected);
+    commit(updateElementBox(template, selected, {
+      ...box,
+      x: box.x + steps[event.key][0] * distance,
+      y: box.y + steps[event.key][1] * distance
+    }));
+  });
+
+  // Exact values from the inspector
+  (Object.keys(elementInputs) as Array<keyof ElementBox>).forEach(key => {
+    elementInputs[key].addEventListener('change', () => {
+      const value = parseFloat(elementInputs[key].value);
+      if (selected === null || !Number.isFinite(value) || ((key === 'width' || key === 'height') && value <= 0)) {
+        updateControls();
+        return;
+      }
+      commit(updateElementBox(template, selected, { ...getBox(selected), [key]: value }));
+    });
+  });
+
+  // Undo and redo
+  undoBtn.addEventListener('click', () => restore(edits.undo()));
+  redoBtn.addEventListener('click', () => restore(edits.redo()));
+
+  document.addEventListener('keydown', event => {
+    if (!(event.ctrlKey || event.metaKey) || event.target instanceof HTMLInputElement) {
+      return;
+    }
+    const key = event.key.toLowerCase();
+    if (key === 'z' && !event.shiftKey) {
+      event.preventDefault();
+      restore(edits.undo());
+    } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+      event.preventDefault();
+      restore(edits.redo());
+    }
+  });
+
+  gridSizeSelect.addEventListener('change', drawOverlay);
+  showGuidesCheckbox.addEventListener('change', drawOverlay);
+
+  // Save into the library and make the template the default. Built-in templates are
+  // saved as a new custom template, which later saves then update.
+  saveBtn.addEventListener('click', async () => {
+    saveBtn.disabled = true;
+    editorStatus.textContent = '';
+
+    try {
+      if (templateLibrary.isBuiltIn(target.id)) {
+        const name = prompt('Name for the new template:', `My ${target.name}`);
+        if (!name || !name.trim()) {
+          return;
+        }
+        const created = await templateLibrary.createTemplate(template, name.trim());
+        target = { id: created.id, name: created.name };
+        window.history.replaceState(null, '', `?template=${encodeURIComponent(created.id)}`);
+        updateControls();
+      } else {
+        await templateLibrary.saveTemplate({ ...template, ...target });
+      }
+
+      await settingsService.updateSetting('defaultTemplate', target.id);
+      savedTemplate = template;
+      editorStatus.textContent = `Saved “${target.name}” as the default template`;
+    } catch (error) {
+      console.error('Error saving template:', error);
+      editorStatus.textContent = error instanceof Error ? error.message : 'Failed to save template';
+    } finally {
+      saveBtn.disabled = false;
+    }
+  });
+
+  // Back button
+  backBtn.addEventListener('click', () => {
+    if (template !== savedTemplate && !confirm('Leave without saving your changes?')) {
+      return;
+    }
+    window.location.href = 'settings.html';
+  });
+
+  // Initialize
+  refresh();
+});
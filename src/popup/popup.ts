@@ -1,12 +1,27 @@
 import { ProfileService } from '../services/ProfileService';
 import { BrowserNameTagService } from '../services/BrowserNameTagService';
 import { BrowserPDFService } from '../services/BrowserPDFService';
+import { SettingsService } from '../services/SettingsService';
+import { TemplateLibraryService } from '../services/TemplateLibraryService';
+import { DownloadResponse } from '../services/DownloadService';
+import { PrintQueueEntry, PrintQueueService } from '../services/PrintQueueService';
+import { LABEL_SHEETS } from '../utils/labelSheets';
+import { DEFAULT_EXPORT_DPI, EXPORT_FORMATS } from '../utils/exportFormats';
+import { DEFAULT_FILE_NAME_PATTERN, formatFileName } from '../utils/fileNames';
+import { getDefaultTemplate } from '../utils/templates';
 import { isValidXProfileUrl } from '../utils/validation';
 import { getErrorMessage, formatErrorForDisplay } from '../utils/errors';
-import { XProfile, APIError, ErrorCode } from '../types';
+import { XProfile, APIError, ErrorCode, AppSettings, NameTagTemplate, ExportFormat } from '../types';
 
 document.addEventListener('DOMContentLoaded', () => {
   const profileUrlInput = document.getElementById('profile-url') as HTMLInputElement;
+  const templateSelect = document.getElementById('template-select') as HTMLSelectElement;
+  const colorInputs = {
+    backgroundColor: document.getElementById('bg-color') as HTMLInputElement,
+    textColor: document.getElementById('text-color') as HTMLInputElement,
+    accentColor: document.getElementById('accent-color') as HTMLInputElement
+  };
+  const labelSheetSelect = document.getElementById('label-sheet') as HTMLSelectElement;
   const generateBtn = document.getElementById('generate-btn') as HTMLButtonElement;
   const statusDiv = document.getElementById('status') as HTMLDivElement;
   const previewDiv = document.getElementById('preview') as HTMLDivElement;
@@ -14,8 +29,19 @@ document.addEventListener('DOMContentLoaded', () => {
   const progressBarFill = document.getElementById('progress-bar-fill') as HTMLDivElement;
   const progressText = document.getElementById('progress-text') as HTMLDivElement;
   const actionsSection = document.getElementById('actions-section') as HTMLDivElement;
+  const exportFormatSelect = document.getElementById('export-format') as HTMLSelectElement;
+  const exportDpiGroup = document.getElementById('export-dpi-group') as HTMLDivElement;
+  const exportDpiSelect = document.getElementById('export-dpi') as HTMLSelectElement;
+  const transparentGroup = document.getElementById('transparent-background-group') as HTMLLabelElement;
+  const transparentCheckbox = document.getElementById('transparent-background') as HTMLInputElement;
   const downloadBtn = document.getElementById('download-btn') as HTMLButtonElement;
   const settingsBtn = document.getElementById('settings-btn') as HTMLButtonElement;
+  const addToQueueBtn = document.getElementById('add-to-queue-btn') as HTMLButtonElement;
+  const printQueueSection = document.getElementById('print-queue-section') as HTMLDivElement;
+  const printQueueTitle = document.getElementById('print-queue-title') as HTMLHeadingElement;
+  const printQueueList = document.getElementById('print-queue-list') as HTMLOListElement;
+  const generateSheetBtn = document.getElementById('generate-sheet-btn') as HTMLButtonElement;
+  const clearQueueBtn = document.getElementById('clear-queue-btn') as HTMLButtonElement;
   
   // Error notification elements
   const errorNotification = document.getElementById('error-notification') as HTMLDivElement;
@@ -27,21 +53,106 @@ document.addEventListener('DOMContentLoaded', () => {
   const profileService = ProfileService.getInstance();
   const nameTagService = BrowserNameTagService.getInstance();
   const pdfService = BrowserPDFService.getInstance();
+  const settingsService = new SettingsService();
+  const templateLibrary = new TemplateLibraryService();
+  const printQueue = new PrintQueueService();
   
   let generatedPdfBlob: Blob | null = null;
+  let currentProfile: XProfile | null = null;
   let currentProfileUrl: string = '';
+  let settings: AppSettings = settingsService.getDefaultSettings();
+  
+  // Selected template and the colors changed for this generation
+  let selectedTemplate: NameTagTemplate = getDefaultTemplate();
+  let colorOverrides: Partial<NameTagTemplate['styles']> = {};
+  let previewVersion = 0;
+  let previewRender: Promise<void> | null = null;
+  let renderAgain = false;
+  let pendingProfile: { url: string; loaded: Promise<boolean> } | null = null;
+  let queueEntries: PrintQueueEntry[] = [];
+
+  // Offer the label sheet catalog and restore the last choice
+  LABEL_SHEETS.forEach(sheet => {
+    const option = document.createElement('option');
+    option.value = sheet.id;
+    option.textContent = `${sheet.name} – ${sheet.description}`;
+    labelSheetSelect.appendChild(option);
+  });
+
+  // Offer every download format
+  (Object.keys(EXPORT_FORMATS) as ExportFormat[]).forEach(format => {
+    exportFormatSelect.add(new Option(EXPORT_FORMATS[format].label, format));
+  });
+
+  // Offer every template for this generation, starting from the default one in settings
+  Promise.all([settingsService.loadSettings(), templateLibrary.getAllTemplates()]).then(([loaded, templates]) => {
+    settings = loaded;
+    labelSheetSelect.value = settings.labelSheet || '';
+    exportFormatSelect.value = settings.downloadFormat;
+    exportDpiSelect.value = String(settings.exportDpi || DEFAULT_EXPORT_DPI);
+    if (!exportDpiSelect.value) {
+      exportDpiSelect.value = String(DEFAULT_EXPORT_DPI);
+    }
+    transparentCheckbox.checked = Boolean(settings.transparentBackground);
+    updateExportOptions();
+
+    templates.forEach(template => templateSelect.add(new Option(template.name, template.id)));
+    templateSelect.value = settings.defaultTemplate;
+    if (!templateSelect.value) {
+      templateSelect.value = 'default';
+    }
+    return Promise.all([selectTemplate(), refreshPrintQueue()]);
+  });
+
+  // Re-render the preview as soon as the template, its colors or the paper change
+  templateSelect.addEventListener('change', () => selectTemplate());
+
+  (Object.keys(colorInputs) as Array<keyof typeof colorInputs>).forEach(key => {
+    colorInputs[key].addEventListener('input', () => {
+      colorOverrides[key] = colorInputs[key].value;
+      updatePreview();
+    });
+  });
+
+  labelSheetSelect.addEventListener('change', async () => {
+    updatePreview();
+    try {
+      await settingsService.updateSetting('labelSheet', labelSheetSelect.value || undefined);
+    } catch (error) {
+      console.error('[Popup] Failed to update label sheet:', error);
+    }
+  });
+
+  // Remember the download format and its options
+  exportFormatSelect.addEventListener('change', () => {
+    updateExportOptions();
+    saveSetting('downloadFormat', exportFormatSelect.value as ExportFormat);
+  });
+  exportDpiSelect.addEventListener('change', () => saveSetting('exportDpi', Number(exportDpiSelect.value)));
+  transparentCheckbox.addEventListener('change', () => saveSetting('transparentBackground', transparentCheckbox.checked));
 
-  // Check if we're on an X profile page and auto-fill the URL
+  // Check if we're on an X profile page, auto-fill the URL and preview its tag right away
   chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
     const currentTab = tabs[0];
     if (currentTab?.url && (currentTab.url.includes('x.com') || currentTab.url.includes('twitter.com'))) {
       profileUrlInput.value = currentTab.url;
+      if (isValidXProfileUrl(currentTab.url)) {
+        loadProfile(currentTab.url);
+      }
+    }
+  });
+
+  // Preview a profile entered by hand once the URL is complete
+  profileUrlInput.addEventListener('change', () => {
+    const profileUrl = profileUrlInput.value.trim();
+    if (isValidXProfileUrl(profileUrl) && profileUrl !== currentProfileUrl) {
+      hideError();
+      loadProfile(profileUrl);
     }
   });
 
   generateBtn.addEventListener('click', async () => {
     const profileUrl = profileUrlInput.value.trim();
-    currentProfileUrl = profileUrl;
     
     if (!profileUrl) {
       showError({
@@ -64,25 +175,55 @@ document.addEventListener('DOMContentLoaded', () => {
     }
 
     hideError();
-    showStatus('Fetching profile information...', 'loading');
     generateBtn.disabled = true;
 
     try {
-      // Fetch profile data
+      // The preview is already up when the profile was loaded with the popup
+      if ((currentProfile && profileUrl === currentProfileUrl) || await loadProfile(profileUrl)) {
+        await generateNameTag();
+      }
+    } finally {
+      generateBtn.disabled = false;
+    }
+  });
+
+  // Fetch a profile and render its tag with the selected template as soon as it arrives,
+  // before any PDF is built. Requests for the URL already being fetched share the fetch.
+  function loadProfile(profileUrl: string): Promise<boolean> {
+    if (pendingProfile?.url !== profileUrl) {
+      const loaded: Promise<boolean> = fetchProfile(profileUrl).finally(() => {
+        if (pendingProfile?.loaded === loaded) {
+          pendingProfile = null;
+        }
+      });
+      pendingProfile = { url: profileUrl, loaded };
+    }
+    return pendingProfile.loaded;
+  }
+
+  async function fetchProfile(profileUrl: string): Promise<boolean> {
+    showStatus('Fetching profile information...', 'loading');
+
+    try {
       console.log('[Popup] Fetching profile for URL:', profileUrl);
       const result = await profileService.fetchProfile(profileUrl);
       console.log('[Popup] Profile fetch result:', result);
-      
+
+      // A profile requested since replaces this one
+      if (pendingProfile?.url !== profileUrl) {
+        return false;
+      }
+
       if (result.success && result.data) {
         const profile = result.data.profile;
         showStatus(`Profile found: ${profile.displayName} (@${profile.username})`, 'success');
-        
-        // Display profile preview
-        displayProfilePreview(profile);
-        
-        // Generate name tag
-        await generateNameTag(profile);
-      } else if (result.error) {
+
+        currentProfile = profile;
+        currentProfileUrl = profileUrl;
+        await updatePreview();
+        return true;
+      }
+      if (result.error) {
         console.error('[Popup] Profile fetch error:', result.error);
         showError(result.error);
       }
@@ -95,70 +236,84 @@ document.addEventListener('DOMContentLoaded', () => {
         details: error
       });
       console.error('[Popup] Error fetching profile:', error);
-    } finally {
-      generateBtn.disabled = false;
     }
-  });
+    return false;
+  }
 
   function showStatus(message: string, type: 'success' | 'error' | 'loading') {
     statusDiv.textContent = message;
     statusDiv.className = `status ${type}`;
   }
   
-  function displayProfilePreview(profile: XProfile) {
-    // Clear previous content
-    previewDiv.innerHTML = '';
-    
-    const container = document.createElement('div');
-    container.style.cssText = 'text-align: center; margin-top: 20px;';
-    
-    const img = document.createElement('img');
-    img.src = profile.avatarUrl;
-    img.alt = profile.displayName;
-    img.style.cssText = 'width: 80px; height: 80px; border-radius: 50%;';
-    
-    const nameHeader = document.createElement('h3');
-    nameHeader.textContent = profile.displayName;
-    
-    const usernameP = document.createElement('p');
-    usernameP.textContent = `@${profile.username}`;
-    
-    container.appendChild(img);
-    container.appendChild(nameHeader);
-    container.appendChild(usernameP);
-    
-    if (profile.verified) {
-      const verifiedSpan = document.createElement('span');
-      verifiedSpan.style.color = '#1da1f2';
-      verifiedSpan.textContent = '✓ Verified';
-      container.appendChild(verifiedSpan);
+  // Use a template for this generation, starting from its own colors
+  async function selectTemplate() {
+    selectedTemplate = await templateLibrary.getTemplate(templateSelect.value || settings.defaultTemplate) || getDefaultTemplate();
+    colorOverrides = {};
+    (Object.keys(colorInputs) as Array<keyof typeof colorInputs>).forEach(key => {
+      const color = selectedTemplate.styles[key];
+      colorInputs[key].value = /^#[0-9a-f]{6}$/i.test(color) ? color : '#000000';
+    });
+    updatePreview();
+  }
+  
+  function getTemplate(): NameTagTemplate {
+    return { ...selectedTemplate, styles: { ...selectedTemplate.styles, ...colorOverrides } };
+  }
+  
+  // Render the tag and where it lands on the PDF's first page. Any change makes the
+  // generated PDF stale; renders requested mid-render collapse into one, which callers
+  // wait for along with the render in progress.
+  function updatePreview(): Promise<void> {
+    previewVersion++;
+    generatedPdfBlob = null;
+    if (!currentProfile) {
+      return Promise.resolve();
     }
-    
-    previewDiv.appendChild(container);
+    if (previewRender) {
+      renderAgain = true;
+      return previewRender;
+    }
+
+    previewRender = renderPreview().finally(() => {
+      previewRender = null;
+    });
+    return previewRender;
+  }
+
+  async function renderPreview() {
+    do {
+      renderAgain = false;
+      try {
+        const template = getTemplate();
+        const canvas = await nameTagService.generateNameTag(currentProfile!, template, window.devicePixelRatio || 1);
+        canvas.className = 'preview-tag';
+        canvas.style.width = `${template.dimensions.width}px`;
+        
+        const thumbnail = document.createElement('figure');
+        thumbnail.className = 'page-thumbnail';
+        const caption = document.createElement('figcaption');
+        caption.textContent = 'PDF page';
+        thumbnail.append(pdfService.renderPageThumbnail([canvas], getPDFOptions()), caption);
+        
+        previewDiv.replaceChildren(canvas, thumbnail);
+      } catch (error) {
+        console.error('[Popup] Error updating preview:', error);
+      }
+    } while (renderAgain);
   }
   
-  async function generateNameTag(profile: XProfile) {
+  async function generateNameTag() {
     try {
-      // Show progress
+      // Show progress; the preview was rendered when the profile arrived
       showProgress(true, 'Generating name tag...');
       updateProgress(20);
-      
-      // Generate name tag canvas
-      const canvas = await nameTagService.generateNameTag(profile);
+      await previewRender;
       updateProgress(50);
       
-      // Display canvas preview
-      previewDiv.innerHTML = '';
-      const canvasContainer = document.createElement('div');
-      canvasContainer.style.cssText = 'margin-top: 20px;';
-      canvasContainer.appendChild(canvas);
-      previewDiv.appendChild(canvasContainer);
-      
-      updateProgress(70);
-      
       // Generate PDF
       showProgress(true, 'Creating PDF...');
-      generatedPdfBlob = await pdfService.generatePDF([canvas]);
+      updateProgress(70);
+      await buildPDF();
       updateProgress(100);
       
       // Show actions
@@ -178,6 +333,44 @@ document.addEventListener('DOMContentLoaded', () => {
     }
   }
   
+  // Render the tag at the resolution it will be printed at and lay it out as a PDF,
+  // kept unless the preview changes meanwhile
+  async function buildPDF(): Promise<Blob> {
+    const version = previewVersion;
+    const template = getTemplate();
+    const scale = pdfService.getCanvasScale(template.dimensions.width, getPDFOptions());
+    const canvas = await nameTagService.generateNameTag(currentProfile!, template, scale);
+    const blob = await pdfService.generatePDF([canvas], getPDFOptions());
+    
+    if (version === previewVersion) {
+      generatedPdfBlob = blob;
+    }
+    return blob;
+  }
+  
+  // Show the options the chosen format has
+  function updateExportOptions() {
+    const format = EXPORT_FORMATS[exportFormatSelect.value as ExportFormat];
+    exportDpiGroup.style.display = format.raster ? 'block' : 'none';
+    transparentGroup.style.display = format.transparency ? 'flex' : 'none';
+    downloadBtn.textContent = `Download ${format.label}`;
+  }
+  
+  async function saveSetting<K extends keyof AppSettings>(key: K, value: AppSettings[K]) {
+    try {
+      await settingsService.updateSetting(key, value);
+    } catch (error) {
+      console.error(`[Popup] Failed to update ${key}:`, error);
+    }
+  }
+  
+  function getPDFOptions() {
+    return {
+      labelSheet: labelSheetSelect.value || undefined,
+      quality: settings.pdfQuality
+    };
+  }
+  
   function showProgress(show: boolean, message: string = 'Loading...') {
     progressSection.style.display = show ? 'block' : 'none';
     if (show) {
@@ -269,6 +462,165 @@ document.addEventListener('DOMContentLoaded', () => {
     }, 3000);
   }
   
+  // Hand a file to the background service worker, which saves it with chrome.downloads
+  // and replies once it is on disk, failed or was cancelled
+  async function saveDownload(blob: Blob, fileName: string): Promise<DownloadResponse> {
+    const url = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+
+    return new Promise(resolve => {
+      chrome.runtime.sendMessage({ action: 'download', url, fileName }, (response?: DownloadResponse) => {
+        if (chrome.runtime.lastError || !response) {
+          resolve({ success: false, error: chrome.runtime.lastError?.message || 'No response from the extension' });
+        } else {
+          resolve(response);
+        }
+      });
+    });
+  }
+  
+  // Tell the user where a download was saved, or why it wasn't
+  function reportDownload(response: DownloadResponse, label: string, fileName: string) {
+    if (response.success) {
+      const savedAs = response.data?.filename.split(/[\\/]/).pop() || fileName;
+      showSuccessToast(`${label} saved as ${savedAs}`);
+    } else if (response.cancelled) {
+      showStatus('Download cancelled', 'error');
+    } else {
+      showError({
+        code: ErrorCode.STORAGE_ERROR,
+        message: `Failed to save the ${label}: ${response.error}`,
+        timestamp: new Date(),
+        recoverable: true
+      });
+    }
+  }
+  
+  // List the queued profiles, with buttons to reorder and remove them
+  function renderPrintQueue() {
+    printQueueSection.style.display = queueEntries.length > 0 ? 'block' : 'none';
+    printQueueTitle.textContent = `Print Queue (${queueEntries.length})`;
+    generateSheetBtn.textContent = `Generate Sheet (${queueEntries.length} name tag${queueEntries.length === 1 ? '' : 's'})`;
+    printQueueList.replaceChildren(...queueEntries.map((entry, index) => {
+      const item = document.createElement('li');
+      item.className = 'print-queue-entry';
+
+      const name = document.createElement('span');
+      name.className = 'print-queue-name';
+      name.textContent = `${entry.profile.displayName} (@${entry.profile.username}) `;
+      const template = document.createElement('span');
+      template.className = 'print-queue-template';
+      template.textContent = Array.from(templateSelect.options).find(option => option.value === entry.templateId)?.text || '';
+      name.appendChild(template);
+
+      const button = (text: string, label: string, disabled: boolean, action: () => Promise<unknown>) => {
+        const element = document.createElement('button');
+        element.textContent = text;
+        element.title = label;
+        element.setAttribute('aria-label', `${label}: @${entry.profile.username}`);
+        element.disabled = disabled;
+        element.addEventListener('click', async () => {
+          await action();
+          await refreshPrintQueue();
+        });
+        return element;
+      };
+
+      item.append(
+        name,
+        button('↑', 'Move up', index === 0, () => printQueue.move(entry.id, index - 1)),
+        button('↓', 'Move down', index === queueEntries.length - 1, () => printQueue.move(entry.id, index + 1)),
+        button('×', 'Remove', false, () => printQueue.remove(entry.id))
+      );
+      return item;
+    }));
+  }
+  
+  async function refreshPrintQueue() {
+    queueEntries = await printQueue.getEntries();
+    renderPrintQueue();
+  }
+  
+  // Profiles added from the context menu while the popup is open
+  printQueue.watch(entries => {
+    queueEntries = entries;
+    renderPrintQueue();
+  });
+  
+  addToQueueBtn.addEventListener('click', async () => {
+    if (!currentProfile) {
+      return;
+    }
+
+    try {
+      await printQueue.add(currentProfile, templateSelect.value || settings.defaultTemplate);
+      await refreshPrintQueue();
+      showSuccessToast(`@${currentProfile.username} added to the print queue`);
+    } catch (error) {
+      showError({
+        code: ErrorCode.STORAGE_ERROR,
+        message: error instanceof Error ? error.message : 'Failed to add the profile to the print queue',
+        timestamp: new Date(),
+        recoverable: true
+      });
+    }
+  });
+  
+  clearQueueBtn.addEventListener('click', async () => {
+    if (confirm('Remove every profile from the print queue?')) {
+      await printQueue.clear();
+      await refreshPrintQueue();
+    }
+  });
+  
+  // Render every queued profile with its template and lay them all out in one PDF
+  generateSheetBtn.addEventListener('click', async () => {
+    const entries = queueEntries;
+    if (entries.length === 0) {
+      return;
+    }
+
+    hideError();
+    generateSheetBtn.disabled = true;
+    showProgress(true, `Rendering ${entries.length} name tags...`);
+    try {
+      const canvases: HTMLCanvasElement[] = [];
+      for (const [index, entry] of entries.entries()) {
+        const template = await templateLibrary.getTemplate(entry.templateId) || getDefaultTemplate();
+        const scale = pdfService.getCanvasScale(template.dimensions.width, getPDFOptions());
+        canvases.push(await nameTagService.generateNameTag(entry.profile, template, scale));
+        updateProgress(Math.round((index + 1) / entries.length * 90));
+      }
+
+      progressText.textContent = 'Creating PDF...';
+      const blob = await pdfService.generatePDF(canvases, getPDFOptions());
+      updateProgress(100);
+
+      const fileName = formatFileName(settings.fileNamePattern || DEFAULT_FILE_NAME_PATTERN, {
+        format: 'pdf',
+        event: settings.eventName,
+        count: canvases.length
+      });
+      reportDownload(await saveDownload(blob, fileName), 'PDF', fileName);
+    } catch (error) {
+      showError({
+        code: ErrorCode.GENERATION_ERROR,
+        message: 'Failed to create the sheet. Please try again.',
+        timestamp: new Date(),
+        recoverable: true,
+        details: error
+      });
+      console.error('Error generating print queue sheet:', error);
+    } finally {
+      showProgress(false);
+      generateSheetBtn.disabled = false;
+    }
+  });
+  
   // Error notification close button
   errorCloseBtn.addEventListener('click', () => {
     hideError();
@@ -277,15 +629,42 @@ document.addEventListener('DOMContentLoaded', () => {
   // Update download success feedback
   const originalDownloadClick = downloadBtn.onclick;
   downloadBtn.onclick = null;
-  downloadBtn.addEventListener('click', () => {
-    if (generatedPdfBlob) {
-      const url = URL.createObjectURL(generatedPdfBlob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = 'x-profile-name-tag.pdf';
-      a.click();
-      URL.revokeObjectURL(url);
-      showSuccessToast('PDF downloaded successfully!');
+  downloadBtn.addEventListener('click', async () => {
+    if (!currentProfile) {
+      return;
+    }
+
+    const format = exportFormatSelect.value as ExportFormat;
+    const { label } = EXPORT_FORMATS[format];
+    downloadBtn.disabled = true;
+    try {
+      const blob = format === 'pdf'
+        ? generatedPdfBlob || await buildPDF()
+        : await nameTagService.exportImage(currentProfile, getTemplate(), {
+          format,
+          dpi: Number(exportDpiSelect.value),
+          transparent: transparentCheckbox.checked
+        });
+
+      const fileName = formatFileName(settings.fileNamePattern || DEFAULT_FILE_NAME_PATTERN, {
+        format,
+        username: currentProfile.username,
+        displayName: currentProfile.displayName,
+        event: settings.eventName,
+        template: getTemplate().name
+      });
+      reportDownload(await saveDownload(blob, fileName), label, fileName);
+    } catch (error) {
+      showError({
+        code: ErrorCode.GENERATION_ERROR,
+        message: `Failed to create the ${label}. Please try again.`,
+        timestamp: new Date(),
+        recoverable: true,
+        details: error
+      });
+      console.error('Error exporting name tag:', error);
+    } finally {
+      downloadBtn.disabled = false;
     }
   });
 });
\ No newline at end of file
@@ -1,10 +1,17 @@
 import { SettingsService } from '../services/SettingsService';
 import { BrowserNameTagService } from '../services/BrowserNameTagService';
+import { BrowserFontRegistry } from '../services/BrowserFontRegistry';
+import { TemplateLibraryService } from '../services/TemplateLibraryService';
 import { AppSettings, NameTagTemplate, XProfile } from '../types';
+import { getDefaultTemplate } from '../utils/templates';
+import { DEFAULT_FILE_NAME_PATTERN, formatFileName, getFileNamePatternErrors } from '../utils/fileNames';
+import { exportTemplatePackage, importTemplatePackage, TemplatePackageError } from '../utils/templatePackage';
 
 document.addEventListener('DOMContentLoaded', async () => {
   const settingsService = new SettingsService();
   const nameTagService = BrowserNameTagService.getInstance();
+  const fontRegistry = BrowserFontRegistry.getInstance();
+  const templateLibrary = new TemplateLibraryService();
   
   // DOM Elements
   const backBtn = document.getElementById('back-btn') as HTMLButtonElement;
@@ -12,7 +19,16 @@ document.addEventListener('DOMContentLoaded', async () => {
   const resetBtn = document.getElementById('reset-btn') as HTMLButtonElement;
   
   // Template elements
-  const templateOptions = document.querySelectorAll('.template-option');
+  const templateGrid = document.getElementById('template-grid') as HTMLDivElement;
+  const saveTemplateAsBtn = document.getElementById('save-template-as-btn') as HTMLButtonElement;
+  const renameTemplateBtn = document.getElementById('rename-template-btn') as HTMLButtonElement;
+  const duplicateTemplateBtn = document.getElementById('duplicate-template-btn') as HTMLButtonElement;
+  const deleteTemplateBtn = document.getElementById('delete-template-btn') as HTMLButtonElement;
+  const editLayoutBtn = document.getElementById('edit-layout-btn') as HTMLButtonElement;
+  const exportTemplateBtn = document.getElementById('export-template-btn') as HTMLButtonElement;
+  const importTemplateBtn = document.getElementById('import-template-btn') as HTMLButtonElement;
+  const importTemplateInput = document.getElementById('import-template') as HTMLInputElement;
+  const templateImportErrors = document.getElementById('template-import-errors') as HTMLUListElement;
   
   // Font elements
   const fontFamilySelect = document.getElementById('font-family') as HTMLSelectElement;
@@ -20,6 +36,10 @@ document.addEventListener('DOMContentLoaded', async () => {
   const nameFontSizeValue = document.getElementById('name-font-size-value') as HTMLSpanElement;
   const usernameFontSizeInput = document.getElementById('username-font-size') as HTMLInputElement;
   const usernameFontSizeValue = document.getElementById('username-font-size-value') as HTMLSpanElement;
+  const fontUploadInput = document.getElementById('font-upload') as HTMLInputElement;
+  const fontUploadStatus = document.getElementById('font-upload-status') as HTMLSpanElement;
+  const customFontList = document.getElementById('custom-font-list') as HTMLUListElement;
+  const builtInFontCount = fontFamilySelect.options.length;
   
   // Color elements
   const bgColorInput = document.getElementById('bg-color') as HTMLInputElement;
@@ -32,24 +52,17 @@ document.addEventListener('DOMContentLoaded', async () => {
   // General settings elements
   const autoDownloadCheckbox = document.getElementById('auto-download') as HTMLInputElement;
   const pdfQualitySelect = document.getElementById('pdf-quality') as HTMLSelectElement;
+  const downloadFolderInput = document.getElementById('download-folder') as HTMLInputElement;
+  const eventNameInput = document.getElementById('event-name') as HTMLInputElement;
+  const fileNamePatternInput = document.getElementById('file-name-pattern') as HTMLInputElement;
+  const fileNamePreview = document.getElementById('file-name-preview') as HTMLSpanElement;
   
   // Preview canvas
   const previewCanvas = document.getElementById('preview-canvas') as HTMLCanvasElement;
   
   // Current settings
   let currentSettings: AppSettings;
-  let currentTemplate: Partial<NameTagTemplate> = {
-    id: 'custom',
-    name: 'Custom',
-    styles: {
-      backgroundColor: '#ffffff',
-      textColor: '#000000',
-      accentColor: '#1da1f2',
-      fontFamily: 'Arial',
-      nameFontSize: 24,
-      usernameFontSize: 18
-    }
-  };
+  let currentTemplate: NameTagTemplate = getDefaultTemplate();
   
   // Sample profile for preview
   const sampleProfile: XProfile = {
@@ -71,60 +84,139 @@ document.addEventListener('DOMContentLoaded', async () => {
     // Apply settings to UI
     autoDownloadCheckbox.checked = currentSettings.autoDownload;
     pdfQualitySelect.value = currentSettings.pdfQuality;
+    downloadFolderInput.value = currentSettings.downloadFolder || '';
+    eventNameInput.value = currentSettings.eventName || '';
+    fileNamePatternInput.value = currentSettings.fileNamePattern || DEFAULT_FILE_NAME_PATTERN;
     
     // Set default template selection
     const defaultTemplate = currentSettings.defaultTemplate || 'default';
-    selectTemplate(defaultTemplate);
-    
-    // Update preview
-    updatePreview();
+    await loadTemplates();
+    await selectTemplate(defaultTemplate);
+    updateFileNamePreview();
   }
   
-  // Template selection
-  function selectTemplate(templateId: string) {
-    templateOptions.forEach(option => {
-      option.classList.remove('selected');
-      if (option.getAttribute('data-template') === templateId) {
-        option.classList.add('selected');
-      }
+  // List uploaded fonts and offer their families in the font family select
+  async function loadCustomFonts() {
+    const fonts = await fontRegistry.load();
+    const selectedFamily = fontFamilySelect.value;
+
+    customFontList.replaceChildren(...fonts.map(font => {
+      const item = document.createElement('li');
+      const label = document.createElement('span');
+      label.textContent = `${font.family} (${font.weight})`;
+
+      const removeBtn = document.createElement('button');
+      removeBtn.textContent = 'Remove';
+      removeBtn.setAttribute('aria-label', `Remove ${font.family} ${font.weight}`);
+      removeBtn.addEventListener('click', async () => {
+        await fontRegistry.remove(font.family, font.weight);
+        await loadCustomFonts();
+        updatePreview();
+      });
+
+      item.append(label, removeBtn);
+      return item;
+    }));
+
+    while (fontFamilySelect.options.length > builtInFontCount) {
+      fontFamilySelect.remove(builtInFontCount);
+    }
+    Array.from(new Set(fonts.map(font => font.family))).forEach(family => {
+      fontFamilySelect.add(new Option(family, `"${family}"`));
     });
-    
-    // Update template-specific settings based on selection
-    switch (templateId) {
-      case 'minimal':
-        bgColorInput.value = '#ffffff';
-        bgColorText.value = '#ffffff';
-        textColorInput.value = '#333333';
-        textColorText.value = '#333333';
-        accentColorInput.value = '#666666';
-        accentColorText.value = '#666666';
-        break;
-      case 'colorful':
-        bgColorInput.value = '#667eea';
-        bgColorText.value = '#667eea';
-        textColorInput.value = '#ffffff';
-        textColorText.value = '#ffffff';
-        accentColorInput.value = '#ffd700';
-        accentColorText.value = '#ffd700';
-        break;
-      default: // default template
-        bgColorInput.value = '#ffffff';
-        bgColorText.value = '#ffffff';
-        textColorInput.value = '#000000';
-        textColorText.value = '#000000';
-        accentColorInput.value = '#1da1f2';
-        accentColorText.value = '#1da1f2';
-        break;
+    fontFamilySelect.value = selectedFamily;
+    if (!fontFamilySelect.value) {
+      fontFamilySelect.selectedIndex = 0;
     }
-    
-    currentSettings.defaultTemplate = templateId;
-    updateCurrentTemplate();
+  }
+  
+  // Offer the built-in and custom templates
+  async function loadTemplates() {
+    const templates = await templateLibrary.getAllTemplates();
+
+    templateGrid.replaceChildren(...templates.map(template => {
+      const option = document.createElement('div');
+      option.className = 'template-option';
+      option.dataset.template = template.id;
+      option.setAttribute('role', 'option');
+      option.classList.toggle('selected', template.id === currentTemplate.id);
+      option.setAttribute('aria-selected', String(template.id === currentTemplate.id));
+
+      const preview = document.createElement('div');
+      preview.className = 'template-preview';
+      if (templateLibrary.isBuiltIn(template.id)) {
+        preview.classList.add(`${template.id}-template`);
+      } else {
+        preview.style.background = template.styles.backgroundColor;
+        preview.style.borderColor = template.styles.accentColor;
+      }
+
+      const name = document.createElement('span');
+      name.textContent = template.name;
+      name.title = template.name;
+
+      option.append(preview, name);
+      option.addEventListener('click', () => selectTemplate(template.id));
+      return option;
+    }));
+  }
+  
+  // Template selection
+  async function selectTemplate(templateId: string) {
+    const template = await templateLibrary.getTemplate(templateId) || getDefaultTemplate();
+
+    currentSettings.defaultTemplate = template.id;
+    currentTemplate = { ...template, styles: { ...template.styles } };
+    templateGrid.querySelectorAll<HTMLElement>('.template-option').forEach(option => {
+      option.classList.toggle('selected', option.dataset.template === template.id);
+      option.setAttribute('aria-selected', String(option.dataset.template === template.id));
+    });
+
+    // Built-in templates can only be copied
+    const builtIn = templateLibrary.isBuiltIn(template.id);
+    renameTemplateBtn.disabled = builtIn;
+    deleteTemplateBtn.disabled = builtIn;
+
+    applyTemplateToForm(currentTemplate);
     updatePreview();
   }
   
+  // Keep the edits to a custom template; edited built-in templates are kept with Save as New
+  async function saveCurrentTemplate(): Promise<void> {
+    if (templateLibrary.isBuiltIn(currentTemplate.id)) {
+      return;
+    }
+    await templateLibrary.saveTemplate(currentTemplate);
+  }
+  
+  // Ask for a template name, null if cancelled
+  function promptTemplateName(message: string, name: string): string | null {
+    const entered = prompt(message, name);
+    return entered && entered.trim() ? entered.trim() : null;
+  }
+  
+  // Show a template's styles in the form
+  function applyTemplateToForm(template: NameTagTemplate) {
+    const { styles } = template;
+    bgColorInput.value = bgColorText.value = styles.backgroundColor;
+    textColorInput.value = textColorText.value = styles.textColor;
+    accentColorInput.value = accentColorText.value = styles.accentColor;
+
+    if (!Array.from(fontFamilySelect.options).some(option => option.value === styles.fontFamily)) {
+      fontFamilySelect.add(new Option(styles.fontFamily, styles.fontFamily));
+    }
+    fontFamilySelect.value = styles.fontFamily;
+
+    nameFontSizeInput.value = styles.nameFontSize.toString();
+    nameFontSizeValue.textContent = `${styles.nameFontSize}px`;
+    usernameFontSizeInput.value = styles.usernameFontSize.toString();
+    usernameFontSizeValue.textContent = `${styles.usernameFontSize}px`;
+  }
+  
   // Update current template with form values
   function updateCurrentTemplate() {
     currentTemplate.styles = {
+      ...currentTemplate.styles,
       backgroundColor: bgColorInput.value,
       textColor: textColorInput.value,
       accentColor: accentColorInput.value,
@@ -137,7 +229,7 @@ document.addEventListener('DOMContentLoaded', async () => {
   // Update preview canvas
   async function updatePreview() {
     try {
-      const canvas = await nameTagService.generateNameTag(sampleProfile, currentTemplate as NameTagTemplate);
+      const canvas = await nameTagService.generateNameTag(sampleProfile, currentTemplate);
       const ctx = previewCanvas.getContext('2d')!;
       
       // Set preview canvas size
@@ -151,12 +243,104 @@ document.addEventListener('DOMContentLoaded', async () => {
     }
   }
   
-  // Event listeners for template selection
-  templateOptions.forEach(option => {
-    option.addEventListener('click', () => {
-      const templateId = option.getAttribute('data-template') || 'default';
-      selectTemplate(templateId);
+  // Template library actions
+  saveTemplateAsBtn.addEventListener('click', async () => {
+    const name = promptTemplateName('Name for the new template:', templateLibrary.isBuiltIn(currentTemplate.id)
+      ? `My ${currentTemplate.name}`
+      : `${currentTemplate.name} (copy)`);
+    if (name) {
+      const created = await templateLibrary.createTemplate(currentTemplate, name);
+      await loadTemplates();
+      await selectTemplate(created.id);
+    }
+  });
+  
+  renameTemplateBtn.addEventListener('click', async () => {
+    const name = promptTemplateName('Rename template:', currentTemplate.name);
+    if (name) {
+      await saveCurrentTemplate();
+      await templateLibrary.renameTemplate(currentTemplate.id, name);
+      currentTemplate.name = name;
+      await loadTemplates();
+    }
+  });
+  
+  duplicateTemplateBtn.addEventListener('click', async () => {
+    const duplicate = await templateLibrary.duplicateTemplate(currentTemplate.id);
+    await loadTemplates();
+    await selectTemplate(duplicate.id);
+  });
+  
+  deleteTemplateBtn.addEventListener('click', async () => {
+    if (!confirm(`Delete the template "${currentTemplate.name}"?`)) {
+      return;
+    }
+
+    const wasDefault = (await settingsService.loadSettings()).defaultTemplate === currentTemplate.id;
+    await templateLibrary.deleteTemplate(currentTemplate.id);
+    if (wasDefault) {
+      await settingsService.updateSetting('defaultTemplate', 'default');
+    }
+    await loadTemplates();
+    await selectTemplate('default');
+  });
+  
+  // Open the layout editor on the current template, keeping its style edits first
+  editLayoutBtn.addEventListener('click', async () => {
+    await saveCurrentTemplate();
+    window.location.href = `editor.html?template=${encodeURIComponent(currentTemplate.id)}`;
+  });
+  
+  // Export the current template with its uploaded fonts as a package
+  exportTemplateBtn.addEventListener('click', () => {
+    const data = exportTemplatePackage({
+      template: currentTemplate,
+      fonts: fontRegistry.getFontFiles(currentTemplate.styles.fontFamily)
     });
+    const url = URL.createObjectURL(new Blob([data], { type: 'application/zip' }));
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${currentTemplate.name.replace(/[^\w-]+/g, '-').toLowerCase() || 'template'}.zip`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  });
+  
+  // Import a template package, listing every problem by field
+  importTemplateBtn.addEventListener('click', () => importTemplateInput.click());
+  
+  importTemplateInput.addEventListener('change', async () => {
+    const file = importTemplateInput.files?.[0];
+    importTemplateInput.value = '';
+    if (!file) {
+      return;
+    }
+
+    templateImportErrors.replaceChildren();
+    try {
+      const { template, fonts } = importTemplatePackage(new Uint8Array(await file.arrayBuffer()));
+      for (const font of fonts) {
+        await fontRegistry.add(font.fileName, font.data, font);
+      }
+
+      // Keep the package's id so importing an updated version replaces it
+      const imported = templateLibrary.isBuiltIn(template.id)
+        ? await templateLibrary.createTemplate(template)
+        : (await templateLibrary.saveTemplate(template), template);
+
+      await loadCustomFonts();
+      await loadTemplates();
+      await selectTemplate(imported.id);
+    } catch (error) {
+      const messages = error instanceof TemplatePackageError
+        ? error.errors.map(fieldError => `${fieldError.field} ${fieldError.message}`)
+        : [error instanceof Error ? error.message : 'Failed to import template'];
+      templateImportErrors.replaceChildren(...messages.map(message => {
+        const item = document.createElement('li');
+        item.textContent = message;
+        return item;
+      }));
+    }
   });
   
   // Event listeners for font size inputs
@@ -172,6 +356,42 @@ document.addEventListener('DOMContentLoaded', async () => {
     updatePreview();
   });
   
+  // Event listeners for font uploads
+  fontUploadInput.addEventListener('change', async () => {
+    const files = Array.from(fontUploadInput.files || []);
+    const errors: string[] = [];
+
+    for (const file of files) {
+      try {
+        await fontRegistry.upload(file);
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : `Failed to load ${file.name}`);
+      }
+    }
+
+    fontUploadStatus.textContent = errors.length ? errors.join('; ') : `Added ${files.length} font${files.length === 1 ? '' : 's'}`;
+    fontUploadInput.value = '';
+    await loadCustomFonts();
+    updateCurrentTemplate();
+    updatePreview();
+  });
+  
+  // Show what a download of the sample profile would be called
+  function updateFileNamePreview() {
+    const errors = getFileNamePatternErrors(fileNamePatternInput.value);
+    fileNamePreview.classList.toggle('invalid', errors.length > 0);
+    fileNamePreview.textContent = errors.length > 0 ? errors.join(', ') : formatFileName(fileNamePatternInput.value, {
+      format: currentSettings.downloadFormat,
+      username: sampleProfile.username,
+      displayName: sampleProfile.displayName,
+      event: eventNameInput.value,
+      template: currentTemplate.name
+    });
+  }
+
+  fileNamePatternInput.addEventListener('input', updateFileNamePreview);
+  eventNameInput.addEventListener('input', updateFileNamePreview);
+  
   // Event listeners for font family
   fontFamilySelect.addEventListener('change', () => {
     updateCurrentTemplate();
@@ -208,9 +428,14 @@ document.addEventListener('DOMContentLoaded', async () => {
       // Update settings with current values
       currentSettings.autoDownload = autoDownloadCheckbox.checked;
       currentSettings.pdfQuality = pdfQualitySelect.value as 'low' | 'medium' | 'high';
+      currentSettings.downloadFolder = downloadFolderInput.value.trim() || undefined;
+      currentSettings.eventName = eventNameInput.value.trim() || undefined;
+      currentSettings.fileNamePattern = fileNamePatternInput.value.trim() || undefined;
       
-      // Save to storage
+      // Save to storage, with the edits to a custom template
+      await saveCurrentTemplate();
       await settingsService.saveSettings(currentSettings);
+      await loadTemplates();
       
       // Show success message
       saveBtn.textContent = 'Saved!';
@@ -242,5 +467,6 @@ document.addEventListener('DOMContentLoaded', async () => {
   });
   
   // Initialize
+  await loadCustomFonts();
   await loadSettings();
 });
\ No newline at end of file
@@ -0,0 +1,157 @@
+import { FontDescriptor } from '../types';
+import { buildFontStack, detectFontFormat, formatFontFamilies, getFontFormat, parseFontFamilies, parseFontFileName, sameFamily } from '../utils/fonts';
+import { base64ToBytes, bytesToBase64, TemplatePackageFont } from '../utils/templatePackage';
+
+/**
+ * A font uploaded in the settings page, stored with its file as base64
+ */
+export interface UploadedFont extends FontDescriptor {
+  fileName: string;
+  data: string;
+}
+
+/**
+ * Fonts uploaded through the extension's settings, kept in local storage and registered
+ * with the canvas through the FontFace API, so the preview uses the same font files the
+ * server ships instead of whatever the browser's host has
+ */
+export class BrowserFontRegistry {
+  private static instance: BrowserFontRegistry;
+  private readonly storageKey = 'x-profile-name-tag-generator-fonts';
+  private fonts: UploadedFont[] | null = null;
+  private readonly faces = new Map<string, FontFace>();
+
+  public static getInstance(): BrowserFontRegistry {
+    if (!BrowserFontRegistry.instance) {
+      BrowserFontRegistry.instance = new BrowserFontRegistry();
+    }
+    return BrowserFontRegistry.instance;
+  }
+
+  private constructor() {}
+
+  /**
+   * Load the uploaded fonts and register them with the document once
+   */
+  async load(): Promise<FontDescriptor[]> {
+    if (!this.fonts) {
+      this.fonts = await this.loadFromStorage();
+    }
+    await Promise.all(this.fonts.map(font => this.addFontFace(font)));
+    return this.fonts.map(({ family, weight, format }) => ({ family, weight, format }));
+  }
+
+  /**
+   * Store an uploaded font file, replacing an earlier upload of the same family and weight
+   */
+  async upload(file: File): Promise<FontDescriptor> {
+    return this.add(file.name, new Uint8Array(await file.arrayBuffer()));
+  }
+
+  /**
+   * Store a font file, such as one from an imported template package. Family and weight
+   * are taken from the file name unless given.
+   */
+  async add(fileName: string, data: Uint8Array, descriptor?: Pick<FontDescriptor, 'family' | 'weight'>): Promise<FontDescriptor> {
+    const format = getFontFormat(fileName);
+    if (!format || detectFontFormat(data) !== format) {
+      throw new Error(`${fileName} is not a TrueType, OpenType or WOFF2 font`);
+    }
+
+    const { family, weight } = descriptor || parseFontFileName(fileName);
+    const font: UploadedFont = { family, weight, format, fileName, data: bytesToBase64(data) };
+
+    // Check the browser can use the font before keeping it
+    await this.load();
+    this.deleteFontFace(this.key(font));
+    await this.addFontFace(font);
+
+    this.fonts = [...this.fonts!.filter(other => this.key(other) !== this.key(font)), font];
+    await this.saveToStorage(this.fonts);
+    return { family, weight, format };
+  }
+
+  /**
+   * Remove an uploaded font
+   */
+  async remove(family: string, weight: 'normal' | 'bold'): Promise<void> {
+    await this.load();
+    const key = this.key({ family, weight });
+    this.deleteFontFace(key);
+
+    this.fonts = this.fonts!.filter(font => this.key(font) !== key);
+    await this.saveToStorage(this.fonts);
+  }
+
+  /**
+   * CSS font-family for a template's font family with the uploaded fonts first and as
+   * fallbacks in upload order, matching the server's font stack for the same fonts
+   */
+  getFontStack(fontFamily: string): string {
+    const families = Array.from(new Set((this.fonts || []).map(font => font.family)));
+    if (!families.length) {
+      return fontFamily;
+    }
+    return formatFontFamilies(buildFontStack(fontFamily, families, families));
+  }
+
+  /**
+   * Uploaded font files of the families in a CSS font-family list, to ship with a template
+   */
+  getFontFiles(fontFamily: string): TemplatePackageFont[] {
+    const families = parseFontFamilies(fontFamily);
+    return (this.fonts || [])
+      .filter(font => families.some(family => sameFamily(family, font.family)))
+      .map(({ family, weight, format, fileName, data }) => ({ family, weight, format, fileName, data: base64ToBytes(data) }));
+  }
+
+  private async addFontFace(font: UploadedFont): Promise<void> {
+    const key = this.key(font);
+    if (this.faces.has(key)) {
+      return;
+    }
+
+    const face = new FontFace(font.family, base64ToBytes(font.data), { weight: font.weight });
+    await face.load();
+    document.fonts.add(face);
+    this.faces.set(key, face);
+  }
+
+  private deleteFontFace(key: string): void {
+    const face = this.faces.get(key);
+    if (face) {
+      document.fonts.delete(face);
+      this.faces.delete(key);
+    }
+  }
+
+  private key(font: Pick<FontDescriptor, 'family' | 'weight'>): string {
+    return `${font.family.toLowerCase()}-${font.weight}`;
+  }
+
+  private async loadFromStorage(): Promise<UploadedFont[]> {
+    try {
+      if (typeof chrome !== 'undefined' && chrome.storage) {
+        const result = await chrome.storage.local.get(this.storageKey);
+        return result[this.storageKey] || [];
+      }
+      const stored = localStorage.getItem(this.storageKey);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Failed to load fonts:', error);
+      return [];
+    }
+  }
+
+  private async saveToStorage(fonts: UploadedFont[]): Promise<void> {
+    try {
+      if (typeof chrome !== 'undefined' && chrome.storage) {
+        await chrome.storage.local.set({ [this.storageKey]: fonts });
+      } else {
+        localStorage.setItem(this.storageKey, JSON.stringify(fonts));
+      }
+    } catch (error) {
+      throw new Error(`Failed to save fonts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
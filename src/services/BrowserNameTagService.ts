@@ -1,7 +1,15 @@
 import { XProfile, NameTagTemplate } from '../types';
+import { NameTagRenderer, RenderOptions } from './NameTagRenderer';
+import { CanvasRenderBackend } from './CanvasRenderBackend';
+import { SvgRenderBackend } from './SvgRenderBackend';
+import { BrowserFontRegistry } from './BrowserFontRegistry';
+import { getDefaultTemplate } from '../utils/templates';
+import { EXPORT_FORMATS, getExportScale, ImageExportOptions } from '../utils/exportFormats';
 
 export class BrowserNameTagService {
   private static instance: BrowserNameTagService;
+  private readonly renderer = new NameTagRenderer();
+  private readonly fonts = BrowserFontRegistry.getInstance();
 
   public static getInstance(): BrowserNameTagService {
     if (!BrowserNameTagService.instance) {
@@ -13,83 +21,93 @@ export class BrowserNameTagService {
   private constructor() {}
 
   /**
-   * Generate a name tag using Canvas API for browser environment
+   * Generate a name tag using Canvas API for browser environment, laid out from the
+   * template exactly as the server renders it
+   * @param scale Canvas pixels per template unit, to reach a print resolution
    */
-  async generateNameTag(profile: XProfile, template?: NameTagTemplate): Promise<HTMLCanvasElement> {
+  async generateNameTag(
+    profile: XProfile,
+    template: NameTagTemplate = getDefaultTemplate(),
+    scale: number = 1,
+    options: RenderOptions = {}
+  ): Promise<HTMLCanvasElement> {
+    const { width, height } = template.dimensions;
+
     // Create canvas
     const canvas = document.createElement('canvas');
     const ctx = canvas.getContext('2d')!;
-    
-    // Set canvas size (standard name tag size in pixels)
-    canvas.width = 400;
-    canvas.height = 250;
-    
-    // Fill background
-    ctx.fillStyle = template?.styles?.backgroundColor || '#ffffff';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-    
-    // Draw border
-    ctx.strokeStyle = '#e0e0e0';
-    ctx.lineWidth = 2;
-    ctx.strokeRect(1, 1, canvas.width - 2, canvas.height - 2);
-    
-    // Load and draw avatar
+
+    // Set canvas size and draw in template units
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    ctx.scale(scale, scale);
+
+    // Uploaded fonts come first, as the server's registered fonts do
+    await this.fonts.load();
+    await this.renderer.render(new CanvasRenderBackend(ctx), profile, {
+      ...template,
+      styles: { ...template.styles, fontFamily: this.fonts.getFontStack(template.styles.fontFamily) }
+    }, options);
+
+    return canvas;
+  }
+
+  /**
+   * Generate a standalone SVG of the name tag in template units, laid out like the canvas,
+   * with the avatar and images embedded as data: URIs
+   */
+  async generateSvg(profile: XProfile, template: NameTagTemplate = getDefaultTemplate(), options: RenderOptions = {}): Promise<string> {
+    await this.fonts.load();
+
+    // Fit text with the canvas' metrics so the SVG wraps lines where the preview does
+    const measurer = new CanvasRenderBackend(document.createElement('canvas').getContext('2d')!);
+    const backend = new SvgRenderBackend(template.dimensions.width, template.dimensions.height,
+      source => this.loadImageAsDataUri(source),
+      (text, style) => measurer.measureText(text, style));
+
+    await this.renderer.render(backend, profile, {
+      ...template,
+      styles: { ...template.styles, fontFamily: this.fonts.getFontStack(template.styles.fontFamily) }
+    }, options);
+
+    return backend.toString();
+  }
+
+  /**
+   * Export the name tag as a PNG or WebP at a DPI, or as SVG
+   */
+  async exportImage(profile: XProfile, template: NameTagTemplate, options: ImageExportOptions): Promise<Blob> {
+    const { mimeType } = EXPORT_FORMATS[options.format];
+    if (options.format === 'svg') {
+      return new Blob([await this.generateSvg(profile, template, options)], { type: mimeType });
+    }
+
+    const canvas = await this.generateNameTag(profile, template, getExportScale(options.dpi), options);
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error(`Failed to encode ${EXPORT_FORMATS[options.format].label}`)), mimeType, 0.9);
+    });
+  }
+
+  private async loadImageAsDataUri(source: string): Promise<string | null> {
+    if (source.startsWith('data:')) {
+      return source;
+    }
+
     try {
-      const avatarImg = new Image();
-      avatarImg.crossOrigin = 'anonymous';
-      
-      await new Promise((resolve, reject) => {
-        avatarImg.onload = resolve;
-        avatarImg.onerror = reject;
-        avatarImg.src = profile.avatarUrl;
+      const response = await fetch(source);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const blob = await response.blob();
+      return await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
       });
-      
-      // Draw circular avatar
-      const avatarSize = 80;
-      const avatarX = canvas.width / 2;
-      const avatarY = 60;
-      
-      ctx.save();
-      ctx.beginPath();
-      ctx.arc(avatarX, avatarY, avatarSize / 2, 0, Math.PI * 2);
-      ctx.clip();
-      ctx.drawImage(avatarImg, avatarX - avatarSize / 2, avatarY - avatarSize / 2, avatarSize, avatarSize);
-      ctx.restore();
     } catch (error) {
-      console.error('Failed to load avatar:', error);
-      // Draw placeholder circle
-      ctx.fillStyle = '#e0e0e0';
-      ctx.beginPath();
-      ctx.arc(canvas.width / 2, 60, 40, 0, Math.PI * 2);
-      ctx.fill();
+      console.error('Failed to load image:', source.slice(0, 100), error);
+      return null;
     }
-    
-    // Draw display name
-    ctx.fillStyle = template?.styles?.textColor || '#000000';
-    ctx.font = `bold ${template?.styles?.nameFontSize || 24}px Arial`;
-    ctx.textAlign = 'center';
-    ctx.fillText(profile.displayName, canvas.width / 2, 130);
-    
-    // Draw username
-    ctx.fillStyle = '#666666';
-    ctx.font = '18px Arial';
-    ctx.fillText(`@${profile.username}`, canvas.width / 2, 155);
-    
-    // Draw verified badge if applicable
-    if (profile.verified) {
-      ctx.fillStyle = '#1da1f2';
-      ctx.font = '16px Arial';
-      ctx.fillText('✓ Verified', canvas.width / 2, 180);
-    }
-    
-    // Draw follower count
-    if (profile.followerCount) {
-      ctx.fillStyle = '#666666';
-      ctx.font = '14px Arial';
-      const followersText = `${profile.followerCount} followers`;
-      ctx.fillText(followersText, canvas.width / 2, 210);
-    }
-    
-    return canvas;
   }
-}
\ No newline at end of file
+}
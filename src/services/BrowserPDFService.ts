@@ -1,4 +1,22 @@
 import jsPDF from 'jspdf';
+import { calculateGridLayout, fitToSlot, getPageDimensions, GridLayout, GridSpec, LayoutError, PageOrientation, PageSize } from '../utils/layout';
+import { calculateLabelSheetLayout, getLabelSheet } from '../utils/labelSheets';
+import { getQualityProfile, RenderQuality } from '../utils/quality';
+
+export interface BrowserPDFOptions {
+  pageSize: PageSize;
+  orientation: PageOrientation;
+  margin: number; // mm
+  gutter: number; // mm
+  nameTagWidth: number; // mm
+  nameTagHeight: number; // mm
+  nameTagsPerPage?: number;
+  grid?: GridSpec; // Explicit rows×columns, overrides nameTagsPerPage
+  labelSheet?: string; // Label sheet id; overrides page size, orientation and tag size
+  quality: RenderQuality; // Canvas resolution and image encoding
+}
+
+const MM_PER_INCH = 25.4;
 
 export class BrowserPDFService {
   private static instance: BrowserPDFService;
@@ -15,58 +33,142 @@ export class BrowserPDFService {
   /**
    * Generate PDF from canvases using jsPDF for browser environment
    */
-  async generatePDF(canvases: HTMLCanvasElement[]): Promise<Blob> {
+  async generatePDF(canvases: HTMLCanvasElement[], options: Partial<BrowserPDFOptions> = {}): Promise<Blob> {
+    const pdfOptions = this.getDefaultPDFOptions(options);
+    const layout = this.getPageLayout(pdfOptions);
+
+    const quality = getQualityProfile(pdfOptions.quality);
+    const imageFormat = quality.imageFormat === 'jpeg' ? 'JPEG' : 'PNG';
+
     // Create new PDF document
     const pdf = new jsPDF({
-      orientation: 'portrait',
+      orientation: pdfOptions.orientation,
       unit: 'mm',
-      format: 'a4'
+      format: pdfOptions.pageSize.toLowerCase(),
+      compress: true
     });
-    
-    const pageWidth = pdf.internal.pageSize.getWidth();
-    const pageHeight = pdf.internal.pageSize.getHeight();
-    const margin = 20;
-    
-    // Calculate layout
-    const nameTagWidth = 85; // mm (standard name tag width)
-    const nameTagHeight = 54; // mm (standard name tag height)
-    const spacing = 10; // mm
-    
-    const itemsPerRow = Math.floor((pageWidth - 2 * margin) / (nameTagWidth + spacing));
-    const itemsPerColumn = Math.floor((pageHeight - 2 * margin) / (nameTagHeight + spacing));
-    const itemsPerPage = itemsPerRow * itemsPerColumn;
-    
-    let currentPage = 0;
-    let currentPosition = 0;
-    
+
     for (let i = 0; i < canvases.length; i++) {
-      const canvas = canvases[i];
-      
-      // Calculate position on page
-      const pageIndex = Math.floor(currentPosition / itemsPerPage);
-      const positionOnPage = currentPosition % itemsPerPage;
-      const row = Math.floor(positionOnPage / itemsPerRow);
-      const col = positionOnPage % itemsPerRow;
-      
-      const x = margin + col * (nameTagWidth + spacing);
-      const y = margin + row * (nameTagHeight + spacing);
-      
+      const positionOnPage = i % layout.tagsPerPage;
+
       // Add new page if needed
-      if (pageIndex > currentPage) {
+      if (i > 0 && positionOnPage === 0) {
         pdf.addPage();
-        currentPage = pageIndex;
       }
-      
+
       // Convert canvas to data URL
-      const imgData = canvas.toDataURL('image/png');
-      
+      const imgData = canvases[i].toDataURL(`image/${quality.imageFormat}`, quality.jpegQuality / 100);
+
+      // Scale to fit the slot without distortion, centered
+      const { x, y, width, height } = fitToSlot(layout, layout.positions[positionOnPage], canvases[i].width, canvases[i].height);
+
       // Add image to PDF
-      pdf.addImage(imgData, 'PNG', x, y, nameTagWidth, nameTagHeight);
-      
-      currentPosition++;
+      pdf.addImage(imgData, imageFormat, x, y, width, height);
     }
-    
+
     // Return as blob
     return pdf.output('blob');
   }
-}
\ No newline at end of file
+
+  /**
+   * Draw the first page of the PDF that generatePDF would create for these canvases,
+   * scaled down to a thumbnail. Slots left empty are outlined to show the sheet's layout.
+   * @param width Thumbnail width in CSS pixels
+   */
+  renderPageThumbnail(canvases: HTMLCanvasElement[], options: Partial<BrowserPDFOptions> = {}, width: number = 120): HTMLCanvasElement {
+    const pdfOptions = this.getDefaultPDFOptions(options);
+    const layout = this.getPageLayout(pdfOptions);
+    const page = getPageDimensions(pdfOptions.pageSize, pdfOptions.orientation, 'mm');
+
+    // Draw in mm at the display's pixel density
+    const pixelRatio = window.devicePixelRatio || 1;
+    const scale = width * pixelRatio / page.width;
+    const thumbnail = document.createElement('canvas');
+    thumbnail.width = Math.round(page.width * scale);
+    thumbnail.height = Math.round(page.height * scale);
+    thumbnail.style.width = `${width}px`;
+
+    const ctx = thumbnail.getContext('2d')!;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, thumbnail.width, thumbnail.height);
+    ctx.scale(scale, scale);
+    ctx.strokeStyle = '#cccccc';
+    ctx.lineWidth = 0.5;
+    ctx.setLineDash([2, 2]);
+
+    layout.positions.forEach((position, index) => {
+      const canvas = canvases[index];
+      if (canvas) {
+        const { x, y, width: imageWidth, height: imageHeight } = fitToSlot(layout, position, canvas.width, canvas.height);
+        ctx.drawImage(canvas, x, y, imageWidth, imageHeight);
+      } else {
+        ctx.strokeRect(position.x, position.y, layout.tagWidth, layout.tagHeight);
+      }
+    });
+
+    return thumbnail;
+  }
+
+  /**
+   * Canvas scale that renders a tag of the given logical width at the quality's DPI
+   * once it is placed on the page
+   */
+  getCanvasScale(canvasWidth: number, options: Partial<BrowserPDFOptions> = {}): number {
+    const pdfOptions = this.getDefaultPDFOptions(options);
+    const { tagWidth } = this.getPageLayout(pdfOptions);
+    const { dpi } = getQualityProfile(pdfOptions.quality);
+
+    return (tagWidth / MM_PER_INCH) * dpi / canvasWidth;
+  }
+
+  /**
+   * Compute tag positions in mm (throws a LayoutError when the grid does not fit)
+   */
+  private getPageLayout(pdfOptions: BrowserPDFOptions): GridLayout {
+    if (pdfOptions.labelSheet) {
+      const sheet = getLabelSheet(pdfOptions.labelSheet);
+      if (!sheet) {
+        throw new LayoutError(`Unknown label sheet: ${pdfOptions.labelSheet}`);
+      }
+      return calculateLabelSheetLayout(sheet, 'mm');
+    }
+
+    const page = getPageDimensions(pdfOptions.pageSize, pdfOptions.orientation, 'mm');
+
+    return calculateGridLayout({
+      pageWidth: page.width,
+      pageHeight: page.height,
+      margin: pdfOptions.margin,
+      tagWidth: pdfOptions.nameTagWidth,
+      tagHeight: pdfOptions.nameTagHeight,
+      gutter: pdfOptions.gutter,
+      grid: pdfOptions.grid,
+      maxTagsPerPage: pdfOptions.grid ? undefined : pdfOptions.nameTagsPerPage
+    });
+  }
+
+  /**
+   * Get default PDF options with overrides
+   */
+  private getDefaultPDFOptions(options: Partial<BrowserPDFOptions>): BrowserPDFOptions {
+    const pdfOptions: BrowserPDFOptions = {
+      pageSize: 'A4',
+      orientation: 'portrait',
+      margin: 20,
+      gutter: 10,
+      nameTagWidth: 85, // mm (standard name tag width)
+      nameTagHeight: 54, // mm (standard name tag height)
+      quality: 'medium',
+      ...options
+    };
+
+    // Label sheets are printed on their own paper, always portrait
+    const sheet = pdfOptions.labelSheet ? getLabelSheet(pdfOptions.labelSheet) : null;
+    if (sheet) {
+      pdfOptions.pageSize = sheet.pageSize;
+      pdfOptions.orientation = 'portrait';
+    }
+
+    return pdfOptions;
+  }
+}
@@ -0,0 +1,117 @@
+import { Box, Paint, RenderBackend, TextStyle } from './NameTagRenderer';
+
+/**
+ * Backend that draws onto a Canvas 2D context, for previews and PDFs in the extension.
+ * Scale the context beforehand to render above one pixel per template unit.
+ */
+export class CanvasRenderBackend implements RenderBackend<HTMLImageElement> {
+  constructor(private readonly ctx: CanvasRenderingContext2D) {}
+
+  loadImage(source: string): Promise<HTMLImageElement | null> {
+    return new Promise(resolve => {
+      const image = new Image();
+      image.crossOrigin = 'anonymous';
+      image.onload = () => resolve(image);
+      image.onerror = () => {
+        console.error('Failed to load image:', source.slice(0, 100));
+        resolve(null);
+      };
+      image.src = source;
+    });
+  }
+
+  save(): void {
+    this.ctx.save();
+  }
+
+  restore(): void {
+    this.ctx.restore();
+  }
+
+  rotate(degrees: number, originX: number, originY: number): void {
+    this.ctx.translate(originX, originY);
+    this.ctx.rotate(degrees * Math.PI / 180);
+    this.ctx.translate(-originX, -originY);
+  }
+
+  drawRect(box: Box, paint: Paint, cornerRadius: number = 0): void {
+    this.ctx.beginPath();
+    if (cornerRadius) {
+      this.ctx.roundRect(box.x, box.y, box.width, box.height, cornerRadius);
+    } else {
+      this.ctx.rect(box.x, box.y, box.width, box.height);
+    }
+    this.applyPaint(paint);
+  }
+
+  drawEllipse(box: Box, paint: Paint): void {
+    this.ctx.beginPath();
+    this.ctx.ellipse(box.x + box.width / 2, box.y + box.height / 2, box.width / 2, box.height / 2, 0, 0, Math.PI * 2);
+    this.applyPaint(paint);
+  }
+
+  drawLine(x1: number, y1: number, x2: number, y2: number, color: string, width: number): void {
+    this.ctx.beginPath();
+    this.ctx.moveTo(x1, y1);
+    this.ctx.lineTo(x2, y2);
+    this.ctx.strokeStyle = color;
+    this.ctx.lineWidth = width;
+    this.ctx.stroke();
+  }
+
+  measureText(text: string, style: TextStyle): number {
+    this.ctx.font = `${style.fontWeight} ${style.fontSize}px ${style.fontFamily}`;
+    return this.ctx.measureText(text).width;
+  }
+
+  drawText(text: string, x: number, y: number, style: TextStyle): void {
+    this.ctx.font = `${style.fontWeight} ${style.fontSize}px ${style.fontFamily}`;
+    this.ctx.fillStyle = style.color;
+    this.ctx.textAlign = style.align; // 'left' and 'right' are physical sides in either direction
+    this.ctx.direction = style.direction;
+    this.ctx.textBaseline = 'alphabetic';
+    this.ctx.fillText(text, x, y);
+  }
+
+  drawImage(image: HTMLImageElement, box: Box, clip: 'rect' | 'circle'): void {
+    // Crop the source to the box's aspect ratio, like SVG's "xMidYMid slice"
+    const imageWidth = image.naturalWidth || image.width;
+    const imageHeight = image.naturalHeight || image.height;
+    const scale = Math.max(box.width / imageWidth, box.height / imageHeight);
+    const sourceWidth = box.width / scale;
+    const sourceHeight = box.height / scale;
+
+    this.ctx.save();
+    this.ctx.beginPath();
+    if (clip === 'circle') {
+      this.ctx.ellipse(box.x + box.width / 2, box.y + box.height / 2, box.width / 2, box.height / 2, 0, 0, Math.PI * 2);
+    } else {
+      this.ctx.rect(box.x, box.y, box.width, box.height);
+    }
+    this.ctx.clip();
+    this.ctx.drawImage(
+      image,
+      (imageWidth - sourceWidth) / 2,
+      (imageHeight - sourceHeight) / 2,
+      sourceWidth,
+      sourceHeight,
+      box.x,
+      box.y,
+      box.width,
+      box.height
+    );
+    this.ctx.restore();
+  }
+
+  private applyPaint(paint: Paint): void {
+    if (paint.fill) {
+      this.ctx.fillStyle = paint.fill;
+      this.ctx.fill();
+    }
+    if (paint.stroke) {
+      this.ctx.strokeStyle = paint.stroke;
+      this.ctx.lineWidth = paint.strokeWidth ?? 1;
+      this.ctx.stroke();
+    }
+  }
+}
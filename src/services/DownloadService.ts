@@ -0,0 +1,98 @@
+import { SettingsService } from './SettingsService';
+import { formatDownloadPath } from '../utils/fileNames';
+
+export interface DownloadRequest {
+  url: string; // A data: URL; blob: URLs of the popup stop working when it closes
+  fileName: string;
+}
+
+export interface DownloadResult {
+  downloadId: number;
+  filename: string; // Where the file was saved
+}
+
+/**
+ * Reply of the background service worker to a `download` message
+ */
+export interface DownloadResponse {
+  success: boolean;
+  data?: DownloadResult;
+  error?: string;
+  cancelled?: boolean;
+}
+
+/**
+ * Raised when a download does not finish; `cancelled` when the user closed the Save As
+ * dialog or cancelled the download
+ */
+export class DownloadError extends Error {
+  constructor(message: string, public readonly cancelled = false) {
+    super(message);
+    this.name = 'DownloadError';
+  }
+}
+
+/**
+ * Saves generated files with chrome.downloads from the background service worker, so
+ * downloads finish after the popup closes. Honors the auto-download and subfolder settings.
+ */
+export class DownloadService {
+  constructor(private readonly settingsService = new SettingsService()) {}
+
+  /**
+   * Start a download and wait until it completes
+   */
+  async download(request: DownloadRequest): Promise<DownloadResult> {
+    const settings = await this.settingsService.getSettings();
+
+    let downloadId: number;
+    try {
+      downloadId = await chrome.downloads.download({
+        url: request.url,
+        filename: formatDownloadPath(settings.downloadFolder, request.fileName),
+        saveAs: !settings.autoDownload,
+        conflictAction: 'uniquify'
+      });
+    } catch (error) {
+      // Closing the Save As dialog rejects the download before it starts
+      const message = error instanceof Error ? error.message : String(error);
+      throw new DownloadError(message, /cancel/i.test(message));
+    }
+
+    return this.waitForDownload(downloadId);
+  }
+
+  private waitForDownload(downloadId: number): Promise<DownloadResult> {
+    return new Promise((resolve, reject) => {
+      const finish = (item: chrome.downloads.DownloadItem) => {
+        chrome.downloads.onChanged.removeListener(listener);
+        if (item.state === 'complete') {
+          resolve({ downloadId, filename: item.filename });
+        } else {
+          const reason = item.error || 'Download interrupted';
+          reject(new DownloadError(reason, reason === 'USER_CANCELED'));
+        }
+      };
+
+      const check = async () => {
+        const [item] = await chrome.downloads.search({ id: downloadId });
+        if (!item) {
+          chrome.downloads.onChanged.removeListener(listener);
+          reject(new DownloadError('Download was removed'));
+        } else if (item.state !== 'in_progress') {
+          finish(item);
+        }
+      };
+
+      const listener = (delta: chrome.downloads.DownloadDelta) => {
+        if (delta.id === downloadId && delta.state) {
+          check().catch(reject);
+        }
+      };
+
+      chrome.downloads.onChanged.addListener(listener);
+      // Small files can finish before the listener is added
+      check().catch(reject);
+    });
+  }
+}
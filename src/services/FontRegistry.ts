@@ -0,0 +1,317 @@
+import { readdirSync, writeFileSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as fontkit from 'fontkit';
+import { FontDescriptor } from '../types';
+import { buildFontStack, formatFontFamilies, getFontFormat, needsGlyph, parseFontFamilies, sameFamily } from '../utils/fonts';
+import { getStandardFontNames, measureStandardFontText } from '../utils/fontMetrics';
+import { isEmoji, splitGraphemes } from '../utils/text';
+
+/**
+ * A registered font file with its parsed font, for glyph coverage and metrics
+ */
+export interface RegisteredFont extends FontDescriptor {
+  file: string;
+  font: fontkit.Font;
+}
+
+/**
+ * SVG path data of a line of text and its advance width
+ */
+export interface TextOutline {
+  path: string;
+  width: number;
+}
+
+/**
+ * Part of a line drawn with one font; `font` is null where no registered font has the
+ * glyphs and the renderer's own fallback applies
+ */
+export interface FontRun {
+  text: string;
+  font: RegisteredFont | null;
+}
+
+/**
+ * Fonts shipped with the deployment (TTF, OTF or WOFF2 files), made available to every
+ * server renderer: embedded into PDFs by PDFKit, outlined into the SVG for the PNG path
+ * (with librsvg finding them through fontconfig for what isn't outlined), and named in the
+ * font stacks both use. Registered fonts are tried in a
+ * fixed order, so a tag looks the same on every host that has the same font files.
+ */
+export class FontRegistry {
+  private static defaultRegistry: FontRegistry | null = null;
+
+  private readonly fonts: RegisteredFont[] = [];
+  private readonly fallbacks: string[] | null;
+  private readonly directories = new Set<string>();
+  private readonly registeredDocuments = new WeakSet<object>();
+  private fontconfigFile: string | null = null;
+
+  /**
+   * @param fallbacks Families to try, in order, for glyphs the template's fonts lack;
+   *   every registered family in registration order by default
+   */
+  constructor(fallbacks?: string[]) {
+    this.fallbacks = fallbacks || null;
+  }
+
+  /**
+   * Registry shared by the server's renderers, loaded once from the environment:
+   * `PDF_FONT_REGULAR`/`PDF_FONT_BOLD`, every font in `FONTS_DIR` (default `fonts`)
+   * and the fallback order in `FONT_FALLBACKS`
+   */
+  static getDefault(): FontRegistry {
+    if (!FontRegistry.defaultRegistry) {
+      const fallbacks = process.env.FONT_FALLBACKS ? parseFontFamilies(process.env.FONT_FALLBACKS) : undefined;
+      const registry = new FontRegistry(fallbacks);
+
+      [process.env.PDF_FONT_REGULAR, process.env.PDF_FONT_BOLD].forEach(file => {
+        if (file) {
+          registry.register(file);
+        }
+      });
+      registry.loadDirectory(process.env.FONTS_DIR || 'fonts');
+      registry.configureFontconfig();
+
+      FontRegistry.defaultRegistry = registry;
+    }
+    return FontRegistry.defaultRegistry;
+  }
+
+  /**
+   * Register a font file, reading its family and weight from the font itself unless they
+   * are given, as in a template package's manifest
+   */
+  register(file: string, descriptor?: Pick<FontDescriptor, 'family' | 'weight'>): FontDescriptor {
+    const registered = { ...this.open(file), ...(descriptor && { family: descriptor.family, weight: descriptor.weight }) };
+    const existing = this.fonts.findIndex(other => other.file === file);
+    if (existing >= 0) {
+      this.fonts.splice(existing, 1, registered);
+    } else {
+      this.fonts.push(registered);
+    }
+    return this.describe(registered);
+  }
+
+  /**
+   * Read a font file's family and weight without registering it
+   */
+  inspect(file: string): FontDescriptor {
+    return this.describe(this.open(file));
+  }
+
+  /**
+   * Forget the fonts registered from a directory, e.g. before its files are replaced
+   */
+  unregisterDirectory(directory: string): void {
+    const resolved = path.resolve(directory);
+    for (let index = this.fonts.length - 1; index >= 0; index--) {
+      if (path.resolve(path.dirname(this.fonts[index].file)) === resolved) {
+        this.fonts.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * Register every font file in a directory, in file name order. A missing directory
+   * registers nothing.
+   */
+  loadDirectory(directory: string): FontDescriptor[] {
+    let files: string[];
+    try {
+      files = readdirSync(directory).filter(file => getFontFormat(file)).sort();
+    } catch {
+      return [];
+    }
+    this.directories.add(path.resolve(directory));
+
+    return files.flatMap(file => {
+      try {
+        return [this.register(path.join(directory, file))];
+      } catch (error) {
+        console.warn(`Skipping font ${file}:`, error instanceof Error ? error.message : error);
+        return [];
+      }
+    });
+  }
+
+  /**
+   * The registered fonts, in registration order
+   */
+  list(): FontDescriptor[] {
+    return this.fonts.map(font => this.describe(font));
+  }
+
+  /**
+   * CSS font-family for a template's font family with the registered fonts in their
+   * fixed order, for SVG text. Unchanged while no fonts are registered.
+   */
+  getFontStack(fontFamily: string): string {
+    return this.fonts.length ? formatFontFamilies(this.getStackFamilies(fontFamily)) : fontFamily;
+  }
+
+  /**
+   * Split a line into runs drawn with the first font in the stack that has every glyph of
+   * each grapheme, preferring the requested weight
+   */
+  splitRuns(text: string, fontFamily: string, weight: 'normal' | 'bold'): FontRun[] {
+    const fonts = this.getStackFonts(fontFamily, weight);
+    const runs: FontRun[] = [];
+
+    for (const grapheme of splitGraphemes(text)) {
+      const codePoints = Array.from(grapheme, char => char.codePointAt(0)!).filter(needsGlyph);
+      const font = fonts.find(candidate => codePoints.every(codePoint => candidate.font.hasGlyphForCodePoint(codePoint))) || null;
+      const last = runs[runs.length - 1];
+
+      if (last && last.font === font) {
+        last.text += grapheme;
+      } else {
+        runs.push({ text: grapheme, font });
+      }
+    }
+    return runs;
+  }
+
+  /**
+   * First font in the stack with every glyph of the text, or null if none has them all
+   */
+  findFont(text: string, fontFamily: string, weight: 'normal' | 'bold'): RegisteredFont | null {
+    const codePoints = Array.from(text, char => char.codePointAt(0)!).filter(needsGlyph);
+    return this.getStackFonts(fontFamily, weight)
+      .find(candidate => codePoints.every(codePoint => candidate.font.hasGlyphForCodePoint(codePoint))) || null;
+  }
+
+  /**
+   * Width of a line with the registered fonts' metrics; text no registered font covers
+   * is measured with the PDF standard fonts
+   */
+  measureText(text: string, fontFamily: string, weight: 'normal' | 'bold', fontSize: number): number {
+    return this.splitRuns(text, fontFamily, weight).reduce((width, run) => {
+      if (!run.font || splitGraphemes(run.text).some(isEmoji)) {
+        return width + measureStandardFontText(run.text, fontFamily, weight, fontSize);
+      }
+      return width + run.font.font.layout(run.text).advanceWidth * fontSize / run.font.font.unitsPerEm;
+    }, 0);
+  }
+
+  /**
+   * Outline of a left-to-right line drawn with the registered fonts, as SVG path data with
+   * the baseline starting at the origin, so raster output uses the same font files as the
+   * PDFs. Null when part of the line has no registered font or is emoji, which only
+   * fontconfig can draw.
+   */
+  outlineText(text: string, fontFamily: string, weight: 'normal' | 'bold', fontSize: number): TextOutline | null {
+    const runs = this.splitRuns(text, fontFamily, weight);
+    if (!runs.length || runs.some(run => !run.font || splitGraphemes(run.text).some(isEmoji))) {
+      return null;
+    }
+
+    const paths: string[] = [];
+    let x = 0;
+    for (const run of runs) {
+      const font = run.font!.font;
+      const scale = fontSize / font.unitsPerEm;
+      const { glyphs, positions } = font.layout(run.text);
+
+      glyphs.forEach((glyph, index) => {
+        const { xAdvance, xOffset, yOffset } = positions[index];
+        // Font units point up; SVG units point down
+        paths.push(glyph.path.scale(scale, -scale).translate(x + xOffset * scale, -yOffset * scale).toSVG());
+        x += xAdvance * scale;
+      });
+    }
+    return { path: paths.join(''), width: x };
+  }
+
+  /**
+   * Register the fonts with a PDFKit document once; PDFKit subsets them on output
+   */
+  registerWithPdf(doc: any): void {
+    if (this.registeredDocuments.has(doc)) {
+      return;
+    }
+
+    this.fonts.forEach(font => doc.registerFont(this.getPdfFontName(font, font.family, font.weight), font.file));
+    this.registeredDocuments.add(doc);
+  }
+
+  /**
+   * Name a run's font is registered under in PDFs, or the closest standard font
+   */
+  getPdfFontName(font: RegisteredFont | null, fontFamily: string, weight: 'normal' | 'bold'): string {
+    if (!font) {
+      const standard = getStandardFontNames(fontFamily);
+      return weight === 'bold' ? standard.bold : standard.regular;
+    }
+    return `${font.family}-${font.weight}`;
+  }
+
+  /**
+   * Point fontconfig, which librsvg uses to find fonts for sharp, at the loaded font
+   * directories and the directories of the registered fonts in addition to the system
+   * fonts. Has no effect once fontconfig has loaded, so call it before the first render;
+   * a FONTCONFIG_FILE set outside this registry is kept.
+   */
+  configureFontconfig(): void {
+    const directories = Array.from(new Set([
+      ...this.directories,
+      ...this.fonts.map(font => path.resolve(path.dirname(font.file)))
+    ]));
+    if (!directories.length || (process.env.FONTCONFIG_FILE && process.env.FONTCONFIG_FILE !== this.fontconfigFile)) {
+      return;
+    }
+
+    const file = path.join(os.tmpdir(), `x-card-generator-fonts-${process.pid}.conf`);
+    writeFileSync(file, [
+      '<?xml version="1.0"?>',
+      '<!DOCTYPE fontconfig SYSTEM "fonts.dtd">',
+      '<fontconfig>',
+      '  <include ignore_missing="yes">/etc/fonts/fonts.conf</include>',
+      ...directories.map(directory => `  <dir>${directory.replace(/&/g, '&amp;').replace(/</g, '&lt;')}</dir>`),
+      '</fontconfig>',
+      ''
+    ].join('\n'));
+    process.env.FONTCONFIG_FILE = file;
+    this.fontconfigFile = file;
+  }
+
+  private getStackFamilies(fontFamily: string): string[] {
+    const registered = this.fonts.map(font => font.family);
+    const fallbacks = this.fallbacks || Array.from(new Set(registered));
+    return buildFontStack(fontFamily, registered, fallbacks);
+  }
+
+  /**
+   * Registered fonts in stack order, each family's font of the requested weight first
+   */
+  private getStackFonts(fontFamily: string, weight: 'normal' | 'bold'): RegisteredFont[] {
+    return this.getStackFamilies(fontFamily).flatMap(family => this.fonts
+      .filter(font => sameFamily(font.family, family))
+      .sort((a, b) => Number(b.weight === weight) - Number(a.weight === weight)));
+  }
+
+  private open(file: string): RegisteredFont {
+    const format = getFontFormat(file);
+    if (!format) {
+      throw new Error(`Unsupported font file: ${path.basename(file)}`);
+    }
+
+    const font = fontkit.openSync(file);
+    if (!('familyName' in font)) {
+      throw new Error(`Font collections are not supported: ${path.basename(file)}`);
+    }
+
+    return {
+      family: font.familyName,
+      weight: (font['OS/2']?.usWeightClass ?? 400) >= 600 ? 'bold' : 'normal',
+      format,
+      file,
+      font
+    };
+  }
+
+  private describe(font: RegisteredFont): FontDescriptor {
+    return { family: font.family, weight: font.weight, format: font.format };
+  }
+}
@@ -0,0 +1,238 @@
+import { randomUUID } from 'crypto';
+import { APIResponse, ErrorCode } from '../types';
+import { createAPIError } from '../utils/validation';
+import { logError } from '../utils/errors';
+import { NameTagGenerator } from './NameTagGenerator';
+import { JobStore, GenerationJob, JobRequest, JobProgress } from './JobStore';
+
+/**
+ * Runs large batch generations in the background, one job at a time.
+ * Jobs are persisted through `JobStore`; unfinished jobs are re-queued on startup.
+ * Finished jobs and their PDFs are deleted once they are older than the retention period.
+ */
+export class JobQueue {
+  static readonly MAX_JOB_SIZE = 2000;
+  static readonly DEFAULT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+  private readonly generator: NameTagGenerator;
+  private readonly store: JobStore;
+  private readonly retentionMs: number;
+  private readonly jobs: Map<string, GenerationJob> = new Map();
+  private readonly pending: string[] = [];
+  private processing: Promise<void> | null = null;
+
+  constructor(generator: NameTagGenerator, store: JobStore, retentionMs: number = JobQueue.DEFAULT_RETENTION_MS) {
+    this.generator = generator;
+    this.store = store;
+    this.retentionMs = retentionMs;
+  }
+
+  /**
+   * Load persisted jobs and resume any that were queued or running
+   */
+  async initialize(): Promise<void> {
+    await this.store.initialize();
+
+    for (const job of await this.store.loadAll()) {
+      this.jobs.set(job.id, job);
+
+      if (job.status === 'queued' || job.status === 'running') {
+        job.status = 'queued';
+        job.progress = this.createProgress(job.request);
+        await this.store.save(job);
+        this.pending.push(job.id);
+      }
+    }
+
+    await this.purgeExpired();
+    this.startProcessing();
+  }
+
+  /**
+   * Delete completed and failed jobs that finished longer ago than the retention period.
+   * Returns the ids of the deleted jobs.
+   */
+  async purgeExpired(now: number = Date.now()): Promise<string[]> {
+    const expired = Array.from(this.jobs.values()).filter(job =>
+      (job.status === 'completed' || job.status === 'failed') &&
+      now - Date.parse(job.completedAt || job.updatedAt) > this.retentionMs);
+
+    const deleted: string[] = [];
+    for (const job of expired) {
+      try {
+        await this.store.delete(job.id);
+        this.jobs.delete(job.id);
+        deleted.push(job.id);
+      } catch (error) {
+        logError('JobQueue.purgeExpired', error);
+      }
+    }
+    return deleted;
+  }
+
+  /**
+   * Queue a new generation job
+   */
+  async createJob(request: JobRequest): Promise<APIResponse<GenerationJob>> {
+    if (!request || !Array.isArray(request.profiles) || request.profiles.length === 0) {
+      return {
+        success: false,
+        error: createAPIError(ErrorCode.INVALID_REQUEST, 'profiles must be a non-empty array')
+      };
+    }
+
+    if (request.profiles.length > JobQueue.MAX_JOB_SIZE) {
+      return {
+        success: false,
+        error: createAPIError(
+          ErrorCode.INVALID_REQUEST,
+          `Job size ${request.profiles.length} exceeds the limit of ${JobQueue.MAX_JOB_SIZE} profiles`
+        )
+      };
+    }
+
+    const now = new Date().toISOString();
+    const job: GenerationJob = {
+      id: randomUUID(),
+      status: 'queued',
+      request: {
+        profiles: request.profiles,
+        templateId: request.templateId,
+        backSide: request.backSide,
+        pdfOptions: request.pdfOptions
+      },
+      progress: this.createProgress(request),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    try {
+      await this.store.save(job);
+    } catch (error) {
+      logError('JobQueue.createJob', error);
+      return {
+        success: false,
+        error: createAPIError(ErrorCode.STORAGE_ERROR, 'Failed to persist job', undefined, false)
+      };
+    }
+
+    const snapshot = { ...job };
+    this.jobs.set(job.id, job);
+    this.pending.push(job.id);
+    this.startProcessing();
+
+    return {
+      success: true,
+      data: snapshot
+    };
+  }
+
+  /**
+   * Get a job by id
+   */
+  getJob(id: string): GenerationJob | null {
+    return this.jobs.get(id) || null;
+  }
+
+  /**
+   * Get the PDF path of a completed job
+   */
+  getResultPath(id: string): string | null {
+    const job = this.jobs.get(id);
+    return job?.status === 'completed' ? this.store.resultPath(id) : null;
+  }
+
+  /**
+   * Resolve once every queued job has finished
+   */
+  async whenIdle(): Promise<void> {
+    while (this.processing) {
+      await this.processing;
+    }
+  }
+
+  private startProcessing(): void {
+    if (this.processing || this.pending.length === 0) {
+      return;
+    }
+
+    this.processing = this.processPending().finally(() => {
+      this.processing = null;
+    });
+  }
+
+  private async processPending(): Promise<void> {
+    while (this.pending.length > 0) {
+      const job = this.jobs.get(this.pending.shift()!);
+      if (job) {
+        await this.runJob(job);
+      }
+    }
+  }
+
+  private async runJob(job: GenerationJob): Promise<void> {
+    try {
+      await this.updateJob(job, { status: 'running' });
+
+      const result = await this.generator.streamBatch(job.request.profiles, {
+        templateId: job.request.templateId,
+        backSide: job.request.backSide,
+        pdfOptions: job.request.pdfOptions,
+        maxBatchSize: JobQueue.MAX_JOB_SIZE,
+        onProgress: progress => {
+          job.progress = { ...job.progress, ...progress };
+          job.updatedAt = new Date().toISOString();
+        }
+      });
+
+      if (!result.success || !result.data) {
+        await this.updateJob(job, {
+          status: 'failed',
+          error: result.error,
+          completedAt: new Date().toISOString()
+        });
+        return;
+      }
+
+      await this.store.writeResult(job.id, result.data.stream);
+      await this.updateJob(job, {
+        status: 'completed',
+        manifest: result.data.manifest,
+        progress: {
+          ...job.progress,
+          rendered: result.data.nameTagCount,
+          failed: result.data.manifest.failed.length,
+          pages: result.data.pageCount
+        },
+        completedAt: new Date().toISOString()
+      });
+    } catch (error) {
+      logError('JobQueue.runJob', error);
+      await this.updateJob(job, {
+        status: 'failed',
+        error: createAPIError(
+          ErrorCode.GENERATION_ERROR,
+          error instanceof Error ? error.message : 'Failed to generate job result',
+          undefined,
+          false
+        ),
+        completedAt: new Date().toISOString()
+      }).catch(saveError => logError('JobQueue.runJob', saveError));
+    }
+  }
+
+  private async updateJob(job: GenerationJob, changes: Partial<GenerationJob>): Promise<void> {
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+    await this.store.save(job);
+  }
+
+  private createProgress(request: JobRequest): JobProgress {
+    return {
+      total: request.profiles.length,
+      resolved: 0,
+      rendered: 0,
+      failed: 0,
+      pages: 0
+    };
+  }
+}
@@ -0,0 +1,144 @@
+import { promises as fs, createWriteStream } from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { APIError, BatchProfileResult, NameTagBackSide } from '../types';
+import { PDFOptions } from './PDFService';
+import { BatchEntry } from './NameTagGenerator';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface JobRequest {
+  profiles: BatchEntry[];
+  templateId?: string;
+  backSide?: NameTagBackSide;
+  pdfOptions?: Partial<PDFOptions>;
+}
+
+export interface JobProgress {
+  total: number;
+  resolved: number;
+  rendered: number;
+  failed: number;
+  pages: number;
+}
+
+export interface GenerationJob {
+  id: string;
+  status: JobStatus;
+  request: JobRequest;
+  progress: JobProgress;
+  manifest?: BatchProfileResult;
+  error?: APIError;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+/**
+ * Persists generation jobs and their finished PDFs on disk so they survive restarts.
+ * Each job is stored as `<id>.json` with its result next to it as `<id>.pdf`.
+ */
+export class JobStore {
+  private readonly directory: string;
+  private static readonly JOB_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  /**
+   * Create the storage directory if needed
+   */
+  async initialize(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+  }
+
+  /**
+   * Write a job record, replacing the previous version atomically
+   */
+  async save(job: GenerationJob): Promise<void> {
+    const target = this.jobPath(job.id);
+    const temp = `${target}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(job, null, 2));
+    await fs.rename(temp, target);
+  }
+
+  /**
+   * Load a single job record
+   */
+  async load(id: string): Promise<GenerationJob | null> {
+    if (!JobStore.isValidJobId(id)) {
+      return null;
+    }
+
+    try {
+      const contents = await fs.readFile(this.jobPath(id), 'utf8');
+      return JSON.parse(contents) as GenerationJob;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Load every stored job record, oldest first
+   */
+  async loadAll(): Promise<GenerationJob[]> {
+    const files = await fs.readdir(this.directory);
+    const jobs: GenerationJob[] = [];
+
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      const job = await this.load(path.basename(file, '.json'));
+      if (job) {
+        jobs.push(job);
+      }
+    }
+
+    return jobs.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Stream the finished PDF for a job to disk; the file only appears once complete
+   */
+  async writeResult(id: string, pdfStream: Readable): Promise<void> {
+    const target = this.resultPath(id);
+    const temp = `${target}.tmp`;
+
+    try {
+      await pipeline(pdfStream, createWriteStream(temp));
+      await fs.rename(temp, target);
+    } catch (error) {
+      await fs.rm(temp, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a job record and its PDF
+   */
+  async delete(id: string): Promise<void> {
+    if (!JobStore.isValidJobId(id)) {
+      throw new Error(`Invalid job id: ${id}`);
+    }
+    await fs.rm(this.resultPath(id), { force: true });
+    await fs.rm(this.jobPath(id), { force: true });
+  }
+
+  /**
+   * Path of the finished PDF for a job
+   */
+  resultPath(id: string): string {
+    if (!JobStore.isValidJobId(id)) {
+      throw new Error(`Invalid job id: ${id}`);
+    }
+    return path.join(this.directory, `${id}.pdf`);
+  }
+
+  static isValidJobId(id: string): boolean {
+    return JobStore.JOB_ID_PATTERN.test(id);
+  }
+
+  private jobPath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+}
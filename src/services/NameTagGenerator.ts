@@ -1,9 +1,438 @@
-import { ProfileData, NameTagData } from '../types';
+import { XProfile, NameTagTemplate, NameTagBackSide, APIResponse, APIError, BatchProfileResult, ErrorCode } from '../types';
+import { isValidXProfileUrl, validateXProfile, createAPIError } from '../utils/validation';
+import { getErrorMessage, logError } from '../utils/errors';
+import { LayoutError } from '../utils/layout';
+import { EXPORT_FORMATS, getImageExportErrors, ImageExportOptions } from '../utils/exportFormats';
+import { ProfileFetcher } from './ProfileFetcher';
+import { NameTagService } from './NameTagService';
+import { PDFService, PDFOptions, PDFGenerationResult, PDFStreamResult } from './PDFService';
 
+export interface NameTagGenerationOptions {
+  template?: NameTagTemplate;
+  templateId?: string;
+  backSide?: NameTagBackSide; // Back design for duplex output, replacing the template's
+  pdfOptions?: Partial<PDFOptions>;
+}
+
+export interface BatchGenerationOptions extends NameTagGenerationOptions {
+  maxBatchSize?: number;
+  onProgress?: (progress: BatchProgress) => void;
+}
+
+export interface BatchProgress {
+  total: number;
+  resolved: number;
+  failed: number;
+  rendered: number;
+  pages: number; // Written so far
+}
+
+/**
+ * A batch entry is either a profile URL to resolve or an inline profile
+ */
+export type BatchEntry = string | XProfile;
+
+export interface ImageGenerationResult {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface BatchGenerationResult extends PDFGenerationResult {
+  manifest: BatchProfileResult;
+}
+
+export interface BatchStreamResult extends PDFStreamResult {
+  manifest: BatchProfileResult;
+}
+
+/**
+ * Server-side pipeline: profile URL -> XProfile -> rendered tag -> PDF
+ */
 export class NameTagGenerator {
-  async generateNameTag(profileUrl: string): Promise<Buffer> {
-    // This is a placeholder implementation
-    // Will be implemented in subsequent tasks
-    throw new Error('Not implemented yet');
+  static readonly MAX_BATCH_SIZE = 200;
+
+  private readonly profileFetcher: ProfileFetcher;
+  private readonly nameTagService: NameTagService;
+  private readonly pdfService: PDFService;
+
+  constructor(
+    profileFetcher: ProfileFetcher,
+    nameTagService: NameTagService = new NameTagService(),
+    pdfService: PDFService = new PDFService()
+  ) {
+    this.profileFetcher = profileFetcher;
+    this.nameTagService = nameTagService;
+    this.pdfService = pdfService;
+  }
+
+  /**
+   * Generate a single name tag PDF for a profile URL
+   */
+  async generateNameTag(
+    profileUrl: string,
+    options: NameTagGenerationOptions = {}
+  ): Promise<APIResponse<PDFGenerationResult>> {
+    if (!isValidXProfileUrl(profileUrl)) {
+      return {
+        success: false,
+        error: createAPIError(ErrorCode.INVALID_URL, `Invalid X profile URL: ${profileUrl}`)
+      };
+    }
+
+    const resolved = this.resolveOptions(options);
+    if (!resolved.success || !resolved.data) {
+      return { success: false, error: resolved.error };
+    }
+
+    const profileResult = await this.resolveProfile(profileUrl);
+    if (!profileResult.success || !profileResult.data) {
+      return { success: false, error: profileResult.error };
+    }
+
+    try {
+      const result = await this.pdfService.generateSingleNameTagPDF(
+        profileResult.data,
+        resolved.data.template,
+        options.pdfOptions
+      );
+
+      return {
+        success: true,
+        data: result
+      };
+    } catch (error) {
+      logError('NameTagGenerator.generateNameTag', error);
+      return {
+        success: false,
+        error: this.createGenerationError(error)
+      };
+    }
+  }
+
+  /**
+   * Generate a single name tag as a PNG, WebP or SVG image for a profile URL
+   */
+  async generateImage(
+    profileUrl: string,
+    imageOptions: ImageExportOptions,
+    options: NameTagGenerationOptions = {}
+  ): Promise<APIResponse<ImageGenerationResult>> {
+    if (!isValidXProfileUrl(profileUrl)) {
+      return {
+        success: false,
+        error: createAPIError(ErrorCode.INVALID_URL, `Invalid X profile URL: ${profileUrl}`)
+      };
+    }
+
+    const errors = getImageExportErrors(imageOptions);
+    if (errors.length) {
+      return {
+        success: false,
+        error: createAPIError(ErrorCode.INVALID_REQUEST, errors.join('; '), { errors })
+      };
+    }
+
+    const resolved = this.resolveOptions(options);
+    if (!resolved.success || !resolved.data) {
+      return { success: false, error: resolved.error };
+    }
+
+    const profileResult = await this.resolveProfile(profileUrl);
+    if (!profileResult.success || !profileResult.data) {
+      return { success: false, error: profileResult.error };
+    }
+
+    try {
+      const data = await this.nameTagService.exportImage(profileResult.data, resolved.data.template, imageOptions);
+
+      return {
+        success: true,
+        data: { data, mimeType: EXPORT_FORMATS[imageOptions.format].mimeType }
+      };
+    } catch (error) {
+      logError('NameTagGenerator.generateImage', error);
+      return {
+        success: false,
+        error: this.createGenerationError(error)
+      };
+    }
+  }
+
+  /**
+   * Generate one multi-page PDF for a list of profile URLs and/or inline profiles.
+   * Entries that cannot be resolved are reported in the manifest instead of failing the batch.
+   */
+  async generateBatch(
+    entries: BatchEntry[],
+    options: BatchGenerationOptions = {}
+  ): Promise<APIResponse<BatchGenerationResult>> {
+    const prepared = await this.prepareBatch(entries, options);
+    if (!prepared.success || !prepared.data) {
+      return { success: false, error: prepared.error };
+    }
+
+    const { template, manifest } = prepared.data;
+
+    try {
+      const result = await this.pdfService.generateMultipleNameTagsPDF(
+        manifest.successful.map(item => item.profile),
+        template,
+        options.pdfOptions,
+        rendered => this.reportProgress(options, entries, manifest, rendered)
+      );
+      this.reportProgress(options, entries, manifest, result.nameTagCount, result.pageCount);
+
+      return {
+        success: true,
+        data: {
+          ...result,
+          manifest
+        }
+      };
+    } catch (error) {
+      logError('NameTagGenerator.generateBatch', error);
+      return {
+        success: false,
+        error: this.createGenerationError(error)
+      };
+    }
+  }
+
+  /**
+   * Like `generateBatch`, but returns the PDF as a stream that is rendered page by page.
+   * Profiles are resolved up front so errors can still be reported before any output is sent.
+   */
+  async streamBatch(
+    entries: BatchEntry[],
+    options: BatchGenerationOptions = {}
+  ): Promise<APIResponse<BatchStreamResult>> {
+    const prepared = await this.prepareBatch(entries, options);
+    if (!prepared.success || !prepared.data) {
+      return { success: false, error: prepared.error };
+    }
+
+    const { template, manifest } = prepared.data;
+
+    try {
+      let rendered = 0;
+      let pages = 0;
+      const result = this.pdfService.createMultipleNameTagsPDFStream(
+        manifest.successful.map(item => item.profile),
+        template,
+        options.pdfOptions,
+        count => {
+          rendered = count;
+          this.reportProgress(options, entries, manifest, rendered, pages);
+        },
+        count => {
+          pages = count;
+          this.reportProgress(options, entries, manifest, rendered, pages);
+        }
+      );
+
+      return {
+        success: true,
+        data: {
+          ...result,
+          manifest
+        }
+      };
+    } catch (error) {
+      logError('NameTagGenerator.streamBatch', error);
+      return {
+        success: false,
+        error: this.createGenerationError(error)
+      };
+    }
+  }
+
+  /**
+   * Validate a batch request and resolve every entry into a profile
+   */
+  private async prepareBatch(
+    entries: BatchEntry[],
+    options: BatchGenerationOptions
+  ): Promise<APIResponse<{ template: NameTagTemplate; manifest: BatchProfileResult }>> {
+    const maxBatchSize = options.maxBatchSize || NameTagGenerator.MAX_BATCH_SIZE;
+
+    if (!Array.isArray(entries) || entries.length === 0) {
+      return {
+        success: false,
+        error: createAPIError(ErrorCode.INVALID_REQUEST, 'At least one profile is required')
+      };
+    }
+
+    if (entries.length > maxBatchSize) {
+      return {
+        success: false,
+        error: createAPIError(
+          ErrorCode.INVALID_REQUEST,
+          `Batch size ${entries.length} exceeds the limit of ${maxBatchSize} profiles`
+        )
+      };
+    }
+
+    const resolved = this.resolveOptions(options);
+    if (!resolved.success || !resolved.data) {
+      return { success: false, error: resolved.error };
+    }
+
+    const manifest: BatchProfileResult = {
+      successful: [],
+      failed: []
+    };
+
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+
+      if (typeof entry === 'string') {
+        const profileResult = await this.resolveProfile(entry);
+
+        if (profileResult.success && profileResult.data) {
+          manifest.successful.push({ profile: profileResult.data, fromCache: false });
+        } else {
+          manifest.failed.push({ url: entry, error: profileResult.error! });
+        }
+      } else {
+        const profile = validateXProfile(entry);
+
+        if (profile) {
+          manifest.successful.push({ profile, fromCache: true });
+        } else {
+          manifest.failed.push({
+            url: typeof entry?.profileUrl === 'string' ? entry.profileUrl : `profiles[${i}]`,
+            error: createAPIError(ErrorCode.INVALID_REQUEST, `Invalid inline profile at index ${i}`)
+          });
+        }
+      }
+
+      this.reportProgress(options, entries, manifest, 0);
+    }
+
+    if (manifest.successful.length === 0) {
+      return {
+        success: false,
+        error: createAPIError(
+          ErrorCode.PROFILE_NOT_FOUND,
+          'None of the requested profiles could be resolved',
+          manifest
+        )
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        template: resolved.data.template,
+        manifest
+      }
+    };
+  }
+
+  private reportProgress(
+    options: BatchGenerationOptions,
+    entries: BatchEntry[],
+    manifest: BatchProfileResult,
+    rendered: number,
+    pages = 0
+  ): void {
+    options.onProgress?.({
+      total: entries.length,
+      resolved: manifest.successful.length,
+      failed: manifest.failed.length,
+      rendered,
+      pages
+    });
+  }
+
+  /**
+   * Resolve the template and validate PDF options before any profile is fetched
+   */
+  private resolveOptions(options: NameTagGenerationOptions): APIResponse<{ template: NameTagTemplate }> {
+    const baseTemplate = options.template || this.nameTagService.getTemplateById(options.templateId || 'default');
+
+    if (!baseTemplate) {
+      return {
+        success: false,
+        error: createAPIError(ErrorCode.INVALID_REQUEST, `Unknown template: ${options.templateId}`)
+      };
+    }
+
+    const template = options.backSide ? { ...baseTemplate, back: options.backSide } : baseTemplate;
+
+    if (!this.nameTagService.validateTemplate(template)) {
+      return {
+        success: false,
+        error: createAPIError(ErrorCode.INVALID_REQUEST, 'Invalid template: template validation failed')
+      };
+    }
+
+    const pdfOptions = this.pdfService.getDefaultPDFOptions(options.pdfOptions || {});
+    if (!this.pdfService.validatePDFOptions(pdfOptions)) {
+      return {
+        success: false,
+        error: createAPIError(ErrorCode.INVALID_REQUEST, 'Invalid PDF options', options.pdfOptions)
+      };
+    }
+
+    try {
+      this.pdfService.getPageLayout(template, pdfOptions);
+    } catch (error) {
+      if (error instanceof LayoutError) {
+        return {
+          success: false,
+          error: createAPIError(ErrorCode.INVALID_REQUEST, error.message, options.pdfOptions)
+        };
+      }
+      throw error;
+    }
+
+    return {
+      success: true,
+      data: { template }
+    };
+  }
+
+  /**
+   * Fetch a profile through the configured fetcher
+   */
+  private async resolveProfile(profileUrl: string): Promise<APIResponse<XProfile>> {
+    if (!isValidXProfileUrl(profileUrl)) {
+      return {
+        success: false,
+        error: createAPIError(ErrorCode.INVALID_URL, `Invalid X profile URL: ${profileUrl}`)
+      };
+    }
+
+    try {
+      const result = await this.profileFetcher.fetchProfile(profileUrl);
+
+      if (!result.success || !result.data) {
+        return {
+          success: false,
+          error: result.error || createAPIError(ErrorCode.PROFILE_NOT_FOUND, `Profile not found: ${profileUrl}`)
+        };
+      }
+
+      return {
+        success: true,
+        data: result.data.profile
+      };
+    } catch (error) {
+      logError('NameTagGenerator.resolveProfile', error);
+      return {
+        success: false,
+        error: createAPIError(ErrorCode.UNKNOWN_ERROR, 'Failed to fetch profile', getErrorMessage(error))
+      };
+    }
+  }
+
+  private createGenerationError(error: unknown): APIError {
+    return createAPIError(
+      ErrorCode.GENERATION_ERROR,
+      error instanceof Error ? error.message : 'Failed to generate name tag',
+      undefined,
+      false
+    );
   }
-}
\ No newline at end of file
+}
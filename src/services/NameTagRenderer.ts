@@ -0,0 +1,206 @@
+import * as qrcode from 'qrcode';
+import { XProfile, NameTagTemplate, TemplateElement, TextElement, ImageElement, QRCodeElement } from '../types';
+import { getTemplateElements, layoutTextElement, resolveText } from '../utils/templateElements';
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Paint {
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+}
+
+export interface TextStyle {
+  fontFamily: string;
+  fontSize: number;
+  fontWeight: 'normal' | 'bold';
+  color: string;
+  align: 'left' | 'center' | 'right'; // How the text sits relative to its x coordinate
+  direction: 'ltr' | 'rtl'; // Base direction for bidi reordering; alignment is not mirrored
+}
+
+/**
+ * Drawing surface for NameTagRenderer. Coordinates are in template units; the backend
+ * maps them to pixels, markup or whatever it produces.
+ */
+export interface RenderBackend<TImage> {
+  /**
+   * Load an image from a URL or data: URI, resolving null if it is unavailable
+   */
+  loadImage(source: string): Promise<TImage | null>;
+  save(): void;
+  restore(): void;
+  rotate(degrees: number, originX: number, originY: number): void;
+  drawRect(box: Box, paint: Paint, cornerRadius?: number): void;
+  drawEllipse(box: Box, paint: Paint): void;
+  drawLine(x1: number, y1: number, x2: number, y2: number, color: string, width: number): void;
+  /**
+   * Width of one line of text, used to fit text elements to their boxes
+   */
+  measureText(text: string, style: TextStyle): number;
+  /**
+   * Draw one line of text with its alphabetic baseline at y
+   */
+  drawText(text: string, x: number, y: number, style: TextStyle): void;
+  /**
+   * Draw an image covering the box, cropped to it or to the inscribed ellipse
+   */
+  drawImage(image: TImage, box: Box, clip: 'rect' | 'circle'): void;
+}
+
+export interface RenderOptions {
+  transparent?: boolean; // Leave the background unpainted; QR codes keep theirs so they scan
+}
+
+const QR_MARGIN = 1; // Quiet zone in modules, same as the PDF renderers
+
+/**
+ * Interprets a NameTagTemplate and draws its elements through a backend, so the browser
+ * preview and the server output come from the same layout code
+ */
+export class NameTagRenderer {
+  /**
+   * Draw the background and the template's elements in z-order
+   */
+  async render<TImage>(
+    backend: RenderBackend<TImage>,
+    profile: XProfile,
+    template: NameTagTemplate,
+    options: RenderOptions = {}
+  ): Promise<void> {
+    const { dimensions, styles } = template;
+
+    if (!options.transparent) {
+      backend.drawRect({ x: 0, y: 0, width: dimensions.width, height: dimensions.height }, { fill: styles.backgroundColor });
+    }
+
+    for (const element of getTemplateElements(template)) {
+      // Load images up front so the element is drawn in one go
+      const image = element.type === 'image' ? await this.loadImage(backend, element, profile) : null;
+      if (element.type === 'image' && !image) {
+        continue;
+      }
+
+      backend.save();
+      if (element.rotation) {
+        backend.rotate(element.rotation, element.x + element.width / 2, element.y + element.height / 2);
+      }
+      this.drawElement(backend, element, profile, template, image);
+      backend.restore();
+    }
+  }
+
+  private drawElement<TImage>(
+    backend: RenderBackend<TImage>,
+    element: TemplateElement,
+    profile: XProfile,
+    template: NameTagTemplate,
+    image: TImage | null
+  ): void {
+    switch (element.type) {
+      case 'text':
+        this.drawText(backend, element, profile, template);
+        break;
+      case 'image':
+        backend.drawImage(image!, element, element.shape === 'circle' ? 'circle' : 'rect');
+        break;
+      case 'shape': {
+        const paint = { fill: element.fill, stroke: element.stroke, strokeWidth: element.strokeWidth ?? 1 };
+        if (element.shape === 'ellipse') {
+          backend.drawEllipse(element, paint);
+        } else {
+          backend.drawRect(element, paint, element.cornerRadius ?? 0);
+        }
+        break;
+      }
+      case 'qrcode':
+        this.drawQRCode(backend, element, profile, template);
+        break;
+      case 'divider': {
+        const y = element.y + element.height / 2;
+        backend.drawLine(element.x, y, element.x + element.width, y, element.color, element.thickness ?? 1);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Draw a text element fitted to its box with the backend's text metrics
+   */
+  private drawText<TImage>(
+    backend: RenderBackend<TImage>,
+    element: TextElement,
+    profile: XProfile,
+    template: NameTagTemplate
+  ): void {
+    const style: TextStyle = {
+      fontFamily: template.styles.fontFamily,
+      fontSize: element.fontSize,
+      fontWeight: element.fontWeight || 'normal',
+      color: element.color,
+      align: 'left',
+      direction: 'ltr'
+    };
+
+    const layout = layoutTextElement(element, profile, (text, fontSize) => backend.measureText(text, { ...style, fontSize }));
+    const { align, direction } = layout;
+    const x = align === 'center' ? element.x + element.width / 2 : align === 'right' ? element.x + element.width : element.x;
+    layout.lines.forEach(line => {
+      backend.drawText(line.text, x, line.baseline, { ...style, fontSize: layout.fontSize, align, direction });
+    });
+  }
+
+  /**
+   * Draw a QR code as filled modules on a square the size of the box's smaller side,
+   * merging horizontal runs into single rectangles
+   */
+  private drawQRCode<TImage>(
+    backend: RenderBackend<TImage>,
+    element: QRCodeElement,
+    profile: XProfile,
+    template: NameTagTemplate
+  ): void {
+    const { modules } = qrcode.create(resolveText(element.content ?? '{profileUrl}', profile), { errorCorrectionLevel: 'M' });
+    const qrCodeSize = Math.min(element.width, element.height);
+    const moduleSize = qrCodeSize / (modules.size + 2 * QR_MARGIN);
+    const originX = element.x + QR_MARGIN * moduleSize;
+    const originY = element.y + QR_MARGIN * moduleSize;
+    const dark = { fill: element.color || template.styles.textColor };
+
+    backend.drawRect(
+      { x: element.x, y: element.y, width: qrCodeSize, height: qrCodeSize },
+      { fill: element.background || template.styles.backgroundColor }
+    );
+
+    for (let row = 0; row < modules.size; row++) {
+      let column = 0;
+      while (column < modules.size) {
+        if (!modules.get(row, column)) {
+          column++;
+          continue;
+        }
+
+        const start = column;
+        while (column < modules.size && modules.get(row, column)) {
+          column++;
+        }
+        backend.drawRect({
+          x: originX + start * moduleSize,
+          y: originY + row * moduleSize,
+          width: (column - start) * moduleSize,
+          height: moduleSize
+        }, dark);
+      }
+    }
+  }
+
+  private loadImage<TImage>(backend: RenderBackend<TImage>, element: ImageElement, profile: XProfile): Promise<TImage | null> {
+    const source = element.src === 'avatar' ? profile.avatarUrl : element.src;
+    return source ? backend.loadImage(source) : Promise.resolve(null);
+  }
+}
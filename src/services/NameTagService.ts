@@ -1,67 +1,146 @@
-import { XProfile, NameTagTemplate } from '../types';
+import { XProfile, NameTagTemplate, NameTagBackSide, Position } from '../types';
 import * as qrcode from 'qrcode';
 import sharp from 'sharp';
+import { NameTagRenderer } from './NameTagRenderer';
+import { FontRegistry } from './FontRegistry';
+import { TemplateStore } from './TemplateStore';
+import { SvgRenderBackend, EMOJI_FONT_FAMILY } from './SvgRenderBackend';
+import { truncateText, wrapText, escapeXml, getTextDirection, sanitizeText } from '../utils/text';
+import { scaleElement, validateElement, decodeDataUri, LINE_HEIGHT, AVERAGE_CHAR_WIDTH } from '../utils/templateElements';
+import { getDefaultTemplate, getBuiltInTemplate } from '../utils/templates';
+import { getExportScale, ImageExportOptions } from '../utils/exportFormats';
+
+export interface RasterOptions {
+  scale?: number; // Pixels per template unit, 1 by default
+  format?: 'png' | 'jpeg' | 'webp';
+  jpegQuality?: number; // 1–100, also used for WebP
+  transparent?: boolean; // Leave the background out; PNG and WebP only
+}
 
 export class NameTagService {
+  private readonly renderer = new NameTagRenderer();
+
+  /**
+   * @param fonts Fonts for text, the server's shared registry by default
+   * @param templates Uploaded templates to look up by id besides the built-in ones
+   */
+  constructor(
+    readonly fonts: FontRegistry = FontRegistry.getDefault(),
+    private readonly templates: TemplateStore | null = null
+  ) {}
+
   /**
    * Generate a name tag image buffer from profile data and template
    */
-  async generateNameTag(profile: XProfile, template: NameTagTemplate): Promise<Buffer> {
+  async generateNameTag(profile: XProfile, baseTemplate: NameTagTemplate, options: RasterOptions = {}): Promise<Buffer> {
     // Validate inputs
     this.validateProfileData(profile);
     
-    if (!this.validateTemplate(template)) {
+    if (!this.validateTemplate(baseTemplate)) {
       throw new Error('Invalid template: template validation failed');
     }
 
-    try {
-      // Generate QR code
-      const qrCodeBuffer = await this.generateQRCode(profile.profileUrl, template);
+    const template = options.scale && options.scale !== 1
+      ? this.scaleTemplate(baseTemplate, options.scale)
+      : baseTemplate;
 
-      // Process avatar image if available
-      const avatarBuffer = await this.processAvatarImage(profile.avatarUrl, template);
+    const transparent = options.transparent && options.format !== 'jpeg';
 
+    try {
       // Create base canvas
-      const canvas = this.createBaseCanvas(template);
+      const canvas = this.createBaseCanvas(template, transparent);
 
-      // Generate SVG for text content
-      const textSvg = this.generateTextSvg(profile, template);
-      
-      // Prepare composite layers
-      const compositeLayers = [
+      // Draw the template's elements as one SVG layer, in the registered fonts
+      const svg = await this.renderSvg(profile, template, { transparent, outlineText: true });
+
+      // Composite the final image
+      const composite = canvas.composite([{ input: Buffer.from(svg), top: 0, left: 0 }]);
+      return await this.encode(composite, options).toBuffer();
+    } catch (error) {
+      throw new Error(`Failed to generate name tag: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Generate the back of a double-sided name tag: a large QR code next to the bio and schedule.
+   * Uses the template's back design, or the default one if it has none.
+   */
+  async generateBackSide(profile: XProfile, baseTemplate: NameTagTemplate, options: RasterOptions = {}): Promise<Buffer> {
+    this.validateProfileData(profile);
+
+    if (!this.validateTemplate(baseTemplate)) {
+      throw new Error('Invalid template: template validation failed');
+    }
+
+    const withBack = { ...baseTemplate, back: baseTemplate.back || this.getDefaultBackSide(baseTemplate) };
+    const template = options.scale && options.scale !== 1
+      ? this.scaleTemplate(withBack, options.scale)
+      : withBack;
+    const back = template.back!;
+
+    try {
+      const qrCodeBuffer = await qrcode.toBuffer(profile.profileUrl, {
+        width: back.qrCodeSize,
+        margin: 1,
+        color: {
+          dark: template.styles.textColor,
+          light: template.styles.backgroundColor
+        }
+      });
+
+      const composite = this.createBaseCanvas(template, false).composite([
         {
-          input: Buffer.from(textSvg),
+          input: Buffer.from(this.generateBackSideSvg(profile, template, back)),
           top: 0,
           left: 0
         },
         {
           input: qrCodeBuffer,
-          top: template.layout.qrCodePosition.y,
-          left: template.layout.qrCodePosition.x
+          top: back.qrCodePosition.y,
+          left: back.qrCodePosition.x
         }
-      ];
-
-      // Add avatar if available
-      if (avatarBuffer) {
-        compositeLayers.push({
-          input: avatarBuffer,
-          top: template.layout.avatarPosition.y,
-          left: template.layout.avatarPosition.x
-        });
-      }
+      ]);
+      return await this.encode(composite, options).toBuffer();
+    } catch (error) {
+      throw new Error(`Failed to generate name tag back side: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-      // Composite the final image
-      const composite = await canvas
-        .composite(compositeLayers)
-        .png()
-        .toBuffer();
+  /**
+   * Generate a standalone SVG of the front of a name tag, in template units, with the
+   * avatar and images embedded and the QR code drawn as vector shapes. Text uses the
+   * registered fonts by family name.
+   */
+  async generateSvg(profile: XProfile, template: NameTagTemplate, options: { transparent?: boolean } = {}): Promise<string> {
+    this.validateProfileData(profile);
+
+    if (!this.validateTemplate(template)) {
+      throw new Error('Invalid template: template validation failed');
+    }
 
-      return composite;
+    try {
+      return await this.renderSvg(profile, template, { transparent: options.transparent });
     } catch (error) {
       throw new Error(`Failed to generate name tag: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Export the front of a name tag as a PNG or WebP at a DPI, or as SVG
+   */
+  async exportImage(profile: XProfile, template: NameTagTemplate, options: ImageExportOptions): Promise<Buffer> {
+    if (options.format === 'svg') {
+      return Buffer.from(await this.generateSvg(profile, template, { transparent: options.transparent }));
+    }
+
+    return this.generateNameTag(profile, template, {
+      scale: getExportScale(options.dpi),
+      format: options.format,
+      jpegQuality: 90,
+      transparent: options.transparent
+    });
+  }
+
   /**
    * Generate name tag with custom style overrides
    */
@@ -89,12 +168,14 @@ export class NameTagService {
       return false;
     }
 
-    if (!template.dimensions || template.dimensions.width <= 0 || template.dimensions.height <= 0) {
+    if (!template.dimensions || !isPositiveNumber(template.dimensions.width) || !isPositiveNumber(template.dimensions.height)) {
       return false;
     }
 
-    if (!template.layout || !template.layout.avatarPosition || !template.layout.namePosition || 
-        !template.layout.usernamePosition || !template.layout.qrCodePosition) {
+    const { layout } = template;
+    if (!layout || !isPosition(layout.avatarPosition) || !isPosition(layout.namePosition) ||
+        !isPosition(layout.usernamePosition) || !isPosition(layout.qrCodePosition) ||
+        !isPositiveNumber(layout.avatarSize) || !isPositiveNumber(layout.qrCodeSize)) {
       return false;
     }
 
@@ -102,38 +183,88 @@ export class NameTagService {
       return false;
     }
 
-    return true;
+    if (template.elements !== undefined &&
+        (!Array.isArray(template.elements) || !template.elements.every(validateElement))) {
+      return false;
+    }
+
+    return !template.back || this.validateBackSide(template.back);
   }
 
   /**
    * Get default template configuration
    */
   getDefaultTemplate(): NameTagTemplate {
+    return getDefaultTemplate();
+  }
+
+  /**
+   * Default back design: the QR code as large as fits on the left, bio and schedule on the right
+   */
+  getDefaultBackSide(template: NameTagTemplate): NameTagBackSide {
+    const { width, height } = template.dimensions;
+    const padding = 20;
+    const qrCodeSize = Math.max(Math.min(height - 2 * padding, width / 2), 1);
+    const textX = padding + qrCodeSize + padding;
+
     return {
-      id: 'default',
-      name: 'Default Template',
+      qrCodePosition: { x: padding, y: Math.round((height - qrCodeSize) / 2) },
+      qrCodeSize,
+      textPosition: { x: textX, y: padding },
+      textWidth: Math.max(width - textX - padding, 1),
+      fontSize: 11,
+      showBio: true
+    };
+  }
+
+  /**
+   * Get a built-in or uploaded template by id
+   */
+  getTemplateById(templateId: string): NameTagTemplate | null {
+    return getBuiltInTemplate(templateId) || this.templates?.get(templateId) || null;
+  }
+
+  /**
+   * Scale every size and position of a template, to render it at a higher resolution
+   */
+  private scaleTemplate(template: NameTagTemplate, scale: number): NameTagTemplate {
+    const { dimensions, layout, styles } = template;
+    const point = <T extends { x: number; y: number }>(position: T): T => ({
+      ...position,
+      x: Math.round(position.x * scale),
+      y: Math.round(position.y * scale)
+    });
+
+    return {
+      ...template,
       dimensions: {
-        width: 300,
-        height: 200
+        width: Math.round(dimensions.width * scale),
+        height: Math.round(dimensions.height * scale)
       },
       layout: {
-        avatarPosition: { x: 20, y: 20 },
-        avatarSize: 60,
-        namePosition: { x: 100, y: 40, align: 'left' },
-        usernamePosition: { x: 100, y: 70, align: 'left' },
-        qrCodePosition: { x: 210, y: 20 },
-        qrCodeSize: 80
+        ...layout,
+        avatarPosition: point(layout.avatarPosition),
+        avatarSize: Math.round(layout.avatarSize * scale),
+        namePosition: point(layout.namePosition),
+        usernamePosition: point(layout.usernamePosition),
+        qrCodePosition: point(layout.qrCodePosition),
+        qrCodeSize: Math.round(layout.qrCodeSize * scale)
       },
       styles: {
-        backgroundColor: '#ffffff',
-        textColor: '#000000',
-        accentColor: '#1da1f2',
-        fontFamily: 'Arial, sans-serif',
-        nameFontSize: 16,
-        usernameFontSize: 12,
-        borderRadius: 8,
-        borderWidth: 1,
-        borderColor: '#e1e8ed'
+        ...styles,
+        nameFontSize: styles.nameFontSize * scale,
+        usernameFontSize: styles.usernameFontSize * scale,
+        borderRadius: styles.borderRadius !== undefined ? styles.borderRadius * scale : undefined,
+        borderWidth: styles.borderWidth !== undefined ? styles.borderWidth * scale : undefined
+      },
+      elements: template.elements?.map(element => scaleElement(element, scale)),
+      back: template.back && {
+        ...template.back,
+        qrCodePosition: point(template.back.qrCodePosition),
+        qrCodeSize: Math.round(template.back.qrCodeSize * scale),
+        textPosition: point(template.back.textPosition),
+        textWidth: Math.round(template.back.textWidth * scale),
+        fontSize: template.back.fontSize * scale
       }
     };
   }
@@ -152,23 +283,9 @@ export class NameTagService {
   }
 
   /**
-   * Generate QR code for profile URL
-   */
-  private async generateQRCode(profileUrl: string, template: NameTagTemplate): Promise<Buffer> {
-    return qrcode.toBuffer(profileUrl, {
-      width: template.layout.qrCodeSize,
-      margin: 1,
-      color: {
-        dark: template.styles.textColor,
-        light: template.styles.backgroundColor
-      }
-    });
-  }
-
-  /**
-   * Process avatar image from URL
+   * Download an avatar image from a trusted X CDN, returning null if it is unavailable
    */
-  private async processAvatarImage(avatarUrl: string, template: NameTagTemplate): Promise<Buffer | null> {
+  async fetchAvatarImage(avatarUrl: string): Promise<Buffer | null> {
     if (!avatarUrl) {
       return null;
     }
@@ -208,110 +325,158 @@ export class NameTagService {
 
       // Get image buffer
       const arrayBuffer = await response.arrayBuffer();
-      const buffer = Buffer.from(arrayBuffer);
-
-      // Process and resize the image
-      const processedAvatar = await sharp(buffer)
-        .resize(template.layout.avatarSize, template.layout.avatarSize, {
-          fit: 'cover',
-          position: 'centre'
-        })
-        .png()
-        .toBuffer();
-
-      return processedAvatar;
+      return Buffer.from(arrayBuffer);
     } catch (error) {
-      // If avatar processing fails, we continue without the avatar
-      console.warn('Failed to process avatar image:', error);
+      // If the avatar can't be fetched, we continue without it
+      console.warn('Failed to fetch avatar image:', error);
       return null;
     }
   }
 
+  private wrapSvg(template: NameTagTemplate, content: string): string {
+    return `
+      <svg width="${template.dimensions.width}" height="${template.dimensions.height}" xmlns="http://www.w3.org/2000/svg">${content}
+      </svg>
+    `;
+  }
+
+  /**
+   * Load the avatar or an embedded image for the SVG renderer, normalized to a PNG data: URI
+   * that librsvg can decode. Returns null if the image is unavailable.
+   */
+  private async loadSvgImage(source: string): Promise<string | null> {
+    const image = source.startsWith('data:') ? decodeDataUri(source) : await this.fetchAvatarImage(source);
+    if (!image) {
+      return null;
+    }
+
+    try {
+      const png = await sharp(image).png().toBuffer();
+      return `data:image/png;base64,${png.toString('base64')}`;
+    } catch (error) {
+      // If image processing fails, we continue without the image
+      console.warn('Failed to process image:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Draw the template's elements as SVG markup in the registered fonts. For rasterizing,
+   * `outlineText` draws text as outlines of the font files: fontconfig only knows the fonts
+   * registered before the first render, not those uploaded with a template since.
+   */
+  private async renderSvg(
+    profile: XProfile,
+    template: NameTagTemplate,
+    options: { transparent?: boolean; outlineText?: boolean } = {}
+  ): Promise<string> {
+    const backend = new SvgRenderBackend(template.dimensions.width, template.dimensions.height,
+      source => this.loadSvgImage(source),
+      (text, style) => this.fonts.measureText(text, style.fontFamily, style.fontWeight, style.fontSize),
+      options.outlineText
+        ? (text, style) => this.fonts.outlineText(text, style.fontFamily, style.fontWeight, style.fontSize)
+        : undefined);
+    await this.renderer.render(backend, profile, {
+      ...template,
+      styles: { ...template.styles, fontFamily: this.fonts.getFontStack(template.styles.fontFamily) }
+    }, { transparent: options.transparent });
+    return backend.toString();
+  }
+
   /**
-   * Create base canvas for the name tag
+   * Create base canvas for the name tag, fully transparent or in the background color
    */
-  private createBaseCanvas(template: NameTagTemplate) {
+  private createBaseCanvas(template: NameTagTemplate, transparent?: boolean) {
     return sharp({
       create: {
         width: template.dimensions.width,
         height: template.dimensions.height,
-        channels: 3,
-        background: template.styles.backgroundColor
+        channels: transparent ? 4 : 3,
+        background: transparent ? { r: 0, g: 0, b: 0, alpha: 0 } : template.styles.backgroundColor
       }
     });
   }
 
+  private encode(image: sharp.Sharp, options: RasterOptions): sharp.Sharp {
+    switch (options.format) {
+      case 'jpeg':
+        return image.jpeg({ quality: options.jpegQuality ?? 85 });
+      case 'webp':
+        return image.webp({ quality: options.jpegQuality ?? 85, alphaQuality: 100 });
+      default:
+        return image.png();
+    }
+  }
+
   /**
-   * Generate SVG text content for the name tag
+   * Check a back design's positions, sizes, bio switch and schedule
    */
-  private generateTextSvg(profile: XProfile, template: NameTagTemplate): string {
-    const { styles, layout } = template;
-    
-    // Improved text handling with word wrapping
-    const displayName = this.truncateText(profile.displayName, 20);
-    const username = `@${profile.username}`;
+  private validateBackSide(back: NameTagBackSide): boolean {
+    if (!isPosition(back.qrCodePosition) || !isPosition(back.textPosition) || !isPositiveNumber(back.qrCodeSize) ||
+        !isPositiveNumber(back.textWidth) || !isPositiveNumber(back.fontSize)) {
+      return false;
+    }
 
-    return `
-      <svg width="${template.dimensions.width}" height="${template.dimensions.height}" xmlns="http://www.w3.org/2000/svg">
-        <text x="${layout.namePosition.x}" y="${layout.namePosition.y}" 
-              font-family="${styles.fontFamily}" 
-              font-size="${styles.nameFontSize}" 
-              font-weight="bold"
-              fill="${styles.textColor}"
-              text-anchor="${layout.namePosition.align || 'start'}">${displayName}</text>
-        <text x="${layout.usernamePosition.x}" y="${layout.usernamePosition.y}" 
-              font-family="${styles.fontFamily}" 
-              font-size="${styles.usernameFontSize}" 
-              fill="${styles.accentColor}"
-              text-anchor="${layout.usernamePosition.align || 'start'}">${username}</text>
-      </svg>
-    `;
+    if (back.showBio !== undefined && typeof back.showBio !== 'boolean') {
+      return false;
+    }
+
+    return !back.schedule || (Array.isArray(back.schedule) && back.schedule.every(line => typeof line === 'string'));
   }
 
   /**
-   * Truncate text with ellipsis if it's too long
-   * Considers full-width characters for accurate text width calculation
+   * Generate SVG for the bio and schedule block on the back. Lines are wrapped by an estimated
+   * average character width.
    */
-  private truncateText(text: string, maxLength: number): string {
-    if (text.length <= maxLength) {
-      return text;
+  private generateBackSideSvg(profile: XProfile, template: NameTagTemplate, back: NameTagBackSide): string {
+    // Positions and sizes are written into the markup as they are
+    if (!this.validateBackSide(back)) {
+      throw new Error('Invalid back side: positions and sizes must be finite numbers');
     }
-    
-    // Calculate the visual width of text (full-width chars count as 2)
-    const getVisualLength = (str: string): number => {
-      let length = 0;
-      for (const char of str) {
-        // Check if character is full-width (CJK, etc.)
-        const code = char.charCodeAt(0);
-        if ((code >= 0x1100 && code <= 0x115F) || // Hangul Jamo
-            (code >= 0x2E80 && code <= 0x9FFF) || // CJK
-            (code >= 0xAC00 && code <= 0xD7AF) || // Hangul Syllables
-            (code >= 0xF900 && code <= 0xFAFF) || // CJK Compatibility
-            (code >= 0xFE30 && code <= 0xFE4F) || // CJK Compatibility Forms
-            (code >= 0xFF00 && code <= 0xFF60) || // Fullwidth Forms
-            (code >= 0xFFE0 && code <= 0xFFE6)) { // Fullwidth Forms
-          length += 2;
-        } else {
-          length += 1;
-        }
-      }
-      return length;
-    };
-    
-    // Find the cutoff point considering visual width
-    let visualLength = 0;
-    let cutoffIndex = 0;
-    const ellipsisLength = 3; // "..." takes 3 visual units
-    
-    for (let i = 0; i < text.length; i++) {
-      const charVisualLength = getVisualLength(text[i]);
-      if (visualLength + charVisualLength + ellipsisLength > maxLength) {
-        break;
+
+    const { styles } = template;
+    const lineHeight = back.fontSize * LINE_HEIGHT;
+    const maxLength = Math.max(Math.floor(back.textWidth / (back.fontSize * AVERAGE_CHAR_WIDTH)), 1);
+    // Same margin below the block as above it, as in the vector renderer
+    const maxLines = Math.max(Math.floor((template.dimensions.height - 2 * back.textPosition.y) / lineHeight), 1);
+
+    const bioLines = back.showBio && profile.bio ? wrapText(sanitizeText(profile.bio), maxLength, maxLines) : [];
+    const scheduleLines = (back.schedule || []).map(line => truncateText(sanitizeText(line), maxLength));
+    const lines = [
+      ...bioLines.map(text => ({ text, color: styles.textColor })),
+      ...(bioLines.length && scheduleLines.length ? [{ text: '', color: styles.textColor }] : []),
+      ...scheduleLines.map(text => ({ text, color: styles.accentColor }))
+    ].slice(0, maxLines);
+
+    // Right-to-left lines start at the right edge of the block; left-to-right lines are drawn
+    // as outlines of the registered fonts where they cover them, as on the front
+    const fontStack = this.fonts.getFontStack(styles.fontFamily);
+    const textElements = lines.map((line, index) => {
+      const rtl = getTextDirection(line.text) === 'rtl';
+      const baseline = back.textPosition.y + back.fontSize + index * lineHeight;
+      const outline = rtl || !line.text ? null : this.fonts.outlineText(line.text, fontStack, 'normal', back.fontSize);
+      if (outline) {
+        return `
+        <path transform="translate(${back.textPosition.x} ${baseline})" d="${escapeXml(outline.path)}" fill="${escapeXml(line.color)}"/>`;
       }
-      visualLength += charVisualLength;
-      cutoffIndex = i + 1;
-    }
-    
-    return text.substring(0, cutoffIndex) + '...';
+      return `
+        <text x="${back.textPosition.x + (rtl ? back.textWidth : 0)}" y="${baseline}"
+              font-family="${escapeXml(`${fontStack}, ${EMOJI_FONT_FAMILY}`)}"
+              font-size="${back.fontSize}"${rtl ? ' direction="rtl"' : ''}
+              fill="${escapeXml(line.color)}">${escapeXml(line.text)}</text>`;
+    }).join('');
+
+    return this.wrapSvg(template, textElements);
   }
-}
\ No newline at end of file
+}
+
+// Template sizes and positions end up in SVG attributes and canvas sizes, so strings and
+// NaN must not pass for numbers
+function isPositiveNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function isPosition(position: Position | undefined): boolean {
+  return !!position && typeof position.x === 'number' && Number.isFinite(position.x) &&
+    typeof position.y === 'number' && Number.isFinite(position.y);
+}
@@ -5,13 +5,30 @@ type PDFDocumentInstance = InstanceType<typeof PDFDocument>;
 import { Readable } from 'stream';
 import { XProfile, NameTagTemplate } from '../types';
 import { NameTagService } from './NameTagService';
+import { FontRegistry } from './FontRegistry';
+import { VectorNameTagRenderer, PreparedNameTag } from './VectorNameTagRenderer';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { calculateGridLayout, getPageDimensions, GridLayout, GridSpec, LayoutError } from '../utils/layout';
+import { calculateLabelSheetLayout, getLabelSheet } from '../utils/labelSheets';
+import { calculateCropMarks, calculateFoldMarks, LineSegment } from '../utils/printMarks';
+import { getQualityProfile, getRasterScale, RenderQuality } from '../utils/quality';
+import { DuplexMode, getBackSideLayout } from '../utils/duplex';
 
 export interface PDFOptions {
-  quality: 'low' | 'medium' | 'high';
+  quality: RenderQuality; // Raster DPI, avatar resolution and image encoding
   pageSize: 'A4' | 'Letter' | 'Legal';
   orientation: 'portrait' | 'landscape';
   margin: number;
   nameTagsPerPage: number;
+  gutter?: number; // Space between tags in points
+  grid?: GridSpec; // Explicit rows×columns, overrides nameTagsPerPage
+  labelSheet?: string; // Label sheet id; sets the page size and places one tag per label
+  bleed?: number; // Background extended past the trim line, in points
+  cropMarks?: boolean; // Crop marks around the grid, in line with every trim line (plain paper only)
+  cutLines?: boolean; // Dashed cut lines around each tag (plain paper only)
+  renderMode?: 'vector' | 'raster'; // Vector by default, falling back to raster per tag
+  duplex?: DuplexMode; // Follow each page with the tags' back sides, placed to line up when printed double-sided
+  tentCard?: boolean; // Print each tag twice around a fold, the top copy upside down, to stand on a table
 }
 
 export interface PDFGenerationResult {
@@ -19,14 +36,38 @@ export interface PDFGenerationResult {
   nameTagCount: number;
   pageCount: number;
   memoryUsage: number;
+  fileSize: number; // Bytes
+}
+
+// A tag side ready to place on a page: drawn with PDFKit primitives or embedded as an image
+type RenderedNameTag =
+  | { type: 'vector'; tag: PreparedNameTag; side: 'front' | 'back' }
+  | { type: 'raster'; image: Buffer };
+
+// Both sides of a badge; the back is only rendered for duplex output
+interface RenderedBadge {
+  front: RenderedNameTag;
+  back?: RenderedNameTag;
+}
+
+export interface PDFStreamResult {
+  stream: Readable;
+  nameTagCount: number;
+  pageCount: number;
 }
 
 export class PDFService {
   private nameTagService: NameTagService;
+  private vectorRenderer: VectorNameTagRenderer;
   private readonly maxMemoryUsage = 100 * 1024 * 1024; // 100MB limit
+  private readonly renderConcurrency = Number(process.env.RENDER_CONCURRENCY) || 4; // Parallel sharp renders
+  private readonly streamHighWaterMark = 16 * 1024 * 1024; // Pause rendering while 16MB is unread
 
   constructor() {
-    this.nameTagService = new NameTagService();
+    // Raster and vector tags use the same registered fonts
+    const fonts = FontRegistry.getDefault();
+    this.nameTagService = new NameTagService(fonts);
+    this.vectorRenderer = new VectorNameTagRenderer(this.nameTagService, fonts);
   }
 
   /**
@@ -40,12 +81,14 @@ export class PDFService {
     const pdfOptions = this.getDefaultPDFOptions(options);
     
     try {
-      // Generate name tag image
-      const nameTagBuffer = await this.nameTagService.generateNameTag(profile, template);
+      const layout = this.getPageLayout(template, { ...pdfOptions, grid: { rows: 1, columns: 1 } });
+
+      const badge = await this.renderBadge(profile, template, pdfOptions);
       
       // Create PDF document
       const doc = new PDFDocument({
         size: pdfOptions.pageSize,
+        layout: pdfOptions.orientation,
         margin: pdfOptions.margin,
         info: {
           Title: `Name Tag - ${profile.displayName}`,
@@ -57,7 +100,7 @@ export class PDFService {
 
       // Convert PDF to buffer
       const pdfBuffer = await this.convertPDFToBuffer(doc, async (doc) => {
-        await this.addNameTagToPage(doc, nameTagBuffer, template, pdfOptions);
+        await this.addSheet(doc, [badge], layout, template, pdfOptions);
       });
 
       const memoryUsage = this.estimateMemoryUsage(pdfBuffer.length, 1);
@@ -65,8 +108,9 @@ export class PDFService {
       return {
         pdfBuffer,
         nameTagCount: 1,
-        pageCount: 1,
-        memoryUsage
+        pageCount: pdfOptions.duplex ? 2 : 1,
+        memoryUsage,
+        fileSize: pdfBuffer.length
       };
     } catch (error) {
       throw new Error(`Failed to generate single name tag PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -79,7 +123,8 @@ export class PDFService {
   async generateMultipleNameTagsPDF(
     profiles: XProfile[],
     template: NameTagTemplate,
-    options: Partial<PDFOptions> = {}
+    options: Partial<PDFOptions> = {},
+    onTagRendered?: (rendered: number, total: number) => void
   ): Promise<PDFGenerationResult> {
     const pdfOptions = this.getDefaultPDFOptions(options);
     
@@ -88,14 +133,20 @@ export class PDFService {
     }
 
     try {
-      // Generate all name tag images
-      const nameTagBuffers = await Promise.all(
-        profiles.map(profile => this.nameTagService.generateNameTag(profile, template))
-      );
+      const layout = this.getPageLayout(template, pdfOptions);
+
+      // Render all name tags, limiting how many renders run at once
+      let rendered = 0;
+      const badges = await mapWithConcurrency(profiles, this.renderConcurrency, async profile => {
+        const badge = await this.renderBadge(profile, template, pdfOptions);
+        onTagRendered?.(++rendered, profiles.length);
+        return badge;
+      });
 
       // Create PDF document
       const doc = new PDFDocument({
         size: pdfOptions.pageSize,
+        layout: pdfOptions.orientation,
         margin: pdfOptions.margin,
         info: {
           Title: `Name Tags - ${profiles.length} profiles`,
@@ -107,10 +158,10 @@ export class PDFService {
 
       // Convert PDF to buffer
       const pdfBuffer = await this.convertPDFToBuffer(doc, async (doc) => {
-        await this.addMultipleNameTagsToPages(doc, nameTagBuffers, template, pdfOptions);
+        await this.addMultipleNameTagsToPages(doc, badges, layout, template, pdfOptions);
       });
 
-      const pageCount = Math.ceil(profiles.length / pdfOptions.nameTagsPerPage);
+      const pageCount = Math.ceil(profiles.length / layout.tagsPerPage) * (pdfOptions.duplex ? 2 : 1);
       const memoryUsage = this.estimateMemoryUsage(pdfBuffer.length, profiles.length);
       
       // Check memory usage
@@ -122,7 +173,8 @@ export class PDFService {
         pdfBuffer,
         nameTagCount: profiles.length,
         pageCount,
-        memoryUsage
+        memoryUsage,
+        fileSize: pdfBuffer.length
       };
     } catch (error) {
       throw new Error(`Failed to generate multiple name tags PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -130,10 +182,83 @@ export class PDFService {
   }
 
   /**
-   * Get default PDF options with overrides
+   * Stream a PDF with multiple name tags, rendering and writing one page at a time
+   * so memory use stays bounded regardless of the number of profiles
    */
-  private getDefaultPDFOptions(options: Partial<PDFOptions>): PDFOptions {
+  createMultipleNameTagsPDFStream(
+    profiles: XProfile[],
+    template: NameTagTemplate,
+    options: Partial<PDFOptions> = {},
+    onTagRendered?: (rendered: number, total: number) => void,
+    onPagesWritten?: (pages: number) => void
+  ): PDFStreamResult {
+    const pdfOptions = this.getDefaultPDFOptions(options);
+
+    if (profiles.length === 0) {
+      throw new Error('No profiles provided for PDF generation');
+    }
+
+    const layout = this.getPageLayout(template, pdfOptions);
+    const doc = new PDFDocument({
+      size: pdfOptions.pageSize,
+      layout: pdfOptions.orientation,
+      margin: pdfOptions.margin,
+      info: {
+        Title: `Name Tags - ${profiles.length} profiles`,
+        Author: 'X Profile Name Tag Generator',
+        Subject: 'Generated Name Tags',
+        Keywords: 'name tag, profile, x, twitter'
+      }
+    });
+
+    // PDFKit documents are Node readable streams, which the typings don't express
+    const stream = doc as unknown as Readable;
+    const { tagsPerPage } = layout;
+    const sheetCount = Math.ceil(profiles.length / tagsPerPage);
+    const pagesPerSheet = pdfOptions.duplex ? 2 : 1;
+
+    const writePages = async () => {
+      let rendered = 0;
+
+      for (let sheet = 0; sheet < sheetCount; sheet++) {
+        const sheetProfiles = profiles.slice(sheet * tagsPerPage, (sheet + 1) * tagsPerPage);
+        const badges = await mapWithConcurrency(sheetProfiles, this.renderConcurrency, async profile => {
+          const badge = await this.renderBadge(profile, template, pdfOptions);
+          onTagRendered?.(++rendered, profiles.length);
+          return badge;
+        });
+
+        if (stream.destroyed) {
+          return;
+        }
+
+        if (sheet > 0) {
+          doc.addPage();
+        }
+        await this.addSheet(doc, badges, layout, template, pdfOptions);
+        onPagesWritten?.((sheet + 1) * pagesPerSheet);
+        await this.waitForConsumer(stream);
+      }
+
+      doc.end();
+    };
+
+    writePages().catch(error => {
+      stream.destroy(new Error(`Failed to stream multiple name tags PDF: ${error instanceof Error ? error.message : 'Unknown error'}`));
+    });
+
     return {
+      stream,
+      nameTagCount: profiles.length,
+      pageCount: sheetCount * pagesPerSheet
+    };
+  }
+
+  /**
+   * Get default PDF options with overrides
+   */
+  getDefaultPDFOptions(options: Partial<PDFOptions>): PDFOptions {
+    const pdfOptions: PDFOptions = {
       quality: 'medium',
       pageSize: 'A4',
       orientation: 'portrait',
@@ -141,6 +266,113 @@ export class PDFService {
       nameTagsPerPage: 6,
       ...options
     };
+
+    // Label sheets are printed on their own paper, always portrait
+    const sheet = pdfOptions.labelSheet ? getLabelSheet(pdfOptions.labelSheet) : null;
+    if (sheet) {
+      pdfOptions.pageSize = sheet.pageSize;
+      pdfOptions.orientation = 'portrait';
+    }
+
+    return pdfOptions;
+  }
+
+  /**
+   * Compute the tag grid for a template on the configured page, or the label positions of a label sheet.
+   * Throws a LayoutError when the template or requested grid does not fit.
+   */
+  getPageLayout(template: NameTagTemplate, options: PDFOptions): GridLayout {
+    if (options.labelSheet) {
+      const sheet = getLabelSheet(options.labelSheet);
+      if (!sheet) {
+        throw new LayoutError(`Unknown label sheet: ${options.labelSheet}`);
+      }
+      return calculateLabelSheetLayout(sheet, 'pt');
+    }
+
+    const page = getPageDimensions(options.pageSize, options.orientation, 'pt');
+
+    return calculateGridLayout({
+      pageWidth: page.width,
+      pageHeight: page.height,
+      margin: options.margin,
+      tagWidth: template.dimensions.width,
+      // A tent card is two tags joined at the fold
+      tagHeight: template.dimensions.height * (options.tentCard ? 2 : 1),
+      // Leave room for each tag's bleed so neighbours don't print over each other
+      gutter: Math.max(options.gutter ?? 20, 2 * (options.bleed ?? 0)),
+      grid: options.grid,
+      maxTagsPerPage: options.grid ? undefined : options.nameTagsPerPage
+    });
+  }
+
+  /**
+   * Render the front of a badge, and its back when printing double-sided
+   */
+  private async renderBadge(profile: XProfile, template: NameTagTemplate, pdfOptions: PDFOptions): Promise<RenderedBadge> {
+    const front = await this.renderNameTag(profile, template, pdfOptions);
+    if (!pdfOptions.duplex) {
+      return { front };
+    }
+
+    return { front, back: await this.renderBackSide(profile, template, pdfOptions) };
+  }
+
+  /**
+   * Prepare a tag for vector drawing, or render it to an image when raster output is requested
+   * or the vector path can't handle it (e.g. characters missing from the available fonts)
+   */
+  private async renderNameTag(
+    profile: XProfile,
+    template: NameTagTemplate,
+    pdfOptions: PDFOptions
+  ): Promise<RenderedNameTag> {
+    const quality = getQualityProfile(pdfOptions.quality);
+
+    if (pdfOptions.renderMode !== 'raster' && this.vectorRenderer.canRender(profile, template)) {
+      try {
+        return { type: 'vector', tag: await this.vectorRenderer.prepare(profile, template, quality), side: 'front' };
+      } catch (error) {
+        console.warn(`Falling back to raster rendering for @${profile.username}:`, error);
+      }
+    }
+
+    // Template units are points, so the raster scale brings the tag to the quality's DPI
+    const image = await this.nameTagService.generateNameTag(profile, template, {
+      scale: getRasterScale(quality),
+      format: quality.imageFormat,
+      jpegQuality: quality.jpegQuality
+    });
+
+    return { type: 'raster', image };
+  }
+
+  /**
+   * Prepare the back of a tag, with the same raster fallback as the front
+   */
+  private async renderBackSide(
+    profile: XProfile,
+    template: NameTagTemplate,
+    pdfOptions: PDFOptions
+  ): Promise<RenderedNameTag> {
+    const quality = getQualityProfile(pdfOptions.quality);
+    const back = template.back || this.nameTagService.getDefaultBackSide(template);
+
+    if (pdfOptions.renderMode !== 'raster' && this.vectorRenderer.canRenderBack(profile, back, template.styles.fontFamily)) {
+      try {
+        return { type: 'vector', tag: this.vectorRenderer.prepareBack(profile, template), side: 'back' };
+      } catch (error) {
+        console.warn(`Falling back to raster rendering for the back of @${profile.username}:`, error);
+      }
+    }
+
+    const image = await this.nameTagService.generateBackSide(profile, template, {
+      scale: getRasterScale(quality),
+      format: quality.imageFormat,
+      jpegQuality: quality.jpegQuality
+    });
+
+    return { type: 'raster', image };
   }
 
   /**
@@ -167,73 +399,187 @@ export class PDFService {
   }
 
   /**
-   * Add single name tag to PDF page
+   * Add multiple name tags to PDF pages
    */
-  private async addNameTagToPage(
+  private async addMultipleNameTagsToPages(
     doc: any,
-    nameTagBuffer: Buffer,
+    badges: RenderedBadge[],
+    layout: GridLayout,
     template: NameTagTemplate,
-    options: PDFOptions
+    pdfOptions: PDFOptions
   ): Promise<void> {
-    // Calculate position to center the name tag
-    const pageWidth = doc.page.width;
-    const pageHeight = doc.page.height;
-    const nameTagWidth = template.dimensions.width;
-    const nameTagHeight = template.dimensions.height;
-    
-    const x = (pageWidth - nameTagWidth) / 2;
-    const y = (pageHeight - nameTagHeight) / 2;
+    const { tagsPerPage } = layout;
 
-    // Add name tag image to PDF
-    doc.image(nameTagBuffer, x, y, {
-      width: nameTagWidth,
-      height: nameTagHeight
-    });
+    for (let start = 0; start < badges.length; start += tagsPerPage) {
+      // Add new page if needed
+      if (start > 0) {
+        doc.addPage();
+      }
+
+      await this.addSheet(doc, badges.slice(start, start + tagsPerPage), layout, template, pdfOptions);
+    }
   }
 
   /**
-   * Add multiple name tags to PDF pages
+   * Fill the current page with the fronts of up to one page worth of badges. For duplex output
+   * the backs follow on a new page, mirrored so each lands behind its front.
    */
-  private async addMultipleNameTagsToPages(
+  private async addSheet(
     doc: any,
-    nameTagBuffers: Buffer[],
+    badges: RenderedBadge[],
+    layout: GridLayout,
     template: NameTagTemplate,
-    options: PDFOptions
+    pdfOptions: PDFOptions
   ): Promise<void> {
-    const { nameTagsPerPage } = options;
-    const nameTagWidth = template.dimensions.width;
-    const nameTagHeight = template.dimensions.height;
-    
-    // Calculate layout
-    const cols = Math.min(2, Math.floor(doc.page.width / (nameTagWidth + 20)));
-    const rows = Math.ceil(nameTagsPerPage / cols);
-    
-    const startX = (doc.page.width - (cols * nameTagWidth + (cols - 1) * 20)) / 2;
-    const startY = (doc.page.height - (rows * nameTagHeight + (rows - 1) * 20)) / 2;
+    await this.addNameTagsToPage(doc, badges.map(badge => badge.front), layout, template, pdfOptions);
 
-    let currentPage = 0;
-    
-    for (let i = 0; i < nameTagBuffers.length; i++) {
-      const positionOnPage = i % nameTagsPerPage;
-      
-      // Add new page if needed
-      if (i > 0 && positionOnPage === 0) {
-        doc.addPage();
-        currentPage++;
+    if (!pdfOptions.duplex) {
+      return;
+    }
+
+    const page = getPageDimensions(pdfOptions.pageSize, pdfOptions.orientation, 'pt');
+    doc.addPage();
+    await this.addNameTagsToPage(
+      doc,
+      badges.map(badge => badge.back!),
+      getBackSideLayout(layout, page, pdfOptions.duplex),
+      template,
+      pdfOptions,
+      'back'
+    );
+  }
+
+  /**
+   * Add up to one page worth of name tags to the current PDF page, with any bleed and cut guides.
+   * Cut guides are only drawn on fronts, which is the side that gets cut.
+   */
+  private async addNameTagsToPage(
+    doc: any,
+    nameTags: RenderedNameTag[],
+    layout: GridLayout,
+    template: NameTagTemplate,
+    pdfOptions: PDFOptions,
+    side: 'front' | 'back' = 'front'
+  ): Promise<void> {
+    // Bleed goes down first so a neighbour's bleed never covers a tag
+    if (pdfOptions.bleed) {
+      this.drawBleed(doc, nameTags.length, layout, template.styles.backgroundColor, pdfOptions.bleed);
+    }
+
+    nameTags.forEach((nameTag, index) => {
+      const { x, y } = layout.positions[index];
+
+      if (pdfOptions.tentCard) {
+        this.placeTentCard(doc, nameTag, x, y, layout.tagWidth, layout.tagHeight);
+        return;
       }
-      
-      // Calculate position on current page
-      const col = positionOnPage % cols;
-      const row = Math.floor(positionOnPage / cols);
-      
-      const x = startX + col * (nameTagWidth + 20);
-      const y = startY + row * (nameTagHeight + 20);
-      
-      // Add name tag image
-      doc.image(nameTagBuffers[i], x, y, {
-        width: nameTagWidth,
-        height: nameTagHeight
-      });
+
+      this.placeNameTag(doc, nameTag, x, y, layout.tagWidth, layout.tagHeight);
+    });
+
+    // Label sheets are die-cut, so cut guides only apply to plain paper
+    if (pdfOptions.labelSheet || side === 'back') {
+      return;
+    }
+
+    if (pdfOptions.tentCard) {
+      const page = getPageDimensions(pdfOptions.pageSize, pdfOptions.orientation, 'pt');
+      this.drawCropMarks(doc, calculateFoldMarks(layout, nameTags.length, page, {
+        bleed: pdfOptions.bleed ?? 0
+      }));
+    }
+
+    if (pdfOptions.cutLines) {
+      this.drawCutLines(doc, nameTags.length, layout);
+    }
+
+    if (pdfOptions.cropMarks) {
+      const page = getPageDimensions(pdfOptions.pageSize, pdfOptions.orientation, 'pt');
+      this.drawCropMarks(doc, calculateCropMarks(layout, nameTags.length, page, {
+        bleed: pdfOptions.bleed ?? 0
+      }));
+    }
+  }
+
+  /**
+   * Draw one side of a tag scaled to fit the slot
+   */
+  private placeNameTag(doc: any, nameTag: RenderedNameTag, x: number, y: number, width: number, height: number): void {
+    // Both paths scale to fit the slot without distortion; label sizes rarely match the template's aspect ratio
+    if (nameTag.type === 'vector' && nameTag.side === 'back') {
+      this.vectorRenderer.drawBack(doc, nameTag.tag, x, y, width, height);
+      return;
+    }
+    if (nameTag.type === 'vector') {
+      this.vectorRenderer.draw(doc, nameTag.tag, x, y, width, height);
+      return;
+    }
+
+    doc.image(nameTag.image, x, y, {
+      fit: [width, height],
+      align: 'center',
+      valign: 'center'
+    });
+  }
+
+  /**
+   * Draw a tag on both halves of a tent card. The top half is rotated 180° so that
+   * once folded along the middle, both faces read upright.
+   */
+  private placeTentCard(doc: any, nameTag: RenderedNameTag, x: number, y: number, width: number, height: number): void {
+    const panelHeight = height / 2;
+
+    doc.save();
+    doc.rotate(180, { origin: [x + width / 2, y + panelHeight / 2] });
+    this.placeNameTag(doc, nameTag, x, y, width, panelHeight);
+    doc.restore();
+
+    this.placeNameTag(doc, nameTag, x, y + panelHeight, width, panelHeight);
+  }
+
+  /**
+   * Extend each tag's background color past its trim line
+   */
+  private drawBleed(doc: any, tagCount: number, layout: GridLayout, color: string, bleed: number): void {
+    doc.save();
+    layout.positions.slice(0, tagCount).forEach(({ x, y }) => {
+      doc.rect(x - bleed, y - bleed, layout.tagWidth + 2 * bleed, layout.tagHeight + 2 * bleed).fill(color);
+    });
+    doc.restore();
+  }
+
+  /**
+   * Outline each tag with a thin dashed line along its trim edge
+   */
+  private drawCutLines(doc: any, tagCount: number, layout: GridLayout): void {
+    doc.save();
+    doc.lineWidth(0.5).strokeColor('#999999').dash(4, { space: 3 });
+    layout.positions.slice(0, tagCount).forEach(({ x, y }) => {
+      doc.rect(x, y, layout.tagWidth, layout.tagHeight).stroke();
+    });
+    doc.undash();
+    doc.restore();
+  }
+
+  /**
+   * Draw hairline crop or fold marks in registration black
+   */
+  private drawCropMarks(doc: any, marks: LineSegment[]): void {
+    doc.save();
+    doc.lineWidth(0.25).strokeColor('#000000');
+    marks.forEach(mark => {
+      doc.moveTo(mark.x1, mark.y1).lineTo(mark.x2, mark.y2).stroke();
+    });
+    doc.restore();
+  }
+
+  /**
+   * Wait while the stream consumer is behind, so rendered pages don't pile up in memory
+   */
+  private async waitForConsumer(stream: Readable): Promise<void> {
+    // Poll rather than listen for 'data', which would switch a paused stream into flowing mode
+    while (stream.readableLength > this.streamHighWaterMark && !stream.destroyed) {
+      await new Promise(resolve => setTimeout(resolve, 50));
     }
   }
 
@@ -276,14 +622,59 @@ export class PDFService {
       return false;
     }
     
-    if (options.margin < 0 || options.margin > 100) {
+    // Options come from JSON request bodies: "10" or NaN would break the layout math
+    if (!isNumberInRange(options.margin, 0, 100)) {
       return false;
     }
     
-    if (options.nameTagsPerPage < 1 || options.nameTagsPerPage > 20) {
+    if (!Number.isInteger(options.nameTagsPerPage) || options.nameTagsPerPage < 1 || options.nameTagsPerPage > 20) {
+      return false;
+    }
+
+    if (options.gutter !== undefined && !isNumberInRange(options.gutter, 0, 100)) {
+      return false;
+    }
+
+    if (options.grid !== undefined) {
+      if (typeof options.grid !== 'object' || options.grid === null) {
+        return false;
+      }
+      const { rows, columns } = options.grid;
+      if (!Number.isInteger(rows) || !Number.isInteger(columns) ||
+          rows < 1 || columns < 1 || rows * columns > 20) {
+        return false;
+      }
+    }
+
+    if (options.labelSheet !== undefined && (typeof options.labelSheet !== 'string' || !getLabelSheet(options.labelSheet))) {
+      return false;
+    }
+
+    if (options.bleed !== undefined && !isNumberInRange(options.bleed, 0, 36)) {
+      return false;
+    }
+
+    if ([options.cropMarks, options.cutLines, options.tentCard].some(flag => flag !== undefined && typeof flag !== 'boolean')) {
+      return false;
+    }
+
+    if (options.renderMode !== undefined && !['vector', 'raster'].includes(options.renderMode)) {
+      return false;
+    }
+
+    if (options.duplex !== undefined && !['long-edge', 'short-edge'].includes(options.duplex)) {
+      return false;
+    }
+
+    // Tent cards are printed on one side of plain paper
+    if (options.tentCard && (options.duplex || options.labelSheet)) {
       return false;
     }
     
     return true;
   }
-}
\ No newline at end of file
+}
+
+function isNumberInRange(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
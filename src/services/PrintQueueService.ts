@@ -0,0 +1,144 @@
+import { XProfile } from '../types';
+import { validateXProfile } from '../utils/validation';
+
+/**
+ * A profile waiting to be printed, with the template chosen when it was added
+ */
+export interface PrintQueueEntry {
+  id: string;
+  profile: XProfile;
+  templateId: string;
+  addedAt: string;
+}
+
+/**
+ * Profiles collected from the popup and the context menu to print on one sheet, stored in
+ * Chrome's local storage so the queue survives closing the popup and restarting the browser
+ */
+export class PrintQueueService {
+  static readonly MAX_ENTRIES = 100;
+
+  private readonly storageKey = 'x-profile-name-tag-generator-print-queue';
+
+  /**
+   * Queued profiles, in print order
+   */
+  async getEntries(): Promise<PrintQueueEntry[]> {
+    return this.loadEntries();
+  }
+
+  /**
+   * Add a profile to the end of the queue. A profile already queued is updated in place
+   * instead of being added twice.
+   */
+  async add(profile: XProfile, templateId: string): Promise<PrintQueueEntry> {
+    const entries = await this.loadEntries();
+    const index = entries.findIndex(entry => entry.profile.username.toLowerCase() === profile.username.toLowerCase());
+
+    if (index >= 0) {
+      entries[index] = { ...entries[index], profile, templateId };
+      await this.saveEntries(entries);
+      return entries[index];
+    }
+
+    if (entries.length >= PrintQueueService.MAX_ENTRIES) {
+      throw new Error(`The print queue is full (${PrintQueueService.MAX_ENTRIES} profiles)`);
+    }
+
+    const entry: PrintQueueEntry = { id: crypto.randomUUID(), profile, templateId, addedAt: new Date().toISOString() };
+    await this.saveEntries([...entries, entry]);
+    return entry;
+  }
+
+  /**
+   * Remove a profile from the queue
+   */
+  async remove(id: string): Promise<void> {
+    await this.saveEntries((await this.loadEntries()).filter(entry => entry.id !== id));
+  }
+
+  /**
+   * Move a profile to another position, clamped to the queue
+   */
+  async move(id: string, position: number): Promise<PrintQueueEntry[]> {
+    const entries = await this.loadEntries();
+    const index = entries.findIndex(entry => entry.id === id);
+    if (index < 0) {
+      throw new Error(`Print queue entry not found: ${id}`);
+    }
+
+    const [entry] = entries.splice(index, 1);
+    entries.splice(Math.max(0, Math.min(position, entries.length)), 0, entry);
+    await this.saveEntries(entries);
+    return entries;
+  }
+
+  /**
+   * Empty the queue
+   */
+  async clear(): Promise<void> {
+    await this.saveEntries([]);
+  }
+
+  /**
+   * Call a listener whenever the queue changes, from any page of the extension
+   */
+  watch(listener: (entries: PrintQueueEntry[]) => void): void {
+    if (typeof chrome === 'undefined' || !chrome.storage) {
+      return;
+    }
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName === 'local' && changes[this.storageKey]) {
+        listener(this.parseEntries(changes[this.storageKey].newValue));
+      }
+    });
+  }
+
+  /**
+   * Load the queue from Chrome storage, or localStorage outside the extension
+   */
+  private async loadEntries(): Promise<PrintQueueEntry[]> {
+    try {
+      let saved: unknown;
+      if (typeof chrome !== 'undefined' && chrome.storage) {
+        const result = await chrome.storage.local.get(this.storageKey);
+        saved = result[this.storageKey];
+      } else {
+        const stored = localStorage.getItem(this.storageKey);
+        saved = stored ? JSON.parse(stored) : null;
+      }
+      return this.parseEntries(saved);
+    } catch (error) {
+      console.error('Failed to load print queue:', error);
+      return [];
+    }
+  }
+
+  // Skip entries whose profile no longer validates rather than losing the whole queue
+  private parseEntries(saved: unknown): PrintQueueEntry[] {
+    if (!Array.isArray(saved)) {
+      return [];
+    }
+
+    return saved.flatMap(entry => {
+      const profile = validateXProfile(entry?.profile);
+      return profile && typeof entry.id === 'string' && typeof entry.templateId === 'string'
+        ? [{ id: entry.id, profile, templateId: entry.templateId, addedAt: String(entry.addedAt) }]
+        : [];
+    });
+  }
+
+  private async saveEntries(entries: PrintQueueEntry[]): Promise<void> {
+    try {
+      // Profile dates become ISO strings; chrome.storage can't store Date objects
+      const serialized = JSON.stringify(entries);
+      if (typeof chrome !== 'undefined' && chrome.storage) {
+        await chrome.storage.local.set({ [this.storageKey]: JSON.parse(serialized) });
+      } else {
+        localStorage.setItem(this.storageKey, serialized);
+      }
+    } catch (error) {
+      throw new Error(`Failed to save print queue: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { XProfile, ProfileFetchResult, APIResponse, ErrorCode } from '../types';
+import { extractUsernameFromUrl, validateXProfile, createAPIError } from '../utils/validation';
+
+/**
+ * Resolves an X profile URL into profile data on the server side.
+ * `ProfileService` satisfies the same contract inside the extension.
+ */
+export interface ProfileFetcher {
+  fetchProfile(url: string): Promise<APIResponse<ProfileFetchResult>>;
+}
+
+/**
+ * Profile fetcher backed by a local store of profiles keyed by username.
+ * Used by tests and offline setups where scraping X is not an option.
+ */
+export class FixtureProfileFetcher implements ProfileFetcher {
+  private readonly profiles: Map<string, XProfile> = new Map();
+
+  constructor(profiles: XProfile[] = []) {
+    profiles.forEach(profile => this.addProfile(profile));
+  }
+
+  /**
+   * Load every `*.json` file in a directory as a profile fixture
+   */
+  static async fromDirectory(directory: string): Promise<FixtureProfileFetcher> {
+    const fetcher = new FixtureProfileFetcher();
+    const files = await fs.readdir(directory);
+
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      const contents = await fs.readFile(path.join(directory, file), 'utf8');
+      const profile = validateXProfile(JSON.parse(contents));
+
+      if (!profile) {
+        throw new Error(`Invalid profile fixture: ${file}`);
+      }
+
+      fetcher.addProfile(profile);
+    }
+
+    return fetcher;
+  }
+
+  /**
+   * Add or replace a profile in the store
+   */
+  addProfile(profile: XProfile): void {
+    this.profiles.set(profile.username.toLowerCase(), profile);
+  }
+
+  async fetchProfile(url: string): Promise<APIResponse<ProfileFetchResult>> {
+    const username = extractUsernameFromUrl(url);
+
+    if (!username) {
+      return {
+        success: false,
+        error: createAPIError(ErrorCode.INVALID_URL, `Invalid X profile URL: ${url}`)
+      };
+    }
+
+    const profile = this.profiles.get(username.toLowerCase());
+
+    if (!profile) {
+      return {
+        success: false,
+        error: createAPIError(ErrorCode.PROFILE_NOT_FOUND, `Profile not found: ${url}`)
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        profile: { ...profile },
+        fromCache: true
+      }
+    };
+  }
+}
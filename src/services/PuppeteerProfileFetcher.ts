@@ -0,0 +1,178 @@
+import puppeteer, { Browser, Page } from 'puppeteer';
+import { ProfileFetchResult, APIResponse, ErrorCode } from '../types';
+import { isValidXProfileUrl, validateXProfile, createAPIError } from '../utils/validation';
+import { getErrorMessage, logError } from '../utils/errors';
+import { ProfileFetcher } from './ProfileFetcher';
+
+/**
+ * Server-side profile fetcher that renders the X profile page in headless Chromium
+ * and reads the same DOM elements the content script uses.
+ */
+export class PuppeteerProfileFetcher implements ProfileFetcher {
+  private browser: Promise<Browser> | null = null; // Launched or launching
+  private readonly NAVIGATION_TIMEOUT = Number(process.env.PUPPETEER_TIMEOUT) || 30000;
+  private readonly SELECTOR_TIMEOUT = 10000;
+
+  async fetchProfile(url: string): Promise<APIResponse<ProfileFetchResult>> {
+    if (!isValidXProfileUrl(url)) {
+      return {
+        success: false,
+        error: createAPIError(ErrorCode.INVALID_URL, `Invalid X profile URL: ${url}`)
+      };
+    }
+
+    let browser: Browser;
+    try {
+      browser = await this.getBrowser();
+    } catch (error) {
+      logError('PuppeteerProfileFetcher.getBrowser', error);
+      return {
+        success: false,
+        error: createAPIError(ErrorCode.UNKNOWN_ERROR, 'Failed to launch headless browser', getErrorMessage(error), false)
+      };
+    }
+
+    let page: Page | null = null;
+    try {
+      try {
+        page = await browser.newPage();
+      } catch (error) {
+        // A browser that can't open pages has likely crashed; relaunch it on the next request
+        logError('PuppeteerProfileFetcher.newPage', error);
+        await this.close().catch(closeError => logError('PuppeteerProfileFetcher.close', closeError));
+        return {
+          success: false,
+          error: createAPIError(ErrorCode.UNKNOWN_ERROR, 'Failed to open a page in the headless browser', getErrorMessage(error), false)
+        };
+      }
+
+      let response;
+      try {
+        response = await page.goto(url, {
+          waitUntil: 'networkidle2',
+          timeout: this.NAVIGATION_TIMEOUT
+        });
+      } catch (error) {
+        logError('PuppeteerProfileFetcher.fetchProfile', error);
+        return {
+          success: false,
+          error: createAPIError(ErrorCode.NETWORK_ERROR, `Failed to load profile page: ${url}`, getErrorMessage(error))
+        };
+      }
+
+      if (response?.status() === 429) {
+        return {
+          success: false,
+          error: createAPIError(ErrorCode.RATE_LIMIT_EXCEEDED, `Rate limited while loading: ${url}`)
+        };
+      }
+
+      if (response?.status() === 404) {
+        return {
+          success: false,
+          error: createAPIError(ErrorCode.PROFILE_NOT_FOUND, `Profile not found: ${url}`)
+        };
+      }
+
+      try {
+        await page.waitForSelector('[data-testid="UserName"]', { timeout: this.SELECTOR_TIMEOUT });
+      } catch {
+        return {
+          success: false,
+          error: createAPIError(ErrorCode.PROFILE_NOT_FOUND, `Profile not found or private: ${url}`)
+        };
+      }
+
+      const scraped = await page.evaluate(() => {
+        const userName = document.querySelector('[data-testid="UserName"]');
+        const spans = Array.from(userName?.querySelectorAll('span') || []);
+        const handle = spans.find(span => span.textContent?.startsWith('@'))?.textContent || '';
+        const name = spans.find(span => span.textContent && !span.textContent.startsWith('@'))?.textContent || '';
+        const avatar = document.querySelector('img[src*="profile_images"]') as HTMLImageElement | null;
+        const followers = document.querySelector('a[href$="/verified_followers"], a[href$="/followers"]');
+        const following = document.querySelector('a[href$="/following"]');
+
+        return {
+          username: handle.replace(/^@/, ''),
+          displayName: name,
+          bio: document.querySelector('[data-testid="UserDescription"]')?.textContent || '',
+          avatarUrl: avatar?.src.replace(/_(normal|bigger|200x200)\./, '_400x400.') || '',
+          followerCount: followers?.textContent?.match(/^([\d,\.]+[KMB]?)/)?.[1] || '0',
+          followingCount: following?.textContent?.match(/^([\d,\.]+[KMB]?)/)?.[1] || '0',
+          verified: Boolean(document.querySelector('[data-testid="icon-verified"], svg[aria-label*="Verified"]'))
+        };
+      });
+
+      const profile = validateXProfile({
+        ...scraped,
+        displayName: scraped.displayName || scraped.username,
+        profileUrl: url,
+        extractedAt: new Date()
+      });
+
+      if (!profile) {
+        return {
+          success: false,
+          error: createAPIError(ErrorCode.PARSING_ERROR, `Failed to extract profile information: ${url}`)
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          profile,
+          fromCache: false
+        }
+      };
+    } catch (error) {
+      logError('PuppeteerProfileFetcher.fetchProfile', error);
+      return {
+        success: false,
+        error: createAPIError(ErrorCode.PARSING_ERROR, 'Failed to extract profile information', getErrorMessage(error))
+      };
+    } finally {
+      await page?.close().catch(error => logError('PuppeteerProfileFetcher.closePage', error));
+    }
+  }
+
+  /**
+   * Close the shared browser instance
+   */
+  async close(): Promise<void> {
+    const launching = this.browser;
+    if (!launching) {
+      return;
+    }
+
+    try {
+      const browser = await launching.catch(() => null); // A failed launch has nothing to close
+      await browser?.close();
+    } finally {
+      // Forget it even if closing fails, so the next request launches a new one
+      if (this.browser === launching) {
+        this.browser = null;
+      }
+    }
+  }
+
+  /**
+   * Lazily launch a single browser shared across requests. Requests arriving while it
+   * launches wait for the same launch; a failed launch is retried by the next request.
+   */
+  private getBrowser(): Promise<Browser> {
+    if (!this.browser) {
+      const launching = puppeteer.launch({
+        headless: process.env.PUPPETEER_HEADLESS === 'false' ? false : 'new',
+        executablePath: process.env.PUPPETEER_EXECUTABLE_PATH,
+        args: ['--no-sandbox', '--disable-setuid-sandbox']
+      });
+      this.browser = launching;
+      launching.catch(() => {
+        if (this.browser === launching) {
+          this.browser = null;
+        }
+      });
+    }
+    return this.browser;
+  }
+}
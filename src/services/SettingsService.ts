@@ -1,4 +1,7 @@
 import { AppSettings } from '../types';
+import { getLabelSheet } from '../utils/labelSheets';
+import { isExportFormat, MAX_EXPORT_DPI, MIN_EXPORT_DPI } from '../utils/exportFormats';
+import { getDownloadFolderErrors, getFileNamePatternErrors } from '../utils/fileNames';
 
 export interface SettingsValidationResult {
   isValid: boolean;
@@ -143,9 +146,35 @@ export class SettingsService {
       errors.push('autoDownload must be a boolean');
     }
 
+    // Validate downloadFolder
+    if (settings.downloadFolder !== undefined) {
+      errors.push(...getDownloadFolderErrors(settings.downloadFolder));
+    }
+
     // Validate downloadFormat
-    if (!['pdf', 'png'].includes(settings.downloadFormat)) {
-      errors.push('downloadFormat must be "pdf" or "png"');
+    if (!isExportFormat(settings.downloadFormat)) {
+      errors.push('downloadFormat must be "pdf", "png", "svg" or "webp"');
+    }
+
+    // Validate exportDpi
+    if (settings.exportDpi !== undefined &&
+        (!Number.isInteger(settings.exportDpi) || settings.exportDpi < MIN_EXPORT_DPI || settings.exportDpi > MAX_EXPORT_DPI)) {
+      errors.push(`exportDpi must be a whole number from ${MIN_EXPORT_DPI} to ${MAX_EXPORT_DPI}`);
+    }
+
+    // Validate transparentBackground
+    if (settings.transparentBackground !== undefined && typeof settings.transparentBackground !== 'boolean') {
+      errors.push('transparentBackground must be a boolean');
+    }
+
+    // Validate fileNamePattern
+    if (settings.fileNamePattern !== undefined) {
+      errors.push(...getFileNamePatternErrors(settings.fileNamePattern));
+    }
+
+    // Validate eventName
+    if (settings.eventName !== undefined && (typeof settings.eventName !== 'string' || settings.eventName.length > 100)) {
+      errors.push('eventName must be a string of at most 100 characters');
     }
 
     // Validate pdfQuality
@@ -177,6 +206,11 @@ export class SettingsService {
       errors.push('maxRecentProfiles must be a number between 1 and 50');
     }
 
+    // Validate labelSheet
+    if (settings.labelSheet !== undefined && !getLabelSheet(settings.labelSheet)) {
+      errors.push(`Unknown label sheet: ${settings.labelSheet}`);
+    }
+
     return {
       isValid: errors.length === 0,
       errors
@@ -195,10 +229,23 @@ export class SettingsService {
       migrated.autoDownload = Boolean(oldSettings.autoDownload);
     }
 
-    if (oldSettings.downloadFormat && ['pdf', 'png'].includes(oldSettings.downloadFormat)) {
+    if (oldSettings.downloadFolder !== undefined && getDownloadFolderErrors(oldSettings.downloadFolder).length === 0) {
+      migrated.downloadFolder = oldSettings.downloadFolder;
+    }
+
+    if (isExportFormat(oldSettings.downloadFormat)) {
       migrated.downloadFormat = oldSettings.downloadFormat;
     }
 
+    if (Number.isInteger(oldSettings.exportDpi) &&
+        oldSettings.exportDpi >= MIN_EXPORT_DPI && oldSettings.exportDpi <= MAX_EXPORT_DPI) {
+      migrated.exportDpi = oldSettings.exportDpi;
+    }
+
+    if (typeof oldSettings.transparentBackground === 'boolean') {
+      migrated.transparentBackground = oldSettings.transparentBackground;
+    }
+
     if (oldSettings.pdfQuality && ['low', 'medium', 'high'].includes(oldSettings.pdfQuality)) {
       migrated.pdfQuality = oldSettings.pdfQuality;
     }
@@ -219,6 +266,18 @@ export class SettingsService {
         .slice(0, migrated.maxRecentProfiles);
     }
 
+    if (typeof oldSettings.labelSheet === 'string' && getLabelSheet(oldSettings.labelSheet)) {
+      migrated.labelSheet = oldSettings.labelSheet;
+    }
+
+    if (getFileNamePatternErrors(oldSettings.fileNamePattern).length === 0) {
+      migrated.fileNamePattern = oldSettings.fileNamePattern;
+    }
+
+    if (typeof oldSettings.eventName === 'string' && oldSettings.eventName.length <= 100) {
+      migrated.eventName = oldSettings.eventName;
+    }
+
     return migrated;
   }
 
@@ -0,0 +1,134 @@
+import { Box, Paint, RenderBackend, TextStyle } from './NameTagRenderer';
+import { escapeXml } from '../utils/text';
+
+/**
+ * Loads an image for the SVG, returning it as a PNG or JPEG data: URI
+ */
+export type SvgImageLoader = (source: string) => Promise<string | null>;
+
+/**
+ * Measures text for the SVG: with the registered fonts on the server, a canvas in the browser
+ */
+export type SvgTextMeasurer = (text: string, style: TextStyle) => number;
+
+/**
+ * Outlines a left-to-right line as SVG path data with its baseline starting at the origin,
+ * or returns null to leave the line to the SVG renderer's fonts
+ */
+export type SvgTextOutliner = (text: string, style: TextStyle) => { path: string; width: number } | null;
+
+// Fallback for emoji in text; the Docker image installs it (font-noto-emoji) for librsvg
+export const EMOJI_FONT_FAMILY = 'Noto Color Emoji';
+
+/**
+ * Backend that writes SVG markup, for sharp to rasterize on the server. Images are embedded
+ * as data: URIs; rotations become nested groups; text is drawn as outlines where a text
+ * outliner covers it.
+ */
+export class SvgRenderBackend implements RenderBackend<string> {
+  private readonly parts: string[] = [];
+  private readonly openGroups: number[] = [0]; // Groups opened since each save()
+  private clipCount = 0;
+
+  constructor(
+    private readonly width: number,
+    private readonly height: number,
+    private readonly imageLoader: SvgImageLoader,
+    private readonly textMeasurer: SvgTextMeasurer,
+    private readonly textOutliner?: SvgTextOutliner
+  ) {}
+
+  loadImage(source: string): Promise<string | null> {
+    return this.imageLoader(source);
+  }
+
+  save(): void {
+    this.openGroups.push(0);
+  }
+
+  restore(): void {
+    const groups = this.openGroups.length > 1 ? this.openGroups.pop()! : 0;
+    this.parts.push('</g>'.repeat(groups));
+  }
+
+  rotate(degrees: number, originX: number, originY: number): void {
+    this.parts.push(`<g transform="rotate(${num(degrees)} ${num(originX)} ${num(originY)})">`);
+    this.openGroups[this.openGroups.length - 1]++;
+  }
+
+  drawRect(box: Box, paint: Paint, cornerRadius: number = 0): void {
+    const radius = num(cornerRadius) ? ` rx="${num(cornerRadius)}"` : '';
+    this.parts.push(`<rect ${boxAttributes(box)}${radius} ${this.paint(paint)}/>`);
+  }
+
+  drawEllipse(box: Box, paint: Paint): void {
+    this.parts.push(`<ellipse ${ellipseAttributes(box)} ${this.paint(paint)}/>`);
+  }
+
+  drawLine(x1: number, y1: number, x2: number, y2: number, color: string, width: number): void {
+    this.parts.push(`<line x1="${num(x1)}" y1="${num(y1)}" x2="${num(x2)}" y2="${num(y2)}" stroke="${escapeXml(String(color))}" stroke-width="${num(width)}"/>`);
+  }
+
+  measureText(text: string, style: TextStyle): number {
+    return this.textMeasurer(text, style);
+  }
+
+  drawText(text: string, x: number, y: number, style: TextStyle): void {
+    // text-anchor follows the direction: "start" is the right end of right-to-left text
+    const rtl = style.direction === 'rtl';
+    const outline = rtl ? null : this.textOutliner?.(text, style);
+    if (outline) {
+      const width = num(outline.width);
+      const left = num(x) - (style.align === 'center' ? width / 2 : style.align === 'right' ? width : 0);
+      this.parts.push(`<path transform="translate(${left} ${num(y)})" d="${escapeXml(outline.path)}" fill="${escapeXml(String(style.color))}"/>`);
+      return;
+    }
+
+    const anchor = style.align === 'center' ? 'middle' : (style.align === 'right') !== rtl ? 'end' : 'start';
+    const direction = rtl ? ' direction="rtl"' : '';
+
+    this.parts.push(`<text x="${num(x)}" y="${num(y)}" font-family="${escapeXml(`${style.fontFamily}, ${EMOJI_FONT_FAMILY}`)}"` +
+      ` font-size="${num(style.fontSize)}" font-weight="${escapeXml(String(style.fontWeight))}" fill="${escapeXml(String(style.color))}"` +
+      ` text-anchor="${anchor}"${direction}>${escapeXml(text)}</text>`);
+  }
+
+  drawImage(image: string, box: Box, clip: 'rect' | 'circle'): void {
+    const id = `clip-${++this.clipCount}`;
+    const shape = clip === 'circle'
+      ? `<ellipse ${ellipseAttributes(box)}/>`
+      : `<rect ${boxAttributes(box)}/>`;
+
+    this.parts.push(`<clipPath id="${id}">${shape}</clipPath>` +
+      `<image ${boxAttributes(box)} preserveAspectRatio="xMidYMid slice"` +
+      ` clip-path="url(#${id})" href="${escapeXml(image)}"/>`);
+  }
+
+  /**
+   * The finished SVG document
+   */
+  toString(): string {
+    return `<svg width="${num(this.width)}" height="${num(this.height)}" xmlns="http://www.w3.org/2000/svg">${this.parts.join('')}</svg>`;
+  }
+
+  private paint(paint: Paint): string {
+    return `fill="${escapeXml(String(paint.fill || 'none'))}" stroke="${escapeXml(String(paint.stroke || 'none'))}"` +
+      ` stroke-width="${num(paint.strokeWidth ?? 1)}"`;
+  }
+}
+
+// Template values reach the markup unchecked at runtime: anything but a finite number
+// becomes 0 so it can't break out of the attribute
+function num(value: unknown): number {
+  const number = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(number) ? number : 0;
+}
+
+function boxAttributes(box: Box): string {
+  return `x="${num(box.x)}" y="${num(box.y)}" width="${num(box.width)}" height="${num(box.height)}"`;
+}
+
+function ellipseAttributes(box: Box): string {
+  const rx = num(box.width) / 2;
+  const ry = num(box.height) / 2;
+  return `cx="${num(box.x) + rx}" cy="${num(box.y) + ry}" rx="${rx}" ry="${ry}"`;
+}
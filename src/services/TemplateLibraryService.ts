@@ -0,0 +1,155 @@
+import { NameTagTemplate } from '../types';
+import { getBuiltInTemplate, getBuiltInTemplates } from '../utils/templates';
+import { getTemplateValidationErrors } from '../utils/validation';
+
+/**
+ * The user's named custom templates in the extension, stored in Chrome's local storage
+ * (sync storage is too small for templates with embedded logos). Built-in templates are
+ * listed alongside them but can't be changed.
+ */
+export class TemplateLibraryService {
+  private readonly storageKey = 'x-profile-name-tag-generator-templates';
+
+  /**
+   * Built-in templates followed by the custom ones, in the order they were created
+   */
+  async getAllTemplates(): Promise<NameTagTemplate[]> {
+    return [...getBuiltInTemplates(), ...await this.getCustomTemplates()];
+  }
+
+  /**
+   * Custom templates, in the order they were created
+   */
+  async getCustomTemplates(): Promise<NameTagTemplate[]> {
+    return this.loadTemplates();
+  }
+
+  /**
+   * Get a built-in or custom template by id
+   */
+  async getTemplate(id: string): Promise<NameTagTemplate | null> {
+    return getBuiltInTemplate(id) || (await this.loadTemplates()).find(template => template.id === id) || null;
+  }
+
+  /**
+   * Whether a template is built in and can't be changed
+   */
+  isBuiltIn(id: string): boolean {
+    return getBuiltInTemplate(id) !== null;
+  }
+
+  /**
+   * Save a template under a new id, e.g. one derived from a built-in template
+   */
+  async createTemplate(template: NameTagTemplate, name: string = template.name): Promise<NameTagTemplate> {
+    const created = { ...template, id: this.createId(), name };
+    await this.saveTemplate(created);
+    return created;
+  }
+
+  /**
+   * Save a custom template, replacing the one with the same id
+   */
+  async saveTemplate(template: NameTagTemplate): Promise<void> {
+    if (this.isBuiltIn(template.id)) {
+      throw new Error(`Built-in template ${template.id} can't be changed`);
+    }
+
+    const errors = getTemplateValidationErrors(template);
+    if (errors.length) {
+      throw new Error(`Invalid template: ${errors.map(error => `${error.field} ${error.message}`).join(', ')}`);
+    }
+
+    const templates = await this.loadTemplates();
+    const index = templates.findIndex(other => other.id === template.id);
+    if (index >= 0) {
+      templates[index] = template;
+    } else {
+      templates.push(template);
+    }
+    await this.saveTemplates(templates);
+  }
+
+  /**
+   * Rename a custom template
+   */
+  async renameTemplate(id: string, name: string): Promise<NameTagTemplate> {
+    if (!name.trim()) {
+      throw new Error('Template name must not be empty');
+    }
+
+    const template = await this.getCustomTemplate(id);
+    const renamed = { ...template, name: name.trim() };
+    await this.saveTemplate(renamed);
+    return renamed;
+  }
+
+  /**
+   * Copy a built-in or custom template into a new custom template
+   */
+  async duplicateTemplate(id: string, name?: string): Promise<NameTagTemplate> {
+    const template = await this.getTemplate(id);
+    if (!template) {
+      throw new Error(`Template not found: ${id}`);
+    }
+    return this.createTemplate(template, name || `${template.name} (copy)`);
+  }
+
+  /**
+   * Delete a custom template
+   */
+  async deleteTemplate(id: string): Promise<void> {
+    await this.getCustomTemplate(id);
+    await this.saveTemplates((await this.loadTemplates()).filter(template => template.id !== id));
+  }
+
+  private async getCustomTemplate(id: string): Promise<NameTagTemplate> {
+    if (this.isBuiltIn(id)) {
+      throw new Error(`Built-in template ${id} can't be changed`);
+    }
+
+    const template = (await this.loadTemplates()).find(other => other.id === id);
+    if (!template) {
+      throw new Error(`Template not found: ${id}`);
+    }
+    return template;
+  }
+
+  private createId(): string {
+    return `custom-${crypto.randomUUID()}`;
+  }
+
+  /**
+   * Load templates from Chrome storage, or localStorage outside the extension
+   */
+  private async loadTemplates(): Promise<NameTagTemplate[]> {
+    try {
+      let saved: unknown;
+      if (typeof chrome !== 'undefined' && chrome.storage) {
+        const result = await chrome.storage.local.get(this.storageKey);
+        saved = result[this.storageKey];
+      } else {
+        const stored = localStorage.getItem(this.storageKey);
+        saved = stored ? JSON.parse(stored) : null;
+      }
+
+      // Skip templates that no longer validate rather than losing the whole library
+      return Array.isArray(saved) ? saved.filter(template => getTemplateValidationErrors(template).length === 0) : [];
+    } catch (error) {
+      console.error('Failed to load templates:', error);
+      return [];
+    }
+  }
+
+  private async saveTemplates(templates: NameTagTemplate[]): Promise<void> {
+    try {
+      if (typeof chrome !== 'undefined' && chrome.storage) {
+        await chrome.storage.local.set({ [this.storageKey]: templates });
+      } else {
+        localStorage.setItem(this.storageKey, JSON.stringify(templates));
+      }
+    } catch (error) {
+      throw new Error(`Failed to save templates: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -0,0 +1,188 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { FontDescriptor, NameTagTemplate } from '../types';
+import { getBuiltInTemplate } from '../utils/templates';
+import { getFontFormat } from '../utils/fonts';
+import { validateNameTagTemplate } from '../utils/validation';
+import { TemplateFieldError } from '../utils/templateElements';
+import { TemplatePackage, TemplatePackageError } from '../utils/templatePackage';
+import { FontRegistry } from './FontRegistry';
+
+/**
+ * Persists templates uploaded to the server so they can be used by id and survive restarts.
+ * Each template is stored as `<id>.json`, and the fonts packaged with it under `fonts/<id>/`,
+ * where they are registered with the shared font registry under the family and weight the
+ * package names, listed in `fonts/<id>/fonts.json`.
+ */
+export class TemplateStore {
+  private static readonly TEMPLATE_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+  private static readonly STAGING_PREFIX = '.staging-';
+  private static readonly FONTS_MANIFEST = 'fonts.json';
+
+  private readonly directory: string;
+  private readonly fontsDirectory: string;
+  private readonly templates = new Map<string, NameTagTemplate>();
+
+  constructor(directory: string, private readonly fonts: FontRegistry = FontRegistry.getDefault()) {
+    this.directory = directory;
+    this.fontsDirectory = path.join(directory, 'fonts');
+  }
+
+  /**
+   * Create the storage directories if needed, register the stored fonts and load the
+   * stored templates
+   */
+  async initialize(): Promise<void> {
+    await fs.mkdir(this.fontsDirectory, { recursive: true });
+
+    // Saves interrupted by a restart leave their staging directories behind
+    for (const entry of await fs.readdir(this.directory)) {
+      if (entry.startsWith(TemplateStore.STAGING_PREFIX)) {
+        await fs.rm(path.join(this.directory, entry), { recursive: true, force: true });
+      }
+    }
+
+    // Fonts saved before they were kept per template sit directly in fonts/
+    this.fonts.loadDirectory(this.fontsDirectory);
+    const fontDirectories = (await fs.readdir(this.fontsDirectory, { withFileTypes: true }))
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name)
+      .sort();
+    for (const directory of fontDirectories) {
+      await this.loadTemplateFonts(path.join(this.fontsDirectory, directory));
+    }
+    this.fonts.configureFontconfig();
+
+    const files = (await fs.readdir(this.directory)).filter(file => file.endsWith('.json')).sort();
+    for (const file of files) {
+      try {
+        const template = validateNameTagTemplate(JSON.parse(await fs.readFile(path.join(this.directory, file), 'utf8')));
+        if (template) {
+          this.templates.set(template.id, template);
+        } else {
+          console.warn(`Skipping invalid template ${file}`);
+        }
+      } catch (error) {
+        console.warn(`Skipping template ${file}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  /**
+   * Store an imported template package, replacing an earlier template with the same id.
+   * Built-in template ids can't be replaced.
+   */
+  async save({ template, fonts }: TemplatePackage): Promise<{ template: NameTagTemplate; fonts: FontDescriptor[] }> {
+    if (!TemplateStore.TEMPLATE_ID_PATTERN.test(template.id)) {
+      throw new TemplatePackageError([{ field: 'template.id', message: 'must be 1–64 letters, digits, "-" or "_"' }]);
+    }
+    if (getBuiltInTemplate(template.id)) {
+      throw new TemplatePackageError([{ field: 'template.id', message: 'is a built-in template' }]);
+    }
+
+    const fileNames = fonts.map(font => path.basename(font.fileName));
+    const fileNameErrors = fileNames.flatMap((fileName, index): TemplateFieldError[] => {
+      if (!getFontFormat(fileName) || fileName.startsWith('.')) {
+        return [{ field: `fonts[${index}].file`, message: 'must be a .ttf, .otf or .woff2 file name' }];
+      }
+      return fileNames.indexOf(fileName) < index
+        ? [{ field: `fonts[${index}].file`, message: 'must not repeat another font\'s file name' }]
+        : [];
+    });
+    if (fileNameErrors.length) {
+      throw new TemplatePackageError(fileNameErrors);
+    }
+
+    // Stage the fonts and the template next to the store, so a font that can't be read or a
+    // failed write leaves the stored template and its fonts as they were
+    const staging = path.join(this.directory, `${TemplateStore.STAGING_PREFIX}${randomUUID()}`);
+    const fontDirectory = path.join(this.fontsDirectory, template.id);
+    await fs.mkdir(path.join(staging, 'fonts'), { recursive: true });
+
+    try {
+      for (const [index, font] of fonts.entries()) {
+        const file = path.join(staging, 'fonts', fileNames[index]);
+        await fs.writeFile(file, font.data);
+        try {
+          this.fonts.inspect(file);
+        } catch {
+          throw new TemplatePackageError([{ field: `fonts[${index}].file`, message: 'could not be read as a font' }]);
+        }
+      }
+
+      const manifest = fonts.map(({ family, weight }, index) => ({ file: fileNames[index], family, weight }));
+      await fs.writeFile(path.join(staging, 'fonts', TemplateStore.FONTS_MANIFEST), JSON.stringify(manifest, null, 2));
+      await fs.writeFile(path.join(staging, `${template.id}.json`), JSON.stringify(template, null, 2));
+      await this.commit(staging, template.id);
+    } finally {
+      await fs.rm(staging, { recursive: true, force: true });
+    }
+
+    this.fonts.unregisterDirectory(fontDirectory);
+    const registered = fonts.map((font, index) => this.fonts.register(path.join(fontDirectory, fileNames[index]), font));
+
+    this.templates.set(template.id, template);
+    return { template, fonts: registered };
+  }
+
+  /**
+   * Get a stored template by id
+   */
+  get(id: string): NameTagTemplate | null {
+    return this.templates.get(id) || null;
+  }
+
+  /**
+   * The stored templates, by id
+   */
+  list(): NameTagTemplate[] {
+    return Array.from(this.templates.values()).sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Register a template's fonts under the family and weight its package named. Fonts put
+   * in the directory by hand, without a list, are read like FONTS_DIR.
+   */
+  private async loadTemplateFonts(directory: string): Promise<void> {
+    let manifest: Array<Pick<FontDescriptor, 'family' | 'weight'> & { file: string }>;
+    try {
+      manifest = JSON.parse(await fs.readFile(path.join(directory, TemplateStore.FONTS_MANIFEST), 'utf8'));
+    } catch {
+      this.fonts.loadDirectory(directory);
+      return;
+    }
+
+    for (const { file, family, weight } of manifest) {
+      try {
+        this.fonts.register(path.join(directory, path.basename(file)), { family, weight });
+      } catch (error) {
+        console.warn(`Skipping font ${file}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  /**
+   * Move a staged template and its fonts into place. The previous fonts are kept in the
+   * staging directory until both moves succeed, and put back if either fails.
+   */
+  private async commit(staging: string, id: string): Promise<void> {
+    const fontDirectory = path.join(this.fontsDirectory, id);
+    const previous = path.join(staging, 'previous-fonts');
+    const hadFonts = await fs.stat(fontDirectory).then(() => true, () => false);
+    if (hadFonts) {
+      await fs.rename(fontDirectory, previous);
+    }
+
+    try {
+      await fs.rename(path.join(staging, 'fonts'), fontDirectory);
+      await fs.rename(path.join(staging, `${id}.json`), path.join(this.directory, `${id}.json`));
+    } catch (error) {
+      await fs.rm(fontDirectory, { recursive: true, force: true });
+      if (hadFonts) {
+        await fs.rename(previous, fontDirectory);
+      }
+      throw error;
+    }
+  }
+}
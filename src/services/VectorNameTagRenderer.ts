@@ -0,0 +1,466 @@
+import * as qrcode from 'qrcode';
+import sharp from 'sharp';
+import {
+  XProfile,
+  NameTagTemplate,
+  NameTagBackSide,
+  TemplateElement,
+  TextElement,
+  ImageElement,
+  ShapeElement,
+  QRCodeElement,
+  DividerElement
+} from '../types';
+import { NameTagService } from './NameTagService';
+import { getRasterScale, QualityProfile, QUALITY_PROFILES } from '../utils/quality';
+import { decodeDataUri, getTemplateElements, layoutTextElement, resolveText } from '../utils/templateElements';
+import { FontRegistry, RegisteredFont } from './FontRegistry';
+import { isStandardFontCharacter } from '../utils/fontMetrics';
+import { containsRightToLeft, isEmoji, sanitizeText, splitGraphemes } from '../utils/text';
+
+/**
+ * Everything needed to draw a name tag, fetched ahead of time so drawing is synchronous
+ */
+export interface PreparedNameTag {
+  profile: XProfile;
+  template: NameTagTemplate;
+  avatar: Buffer | null; // JPEG or PNG
+  qrModules: QRModules; // Encoding the profile URL
+}
+
+interface QRModules {
+  size: number;
+  isDark: (row: number, column: number) => boolean;
+}
+
+const QR_MARGIN = 1; // Quiet zone in modules, same as the raster path
+
+/**
+ * Draws name tags straight into a PDFKit document: vector text, vector QR code modules
+ * and a circular clipped avatar, laid out from the same NameTagTemplate as the PNG renderer
+ */
+export class VectorNameTagRenderer {
+  private readonly nameTagService: NameTagService;
+  private readonly fonts: FontRegistry;
+
+  /**
+   * @param fonts Fonts to embed for vector text, the name tag service's by default. Text they
+   *   don't cover falls back to the PDF standard fonts, which only cover Western European characters.
+   */
+  constructor(nameTagService: NameTagService = new NameTagService(), fonts: FontRegistry = nameTagService.fonts) {
+    this.nameTagService = nameTagService;
+    this.fonts = fonts;
+  }
+
+  /**
+   * Whether the tag's text can be drawn with the available fonts. Without a template,
+   * the fixed layout's display name and username are checked.
+   */
+  canRender(profile: XProfile, template?: NameTagTemplate): boolean {
+    if (!template) {
+      const { fontFamily } = this.nameTagService.getDefaultTemplate().styles;
+      return this.canEncode(profile.displayName, fontFamily, 'bold') && this.canEncode(`@${profile.username}`, fontFamily, 'normal');
+    }
+
+    return getTemplateElements(template)
+      .filter((element): element is TextElement => element.type === 'text')
+      .every(element => this.canEncode(resolveText(element.text, profile), template.styles.fontFamily, element.fontWeight || 'normal'));
+  }
+
+  /**
+   * Whether the back side's bio and schedule can be drawn with the available fonts. The back
+   * wraps its text with a single font, so one font has to cover all of it.
+   */
+  canRenderBack(profile: XProfile, back: NameTagBackSide, fontFamily: string = this.nameTagService.getDefaultTemplate().styles.fontFamily): boolean {
+    const bio = back.showBio ? profile.bio || '' : '';
+    const text = bio + (back.schedule || []).join('');
+    return !this.needsRaster(text) && this.getBlockFont(text, fontFamily) !== undefined;
+  }
+
+  /**
+   * Fetch the avatar at the quality's resolution, if the template shows it, check the embedded
+   * images and encode the QR code for a profile. Rejects if an embedded image can't be decoded,
+   * so the tag can be rendered another way rather than failing the page it's drawn on.
+   */
+  async prepare(
+    profile: XProfile,
+    template: NameTagTemplate,
+    quality: QualityProfile = QUALITY_PROFILES.medium
+  ): Promise<PreparedNameTag> {
+    const avatarSize = Math.max(0, ...getTemplateElements(template)
+      .filter(element => element.type === 'image' && element.src === 'avatar')
+      .map(element => Math.max(element.width, element.height)));
+    const avatar = avatarSize > 0
+      ? await this.loadAvatar(profile.avatarUrl, Math.ceil(avatarSize * getRasterScale(quality)), quality)
+      : null;
+    await this.checkEmbeddedImages(template);
+
+    return {
+      profile,
+      template,
+      avatar,
+      qrModules: this.encodeQRCode(profile.profileUrl)
+    };
+  }
+
+  /**
+   * Encode the QR code for the back of a tag. The template's back design is filled in
+   * with the default one if it has none.
+   */
+  prepareBack(profile: XProfile, template: NameTagTemplate): PreparedNameTag {
+    return {
+      profile,
+      template: { ...template, back: template.back || this.nameTagService.getDefaultBackSide(template) },
+      avatar: null,
+      qrModules: this.encodeQRCode(profile.profileUrl)
+    };
+  }
+
+  /**
+   * Draw a prepared tag scaled to fit the given box, centered
+   */
+  draw(doc: any, tag: PreparedNameTag, x: number, y: number, width: number, height: number): void {
+    this.drawFitted(doc, tag, x, y, width, height, () => {
+      getTemplateElements(tag.template).forEach(element => this.drawElement(doc, tag, element));
+    });
+  }
+
+  /**
+   * Draw the back of a tag prepared with `prepareBack`, scaled to fit the given box, centered
+   */
+  drawBack(doc: any, tag: PreparedNameTag, x: number, y: number, width: number, height: number): void {
+    const back = tag.template.back || this.nameTagService.getDefaultBackSide(tag.template);
+
+    this.drawFitted(doc, tag, x, y, width, height, () => {
+      this.drawQRCode(doc, tag.qrModules, back.qrCodePosition.x, back.qrCodePosition.y, back.qrCodeSize, {
+        dark: tag.template.styles.textColor,
+        light: tag.template.styles.backgroundColor
+      });
+      this.drawBackText(doc, tag, back);
+    });
+  }
+
+  /**
+   * Set up the transform from template units to the box and fill the background
+   */
+  private drawFitted(
+    doc: any,
+    tag: PreparedNameTag,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    drawContent: () => void
+  ): void {
+    const { template } = tag;
+    const scale = Math.min(width / template.dimensions.width, height / template.dimensions.height);
+
+    this.fonts.registerWithPdf(doc);
+
+    doc.save();
+    doc.translate(
+      x + (width - template.dimensions.width * scale) / 2,
+      y + (height - template.dimensions.height * scale) / 2
+    );
+    doc.scale(scale);
+
+    doc.rect(0, 0, template.dimensions.width, template.dimensions.height).fill(template.styles.backgroundColor);
+    drawContent();
+
+    doc.restore();
+  }
+
+  /**
+   * Draw one element, rotated around its center if requested
+   */
+  private drawElement(doc: any, tag: PreparedNameTag, element: TemplateElement): void {
+    doc.save();
+    if (element.rotation) {
+      doc.rotate(element.rotation, { origin: [element.x + element.width / 2, element.y + element.height / 2] });
+    }
+
+    switch (element.type) {
+      case 'text':
+        this.drawTextElement(doc, tag, element);
+        break;
+      case 'image':
+        this.drawImageElement(doc, tag, element);
+        break;
+      case 'shape':
+        this.drawShapeElement(doc, element);
+        break;
+      case 'qrcode':
+        this.drawQRCodeElement(doc, tag, element);
+        break;
+      case 'divider':
+        this.drawDividerElement(doc, element);
+        break;
+    }
+
+    doc.restore();
+  }
+
+  /**
+   * Draw a QR code element; the prepared matrix is reused when it encodes the profile URL
+   */
+  private drawQRCodeElement(doc: any, tag: PreparedNameTag, element: QRCodeElement): void {
+    const content = resolveText(element.content ?? '{profileUrl}', tag.profile);
+    const modules = content === tag.profile.profileUrl ? tag.qrModules : this.encodeQRCode(content);
+
+    this.drawQRCode(doc, modules, element.x, element.y, Math.min(element.width, element.height), {
+      dark: element.color || tag.template.styles.textColor,
+      light: element.background || tag.template.styles.backgroundColor
+    });
+  }
+
+  /**
+   * Draw the QR code as filled modules, merging horizontal runs into single rectangles
+   */
+  private drawQRCode(
+    doc: any,
+    modules: QRModules,
+    x: number,
+    y: number,
+    qrCodeSize: number,
+    colors: { dark: string; light: string }
+  ): void {
+    const { size, isDark } = modules;
+    const moduleSize = qrCodeSize / (size + 2 * QR_MARGIN);
+    const originX = x + QR_MARGIN * moduleSize;
+    const originY = y + QR_MARGIN * moduleSize;
+
+    doc.rect(x, y, qrCodeSize, qrCodeSize)
+      .fill(colors.light);
+
+    for (let row = 0; row < size; row++) {
+      let column = 0;
+      while (column < size) {
+        if (!isDark(row, column)) {
+          column++;
+          continue;
+        }
+
+        const start = column;
+        while (column < size && isDark(row, column)) {
+          column++;
+        }
+        doc.rect(originX + start * moduleSize, originY + row * moduleSize, (column - start) * moduleSize, moduleSize);
+      }
+    }
+
+    doc.fill(colors.dark);
+  }
+
+  /**
+   * Draw the avatar or an embedded image covering the element's box, clipped to it
+   * or to a circle
+   */
+  private drawImageElement(doc: any, tag: PreparedNameTag, element: ImageElement): void {
+    // PDFKit decodes data: URIs itself
+    const source = element.src === 'avatar' ? tag.avatar : element.src;
+    if (!source) {
+      return;
+    }
+
+    if (element.shape === 'circle') {
+      doc.ellipse(element.x + element.width / 2, element.y + element.height / 2, element.width / 2, element.height / 2).clip();
+    } else {
+      doc.rect(element.x, element.y, element.width, element.height).clip();
+    }
+
+    doc.image(source, element.x, element.y, {
+      cover: [element.width, element.height],
+      align: 'center',
+      valign: 'center'
+    });
+  }
+
+  /**
+   * Draw a text element fitted to its box with the document's font metrics, line by line
+   * at the same baselines as the shared renderer
+   */
+  private drawTextElement(doc: any, tag: PreparedNameTag, element: TextElement): void {
+    const { fontFamily } = tag.template.styles;
+    const weight = element.fontWeight || 'normal';
+    // Each line is drawn as runs, one per font that has its glyphs
+    const runsOf = (text: string, fontSize: number) => this.fonts.splitRuns(text, fontFamily, weight).map(run => {
+      const width = doc.font(this.fonts.getPdfFontName(run.font, fontFamily, weight)).fontSize(fontSize).widthOfString(run.text);
+      return { ...run, width };
+    });
+
+    doc.fillColor(element.color);
+
+    const layout = layoutTextElement(element, tag.profile,
+      (text, fontSize) => runsOf(text, fontSize).reduce((width, run) => width + run.width, 0));
+    const { align } = layout;
+
+    layout.lines.forEach(line => {
+      const runs = runsOf(line.text, layout.fontSize);
+      const width = runs.reduce((total, run) => total + run.width, 0);
+      let x = align === 'center'
+        ? element.x + (element.width - width) / 2
+        : align === 'right' ? element.x + element.width - width : element.x;
+
+      runs.forEach(run => {
+        doc.font(this.fonts.getPdfFontName(run.font, fontFamily, weight)).fontSize(layout.fontSize).text(run.text, x, line.baseline, {
+          baseline: 'alphabetic',
+          lineBreak: false
+        });
+        x += run.width;
+      });
+    });
+  }
+
+  private drawShapeElement(doc: any, element: ShapeElement): void {
+    if (element.shape === 'ellipse') {
+      doc.ellipse(element.x + element.width / 2, element.y + element.height / 2, element.width / 2, element.height / 2);
+    } else {
+      doc.roundedRect(element.x, element.y, element.width, element.height, element.cornerRadius ?? 0);
+    }
+
+    if (element.stroke) {
+      doc.lineWidth(element.strokeWidth ?? 1);
+    }
+    if (element.fill && element.stroke) {
+      doc.fillAndStroke(element.fill, element.stroke);
+    } else if (element.fill) {
+      doc.fill(element.fill);
+    } else if (element.stroke) {
+      doc.stroke(element.stroke);
+    }
+  }
+
+  private drawDividerElement(doc: any, element: DividerElement): void {
+    const y = element.y + element.height / 2;
+
+    doc.moveTo(element.x, y)
+      .lineTo(element.x + element.width, y)
+      .lineWidth(element.thickness ?? 1)
+      .stroke(element.color);
+  }
+
+  /**
+   * Draw the bio wrapped to the text block, then the schedule; text that doesn't fit is ellipsized
+   */
+  private drawBackText(doc: any, tag: PreparedNameTag, back: NameTagBackSide): void {
+    const { profile, template } = tag;
+    const { fontFamily } = template.styles;
+    const { x } = back.textPosition;
+    const bottom = template.dimensions.height - back.textPosition.y; // Same margin below as above
+    let y = back.textPosition.y;
+
+    const blocks = [
+      { text: back.showBio ? sanitizeText(profile.bio || '') : '', color: template.styles.textColor },
+      { text: (back.schedule || []).map(sanitizeText).join('\n'), color: template.styles.accentColor }
+    ].filter(block => block.text);
+
+    const font = this.getBlockFont(blocks.map(block => block.text).join(''), fontFamily) ?? null;
+    doc.font(this.fonts.getPdfFontName(font, fontFamily, 'normal')).fontSize(back.fontSize);
+
+    blocks.forEach((block, index) => {
+      if (index > 0) {
+        y += back.fontSize; // Blank line between bio and schedule
+      }
+      if (bottom - y < back.fontSize) {
+        return;
+      }
+
+      doc.fillColor(block.color).text(block.text, x, y, {
+        width: back.textWidth,
+        height: bottom - y,
+        ellipsis: true,
+        lineGap: back.fontSize * 0.3
+      });
+      y = doc.y;
+    });
+  }
+
+  /**
+   * Whether text can be drawn with the registered fonts, or the standard fonts' Windows-1252 encoding
+   */
+  private canEncode(text: string, fontFamily: string, weight: 'normal' | 'bold'): boolean {
+    return !this.needsRaster(text) && this.fonts.splitRuns(text, fontFamily, weight)
+      .every(run => run.font || Array.from(run.text).every(isStandardFontCharacter));
+  }
+
+  /**
+   * PDFKit neither reorders right-to-left text nor draws color emoji
+   */
+  private needsRaster(text: string): boolean {
+    return containsRightToLeft(text) || splitGraphemes(text).some(isEmoji);
+  }
+
+  /**
+   * The single font for a block of wrapped text: the first registered font covering all of
+   * it, null for the standard fonts, or undefined if no one font can draw it
+   */
+  private getBlockFont(text: string, fontFamily: string): RegisteredFont | null | undefined {
+    const glyphs = text.replace(/\s+/g, '');
+    const font = this.fonts.findFont(glyphs, fontFamily, 'normal');
+    if (font) {
+      return font;
+    }
+    return Array.from(glyphs).every(isStandardFontCharacter) ? null : undefined;
+  }
+
+  private encodeQRCode(content: string): QRModules {
+    const { modules } = qrcode.create(content, { errorCorrectionLevel: 'M' });
+
+    return {
+      size: modules.size,
+      isDark: (row, column) => Boolean(modules.get(row, column))
+    };
+  }
+
+  /**
+   * Decode each embedded image once; PDFKit only parses them when they're drawn
+   */
+  private async checkEmbeddedImages(template: NameTagTemplate): Promise<void> {
+    const sources = new Set(getTemplateElements(template)
+      .filter((element): element is ImageElement => element.type === 'image' && element.src !== 'avatar')
+      .map(element => element.src));
+
+    for (const source of sources) {
+      const image = decodeDataUri(source);
+      if (!image || !isPdfImage(image)) {
+        throw new Error('Embedded image is not a PNG or JPEG');
+      }
+      await sharp(image).raw().toBuffer();
+    }
+  }
+
+  /**
+   * Fetch the avatar and resize it to the target resolution, re-encoded as the quality's
+   * image format. The original is used if it can't be processed but PDFKit can embed it.
+   */
+  private async loadAvatar(avatarUrl: string, pixels: number, quality: QualityProfile): Promise<Buffer | null> {
+    const buffer = await this.nameTagService.fetchAvatarImage(avatarUrl);
+    if (!buffer) {
+      return null;
+    }
+
+    try {
+      const resized = sharp(buffer).resize(pixels, pixels, { fit: 'cover', position: 'centre' });
+      return await (quality.imageFormat === 'jpeg'
+        ? resized.jpeg({ quality: quality.jpegQuality })
+        : resized.png()
+      ).toBuffer();
+    } catch (error) {
+      if (isPdfImage(buffer)) {
+        return buffer;
+      }
+
+      console.warn('Failed to process avatar image:', error);
+      return null;
+    }
+  }
+}
+
+/**
+ * Whether an image has a JPEG or PNG signature, the formats PDFKit embeds
+ */
+function isPdfImage(buffer: Buffer): boolean {
+  const isJpeg = buffer[0] === 0xff && buffer[1] === 0xd8;
+  const isPng = buffer.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+  return isJpeg || isPng;
+}
@@ -0,0 +1,109 @@
+import { DownloadError, DownloadService } from '../DownloadService';
+import { SettingsService } from '../SettingsService';
+import { AppSettings } from '../../types';
+
+describe('DownloadService', () => {
+  let listeners: Array<(delta: chrome.downloads.DownloadDelta) => void>;
+  let items: Record<number, Partial<chrome.downloads.DownloadItem>>;
+  let settings: AppSettings;
+  let service: DownloadService;
+
+  const request = { url: 'data:application/pdf;base64,JVBERi0=', fileName: 'name-tag-alice.pdf' };
+
+  beforeEach(() => {
+    listeners = [];
+    items = {};
+    settings = {
+      autoDownload: true,
+      downloadFormat: 'pdf',
+      pdfQuality: 'medium',
+      defaultTemplate: 'default',
+      recentProfiles: [],
+      maxRecentProfiles: 10
+    };
+
+    (global as any).chrome = {
+      downloads: {
+        download: jest.fn().mockImplementation(async () => {
+          items[1] = { id: 1, state: 'in_progress', filename: '/home/user/Downloads/name-tag-alice.pdf' };
+          return 1;
+        }),
+        search: jest.fn().mockImplementation(async ({ id }) => (items[id] ? [items[id]] : [])),
+        onChanged: {
+          addListener: jest.fn(listener => listeners.push(listener)),
+          removeListener: jest.fn(listener => listeners.splice(listeners.indexOf(listener), 1))
+        }
+      }
+    };
+
+    const settingsService = { getSettings: jest.fn(async () => settings) } as unknown as SettingsService;
+    service = new DownloadService(settingsService);
+  });
+
+  afterEach(() => {
+    (global as any).chrome = undefined;
+  });
+
+  // Move download 1 to a final state and notify the listeners
+  async function finishDownload(state: 'complete' | 'interrupted', error?: string) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+    items[1] = { ...items[1], state, error: error as chrome.downloads.DownloadItem['error'] };
+    listeners.forEach(listener => listener({ id: 1, state: { current: state } }));
+  }
+
+  it('should save into the Downloads folder without asking when auto-download is on', async () => {
+    const result = service.download(request);
+    await finishDownload('complete');
+
+    await expect(result).resolves.toEqual({ downloadId: 1, filename: '/home/user/Downloads/name-tag-alice.pdf' });
+    expect(chrome.downloads.download).toHaveBeenCalledWith({
+      url: request.url,
+      filename: 'name-tag-alice.pdf',
+      saveAs: false,
+      conflictAction: 'uniquify'
+    });
+    expect(listeners).toHaveLength(0);
+  });
+
+  it('should ask where to save and use the download folder', async () => {
+    settings = { ...settings, autoDownload: false, downloadFolder: 'name-tags/TechConf: Day 1' };
+
+    const result = service.download(request);
+    await finishDownload('complete');
+    await result;
+
+    expect(chrome.downloads.download).toHaveBeenCalledWith(expect.objectContaining({
+      filename: 'name-tags/TechConf- Day 1/name-tag-alice.pdf',
+      saveAs: true
+    }));
+  });
+
+  it('should resolve downloads that finished before the listener was added', async () => {
+    (chrome.downloads.download as jest.Mock).mockImplementation(async () => {
+      items[1] = { id: 1, state: 'complete', filename: 'name-tag-alice.pdf' };
+      return 1;
+    });
+
+    await expect(service.download(request)).resolves.toEqual({ downloadId: 1, filename: 'name-tag-alice.pdf' });
+  });
+
+  it('should report interrupted downloads', async () => {
+    const result = service.download(request);
+    await finishDownload('interrupted', 'FILE_NO_SPACE');
+
+    await expect(result).rejects.toEqual(new DownloadError('FILE_NO_SPACE'));
+  });
+
+  it('should report cancelled downloads', async () => {
+    const result = service.download(request);
+    await finishDownload('interrupted', 'USER_CANCELED');
+
+    await expect(result).rejects.toMatchObject({ cancelled: true });
+  });
+
+  it('should report a closed Save As dialog as cancelled', async () => {
+    (chrome.downloads.download as jest.Mock).mockRejectedValue(new Error('Download canceled by the user'));
+
+    await expect(service.download(request)).rejects.toMatchObject({ cancelled: true });
+  });
+});
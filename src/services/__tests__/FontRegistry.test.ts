@@ -0,0 +1,203 @@
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as fontkit from 'fontkit';
+import { FontRegistry } from '../FontRegistry';
+
+jest.mock('fontkit', () => ({ ...jest.requireActual('fontkit'), openSync: jest.fn() }));
+
+describe('FontRegistry', () => {
+  // Stand-in font files by base name; each covers the characters its pattern matches
+  const FONTS: Record<string, { family: string; bold?: boolean; covers: RegExp }> = {
+    'Inter-Regular.ttf': { family: 'Inter', covers: /[\p{Script=Latin}\p{Zs}]/u },
+    'Inter-Bold.ttf': { family: 'Inter', bold: true, covers: /[\p{Script=Latin}\p{Zs}]/u },
+    'NotoSansJP-Regular.otf': { family: 'Noto Sans JP', covers: /[\p{Script=Han}\p{Script=Latin}\p{Zs}]/u }
+  };
+
+  beforeEach(() => {
+    (fontkit.openSync as jest.Mock).mockImplementation((file: string) => {
+      const { family, bold, covers } = FONTS[path.basename(file)];
+      return {
+        familyName: family,
+        'OS/2': { usWeightClass: bold ? 700 : 400 },
+        unitsPerEm: 1000,
+        hasGlyphForCodePoint: (codePoint: number) => covers.test(String.fromCodePoint(codePoint)),
+        layout: (text: string) => ({
+          advanceWidth: Array.from(text).length * 500,
+          glyphs: Array.from(text, () => ({ path: outline([[0, 0], [500, 700]]) })),
+          positions: Array.from(text, () => ({ xAdvance: 500, xOffset: 0, yOffset: 0 }))
+        })
+      };
+    });
+  });
+
+  // Stand-in glyph outline: a line between two points, transformed like a fontkit path
+  const outline = (points: number[][]): any => ({
+    scale: (scaleX: number, scaleY: number) => outline(points.map(([x, y]) => [x * scaleX, y * scaleY])),
+    translate: (dx: number, dy: number) => outline(points.map(([x, y]) => [x + dx, y + dy])),
+    toSVG: () => `M${points[0].join(' ')}L${points[1].join(' ')}`
+  });
+
+  const createRegistry = (fallbacks?: string[]) => {
+    const registry = new FontRegistry(fallbacks);
+    Object.keys(FONTS).forEach(file => registry.register(`/fonts/${file}`));
+    return registry;
+  };
+
+  describe('register', () => {
+    it('should read family and weight from the font', () => {
+      expect(createRegistry().list()).toEqual([
+        { family: 'Inter', weight: 'normal', format: 'truetype' },
+        { family: 'Inter', weight: 'bold', format: 'truetype' },
+        { family: 'Noto Sans JP', weight: 'normal', format: 'opentype' }
+      ]);
+    });
+
+    it('should use the given family and weight instead of the font\'s own', () => {
+      const registry = new FontRegistry();
+
+      expect(registry.register('/fonts/Inter-Regular.ttf', { family: 'Brand Sans', weight: 'bold' }))
+        .toEqual({ family: 'Brand Sans', weight: 'bold', format: 'truetype' });
+      expect(registry.outlineText('Ad', 'Brand Sans', 'bold', 10)).not.toBeNull();
+    });
+
+    it('should reject files that are not fonts', () => {
+      expect(() => new FontRegistry().register('/fonts/Inter.woff')).toThrow('Unsupported font file: Inter.woff');
+    });
+
+    it('should register a directory in file name order and skip unreadable fonts', () => {
+      const directory = mkdtempSync(path.join(os.tmpdir(), 'fonts-'));
+      ['NotoSansJP-Regular.otf', 'Broken.ttf', 'Inter-Regular.ttf', 'README.md'].forEach(file => writeFileSync(path.join(directory, file), ''));
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      const registry = new FontRegistry();
+
+      expect(registry.loadDirectory(directory).map(font => font.family)).toEqual(['Inter', 'Noto Sans JP']);
+      expect(console.warn).toHaveBeenCalledWith('Skipping font Broken.ttf:', expect.any(String));
+    });
+
+    it('should register nothing from a missing directory', () => {
+      expect(new FontRegistry().loadDirectory('/nonexistent/fonts')).toEqual([]);
+    });
+
+    it('should read a font without registering it', () => {
+      const registry = new FontRegistry();
+
+      expect(registry.inspect('/fonts/Inter-Bold.ttf')).toEqual({ family: 'Inter', weight: 'bold', format: 'truetype' });
+      expect(registry.list()).toEqual([]);
+    });
+
+    it('should forget the fonts registered from a directory', () => {
+      const registry = createRegistry();
+      registry.register('/other/Inter-Regular.ttf');
+
+      registry.unregisterDirectory('/fonts');
+
+      expect(registry.list()).toEqual([{ family: 'Inter', weight: 'normal', format: 'truetype' }]);
+    });
+  });
+
+  describe('getFontStack', () => {
+    it('should leave the font family unchanged without registered fonts', () => {
+      expect(new FontRegistry().getFontStack('Arial, sans-serif')).toBe('Arial, sans-serif');
+    });
+
+    it('should put the registered fonts in a fixed order before the host fonts', () => {
+      expect(createRegistry().getFontStack('Arial, sans-serif')).toBe('"Inter", "Noto Sans JP", "Arial", sans-serif');
+      expect(createRegistry(['Noto Sans JP']).getFontStack('Inter, sans-serif')).toBe('"Inter", "Noto Sans JP", sans-serif');
+    });
+
+    it('should only fall back to the configured families', () => {
+      expect(createRegistry(['Noto Sans JP']).getFontStack('Arial')).toBe('"Noto Sans JP", "Arial"');
+    });
+  });
+
+  describe('splitRuns', () => {
+    it('should draw each grapheme with the first font that has it', () => {
+      const registry = createRegistry();
+      const runs = registry.splitRuns('Ada 山田 😀', 'Inter', 'bold');
+
+      expect(runs.map(run => [run.text, run.font && `${run.font.family}-${run.font.weight}`])).toEqual([
+        ['Ada ', 'Inter-bold'],
+        ['山田', 'Noto Sans JP-normal'],
+        [' ', 'Inter-bold'],
+        ['😀', null]
+      ]);
+    });
+
+    it('should find a single font that covers the whole text', () => {
+      const registry = createRegistry();
+
+      expect(registry.findFont('Ada 山田', 'Inter', 'normal')?.family).toBe('Noto Sans JP');
+      expect(registry.findFont('Ada 😀', 'Inter', 'normal')).toBeNull();
+    });
+  });
+
+  describe('measureText', () => {
+    it('should use the font metrics and the standard fonts for uncovered text', () => {
+      const registry = createRegistry();
+
+      // Stand-in advance of half an em per character
+      expect(registry.measureText('Ada', 'Inter', 'normal', 10)).toBe(15);
+      expect(registry.measureText('Ada😀', 'Inter', 'normal', 10)).toBe(27.5);
+    });
+  });
+
+  describe('outlineText', () => {
+    it('should place glyph outlines along the baseline, flipped to SVG coordinates', () => {
+      expect(createRegistry().outlineText('Ad', 'Inter', 'normal', 10)).toEqual({ path: 'M0 0L5 -7M5 0L10 -7', width: 10 });
+    });
+
+    it('should leave lines with emoji or uncovered characters to the SVG renderer', () => {
+      expect(createRegistry().outlineText('Ada😀', 'Inter', 'normal', 10)).toBeNull();
+      expect(createRegistry(['Inter']).outlineText('Ada 名', 'Inter', 'normal', 10)).toBeNull();
+    });
+  });
+
+  describe('registerWithPdf', () => {
+    it('should register every font once per document under its family and weight', () => {
+      const registry = createRegistry();
+      const doc = { registerFont: jest.fn() };
+
+      registry.registerWithPdf(doc);
+      registry.registerWithPdf(doc);
+
+      expect(doc.registerFont.mock.calls).toEqual([
+        ['Inter-normal', '/fonts/Inter-Regular.ttf'],
+        ['Inter-bold', '/fonts/Inter-Bold.ttf'],
+        ['Noto Sans JP-normal', '/fonts/NotoSansJP-Regular.otf']
+      ]);
+      expect(registry.getPdfFontName(null, 'Georgia, serif', 'bold')).toBe('Times-Bold');
+    });
+  });
+
+  describe('configureFontconfig', () => {
+    const original = process.env.FONTCONFIG_FILE;
+
+    afterEach(() => {
+      if (original === undefined) {
+        delete process.env.FONTCONFIG_FILE;
+      } else {
+        process.env.FONTCONFIG_FILE = original;
+      }
+    });
+
+    it('should add the font directories to the system configuration', () => {
+      delete process.env.FONTCONFIG_FILE;
+
+      createRegistry().configureFontconfig();
+
+      const config = readFileSync(process.env.FONTCONFIG_FILE!, 'utf8');
+      expect(config).toContain('<include ignore_missing="yes">/etc/fonts/fonts.conf</include>');
+      expect(config).toContain(`<dir>${path.resolve('/fonts')}</dir>`);
+    });
+
+    it('should keep an existing configuration', () => {
+      process.env.FONTCONFIG_FILE = '/etc/custom-fonts.conf';
+
+      createRegistry().configureFontconfig();
+
+      expect(process.env.FONTCONFIG_FILE).toBe('/etc/custom-fonts.conf');
+    });
+  });
+});
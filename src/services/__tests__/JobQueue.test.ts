@@ -0,0 +1,256 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { JobQueue } from '../JobQueue';
+import { JobStore, GenerationJob } from '../JobStore';
+import { NameTagGenerator } from '../NameTagGenerator';
+import { FixtureProfileFetcher } from '../ProfileFetcher';
+import { ErrorCode } from '../../types';
+import { createAPIError } from '../../utils/validation';
+
+// Rendering is exercised by the NameTagService/PDFService suites
+jest.mock('sharp', () => jest.fn());
+
+describe('JobQueue', () => {
+  let directory: string;
+  let store: JobStore;
+  let generator: NameTagGenerator;
+  let queue: JobQueue;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'jobs-'));
+    store = new JobStore(directory);
+    generator = new NameTagGenerator(new FixtureProfileFetcher());
+
+    jest.spyOn(generator, 'streamBatch').mockImplementation(async (entries, options) => {
+      options?.onProgress?.({ total: entries.length, resolved: entries.length, failed: 0, rendered: entries.length, pages: 1 });
+      return {
+        success: true,
+        data: {
+          stream: Readable.from([Buffer.from('mock-job-pdf')]),
+          nameTagCount: entries.length,
+          pageCount: 1,
+          manifest: { successful: [], failed: [] }
+        }
+      };
+    });
+
+    queue = new JobQueue(generator, store);
+    await queue.initialize();
+  });
+
+  afterEach(async () => {
+    await queue.whenIdle();
+    await fs.rm(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  describe('createJob', () => {
+    it('should queue, run and persist a job', async () => {
+      const result = await queue.createJob({ profiles: ['https://x.com/a', 'https://x.com/b'] });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.status).toBe('queued');
+
+      await queue.whenIdle();
+
+      const job = queue.getJob(result.data!.id)!;
+      expect(job.status).toBe('completed');
+      expect(job.progress).toEqual({ total: 2, resolved: 2, rendered: 2, failed: 0, pages: 1 });
+
+      const stored = await store.load(job.id);
+      expect(stored?.status).toBe('completed');
+
+      const pdf = await fs.readFile(queue.getResultPath(job.id)!);
+      expect(pdf.toString()).toBe('mock-job-pdf');
+    });
+
+    it('should show the pages written while the job runs', async () => {
+      const stream = new Readable({ read() {} });
+      let streaming!: () => void;
+      const started = new Promise<void>(resolve => { streaming = resolve; });
+      (generator.streamBatch as jest.Mock).mockImplementation(async (entries, options) => {
+        options.onProgress({ total: entries.length, resolved: entries.length, failed: 0, rendered: 6, pages: 1 });
+        streaming();
+        return {
+          success: true,
+          data: { stream, nameTagCount: entries.length, pageCount: 2, manifest: { successful: [], failed: [] } }
+        };
+      });
+
+      const result = await queue.createJob({ profiles: Array.from({ length: 8 }, (_, i) => `https://x.com/user${i}`) });
+      await started;
+
+      const job = queue.getJob(result.data!.id)!;
+      expect(job.status).toBe('running');
+      expect(job.progress).toEqual({ total: 8, resolved: 8, rendered: 6, failed: 0, pages: 1 });
+
+      stream.push('mock-job-pdf');
+      stream.push(null);
+      await queue.whenIdle();
+
+      expect(job.progress.pages).toBe(2);
+    });
+
+    it('should pass template and PDF options to the generator', async () => {
+      await queue.createJob({
+        profiles: ['https://x.com/a'],
+        templateId: 'minimal',
+        pdfOptions: { pageSize: 'Letter' }
+      });
+      await queue.whenIdle();
+
+      expect(generator.streamBatch).toHaveBeenCalledWith(['https://x.com/a'], expect.objectContaining({
+        templateId: 'minimal',
+        pdfOptions: { pageSize: 'Letter' },
+        maxBatchSize: JobQueue.MAX_JOB_SIZE
+      }));
+    });
+
+    it('should reject empty and oversized jobs', async () => {
+      const empty = await queue.createJob({ profiles: [] });
+      const oversized = await queue.createJob({
+        profiles: Array.from({ length: JobQueue.MAX_JOB_SIZE + 1 }, () => 'https://x.com/a')
+      });
+
+      expect(empty.error?.code).toBe(ErrorCode.INVALID_REQUEST);
+      expect(oversized.error?.code).toBe(ErrorCode.INVALID_REQUEST);
+    });
+
+    it('should record generation failures on the job', async () => {
+      (generator.streamBatch as jest.Mock).mockResolvedValue({
+        success: false,
+        error: createAPIError(ErrorCode.PROFILE_NOT_FOUND, 'None of the requested profiles could be resolved')
+      });
+
+      const result = await queue.createJob({ profiles: ['https://x.com/nobody'] });
+      await queue.whenIdle();
+
+      const job = queue.getJob(result.data!.id)!;
+      expect(job.status).toBe('failed');
+      expect(job.error?.code).toBe(ErrorCode.PROFILE_NOT_FOUND);
+      expect(queue.getResultPath(job.id)).toBeNull();
+    });
+
+    it('should fail the job when the PDF stream errors', async () => {
+      (generator.streamBatch as jest.Mock).mockResolvedValue({
+        success: true,
+        data: {
+          stream: new Readable({
+            read() {
+              this.destroy(new Error('Render failed'));
+            }
+          }),
+          nameTagCount: 1,
+          pageCount: 1,
+          manifest: { successful: [], failed: [] }
+        }
+      });
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await queue.createJob({ profiles: ['https://x.com/a'] });
+      await queue.whenIdle();
+
+      const job = queue.getJob(result.data!.id)!;
+      expect(job.status).toBe('failed');
+      expect(job.error?.message).toBe('Render failed');
+      await expect(fs.readdir(directory)).resolves.toEqual([`${job.id}.json`]);
+    });
+  });
+
+  describe('initialize', () => {
+    it('should resume unfinished jobs after a restart', async () => {
+      const interrupted: GenerationJob = {
+        id: '00000000-0000-4000-8000-000000000001',
+        status: 'running',
+        request: { profiles: ['https://x.com/a'] },
+        progress: { total: 1, resolved: 1, rendered: 0, failed: 0, pages: 0 },
+        createdAt: new Date('2024-01-01').toISOString(),
+        updatedAt: new Date('2024-01-01').toISOString()
+      };
+      await store.save(interrupted);
+
+      const restarted = new JobQueue(generator, store);
+      await restarted.initialize();
+      await restarted.whenIdle();
+
+      expect(restarted.getJob(interrupted.id)?.status).toBe('completed');
+      expect(restarted.getResultPath(interrupted.id)).toBe(path.join(directory, `${interrupted.id}.pdf`));
+    });
+
+    it('should keep completed jobs available', async () => {
+      const result = await queue.createJob({ profiles: ['https://x.com/a'] });
+      await queue.whenIdle();
+
+      const restarted = new JobQueue(generator, store);
+      await restarted.initialize();
+
+      expect(restarted.getJob(result.data!.id)?.status).toBe('completed');
+      expect(generator.streamBatch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('purgeExpired', () => {
+    it('should delete finished jobs older than the retention period', async () => {
+      const result = await queue.createJob({ profiles: ['https://x.com/a'] });
+      await queue.whenIdle();
+      const id = result.data!.id;
+      const completedAt = Date.parse(queue.getJob(id)!.completedAt!);
+
+      expect(await queue.purgeExpired(completedAt + JobQueue.DEFAULT_RETENTION_MS)).toEqual([]);
+      expect(queue.getJob(id)).not.toBeNull();
+
+      expect(await queue.purgeExpired(completedAt + JobQueue.DEFAULT_RETENTION_MS + 1)).toEqual([id]);
+      expect(queue.getJob(id)).toBeNull();
+      expect(await store.load(id)).toBeNull();
+      await expect(fs.access(store.resultPath(id))).rejects.toThrow();
+    });
+
+    it('should keep unfinished jobs', async () => {
+      const now = new Date(Date.now() - 2 * JobQueue.DEFAULT_RETENTION_MS).toISOString();
+      const job: GenerationJob = {
+        id: '00000000-0000-4000-8000-000000000001',
+        status: 'queued',
+        request: { profiles: ['https://x.com/a'] },
+        progress: { total: 1, resolved: 0, rendered: 0, failed: 0, pages: 0 },
+        createdAt: now,
+        updatedAt: now
+      };
+      await store.save(job);
+
+      const restarted = new JobQueue(generator, store);
+      await restarted.initialize();
+      await restarted.whenIdle();
+
+      expect(restarted.getJob(job.id)?.status).toBe('completed');
+    });
+
+    it('should purge expired jobs on startup', async () => {
+      const old = new Date(Date.now() - 2 * JobQueue.DEFAULT_RETENTION_MS).toISOString();
+      const job: GenerationJob = {
+        id: '00000000-0000-4000-8000-000000000002',
+        status: 'failed',
+        request: { profiles: ['https://x.com/a'] },
+        progress: { total: 1, resolved: 1, rendered: 0, failed: 1, pages: 0 },
+        createdAt: old,
+        updatedAt: old,
+        completedAt: old
+      };
+      await store.save(job);
+
+      const restarted = new JobQueue(generator, store);
+      await restarted.initialize();
+
+      expect(restarted.getJob(job.id)).toBeNull();
+      expect(await store.load(job.id)).toBeNull();
+    });
+  });
+
+  describe('getJob', () => {
+    it('should return null for unknown jobs', () => {
+      expect(queue.getJob('missing')).toBeNull();
+      expect(queue.getResultPath('missing')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,332 @@
+import { Readable } from 'stream';
+import { NameTagGenerator } from '../NameTagGenerator';
+import { FixtureProfileFetcher } from '../ProfileFetcher';
+import { NameTagService } from '../NameTagService';
+import { PDFService } from '../PDFService';
+import { XProfile, ErrorCode } from '../../types';
+
+// Rendering is exercised by the NameTagService/PDFService suites
+jest.mock('sharp', () => jest.fn());
+
+describe('NameTagGenerator', () => {
+  let mockProfile: XProfile;
+  let fetcher: FixtureProfileFetcher;
+  let nameTagService: NameTagService;
+  let pdfService: PDFService;
+  let generator: NameTagGenerator;
+
+  beforeEach(() => {
+    mockProfile = {
+      username: 'testuser',
+      displayName: 'Test User',
+      bio: 'Test bio',
+      avatarUrl: 'https://pbs.twimg.com/profile_images/1/avatar.jpg',
+      profileUrl: 'https://x.com/testuser',
+      verified: false,
+      followerCount: '100',
+      followingCount: '50',
+      extractedAt: new Date('2023-01-01')
+    };
+
+    fetcher = new FixtureProfileFetcher([mockProfile]);
+    nameTagService = new NameTagService();
+    pdfService = new PDFService();
+
+    jest.spyOn(pdfService, 'generateSingleNameTagPDF').mockResolvedValue({
+      pdfBuffer: Buffer.from('mock-pdf-data'),
+      nameTagCount: 1,
+      pageCount: 1,
+      memoryUsage: 1024,
+      fileSize: 13
+    });
+
+    generator = new NameTagGenerator(fetcher, nameTagService, pdfService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('generateNameTag', () => {
+    it('should resolve the profile and return the generated PDF', async () => {
+      const result = await generator.generateNameTag('https://x.com/testuser');
+
+      expect(result.success).toBe(true);
+      expect(result.data?.pdfBuffer).toEqual(Buffer.from('mock-pdf-data'));
+      expect(pdfService.generateSingleNameTagPDF).toHaveBeenCalledWith(
+        mockProfile,
+        nameTagService.getDefaultTemplate(),
+        undefined
+      );
+    });
+
+    it('should match usernames case-insensitively', async () => {
+      const result = await generator.generateNameTag('https://twitter.com/TestUser');
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should pass template and PDF options through', async () => {
+      const template = { ...nameTagService.getDefaultTemplate(), id: 'custom' };
+
+      await generator.generateNameTag('https://x.com/testuser', {
+        template,
+        pdfOptions: { pageSize: 'Letter' }
+      });
+
+      expect(pdfService.generateSingleNameTagPDF).toHaveBeenCalledWith(
+        mockProfile,
+        template,
+        { pageSize: 'Letter' }
+      );
+    });
+
+    it('should return INVALID_URL for non-profile URLs', async () => {
+      const result = await generator.generateNameTag('https://example.com/testuser');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ErrorCode.INVALID_URL);
+      expect(pdfService.generateSingleNameTagPDF).not.toHaveBeenCalled();
+    });
+
+    it('should return PROFILE_NOT_FOUND for unknown profiles', async () => {
+      const result = await generator.generateNameTag('https://x.com/nobody');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ErrorCode.PROFILE_NOT_FOUND);
+    });
+
+    it('should resolve built-in templates by id', async () => {
+      await generator.generateNameTag('https://x.com/testuser', { templateId: 'minimal' });
+
+      expect(pdfService.generateSingleNameTagPDF).toHaveBeenCalledWith(
+        mockProfile,
+        nameTagService.getTemplateById('minimal'),
+        undefined
+      );
+    });
+
+    it('should print an inline back design on the reverse', async () => {
+      const backSide = { ...nameTagService.getDefaultBackSide(nameTagService.getDefaultTemplate()), schedule: ['09:00 Keynote'] };
+
+      await generator.generateNameTag('https://x.com/testuser', { backSide, pdfOptions: { duplex: 'long-edge' } });
+
+      expect(pdfService.generateSingleNameTagPDF).toHaveBeenCalledWith(
+        mockProfile,
+        { ...nameTagService.getDefaultTemplate(), back: backSide },
+        { duplex: 'long-edge' }
+      );
+    });
+
+    it('should return INVALID_REQUEST for an invalid back design', async () => {
+      const backSide = { ...nameTagService.getDefaultBackSide(nameTagService.getDefaultTemplate()), fontSize: 0 };
+
+      const result = await generator.generateNameTag('https://x.com/testuser', { backSide });
+
+      expect(result.error?.code).toBe(ErrorCode.INVALID_REQUEST);
+    });
+
+    it('should return INVALID_REQUEST for invalid or unknown templates', async () => {
+      const template = { ...nameTagService.getDefaultTemplate(), dimensions: { width: 0, height: 0 } };
+
+      const invalid = await generator.generateNameTag('https://x.com/testuser', { template });
+      const unknown = await generator.generateNameTag('https://x.com/testuser', { templateId: 'unknown' });
+
+      expect(invalid.error?.code).toBe(ErrorCode.INVALID_REQUEST);
+      expect(unknown.error?.code).toBe(ErrorCode.INVALID_REQUEST);
+    });
+
+    it('should return INVALID_REQUEST for invalid PDF options', async () => {
+      const result = await generator.generateNameTag('https://x.com/testuser', {
+        pdfOptions: { margin: -1 }
+      });
+
+      expect(result.error?.code).toBe(ErrorCode.INVALID_REQUEST);
+    });
+
+    it('should return GENERATION_ERROR when PDF generation fails', async () => {
+      (pdfService.generateSingleNameTagPDF as jest.Mock).mockRejectedValue(new Error('PDF failed'));
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await generator.generateNameTag('https://x.com/testuser');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ErrorCode.GENERATION_ERROR);
+      expect(result.error?.message).toBe('PDF failed');
+    });
+
+    it('should return UNKNOWN_ERROR when the fetcher throws', async () => {
+      jest.spyOn(fetcher, 'fetchProfile').mockRejectedValue(new Error('boom'));
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await generator.generateNameTag('https://x.com/testuser');
+
+      expect(result.error?.code).toBe(ErrorCode.UNKNOWN_ERROR);
+      expect(result.error?.details).toBe('boom'); // An Error would serialize to {}
+    });
+  });
+
+  describe('generateImage', () => {
+    beforeEach(() => {
+      jest.spyOn(nameTagService, 'exportImage').mockResolvedValue(Buffer.from('mock-image'));
+    });
+
+    it('should resolve the profile and return the image with its MIME type', async () => {
+      const result = await generator.generateImage('https://x.com/testuser', { format: 'webp', dpi: 150 }, { templateId: 'minimal' });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ data: Buffer.from('mock-image'), mimeType: 'image/webp' });
+      expect(nameTagService.exportImage).toHaveBeenCalledWith(
+        mockProfile,
+        expect.objectContaining({ id: 'minimal' }),
+        { format: 'webp', dpi: 150 }
+      );
+    });
+
+    it('should reject invalid export options', async () => {
+      const result = await generator.generateImage('https://x.com/testuser', { format: 'gif' as any, dpi: 5000 });
+
+      expect(result.error?.code).toBe(ErrorCode.INVALID_REQUEST);
+      expect(result.error?.details.errors).toEqual([
+        'format must be "png", "svg" or "webp"',
+        'dpi must be a whole number from 72 to 600'
+      ]);
+      expect(nameTagService.exportImage).not.toHaveBeenCalled();
+    });
+
+    it('should return GENERATION_ERROR when rendering fails', async () => {
+      (nameTagService.exportImage as jest.Mock).mockRejectedValue(new Error('Render failed'));
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await generator.generateImage('https://x.com/testuser', { format: 'svg' });
+
+      expect(result.error?.code).toBe(ErrorCode.GENERATION_ERROR);
+    });
+  });
+
+  describe('generateBatch', () => {
+    beforeEach(() => {
+      jest.spyOn(pdfService, 'generateMultipleNameTagsPDF').mockResolvedValue({
+        pdfBuffer: Buffer.from('mock-batch-pdf'),
+        nameTagCount: 2,
+        pageCount: 1,
+        memoryUsage: 2048,
+        fileSize: 14
+      });
+    });
+
+    it('should combine URLs and inline profiles into one PDF', async () => {
+      const inlineProfile = { ...mockProfile, username: 'inline', profileUrl: 'https://x.com/inline' };
+
+      const result = await generator.generateBatch(['https://x.com/testuser', inlineProfile]);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.pdfBuffer).toEqual(Buffer.from('mock-batch-pdf'));
+      expect(result.data?.manifest.successful.map(item => item.profile.username)).toEqual(['testuser', 'inline']);
+      expect(result.data?.manifest.failed).toEqual([]);
+      expect(pdfService.generateMultipleNameTagsPDF).toHaveBeenCalledWith(
+        [mockProfile, expect.objectContaining({ username: 'inline' })],
+        nameTagService.getDefaultTemplate(),
+        undefined,
+        expect.any(Function)
+      );
+    });
+
+    it('should report unresolved entries in the manifest', async () => {
+      const result = await generator.generateBatch([
+        'https://x.com/testuser',
+        'https://x.com/nobody',
+        'not-a-url',
+        { username: 'broken' } as any
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.manifest.successful).toHaveLength(1);
+      expect(result.data?.manifest.failed.map(item => [item.url, item.error.code])).toEqual([
+        ['https://x.com/nobody', ErrorCode.PROFILE_NOT_FOUND],
+        ['not-a-url', ErrorCode.INVALID_URL],
+        ['profiles[3]', ErrorCode.INVALID_REQUEST]
+      ]);
+    });
+
+    it('should fail when no entry can be resolved', async () => {
+      const result = await generator.generateBatch(['https://x.com/nobody']);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ErrorCode.PROFILE_NOT_FOUND);
+      expect(result.error?.details.failed).toHaveLength(1);
+      expect(pdfService.generateMultipleNameTagsPDF).not.toHaveBeenCalled();
+    });
+
+    it('should reject empty and oversized batches', async () => {
+      const empty = await generator.generateBatch([]);
+      const oversized = await generator.generateBatch(
+        Array.from({ length: NameTagGenerator.MAX_BATCH_SIZE + 1 }, () => 'https://x.com/testuser')
+      );
+
+      expect(empty.error?.code).toBe(ErrorCode.INVALID_REQUEST);
+      expect(oversized.error?.code).toBe(ErrorCode.INVALID_REQUEST);
+    });
+
+    it('should return INVALID_REQUEST when the requested grid does not fit the page', async () => {
+      const result = await generator.generateBatch(['https://x.com/testuser'], {
+        pdfOptions: { grid: { rows: 4, columns: 1 } }
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ErrorCode.INVALID_REQUEST);
+      expect(result.error?.message).toContain('fits inside the margins');
+      expect(pdfService.generateMultipleNameTagsPDF).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('streamBatch', () => {
+    it('should resolve profiles before returning the PDF stream', async () => {
+      const stream = Readable.from([Buffer.from('mock-stream-pdf')]);
+      jest.spyOn(pdfService, 'createMultipleNameTagsPDFStream').mockReturnValue({
+        stream,
+        nameTagCount: 1,
+        pageCount: 1
+      });
+
+      const result = await generator.streamBatch(['https://x.com/testuser', 'https://x.com/nobody']);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.stream).toBe(stream);
+      expect(result.data?.manifest.failed).toHaveLength(1);
+      expect(pdfService.createMultipleNameTagsPDFStream).toHaveBeenCalledWith(
+        [mockProfile],
+        nameTagService.getDefaultTemplate(),
+        undefined,
+        expect.any(Function),
+        expect.any(Function)
+      );
+    });
+
+    it('should report the tags rendered and pages written', async () => {
+      const createStream = jest.spyOn(pdfService, 'createMultipleNameTagsPDFStream').mockReturnValue({
+        stream: Readable.from([Buffer.from('mock-stream-pdf')]),
+        nameTagCount: 1,
+        pageCount: 1
+      });
+      const onProgress = jest.fn();
+
+      await generator.streamBatch(['https://x.com/testuser'], { onProgress });
+      const [, , , onTagRendered, onPagesWritten] = createStream.mock.calls[0];
+      onTagRendered!(1, 1);
+      onPagesWritten!(1);
+
+      expect(onProgress).toHaveBeenNthCalledWith(2, { total: 1, resolved: 1, failed: 0, rendered: 1, pages: 0 });
+      expect(onProgress).toHaveBeenLastCalledWith({ total: 1, resolved: 1, failed: 0, rendered: 1, pages: 1 });
+    });
+
+    it('should return an error instead of a stream when nothing resolves', async () => {
+      jest.spyOn(pdfService, 'createMultipleNameTagsPDFStream');
+
+      const result = await generator.streamBatch(['https://x.com/nobody']);
+
+      expect(result.error?.code).toBe(ErrorCode.PROFILE_NOT_FOUND);
+      expect(pdfService.createMultipleNameTagsPDFStream).not.toHaveBeenCalled();
+    });
+  });
+});
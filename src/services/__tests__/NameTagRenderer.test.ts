@@ -0,0 +1,259 @@
+import { NameTagRenderer, RenderBackend, TextStyle } from '../NameTagRenderer';
+import { CanvasRenderBackend } from '../CanvasRenderBackend';
+import { SvgRenderBackend, EMOJI_FONT_FAMILY } from '../SvgRenderBackend';
+import { getDefaultTemplate } from '../../utils/templates';
+import { measureStandardFontText } from '../../utils/fontMetrics';
+import { NameTagTemplate, XProfile } from '../../types';
+
+// A 3×3 checkerboard keeps the QR code's share of the snapshots small
+jest.mock('qrcode', () => ({
+  create: jest.fn(() => ({ modules: { size: 3, get: (row: number, column: number) => Number((row + column) % 2 === 0) } }))
+}));
+
+const LOGO = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const number = (value: number | string): string => String(Math.round(Number(value) * 1e6) / 1e6);
+
+/**
+ * Canvas 2D context stand-in that records what ends up on the canvas in the same
+ * normalized form as `describeSvg`
+ */
+function createRecordingContext() {
+  const operations: string[] = [];
+  let path: string[] = [];
+  let rotations: string[] = [];
+  const stack: string[][] = [];
+  let origin = ['0', '0'];
+
+  const ctx: any = {
+    fillStyle: '',
+    strokeStyle: '',
+    lineWidth: 1,
+    font: '',
+    textAlign: 'start',
+    textBaseline: 'alphabetic',
+    direction: 'ltr',
+    save: () => stack.push(rotations),
+    restore: () => { rotations = stack.pop() || []; },
+    translate: (x: number, y: number) => { origin = [number(x), number(y)]; },
+    rotate: (radians: number) => { rotations = [...rotations, `rotate(${number(radians * 180 / Math.PI)} ${origin.join(' ')})`]; },
+    beginPath: () => { path = []; },
+    rect: (x: number, y: number, width: number, height: number) => path.push(`rect ${[x, y, width, height].map(number)} r=0`),
+    roundRect: (x: number, y: number, width: number, height: number, radius: number) =>
+      path.push(`rect ${[x, y, width, height].map(number)} r=${number(radius)}`),
+    ellipse: (x: number, y: number, rx: number, ry: number) => path.push(`ellipse ${[x, y, rx, ry].map(number)}`),
+    moveTo: (x: number, y: number) => path.push(`line ${number(x)},${number(y)}`),
+    lineTo: (x: number, y: number) => { path[path.length - 1] += `,${number(x)},${number(y)}`; },
+    fill: () => path.forEach(shape => record(`fill ${shape} ${ctx.fillStyle}`)),
+    stroke: () => path.forEach(shape => record(`stroke ${shape} ${ctx.strokeStyle} ${number(ctx.lineWidth)}`)),
+    clip: () => path.forEach(shape => record(`clip ${shape}`)),
+    fillText: (text: string, x: number, y: number) =>
+      record(`text "${text}" ${number(x)},${number(y)} ${ctx.font} ${ctx.textAlign} ${ctx.fillStyle} ${ctx.direction}`),
+    drawImage: (...args: any[]) => record(`image ${args.slice(5).map(number)}`),
+    // Measure like the SVG backend so both fit text the same way
+    measureText: (text: string) => {
+      const [, weight, size, family] = ctx.font.match(/^(\w+) ([\d.]+)px (.*)$/)!;
+      return { width: measureStandardFontText(text, family, weight, Number(size)) };
+    }
+  };
+
+  function record(operation: string) {
+    operations.push(rotations.length ? `[${rotations.join(' ')}] ${operation}` : operation);
+  }
+
+  return { ctx: ctx as CanvasRenderingContext2D, operations };
+}
+
+/**
+ * Read SVG markup back into the normalized operations a canvas would perform
+ */
+function describeSvg(svg: string): string[] {
+  const operations: string[] = [];
+  const clips = new Map<string, string>();
+  const rotations: string[] = [];
+  let clipId: string | null = null;
+
+  const attributes = (source: string) => Object.fromEntries(
+    Array.from(source.matchAll(/([\w-]+)="([^"]*)"/g), match => [match[1], match[2]])
+  );
+  const shapeOf = (tag: string, attrs: Record<string, string>) => tag === 'rect'
+    ? `rect ${[attrs.x, attrs.y, attrs.width, attrs.height].map(number)} r=${number(attrs.rx || 0)}`
+    : `ellipse ${[attrs.cx, attrs.cy, attrs.rx, attrs.ry].map(number)}`;
+  const record = (operation: string) =>
+    operations.push(rotations.length ? `[${rotations.join(' ')}] ${operation}` : operation);
+  const unescape = (text: string) => text
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&amp;/g, '&');
+
+  for (const [, closing, tag, attributeSource, content] of svg.matchAll(/<(\/?)(\w+)([^>]*)>([^<]*)/g)) {
+    const attrs = attributes(attributeSource);
+
+    if (tag === 'g') {
+      if (closing) {
+        rotations.pop();
+      } else {
+        rotations.push(attrs.transform);
+      }
+    } else if (tag === 'clipPath') {
+      clipId = closing ? null : attrs.id;
+    } else if (clipId && (tag === 'rect' || tag === 'ellipse')) {
+      clips.set(clipId, shapeOf(tag, attrs));
+    } else if (tag === 'rect' || tag === 'ellipse') {
+      const shape = shapeOf(tag, attrs);
+      if (attrs.fill !== 'none') {
+        record(`fill ${shape} ${attrs.fill}`);
+      }
+      if (attrs.stroke !== 'none') {
+        record(`stroke ${shape} ${attrs.stroke} ${number(attrs['stroke-width'])}`);
+      }
+    } else if (tag === 'line') {
+      record(`stroke line ${[attrs.x1, attrs.y1, attrs.x2, attrs.y2].map(number)} ${attrs.stroke} ${number(attrs['stroke-width'])}`);
+    } else if (tag === 'text' && !closing) {
+      // Anchors are relative to the direction; the emoji font fallback is SVG-only
+      const direction = attrs.direction || 'ltr';
+      const anchors = direction === 'rtl' ? { start: 'right', middle: 'center', end: 'left' } : { start: 'left', middle: 'center', end: 'right' };
+      const align = anchors[attrs['text-anchor'] as keyof typeof anchors];
+      const family = unescape(attrs['font-family']).replace(`, ${EMOJI_FONT_FAMILY}`, '');
+      const font = `${attrs['font-weight']} ${attrs['font-size']}px ${family}`;
+      record(`text "${unescape(content)}" ${number(attrs.x)},${number(attrs.y)} ${font} ${align} ${attrs.fill} ${direction}`);
+    } else if (tag === 'image') {
+      record(`clip ${clips.get(attrs['clip-path'].slice(5, -1))}`);
+      record(`image ${[attrs.x, attrs.y, attrs.width, attrs.height].map(number)}`);
+    }
+  }
+
+  return operations;
+}
+
+describe('NameTagRenderer', () => {
+  const renderer = new NameTagRenderer();
+  const profile: XProfile = {
+    username: 'testuser',
+    displayName: 'Test User',
+    bio: 'Building tools for event organizers & <speakers>',
+    avatarUrl: 'https://pbs.twimg.com/profile_images/1/avatar.png',
+    profileUrl: 'https://x.com/testuser',
+    verified: false,
+    followerCount: '1,234',
+    followingCount: '56',
+    extractedAt: new Date('2023-01-01')
+  };
+
+  const elementTemplate: NameTagTemplate = {
+    ...getDefaultTemplate(),
+    id: 'speaker',
+    elements: [
+      { type: 'shape', shape: 'rect', x: 0, y: 0, width: 300, height: 30, fill: '#1da1f2', cornerRadius: 6 },
+      { type: 'text', text: 'SPEAKER', x: 0, y: 8, width: 300, height: 16, fontSize: 12, fontWeight: 'bold', color: '#ffffff', align: 'center' },
+      { type: 'image', src: 'avatar', shape: 'circle', x: 20, y: 45, width: 60, height: 60 },
+      { type: 'image', src: LOGO, x: 250, y: 160, width: 40, height: 20, zIndex: 1 },
+      { type: 'text', text: '{bio}', x: 95, y: 45, width: 120, height: 40, fontSize: 10, color: '#333333', maxLines: 3 },
+      { type: 'shape', shape: 'ellipse', x: 230, y: 40, width: 50, height: 50, stroke: '#e1e8ed', strokeWidth: 2 },
+      { type: 'divider', x: 20, y: 120, width: 260, height: 2, color: '#e1e8ed' },
+      { type: 'text', text: '{followerCount} followers', x: 20, y: 130, width: 260, height: 14, fontSize: 10, color: '#1da1f2', align: 'right', rotation: -10 },
+      { type: 'qrcode', x: 20, y: 150, width: 40, height: 40, rotation: 90 }
+    ]
+  };
+
+  // The name box has no alignment, so Arabic names start at its right edge
+  const rtlTemplate: NameTagTemplate = {
+    ...getDefaultTemplate(),
+    id: 'rtl',
+    elements: [
+      { type: 'text', text: '{displayName}', x: 20, y: 20, width: 160, height: 24, fontSize: 18, minFontSize: 12, fontWeight: 'bold', color: '#000000' },
+      { type: 'text', text: '@{username}', x: 20, y: 50, width: 160, height: 16, fontSize: 12, color: '#1da1f2' }
+    ]
+  };
+
+  const renderWithCanvas = async (template: NameTagTemplate, tagProfile: XProfile = profile): Promise<string[]> => {
+    const { ctx, operations } = createRecordingContext();
+    const backend = new CanvasRenderBackend(ctx);
+    jest.spyOn(backend, 'loadImage').mockResolvedValue({ naturalWidth: 100, naturalHeight: 50 } as HTMLImageElement);
+
+    await renderer.render(backend, tagProfile, template);
+    return operations;
+  };
+
+  const renderWithSvg = async (template: NameTagTemplate, tagProfile: XProfile = profile): Promise<string> => {
+    const backend = new SvgRenderBackend(template.dimensions.width, template.dimensions.height,
+      async source => source.startsWith('data:') ? source : 'data:image/png;base64,QVZBVEFS',
+      (text, style) => measureStandardFontText(text, style.fontFamily, style.fontWeight, style.fontSize));
+
+    await renderer.render(backend, tagProfile, template);
+    return backend.toString();
+  };
+
+  describe('backends', () => {
+    it.each([
+      ['the fixed layout', getDefaultTemplate(), profile],
+      ['template elements', elementTemplate, profile],
+      ['a long display name', getDefaultTemplate(), { ...profile, displayName: 'Augusta Ada King, Countess of Lovelace' }],
+      ['a right-to-left name', rtlTemplate, { ...profile, displayName: 'محمد بن موسى الخوارزمي 🌙' }]
+    ])('should lay out %s identically on canvas and in SVG', async (_name, template, tagProfile) => {
+      const canvasLayout = await renderWithCanvas(template, tagProfile);
+      const svgLayout = describeSvg(await renderWithSvg(template, tagProfile));
+
+      expect(canvasLayout).toEqual(svgLayout);
+      expect(svgLayout).toMatchSnapshot();
+    });
+
+    it('should write self-contained SVG markup', async () => {
+      expect(await renderWithSvg(elementTemplate)).toMatchSnapshot();
+    });
+  });
+
+  describe('render', () => {
+    const createBackend = (): jest.Mocked<RenderBackend<string>> => ({
+      loadImage: jest.fn().mockResolvedValue('image'),
+      save: jest.fn(),
+      restore: jest.fn(),
+      rotate: jest.fn(),
+      drawRect: jest.fn(),
+      drawEllipse: jest.fn(),
+      drawLine: jest.fn(),
+      measureText: jest.fn((text: string, style: TextStyle) => text.length * style.fontSize * 0.5),
+      drawText: jest.fn(),
+      drawImage: jest.fn()
+    });
+
+    it('should fill the background before drawing elements', async () => {
+      const backend = createBackend();
+
+      await renderer.render(backend, profile, getDefaultTemplate());
+
+      expect(backend.drawRect.mock.calls[0]).toEqual([{ x: 0, y: 0, width: 300, height: 200 }, { fill: '#ffffff' }]);
+      expect(backend.loadImage).toHaveBeenCalledWith(profile.avatarUrl);
+      expect(backend.drawText).toHaveBeenCalledWith('@testuser', 100, 70, expect.objectContaining({ align: 'left', fontSize: 12 }));
+    });
+
+    it('should leave the background unpainted when transparent', async () => {
+      const backend = createBackend();
+
+      await renderer.render(backend, profile, getDefaultTemplate(), { transparent: true });
+
+      expect(backend.drawRect).not.toHaveBeenCalledWith({ x: 0, y: 0, width: 300, height: 200 }, { fill: '#ffffff' });
+      expect(backend.drawText).toHaveBeenCalledWith('@testuser', 100, 70, expect.anything());
+    });
+
+    it('should shrink, then ellipsize text that is too wide for its box', async () => {
+      const backend = createBackend();
+
+      await renderer.render(backend, { ...profile, displayName: 'Augusta Ada King, Countess of Lovelace' }, getDefaultTemplate());
+
+      // The name box is 100 wide; at the 9.6pt minimum, 20 half-em characters fit
+      const [name, , , style] = backend.drawText.mock.calls[0];
+      expect(style.fontSize).toBeCloseTo(9.6);
+      expect(name).toBe('Augusta Ada King, C…');
+    });
+
+    it('should skip images that cannot be loaded', async () => {
+      const backend = createBackend();
+      backend.loadImage.mockResolvedValue(null);
+
+      await renderer.render(backend, { ...profile, avatarUrl: '' }, elementTemplate);
+
+      expect(backend.loadImage).toHaveBeenCalledTimes(1); // The logo; there is no avatar URL
+      expect(backend.drawImage).not.toHaveBeenCalled();
+      expect(backend.save).toHaveBeenCalledTimes(backend.restore.mock.calls.length);
+    });
+  });
+});
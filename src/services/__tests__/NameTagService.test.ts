@@ -1,4 +1,5 @@
 import { NameTagService } from '../NameTagService';
+import { FontRegistry } from '../FontRegistry';
 import { XProfile, NameTagTemplate, NameTagData } from '../../types';
 
 // Mock dependencies
@@ -9,10 +10,18 @@ const mockQRCode = require('qrcode');
 const mockSharp = require('sharp');
 
 // Mock sharp with chainable methods
+const mockJpeg = jest.fn().mockReturnValue({
+  toBuffer: jest.fn().mockResolvedValue(Buffer.from('mock-jpeg-data'))
+});
+const mockWebp = jest.fn().mockReturnValue({
+  toBuffer: jest.fn().mockResolvedValue(Buffer.from('mock-webp-data'))
+});
 const mockComposite = jest.fn().mockReturnValue({
   png: jest.fn().mockReturnValue({
     toBuffer: jest.fn().mockResolvedValue(Buffer.from('mock-image-data'))
-  })
+  }),
+  jpeg: mockJpeg,
+  webp: mockWebp
 });
 
 mockSharp.mockReturnValue({
@@ -21,6 +30,10 @@ mockSharp.mockReturnValue({
 
 // Mock qrcode.toBuffer to return a buffer
 mockQRCode.toBuffer = jest.fn().mockResolvedValue(Buffer.from('mock-qr-code'));
+// A 2×2 matrix with one dark module, enough to check QR code placement
+mockQRCode.create = jest.fn().mockReturnValue({
+  modules: { size: 2, get: (row: number, column: number) => Number(row === 0 && column === 0) }
+});
 
 describe('NameTagService', () => {
   let service: NameTagService;
@@ -67,6 +80,8 @@ describe('NameTagService', () => {
     };
   });
 
+  const getSvg = (): string => mockComposite.mock.calls[0][0][0].input.toString();
+
   describe('generateNameTag', () => {
     it('should generate a name tag with basic profile information', async () => {
       // This test will fail initially (RED phase)
@@ -82,7 +97,7 @@ describe('NameTagService', () => {
       
       expect(result).toBeDefined();
       // QR code should be generated with profile URL
-      expect(mockQRCode.toBuffer).toHaveBeenCalledWith(mockProfile.profileUrl, expect.any(Object));
+      expect(mockQRCode.create).toHaveBeenCalledWith(mockProfile.profileUrl, expect.any(Object));
     });
 
     it('should handle profile with long display name', async () => {
@@ -93,6 +108,17 @@ describe('NameTagService', () => {
       
       const result = await service.generateNameTag(longNameProfile, mockTemplate);
       expect(result).toBeDefined();
+      // Shrunk to the 60% minimum and ellipsized to end before the QR code
+      expect(getSvg()).toMatch(/font-size="9.6" font-weight="bold"[^>]*>This is a very[^<]*…<\/text>/);
+    });
+
+    it('should escape markup and drop control characters in profile text', async () => {
+      await service.generateNameTag({ ...mockProfile, displayName: '"/><script>x</script>\u0000\u001b', username: 'a&b' }, mockTemplate);
+
+      const svg = getSvg();
+      expect(svg).toContain('>&quot;/&gt;&lt;script&gt;x&lt;/script&gt;</text>');
+      expect(svg).toContain('>@a&amp;b</text>');
+      expect(svg).not.toMatch(/[\u0000\u001b]|<script/);
     });
 
     it('should handle missing avatar image gracefully', async () => {
@@ -104,6 +130,173 @@ describe('NameTagService', () => {
       const result = await service.generateNameTag(profileWithoutAvatar, mockTemplate);
       expect(result).toBeDefined();
     });
+
+    it('should embed the avatar as PNG clipped to a circle', async () => {
+      jest.spyOn(service, 'fetchAvatarImage').mockResolvedValue(Buffer.from('mock-avatar'));
+      mockSharp.mockImplementationOnce(() => ({ composite: mockComposite })).mockImplementationOnce(() => ({
+        png: () => ({ toBuffer: jest.fn().mockResolvedValue(Buffer.from('mock-png')) })
+      }));
+
+      await service.generateNameTag(mockProfile, mockTemplate);
+
+      const svg = getSvg();
+      expect(service.fetchAvatarImage).toHaveBeenCalledWith(mockProfile.avatarUrl);
+      expect(svg).toContain('<clipPath id="clip-1"><ellipse cx="50" cy="50" rx="30" ry="30"/></clipPath>');
+      expect(svg).toContain(`href="data:image/png;base64,${Buffer.from('mock-png').toString('base64')}"`);
+    });
+
+    it('should render at a higher resolution when scaled', async () => {
+      await service.generateNameTag(mockProfile, mockTemplate, { scale: 2 });
+
+      expect(mockSharp).toHaveBeenCalledWith({
+        create: expect.objectContaining({ width: 600, height: 400 })
+      });
+      expect(getSvg()).toContain('<rect x="440" y="40" width="160" height="160" fill="#ffffff"');
+    });
+
+    it('should encode as JPEG when requested', async () => {
+      const result = await service.generateNameTag(mockProfile, mockTemplate, { format: 'jpeg', jpegQuality: 70 });
+
+      expect(mockJpeg).toHaveBeenCalledWith({ quality: 70 });
+      expect(result).toEqual(Buffer.from('mock-jpeg-data'));
+    });
+
+    it('should leave the background transparent when requested', async () => {
+      await service.generateNameTag(mockProfile, mockTemplate, { transparent: true });
+
+      expect(mockSharp).toHaveBeenCalledWith({
+        create: expect.objectContaining({ channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } })
+      });
+      expect(getSvg()).not.toContain('<rect x="0" y="0" width="300" height="200"');
+    });
+  });
+
+  describe('exportImage', () => {
+    it('should render PNG and WebP at the requested DPI', async () => {
+      await service.exportImage(mockProfile, mockTemplate, { format: 'png', dpi: 144 });
+      expect(mockSharp).toHaveBeenCalledWith({ create: expect.objectContaining({ width: 600, height: 400 }) });
+
+      const result = await service.exportImage(mockProfile, mockTemplate, { format: 'webp' });
+      expect(mockSharp).toHaveBeenCalledWith({ create: expect.objectContaining({ width: 1250, height: 833 }) });
+      expect(mockWebp).toHaveBeenCalled();
+      expect(result).toEqual(Buffer.from('mock-webp-data'));
+    });
+
+    it('should export a standalone SVG without rasterizing', async () => {
+      const result = await service.exportImage(mockProfile, mockTemplate, { format: 'svg' });
+      const svg = result.toString();
+
+      expect(svg).toMatch(/^<svg width="300" height="200" xmlns="http:\/\/www.w3.org\/2000\/svg">/);
+      expect(svg).toContain('<rect x="0" y="0" width="300" height="200" fill="#ffffff"');
+      expect(svg).toContain('Test User');
+      expect(mockSharp).not.toHaveBeenCalledWith({ create: expect.anything() });
+    });
+
+    it('should leave the SVG background out when transparent', async () => {
+      const svg = await service.generateSvg(mockProfile, mockTemplate, { transparent: true });
+
+      expect(svg).not.toContain('<rect x="0" y="0" width="300" height="200"');
+    });
+
+    it('should rasterize text as outlines of the registered fonts but keep it as text in SVG exports', async () => {
+      const fonts = new FontRegistry();
+      jest.spyOn(fonts, 'outlineText').mockReturnValue({ path: 'M0 0L10 -7', width: 10 });
+      const outlined = new NameTagService(fonts);
+
+      await outlined.generateNameTag(mockProfile, mockTemplate);
+      const svg = await outlined.generateSvg(mockProfile, mockTemplate);
+
+      expect(getSvg()).toContain('d="M0 0L10 -7" fill="#000000"/>');
+      expect(getSvg()).not.toContain('<text');
+      expect(svg).toContain('>Test User</text>');
+    });
+  });
+
+  describe('template elements', () => {
+    it('should render text bound to profile fields, shapes and dividers', async () => {
+      await service.generateNameTag(mockProfile, {
+        ...mockTemplate,
+        elements: [
+          { type: 'shape', shape: 'rect', x: 0, y: 0, width: 300, height: 40, fill: '#1da1f2', cornerRadius: 4 },
+          { type: 'text', text: '{bio} · {followerCount} followers', x: 10, y: 50, width: 280, height: 20, fontSize: 10, color: '#333333' },
+          { type: 'divider', x: 10, y: 80, width: 280, height: 2, color: '#cccccc' }
+        ]
+      });
+
+      const svg = getSvg();
+      expect(svg).toContain('<rect x="0" y="0" width="300" height="40" rx="4" fill="#1da1f2"');
+      expect(svg).toContain('>Test bio · 100 followers</text>');
+      expect(svg).toContain('<line x1="10" y1="81" x2="290" y2="81" stroke="#cccccc"');
+      expect(mockQRCode.create).not.toHaveBeenCalled();
+    });
+
+    it('should draw elements in z-index order', async () => {
+      await service.generateNameTag(mockProfile, {
+        ...mockTemplate,
+        elements: [
+          { type: 'text', text: 'Above', x: 0, y: 0, width: 100, height: 20, fontSize: 10, color: '#000000', zIndex: 2 },
+          { type: 'qrcode', x: 200, y: 20, width: 80, height: 80, zIndex: 1 },
+          { type: 'shape', shape: 'ellipse', x: 0, y: 0, width: 100, height: 100, fill: '#eeeeee' }
+        ]
+      });
+
+      const svg = getSvg();
+      expect(mockComposite.mock.calls[0][0]).toHaveLength(1);
+      expect(svg.indexOf('<ellipse')).toBeLessThan(svg.indexOf('<rect x="200"'));
+      expect(svg.indexOf('<rect x="200"')).toBeLessThan(svg.indexOf('>Above</text>'));
+    });
+
+    it('should rotate elements around their center', async () => {
+      await service.generateNameTag(mockProfile, {
+        ...mockTemplate,
+        elements: [
+          { type: 'text', text: '{displayName}', x: 0, y: 0, width: 100, height: 20, fontSize: 10, color: '#000000', rotation: 90 },
+          { type: 'qrcode', content: 'https://example.com', x: 200, y: 20, width: 80, height: 80, rotation: -15 }
+        ]
+      });
+
+      const svg = getSvg();
+      expect(svg).toContain('<g transform="rotate(90 50 10)"><text');
+      expect(svg).toContain('<g transform="rotate(-15 240 60)"><rect x="200" y="20" width="80" height="80"');
+      expect(mockQRCode.create).toHaveBeenCalledWith('https://example.com', expect.any(Object));
+    });
+  });
+
+  describe('generateBackSide', () => {
+    it('should render a large QR code with the bio using the default back design', async () => {
+      const result = await service.generateBackSide(mockProfile, mockTemplate);
+
+      expect(result).toEqual(Buffer.from('mock-image-data'));
+      expect(mockQRCode.toBuffer).toHaveBeenCalledWith(mockProfile.profileUrl, expect.objectContaining({ width: 150 }));
+      expect(mockComposite).toHaveBeenCalledWith(expect.arrayContaining([
+        expect.objectContaining({ top: 25, left: 20 })
+      ]));
+      expect(getSvg()).toContain('>Test bio</text>');
+    });
+
+    it('should list the schedule below the bio and escape markup', async () => {
+      await service.generateBackSide({ ...mockProfile, bio: 'Q&A <live>' }, {
+        ...mockTemplate,
+        back: {
+          ...service.getDefaultBackSide(mockTemplate),
+          schedule: ['09:00 Keynote', '13:00 Lunch']
+        }
+      });
+
+      const svg = getSvg();
+      expect(svg).toContain('Q&amp;A &lt;live&gt;');
+      expect(svg.indexOf('09:00 Keynote')).toBeGreaterThan(svg.indexOf('Q&amp;A'));
+      expect(svg).toContain('13:00 Lunch');
+    });
+
+    it('should scale the back design with the tag', async () => {
+      await service.generateBackSide(mockProfile, mockTemplate, { scale: 2 });
+
+      expect(mockSharp).toHaveBeenCalledWith({
+        create: expect.objectContaining({ width: 600, height: 400 })
+      });
+      expect(mockQRCode.toBuffer).toHaveBeenCalledWith(mockProfile.profileUrl, expect.objectContaining({ width: 300 }));
+    });
   });
 
   describe('generateWithCustomizations', () => {
@@ -169,6 +362,50 @@ describe('NameTagService', () => {
       const isValid = service.validateTemplate(invalidTemplate);
       expect(isValid).toBe(false);
     });
+
+    it('should validate the back design when present', () => {
+      const back = service.getDefaultBackSide(mockTemplate);
+
+      expect(service.validateTemplate({ ...mockTemplate, back })).toBe(true);
+      expect(service.validateTemplate({ ...mockTemplate, back: { ...back, qrCodeSize: 0 } })).toBe(false);
+      expect(service.validateTemplate({ ...mockTemplate, back: { ...back, schedule: 'Keynote' as any } })).toBe(false);
+    });
+
+    it('should reject sizes and positions that are not finite numbers', () => {
+      const back = service.getDefaultBackSide(mockTemplate);
+      const hostile = '11"><script>alert(1)</script>' as any;
+
+      expect(service.validateTemplate({ ...mockTemplate, back: { ...back, fontSize: hostile } })).toBe(false);
+      expect(service.validateTemplate({ ...mockTemplate, back: { ...back, textPosition: { x: hostile, y: 20 } } })).toBe(false);
+      expect(service.validateTemplate({ ...mockTemplate, back: { ...back, textWidth: NaN } })).toBe(false);
+      expect(service.validateTemplate({ ...mockTemplate, back: { ...back, showBio: 'yes' as any } })).toBe(false);
+      expect(service.validateTemplate({ ...mockTemplate, dimensions: { width: '300' as any, height: 200 } })).toBe(false);
+      expect(service.validateTemplate({
+        ...mockTemplate,
+        layout: { ...mockTemplate.layout, namePosition: { x: 10, y: hostile } }
+      })).toBe(false);
+    });
+
+    it('should validate template elements when present', () => {
+      const text = { type: 'text' as const, text: '{bio}', x: 0, y: 0, width: 100, height: 20, fontSize: 10, color: '#000' };
+
+      expect(service.validateTemplate({ ...mockTemplate, elements: [text] })).toBe(true);
+      expect(service.validateTemplate({ ...mockTemplate, elements: [{ ...text, height: -1 }] })).toBe(false);
+      expect(service.validateTemplate({ ...mockTemplate, elements: {} as any })).toBe(false);
+    });
+  });
+
+  describe('getDefaultBackSide', () => {
+    it('should fit the QR code to the tag height and the text beside it', () => {
+      expect(service.getDefaultBackSide(mockTemplate)).toEqual({
+        qrCodePosition: { x: 20, y: 25 },
+        qrCodeSize: 150,
+        textPosition: { x: 190, y: 20 },
+        textWidth: 90,
+        fontSize: 11,
+        showBio: true
+      });
+    });
   });
 
   describe('getDefaultTemplate', () => {
@@ -181,6 +418,21 @@ describe('NameTagService', () => {
     });
   });
 
+  describe('getTemplateById', () => {
+    it('should return built-in templates by id', () => {
+      ['default', 'minimal', 'colorful'].forEach(id => {
+        const template = service.getTemplateById(id);
+
+        expect(template?.id).toBe(id);
+        expect(service.validateTemplate(template!)).toBe(true);
+      });
+    });
+
+    it('should return null for unknown template ids', () => {
+      expect(service.getTemplateById('unknown')).toBeNull();
+    });
+  });
+
   describe('error handling', () => {
     it('should throw error for invalid profile data', async () => {
       const invalidProfile = {
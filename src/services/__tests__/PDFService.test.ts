@@ -27,6 +27,28 @@ describe('PDFService', () => {
       end: jest.fn(),
       addPage: jest.fn(),
       image: jest.fn(),
+      destroy: jest.fn(),
+      save: jest.fn().mockReturnThis(),
+      restore: jest.fn().mockReturnThis(),
+      rect: jest.fn().mockReturnThis(),
+      fill: jest.fn().mockReturnThis(),
+      stroke: jest.fn().mockReturnThis(),
+      moveTo: jest.fn().mockReturnThis(),
+      lineTo: jest.fn().mockReturnThis(),
+      lineWidth: jest.fn().mockReturnThis(),
+      strokeColor: jest.fn().mockReturnThis(),
+      dash: jest.fn().mockReturnThis(),
+      undash: jest.fn().mockReturnThis(),
+      translate: jest.fn().mockReturnThis(),
+      scale: jest.fn().mockReturnThis(),
+      rotate: jest.fn().mockReturnThis(),
+      circle: jest.fn().mockReturnThis(),
+      clip: jest.fn().mockReturnThis(),
+      font: jest.fn().mockReturnThis(),
+      fontSize: jest.fn().mockReturnThis(),
+      fillColor: jest.fn().mockReturnThis(),
+      text: jest.fn().mockReturnThis(),
+      widthOfString: jest.fn().mockReturnValue(50),
       page: {
         width: 595,
         height: 842
@@ -101,12 +123,17 @@ describe('PDFService', () => {
       expect(result.pageCount).toBe(1);
       expect(result.memoryUsage).toBeGreaterThan(0);
       expect(Buffer.isBuffer(result.pdfBuffer)).toBe(true);
+      expect(result.fileSize).toBe(result.pdfBuffer.length);
     });
 
     it('should call NameTagService to generate name tag', async () => {
-      await service.generateSingleNameTagPDF(mockProfile, mockTemplate);
+      await service.generateSingleNameTagPDF(mockProfile, mockTemplate, { renderMode: 'raster' });
       
-      expect(mockNameTagService.prototype.generateNameTag).toHaveBeenCalledWith(mockProfile, mockTemplate);
+      expect(mockNameTagService.prototype.generateNameTag).toHaveBeenCalledWith(mockProfile, mockTemplate, {
+        scale: 150 / 72,
+        format: 'jpeg',
+        jpegQuality: 85
+      });
     });
 
     it('should create PDF document with correct options', async () => {
@@ -114,6 +141,7 @@ describe('PDFService', () => {
       
       expect(mockPDFDocument).toHaveBeenCalledWith({
         size: 'A4',
+        layout: 'portrait',
         margin: 50,
         info: {
           Title: 'Name Tag - Test User',
@@ -127,7 +155,7 @@ describe('PDFService', () => {
     it('should handle errors gracefully', async () => {
       mockNameTagService.prototype.generateNameTag.mockRejectedValue(new Error('Generation failed'));
       
-      await expect(service.generateSingleNameTagPDF(mockProfile, mockTemplate)).rejects.toThrow();
+      await expect(service.generateSingleNameTagPDF(mockProfile, mockTemplate, { renderMode: 'raster' })).rejects.toThrow();
     });
   });
 
@@ -147,7 +175,7 @@ describe('PDFService', () => {
     it('should call NameTagService for each profile', async () => {
       const profiles = [mockProfile, { ...mockProfile, username: 'user2' }];
       
-      await service.generateMultipleNameTagsPDF(profiles, mockTemplate);
+      await service.generateMultipleNameTagsPDF(profiles, mockTemplate, { renderMode: 'raster' });
       
       expect(mockNameTagService.prototype.generateNameTag).toHaveBeenCalledTimes(2);
     });
@@ -160,7 +188,71 @@ describe('PDFService', () => {
       
       const result = await service.generateMultipleNameTagsPDF(profiles, mockTemplate);
       
-      expect(result.pageCount).toBe(2); // 10 name tags with 6 per page = 2 pages
+      expect(result.pageCount).toBe(4); // Only a 1×3 grid of 300×200 tags fits on A4 portrait
+    });
+
+    it('should honor nameTagsPerPage when fewer tags fit than requested', async () => {
+      const profiles = Array.from({ length: 10 }, (_, i) => ({
+        ...mockProfile,
+        username: `user${i}`
+      }));
+      
+      const result = await service.generateMultipleNameTagsPDF(profiles, mockTemplate, { nameTagsPerPage: 2 });
+      
+      expect(result.pageCount).toBe(5);
+    });
+
+    it('should place tags on a landscape grid', async () => {
+      const profiles = Array.from({ length: 4 }, (_, i) => ({
+        ...mockProfile,
+        username: `user${i}`
+      }));
+      
+      const result = await service.generateMultipleNameTagsPDF(profiles, mockTemplate, {
+        orientation: 'landscape',
+        renderMode: 'raster',
+        grid: { rows: 2, columns: 2 }
+      });
+      
+      const doc = mockPDFDocument.mock.results[0].value;
+      expect(mockPDFDocument).toHaveBeenCalledWith(expect.objectContaining({ layout: 'landscape' }));
+      expect(result.pageCount).toBe(1);
+      expect(doc.addPage).not.toHaveBeenCalled();
+      const positions = doc.image.mock.calls.map((call: any[]) => [call[1], call[2]]);
+      expect(new Set(positions.map((position: number[]) => position[0])).size).toBe(2);
+      expect(new Set(positions.map((position: number[]) => position[1])).size).toBe(2);
+    });
+
+    it('should throw error when the requested grid does not fit', async () => {
+      await expect(service.generateMultipleNameTagsPDF([mockProfile], mockTemplate, {
+        grid: { rows: 2, columns: 2 }
+      })).rejects.toThrow('A 2×2 grid of 300×200 name tags needs');
+    });
+
+    it('should place one tag on each label of a label sheet', async () => {
+      const profiles = Array.from({ length: 9 }, (_, i) => ({
+        ...mockProfile,
+        username: `user${i}`
+      }));
+      
+      const result = await service.generateMultipleNameTagsPDF(profiles, mockTemplate, {
+        labelSheet: 'avery-5395',
+        pageSize: 'A4',
+        orientation: 'landscape',
+        renderMode: 'raster'
+      });
+      
+      const doc = mockPDFDocument.mock.results[0].value;
+      expect(mockPDFDocument).toHaveBeenCalledWith(expect.objectContaining({ size: 'Letter', layout: 'portrait' }));
+      expect(result.pageCount).toBe(2);
+      expect(doc.addPage).toHaveBeenCalledTimes(1);
+      expect(doc.image.mock.calls[0][1]).toBeCloseTo(49.5);
+      expect(doc.image.mock.calls[1][1]).toBeCloseTo(319.5);
+      expect(doc.image.mock.calls[0][3]).toEqual({
+        fit: [expect.closeTo(243), expect.closeTo(168, 0)],
+        align: 'center',
+        valign: 'center'
+      });
     });
 
     it('should throw error for empty profiles array', async () => {
@@ -182,6 +274,308 @@ describe('PDFService', () => {
     });
   });
 
+  describe('render modes', () => {
+    it('should draw tags as vector content by default', async () => {
+      await service.generateMultipleNameTagsPDF([mockProfile], mockTemplate);
+
+      const doc = mockPDFDocument.mock.results[0].value;
+      expect(mockNameTagService.prototype.generateNameTag).not.toHaveBeenCalled();
+      expect(doc.text).toHaveBeenCalledWith('Test User', expect.any(Number), expect.any(Number), expect.any(Object));
+      expect(doc.text).toHaveBeenCalledWith('@testuser', expect.any(Number), expect.any(Number), expect.any(Object));
+      expect(doc.image).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to a raster tag when the fonts cannot draw the name', async () => {
+      const profiles = [mockProfile, { ...mockProfile, username: 'yamada', displayName: '山田太郎' }];
+
+      await service.generateMultipleNameTagsPDF(profiles, mockTemplate);
+
+      const doc = mockPDFDocument.mock.results[0].value;
+      expect(mockNameTagService.prototype.generateNameTag).toHaveBeenCalledTimes(1);
+      expect(mockNameTagService.prototype.generateNameTag).toHaveBeenCalledWith(profiles[1], mockTemplate, expect.any(Object));
+      expect(doc.image).toHaveBeenCalledTimes(1);
+      expect(doc.text).toHaveBeenCalledWith('Test User', expect.any(Number), expect.any(Number), expect.any(Object));
+    });
+
+    it('should fall back to a raster tag when an embedded image is corrupt', async () => {
+      const template: NameTagTemplate = {
+        ...mockTemplate,
+        elements: [
+          { type: 'image', x: 20, y: 20, width: 60, height: 60, src: 'data:image/png;base64,iVBORw0KGgoAAAAA' },
+          { type: 'text', x: 100, y: 30, width: 180, height: 20, text: '{displayName}', fontSize: 16, color: '#000000' }
+        ]
+      };
+
+      const result = await service.generateMultipleNameTagsPDF([mockProfile], template);
+
+      const doc = mockPDFDocument.mock.results[0].value;
+      expect(result.nameTagCount).toBe(1);
+      expect(mockNameTagService.prototype.generateNameTag).toHaveBeenCalledWith(mockProfile, template, expect.any(Object));
+      expect(doc.image).toHaveBeenCalledWith(Buffer.from('mock-name-tag'), expect.any(Number), expect.any(Number), expect.any(Object));
+    });
+  });
+
+  describe('quality', () => {
+    it('should render high quality rasters at 300 DPI as PNG', async () => {
+      await service.generateSingleNameTagPDF(mockProfile, mockTemplate, { quality: 'high', renderMode: 'raster' });
+
+      expect(mockNameTagService.prototype.generateNameTag).toHaveBeenCalledWith(mockProfile, mockTemplate, {
+        scale: 300 / 72,
+        format: 'png',
+        jpegQuality: 95
+      });
+    });
+
+    it('should render low quality rasters at 96 DPI as compressed JPEG', async () => {
+      await service.generateSingleNameTagPDF(mockProfile, mockTemplate, { quality: 'low', renderMode: 'raster' });
+
+      expect(mockNameTagService.prototype.generateNameTag).toHaveBeenCalledWith(mockProfile, mockTemplate, {
+        scale: 96 / 72,
+        format: 'jpeg',
+        jpegQuality: 60
+      });
+    });
+
+    it('should still place rasters at the tag size', async () => {
+      await service.generateSingleNameTagPDF(mockProfile, mockTemplate, { quality: 'high', renderMode: 'raster' });
+
+      const doc = mockPDFDocument.mock.results[0].value;
+      expect(doc.image.mock.calls[0][3]).toEqual(expect.objectContaining({ fit: [300, 200] }));
+    });
+  });
+
+  describe('print marks', () => {
+    const profiles = () => Array.from({ length: 3 }, (_, i) => ({
+      ...mockProfile,
+      username: `user${i}`
+    }));
+
+    it('should not draw any marks by default', async () => {
+      await service.generateMultipleNameTagsPDF(profiles(), mockTemplate, { renderMode: 'raster' });
+
+      const doc = mockPDFDocument.mock.results[0].value;
+      expect(doc.rect).not.toHaveBeenCalled();
+      expect(doc.stroke).not.toHaveBeenCalled();
+    });
+
+    it('should extend the background past the trim line before drawing tags', async () => {
+      await service.generateMultipleNameTagsPDF(profiles(), mockTemplate, { bleed: 9, renderMode: 'raster' });
+
+      const doc = mockPDFDocument.mock.results[0].value;
+      const [x, y] = doc.image.mock.calls[0].slice(1, 3);
+      expect(doc.rect).toHaveBeenCalledTimes(3);
+      expect(doc.rect).toHaveBeenCalledWith(x - 9, y - 9, 318, 218);
+      expect(doc.fill).toHaveBeenCalledWith('#ffffff');
+      expect(doc.fill.mock.invocationCallOrder[2]).toBeLessThan(doc.image.mock.invocationCallOrder[0]);
+    });
+
+    it('should draw dashed cut lines around each tag', async () => {
+      await service.generateMultipleNameTagsPDF(profiles(), mockTemplate, { cutLines: true, renderMode: 'raster' });
+
+      const doc = mockPDFDocument.mock.results[0].value;
+      expect(doc.dash).toHaveBeenCalled();
+      expect(doc.rect).toHaveBeenCalledTimes(3);
+      expect(doc.stroke).toHaveBeenCalledTimes(3);
+      expect(doc.undash).toHaveBeenCalled();
+    });
+
+    it('should draw crop marks as vector lines', async () => {
+      await service.generateMultipleNameTagsPDF(profiles(), mockTemplate, { cropMarks: true, bleed: 9 });
+
+      const doc = mockPDFDocument.mock.results[0].value;
+      // One column (2 vertical trim lines) and three rows (6 horizontal trim lines)
+      expect(doc.moveTo).toHaveBeenCalledTimes(16);
+      expect(doc.lineWidth).toHaveBeenCalledWith(0.25);
+    });
+
+    it('should skip cut guides on label sheets', async () => {
+      await service.generateMultipleNameTagsPDF(profiles(), mockTemplate, {
+        labelSheet: 'avery-5395',
+        cropMarks: true,
+        cutLines: true
+      });
+
+      const doc = mockPDFDocument.mock.results[0].value;
+      expect(doc.stroke).not.toHaveBeenCalled();
+    });
+
+    it('should widen the gutter to fit the bleed', () => {
+      const layout = service.getPageLayout(mockTemplate, service.getDefaultPDFOptions({ gutter: 0, bleed: 9 }));
+
+      expect(layout.positions[1].y - layout.positions[0].y).toBe(218);
+    });
+  });
+
+  describe('duplex', () => {
+    const profiles = (count: number) => Array.from({ length: count }, (_, i) => ({
+      ...mockProfile,
+      username: `user${i}`
+    }));
+
+    beforeEach(() => {
+      mockNameTagService.prototype.generateBackSide = jest.fn().mockResolvedValue(Buffer.from('mock-back-side'));
+      mockNameTagService.prototype.getDefaultBackSide = jest.fn().mockReturnValue({
+        qrCodePosition: { x: 20, y: 25 },
+        qrCodeSize: 150,
+        textPosition: { x: 190, y: 20 },
+        textWidth: 90,
+        fontSize: 11,
+        showBio: true
+      });
+      // The mocked service copies prototype methods when constructed
+      service = new PDFService();
+    });
+
+    it('should follow each page of fronts with a page of backs', async () => {
+      const result = await service.generateMultipleNameTagsPDF(profiles(7), mockTemplate, {
+        duplex: 'long-edge',
+        renderMode: 'raster'
+      });
+
+      const doc = mockPDFDocument.mock.results[0].value;
+      expect(result.pageCount).toBe(6);
+      expect(doc.addPage).toHaveBeenCalledTimes(5);
+      expect(doc.image).toHaveBeenCalledTimes(14);
+      expect(doc.image.mock.calls[3][0]).toEqual(Buffer.from('mock-back-side'));
+      expect(mockNameTagService.prototype.generateBackSide).toHaveBeenCalledTimes(7);
+    });
+
+    it('should place each back behind its front', async () => {
+      await service.generateMultipleNameTagsPDF([mockProfile], mockTemplate, {
+        orientation: 'landscape',
+        duplex: 'short-edge',
+        renderMode: 'raster'
+      });
+
+      // Landscape A4 fits a 2×2 grid, so the first slot is off-center and moves when mirrored
+      const doc = mockPDFDocument.mock.results[0].value;
+      const [front, back] = doc.image.mock.calls.map((call: any[]) => call.slice(1, 3));
+      expect(back[0]).toBeCloseTo(841.89 - front[0] - 300);
+      expect(back[1]).toBeCloseTo(front[1]);
+    });
+
+    it('should draw vector backs with the bio', async () => {
+      const result = await service.generateSingleNameTagPDF(mockProfile, mockTemplate, { duplex: 'long-edge' });
+
+      const doc = mockPDFDocument.mock.results[0].value;
+      expect(result.pageCount).toBe(2);
+      expect(doc.text).toHaveBeenCalledWith('Test bio', expect.any(Number), expect.any(Number), expect.any(Object));
+      expect(mockNameTagService.prototype.generateBackSide).not.toHaveBeenCalled();
+    });
+
+    it('should only draw cut guides on the fronts', async () => {
+      await service.generateMultipleNameTagsPDF(profiles(3), mockTemplate, {
+        duplex: 'long-edge',
+        cutLines: true,
+        renderMode: 'raster'
+      });
+
+      const doc = mockPDFDocument.mock.results[0].value;
+      expect(doc.stroke).toHaveBeenCalledTimes(3);
+    });
+
+    it('should count back pages when streaming', () => {
+      const result = service.createMultipleNameTagsPDFStream(profiles(4), mockTemplate, { duplex: 'short-edge' });
+
+      expect(result.pageCount).toBe(4);
+    });
+  });
+
+  describe('tent cards', () => {
+    it('should stack two copies of the tag around the fold', () => {
+      const layout = service.getPageLayout(mockTemplate, service.getDefaultPDFOptions({ tentCard: true }));
+
+      expect(layout.tagWidth).toBe(300);
+      expect(layout.tagHeight).toBe(400);
+      expect(layout.tagsPerPage).toBe(1);
+    });
+
+    it('should draw the top copy upside down and the bottom copy upright', async () => {
+      await service.generateSingleNameTagPDF(mockProfile, mockTemplate, { tentCard: true, renderMode: 'raster' });
+
+      const doc = mockPDFDocument.mock.results[0].value;
+      const [top, bottom] = doc.image.mock.calls.map((call: any[]) => call.slice(1, 4));
+      expect(doc.image).toHaveBeenCalledTimes(2);
+      expect(top[2]).toEqual(expect.objectContaining({ fit: [300, 200] }));
+      expect(bottom[1]).toBe(top[1] + 200);
+      expect(doc.rotate).toHaveBeenCalledTimes(1);
+      expect(doc.rotate).toHaveBeenCalledWith(180, { origin: [top[0] + 150, top[1] + 100] });
+      expect(doc.rotate.mock.invocationCallOrder[0]).toBeLessThan(doc.image.mock.invocationCallOrder[0]);
+      expect(doc.restore.mock.invocationCallOrder[0]).toBeLessThan(doc.image.mock.invocationCallOrder[1]);
+    });
+
+    it('should draw vector tags on both halves', async () => {
+      await service.generateSingleNameTagPDF(mockProfile, mockTemplate, { tentCard: true });
+
+      const doc = mockPDFDocument.mock.results[0].value;
+      expect(doc.text.mock.calls.filter((call: any[]) => call[0] === 'Test User')).toHaveLength(2);
+    });
+
+    it('should draw fold marks in line with the fold', async () => {
+      await service.generateSingleNameTagPDF(mockProfile, mockTemplate, { tentCard: true, renderMode: 'raster' });
+
+      const doc = mockPDFDocument.mock.results[0].value;
+      const foldY = doc.image.mock.calls[1][2];
+      expect(doc.moveTo).toHaveBeenCalledTimes(2);
+      expect(doc.moveTo.mock.calls.every((call: number[]) => call[1] === foldY)).toBe(true);
+    });
+  });
+
+  describe('createMultipleNameTagsPDFStream', () => {
+    const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+    it('should return the document stream with page and tag counts', () => {
+      const profiles = Array.from({ length: 10 }, (_, i) => ({
+        ...mockProfile,
+        username: `user${i}`
+      }));
+
+      const result = service.createMultipleNameTagsPDFStream(profiles, mockTemplate);
+
+      expect(result.stream).toBe(mockPDFDocument.mock.results[0].value);
+      expect(result.nameTagCount).toBe(10);
+      expect(result.pageCount).toBe(4);
+    });
+
+    it('should write every page and end the document', async () => {
+      const profiles = Array.from({ length: 10 }, (_, i) => ({
+        ...mockProfile,
+        username: `user${i}`
+      }));
+      const onTagRendered = jest.fn();
+      const onPagesWritten = jest.fn();
+
+      const result = service.createMultipleNameTagsPDFStream(profiles, mockTemplate, { renderMode: 'raster' }, onTagRendered, onPagesWritten);
+      await flushPromises();
+
+      const doc = result.stream as any;
+      expect(doc.image).toHaveBeenCalledTimes(10);
+      expect(doc.addPage).toHaveBeenCalledTimes(3);
+      expect(doc.end).toHaveBeenCalled();
+      expect(onTagRendered).toHaveBeenLastCalledWith(10, 10);
+      expect(onPagesWritten.mock.calls).toEqual([[1], [2], [3], [4]]);
+    });
+
+    it('should destroy the stream when rendering fails', async () => {
+      mockNameTagService.prototype.generateNameTag.mockRejectedValue(new Error('Generation failed'));
+
+      const result = service.createMultipleNameTagsPDFStream([mockProfile], mockTemplate, { renderMode: 'raster' });
+      await flushPromises();
+
+      const doc = result.stream as any;
+      expect(doc.destroy).toHaveBeenCalledWith(expect.objectContaining({
+        message: 'Failed to stream multiple name tags PDF: Generation failed'
+      }));
+      expect(doc.end).not.toHaveBeenCalled();
+    });
+
+    it('should throw error for empty profiles array', () => {
+      expect(() => service.createMultipleNameTagsPDFStream([], mockTemplate)).toThrow(
+        'No profiles provided for PDF generation'
+      );
+    });
+  });
+
   describe('validatePDFOptions', () => {
     it('should validate correct PDF options', () => {
       const validOptions: PDFOptions = {
@@ -218,6 +612,39 @@ describe('PDFService', () => {
       expect(service.validatePDFOptions(excessiveMargin)).toBe(false);
     });
 
+    it('should reject invalid grids', () => {
+      expect(service.validatePDFOptions({ ...mockPDFOptions, grid: { rows: 0, columns: 2 } })).toBe(false);
+      expect(service.validatePDFOptions({ ...mockPDFOptions, grid: { rows: 5, columns: 5 } })).toBe(false);
+      expect(service.validatePDFOptions({ ...mockPDFOptions, grid: { rows: 2, columns: 3 } })).toBe(true);
+    });
+
+    it('should reject unknown label sheets', () => {
+      expect(service.validatePDFOptions({ ...mockPDFOptions, labelSheet: 'avery-0000' })).toBe(false);
+      expect(service.validatePDFOptions({ ...mockPDFOptions, labelSheet: 'herma-4412' })).toBe(true);
+    });
+
+    it('should reject invalid bleed values', () => {
+      expect(service.validatePDFOptions({ ...mockPDFOptions, bleed: -1 })).toBe(false);
+      expect(service.validatePDFOptions({ ...mockPDFOptions, bleed: 50 })).toBe(false);
+      expect(service.validatePDFOptions({ ...mockPDFOptions, bleed: 9 })).toBe(true);
+    });
+
+    it('should reject unknown render modes', () => {
+      expect(service.validatePDFOptions({ ...mockPDFOptions, renderMode: 'bitmap' as any })).toBe(false);
+      expect(service.validatePDFOptions({ ...mockPDFOptions, renderMode: 'raster' })).toBe(true);
+    });
+
+    it('should reject unknown duplex modes', () => {
+      expect(service.validatePDFOptions({ ...mockPDFOptions, duplex: 'booklet' as any })).toBe(false);
+      expect(service.validatePDFOptions({ ...mockPDFOptions, duplex: 'short-edge' })).toBe(true);
+    });
+
+    it('should reject tent cards on label sheets or duplex pages', () => {
+      expect(service.validatePDFOptions({ ...mockPDFOptions, tentCard: true })).toBe(true);
+      expect(service.validatePDFOptions({ ...mockPDFOptions, tentCard: true, duplex: 'long-edge' })).toBe(false);
+      expect(service.validatePDFOptions({ ...mockPDFOptions, tentCard: true, labelSheet: 'avery-5395' })).toBe(false);
+    });
+
     it('should reject invalid nameTagsPerPage values', () => {
       const tooFew = { ...mockPDFOptions, nameTagsPerPage: 0 };
       const tooMany = { ...mockPDFOptions, nameTagsPerPage: 25 };
@@ -225,6 +652,21 @@ describe('PDFService', () => {
       expect(service.validatePDFOptions(tooFew)).toBe(false);
       expect(service.validatePDFOptions(tooMany)).toBe(false);
     });
+
+    it('should reject numeric options that are not finite numbers', () => {
+      const invalidValues: any[] = ['10', 'abc', NaN, Infinity, null, {}];
+
+      for (const value of invalidValues) {
+        expect(service.validatePDFOptions({ ...mockPDFOptions, margin: value })).toBe(false);
+        expect(service.validatePDFOptions({ ...mockPDFOptions, nameTagsPerPage: value })).toBe(false);
+        expect(service.validatePDFOptions({ ...mockPDFOptions, gutter: value })).toBe(false);
+        expect(service.validatePDFOptions({ ...mockPDFOptions, bleed: value })).toBe(false);
+        expect(service.validatePDFOptions({ ...mockPDFOptions, grid: { rows: value, columns: 2 } })).toBe(false);
+      }
+      expect(service.validatePDFOptions({ ...mockPDFOptions, nameTagsPerPage: 2.5 })).toBe(false);
+      expect(service.validatePDFOptions({ ...mockPDFOptions, cropMarks: 'yes' as any })).toBe(false);
+      expect(service.validatePDFOptions({ ...mockPDFOptions, grid: 'big' as any })).toBe(false);
+    });
   });
 
   describe('error handling', () => {
@@ -251,7 +693,7 @@ describe('PDFService', () => {
     it('should handle name tag generation errors', async () => {
       mockNameTagService.prototype.generateNameTag.mockRejectedValue(new Error('Name tag generation failed'));
       
-      await expect(service.generateSingleNameTagPDF(mockProfile, mockTemplate)).rejects.toThrow(
+      await expect(service.generateSingleNameTagPDF(mockProfile, mockTemplate, { renderMode: 'raster' })).rejects.toThrow(
         'Failed to generate single name tag PDF'
       );
     });
@@ -0,0 +1,131 @@
+import { PrintQueueService } from '../PrintQueueService';
+import { XProfile } from '../../types';
+
+// Mock Chrome storage API, backed by a plain object
+const storage: Record<string, any> = {};
+const mockChromeStorage = {
+  local: {
+    get: jest.fn(async (key: string) => ({ [key]: storage[key] })),
+    set: jest.fn(async (items: Record<string, any>) => {
+      Object.assign(storage, JSON.parse(JSON.stringify(items)));
+    })
+  },
+  onChanged: {
+    addListener: jest.fn()
+  }
+};
+
+describe('PrintQueueService', () => {
+  const STORAGE_KEY = 'x-profile-name-tag-generator-print-queue';
+  let service: PrintQueueService;
+
+  const profile = (username: string): XProfile => ({
+    username,
+    displayName: username.toUpperCase(),
+    avatarUrl: `https://pbs.twimg.com/profile_images/${username}.jpg`,
+    profileUrl: `https://x.com/${username}`,
+    verified: false,
+    followerCount: '10',
+    followingCount: '20',
+    extractedAt: new Date('2024-05-01T09:00:00Z')
+  });
+
+  const usernames = async () => (await service.getEntries()).map(entry => entry.profile.username);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete storage[STORAGE_KEY];
+    (global as any).chrome = { storage: mockChromeStorage };
+
+    service = new PrintQueueService();
+  });
+
+  afterEach(() => {
+    (global as any).chrome = undefined;
+  });
+
+  describe('add', () => {
+    it('should queue profiles in the order they were added', async () => {
+      await service.add(profile('alice'), 'default');
+      await service.add(profile('bob'), 'minimal');
+
+      const entries = await service.getEntries();
+
+      expect(entries.map(entry => [entry.profile.username, entry.templateId])).toEqual([['alice', 'default'], ['bob', 'minimal']]);
+      expect(entries[0].profile.extractedAt).toEqual(new Date('2024-05-01T09:00:00Z'));
+      expect(mockChromeStorage.local.set).toHaveBeenCalledWith({ [STORAGE_KEY]: expect.any(Array) });
+    });
+
+    it('should update a profile that is already queued', async () => {
+      const first = await service.add(profile('alice'), 'default');
+      await service.add(profile('bob'), 'default');
+
+      const updated = await service.add({ ...profile('Alice'), displayName: 'Alice Smith' }, 'colorful');
+
+      expect(updated.id).toBe(first.id);
+      expect(await usernames()).toEqual(['Alice', 'bob']);
+      expect((await service.getEntries())[0].templateId).toBe('colorful');
+    });
+
+    it('should refuse profiles beyond the limit', async () => {
+      storage[STORAGE_KEY] = Array.from({ length: PrintQueueService.MAX_ENTRIES }, (_, index) => ({
+        id: `entry-${index}`, profile: profile(`user${index}`), templateId: 'default', addedAt: '2024-05-01T09:00:00.000Z'
+      }));
+
+      await expect(service.add(profile('alice'), 'default')).rejects.toThrow('The print queue is full (100 profiles)');
+    });
+  });
+
+  describe('move', () => {
+    it('should reorder entries, clamped to the queue', async () => {
+      await service.add(profile('alice'), 'default');
+      await service.add(profile('bob'), 'default');
+      const carol = await service.add(profile('carol'), 'default');
+
+      await service.move(carol.id, 0);
+      expect(await usernames()).toEqual(['carol', 'alice', 'bob']);
+
+      await service.move(carol.id, 10);
+      expect(await usernames()).toEqual(['alice', 'bob', 'carol']);
+    });
+
+    it('should reject unknown entries', async () => {
+      await expect(service.move('missing', 0)).rejects.toThrow('Print queue entry not found: missing');
+    });
+  });
+
+  describe('remove and clear', () => {
+    it('should remove single entries and empty the queue', async () => {
+      const alice = await service.add(profile('alice'), 'default');
+      await service.add(profile('bob'), 'default');
+
+      await service.remove(alice.id);
+      expect(await usernames()).toEqual(['bob']);
+
+      await service.clear();
+      expect(await service.getEntries()).toEqual([]);
+    });
+  });
+
+  it('should skip stored entries that are no longer valid', async () => {
+    storage[STORAGE_KEY] = [
+      { id: 'a', profile: profile('alice'), templateId: 'default', addedAt: '2024-05-01T09:00:00.000Z' },
+      { id: 'b', profile: { username: 'broken' }, templateId: 'default' },
+      'garbage'
+    ];
+
+    expect(await usernames()).toEqual(['alice']);
+  });
+
+  it('should notify listeners of changes to the queue', () => {
+    const listener = jest.fn();
+    service.watch(listener);
+    const onChanged = mockChromeStorage.onChanged.addListener.mock.calls[0][0];
+
+    onChanged({ other: { newValue: [] } }, 'local');
+    onChanged({ [STORAGE_KEY]: { newValue: [{ id: 'a', profile: profile('alice'), templateId: 'default' }] } }, 'local');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0].map((entry: any) => entry.profile.username)).toEqual(['alice']);
+  });
+});
@@ -276,7 +276,26 @@ describe('SettingsService', () => {
       const result = service.validateSettings(invalidSettings);
       
       expect(result.isValid).toBe(false);
-      expect(result.errors).toContain('downloadFormat must be "pdf" or "png"');
+      expect(result.errors).toContain('downloadFormat must be "pdf", "png", "svg" or "webp"');
+    });
+
+    it('should accept image formats with a DPI and transparency', () => {
+      const result = service.validateSettings({ ...mockSettings, downloadFormat: 'webp', exportDpi: 600, transparentBackground: true });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject an out-of-range exportDpi', () => {
+      const result = service.validateSettings({ ...mockSettings, exportDpi: 1200 });
+
+      expect(result.errors).toContain('exportDpi must be a whole number from 72 to 600');
+    });
+
+    it('should reject a file name pattern with unknown placeholders', () => {
+      const result = service.validateSettings({ ...mockSettings, fileNamePattern: '{event}-{handle}', eventName: 'TechConf' });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual(['unknown placeholder {handle} in file name pattern']);
     });
 
     it('should reject invalid pdfQuality', () => {
@@ -323,6 +342,15 @@ describe('SettingsService', () => {
       expect(result.isValid).toBe(false);
       expect(result.errors).toContain('maxRecentProfiles must be a number between 1 and 50');
     });
+
+    it('should accept known label sheets and reject unknown ones', () => {
+      expect(service.validateSettings({ ...mockSettings, labelSheet: 'avery-5395' }).isValid).toBe(true);
+
+      const result = service.validateSettings({ ...mockSettings, labelSheet: 'avery-0000' });
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Unknown label sheet: avery-0000');
+    });
   });
 
   describe('migrateSettings', () => {
@@ -352,6 +380,14 @@ describe('SettingsService', () => {
       expect(migrated.recentProfiles).toEqual(['https://x.com/valid', 'https://x.com/another']);
     });
 
+    it('should keep known label sheets during migration', async () => {
+      const known = await service.migrateSettings({ labelSheet: 'herma-4412' });
+      const unknown = await service.migrateSettings({ labelSheet: 'herma-0000' });
+
+      expect(known.labelSheet).toBe('herma-4412');
+      expect(unknown.labelSheet).toBeUndefined();
+    });
+
     it('should limit migrated recent profiles to max count', async () => {
       const oldSettings = {
         recentProfiles: Array.from({ length: 15 }, (_, i) => `https://x.com/user${i}`),
@@ -385,6 +421,31 @@ describe('SettingsService', () => {
       );
     });
 
+    it('should keep download and export settings through an export and import', async () => {
+      const settings: AppSettings = {
+        ...mockSettings,
+        downloadFolder: 'Name Tags',
+        downloadFormat: 'webp',
+        exportDpi: 600,
+        transparentBackground: true,
+        fileNamePattern: '{event}-{username}',
+        eventName: 'JSConf',
+        labelSheet: 'herma-4412'
+      };
+      mockLocalStorage.getItem.mockReturnValue(JSON.stringify(settings));
+
+      await service.importSettings(await service.exportSettings());
+
+      expect(JSON.parse(mockLocalStorage.setItem.mock.calls[0][1])).toEqual(settings);
+    });
+
+    it('should drop export resolutions and backgrounds that are out of range during migration', async () => {
+      const migrated = await service.migrateSettings({ exportDpi: 1200, transparentBackground: 'yes' });
+
+      expect(migrated.exportDpi).toBeUndefined();
+      expect(migrated.transparentBackground).toBeUndefined();
+    });
+
     it('should handle invalid JSON during import', async () => {
       const invalidJson = 'invalid json';
       
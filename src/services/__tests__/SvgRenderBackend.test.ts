@@ -0,0 +1,200 @@
+import { SvgRenderBackend } from '../SvgRenderBackend';
+import { NameTagRenderer } from '../NameTagRenderer';
+import { getDefaultTemplate } from '../../utils/templates';
+import { sanitizeText } from '../../utils/text';
+import { measureStandardFontText } from '../../utils/fontMetrics';
+import { NameTagTemplate, XProfile } from '../../types';
+
+const ELEMENTS = ['svg', 'g', 'rect', 'ellipse', 'line', 'text', 'clipPath', 'image'];
+
+// Fragments hostile display names are built from: markup, entities, control characters,
+// broken surrogates, bidi overrides, joiners and placeholders
+const FRAGMENTS = [
+  '<', '>', '&', '"', "'", '&amp;', '&#x3C;', '&lt', ']]>', '<![CDATA[', '<!--', '-->', '<script>', '</text>',
+  '"/><image href="x"/>', '<!DOCTYPE x [<!ENTITY e SYSTEM "file:///etc/passwd">]>&e;',
+  '\u0000', '\u0007', '\u001b[31m', '\u007f', '\u0085', '\n', '\r', '\t', ' ',
+  '\uD800', '\uDC00', '\uFFFE', '\uFFFF', '\u202E', '\u2066', '\u200D', '\uFEFF',
+  '👩‍💻', '🇯🇵', '👋🏽', 'é', 'محمد', 'דוד', '山田', 'Ada', ' ', '{username}', '{bio}', '$&', '$1', '${x}'
+];
+
+/**
+ * Seeded pseudo-random generator (mulberry32), so failures can be reproduced
+ */
+function createRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const unescape = (text: string) => text
+  .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+/**
+ * Check the markup is well-formed XML made of the elements the backend writes: balanced
+ * tags, quoted attributes, only predefined entities and no characters XML forbids.
+ * Returns the content of each <text> element.
+ */
+function parseSvg(svg: string): string[] {
+  expect(svg).not.toMatch(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]|[\uD800-\uDFFF]/u);
+
+  const token = /<(\/?)([\w:-]+)((?:\s+[\w:-]+="[^"<]*")*)\s*(\/?)>|([^<]+)/y;
+  const open: string[] = [];
+  const texts: string[] = [];
+
+  while (token.lastIndex < svg.length) {
+    const match = token.exec(svg);
+    if (!match) {
+      throw new Error(`Malformed markup: ${svg.slice(token.lastIndex, token.lastIndex + 40)}`);
+    }
+
+    const [, closing, name, attributes, selfClosing, content] = match;
+    expect(content ?? attributes).not.toMatch(/&(?!(amp|lt|gt|quot|apos);)/);
+
+    if (content !== undefined) {
+      if (open[open.length - 1] === 'text') {
+        texts[texts.length - 1] += unescape(content);
+      }
+    } else if (closing) {
+      expect(open.pop()).toBe(name);
+    } else {
+      expect(ELEMENTS).toContain(name);
+      if (name === 'text') {
+        texts.push('');
+      }
+      if (!selfClosing) {
+        open.push(name);
+      }
+    }
+  }
+
+  expect(open).toEqual([]);
+  return texts;
+}
+
+describe('SvgRenderBackend', () => {
+  const renderer = new NameTagRenderer();
+  const template = getDefaultTemplate();
+  const profile: XProfile = {
+    username: 'testuser',
+    displayName: 'Test User',
+    avatarUrl: '',
+    profileUrl: 'https://x.com/testuser',
+    verified: false,
+    followerCount: '0',
+    followingCount: '0',
+    extractedAt: new Date('2023-01-01')
+  };
+
+  const render = async (tagProfile: XProfile): Promise<string> => {
+    const backend = new SvgRenderBackend(template.dimensions.width, template.dimensions.height, async () => null,
+      (text, style) => measureStandardFontText(text, style.fontFamily, style.fontWeight, style.fontSize));
+    await renderer.render(backend, tagProfile, template);
+    return backend.toString();
+  };
+
+  /**
+   * The shown text must be the sanitized text, or a prefix of it with an ellipsis
+   */
+  const expectTextShown = (shown: string, text: string) => {
+    const sanitized = sanitizeText(text);
+    if (shown !== sanitized) {
+      expect(shown.endsWith('…')).toBe(true);
+      expect(sanitized.startsWith(shown.slice(0, -1))).toBe(true);
+    }
+  };
+
+  describe('hostile display names', () => {
+    it.each(FRAGMENTS.map(fragment => [JSON.stringify(fragment), fragment]))(
+      'should write well-formed markup for %s', async (_name, fragment) => {
+        const displayName = `Ada ${fragment} Lovelace`;
+        const [shownName, shownUsername] = parseSvg(await render({ ...profile, displayName, username: fragment }));
+
+        expectTextShown(shownName, displayName);
+        expectTextShown(shownUsername, `@${fragment}`);
+      }
+    );
+
+    it('should write well-formed markup for random combinations', async () => {
+      const random = createRandom(20231101);
+
+      for (let run = 0; run < 200; run++) {
+        const length = 1 + Math.floor(random() * 24);
+        const displayName = Array.from({ length }, () => FRAGMENTS[Math.floor(random() * FRAGMENTS.length)]).join('');
+        const svg = await render({ ...profile, displayName });
+
+        const texts = parseSvg(svg);
+        expect(texts).toHaveLength(2);
+        expectTextShown(texts[0], displayName);
+      }
+    });
+  });
+
+  describe('hostile template values', () => {
+    // Templates come from uploaded JSON, so "numbers" may be any string at runtime
+    const renderTemplate = async (fragment: any): Promise<string> => {
+      const hostile: NameTagTemplate = {
+        ...template,
+        elements: [
+          {
+            type: 'shape', shape: 'rect', x: 0, y: 0, width: 100, height: 50,
+            fill: fragment, stroke: fragment, strokeWidth: fragment, cornerRadius: fragment, rotation: fragment
+          },
+          { type: 'shape', shape: 'ellipse', x: fragment, y: 10, width: fragment, height: 20, strokeWidth: fragment },
+          { type: 'divider', x: 0, y: 60, width: 200, height: 4, color: fragment, thickness: fragment },
+          { type: 'text', x: 10, y: 80, width: 200, height: 30, text: '{displayName}', fontSize: 16, color: fragment, fontWeight: fragment }
+        ]
+      };
+      const backend = new SvgRenderBackend(template.dimensions.width, template.dimensions.height, async () => null,
+        (text, style) => measureStandardFontText(text, style.fontFamily, 'normal', style.fontSize));
+      await renderer.render(backend, profile, hostile);
+      return backend.toString();
+    };
+
+    const NUMERIC_FRAGMENTS = [
+      '1"/><script>alert(1)</script><rect x="0', '" onload="alert(1)', '10', 'abc', NaN, Infinity, null, {}, ['1', '2']
+    ];
+
+    it.each([...NUMERIC_FRAGMENTS, ...FRAGMENTS].map(fragment => [JSON.stringify(fragment) ?? String(fragment), fragment]))(
+      'should write well-formed markup for %s in numeric and style fields', async (_name, fragment) => {
+        const svg = await renderTemplate(fragment);
+
+        expect(parseSvg(svg)).toEqual(['Test User']);
+        expect(svg).not.toContain('<script');
+        // Every numeric attribute holds a number
+        for (const [, name, value] of svg.matchAll(/ (x|y|x1|y1|x2|y2|cx|cy|rx|ry|width|height|stroke-width|font-size)="([^"]*)"/g)) {
+          expect(`${name}=${value}`).toMatch(/=-?\d+(\.\d+)?(e[-+]?\d+)?$/);
+        }
+      }
+    );
+  });
+
+  describe('text outlines', () => {
+    const style = { fontFamily: 'Inter', fontSize: 10, fontWeight: 'normal' as const, color: '#123456', align: 'left' as const, direction: 'ltr' as const };
+    const createBackend = () => new SvgRenderBackend(100, 50, async () => null, () => 40,
+      text => text.includes('😀') ? null : { path: 'M0 0L40 -7', width: 40 });
+
+    it('should draw outlined text as a path placed by its alignment', () => {
+      const backend = createBackend();
+      backend.drawText('Ada', 10, 20, style);
+      backend.drawText('Ada', 50, 30, { ...style, align: 'center' });
+      backend.drawText('Ada', 90, 40, { ...style, align: 'right' });
+
+      expect(backend.toString()).toBe('<svg width="100" height="50" xmlns="http://www.w3.org/2000/svg">' +
+        '<path transform="translate(10 20)" d="M0 0L40 -7" fill="#123456"/>' +
+        '<path transform="translate(30 30)" d="M0 0L40 -7" fill="#123456"/>' +
+        '<path transform="translate(50 40)" d="M0 0L40 -7" fill="#123456"/></svg>');
+    });
+
+    it('should leave right-to-left text and text the outliner skips to the SVG renderer', () => {
+      const backend = createBackend();
+      backend.drawText('Ada 😀', 10, 20, style);
+      backend.drawText('דוד', 10, 20, { ...style, direction: 'rtl' });
+
+      expect(backend.toString()).not.toContain('<path');
+      expect(backend.toString().match(/<text /g)).toHaveLength(2);
+    });
+  });
+});
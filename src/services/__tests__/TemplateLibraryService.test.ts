@@ -0,0 +1,121 @@
+import { TemplateLibraryService } from '../TemplateLibraryService';
+import { NameTagTemplate } from '../../types';
+import { getDefaultTemplate } from '../../utils/templates';
+
+// Mock Chrome storage API, backed by a plain object
+const storage: Record<string, any> = {};
+const mockChromeStorage = {
+  local: {
+    get: jest.fn(async (key: string) => ({ [key]: storage[key] })),
+    set: jest.fn(async (items: Record<string, any>) => {
+      Object.assign(storage, JSON.parse(JSON.stringify(items)));
+    })
+  }
+};
+
+describe('TemplateLibraryService', () => {
+  const STORAGE_KEY = 'x-profile-name-tag-generator-templates';
+  let service: TemplateLibraryService;
+  let conference: NameTagTemplate;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete storage[STORAGE_KEY];
+    (global as any).chrome = { storage: mockChromeStorage };
+
+    service = new TemplateLibraryService();
+    conference = { ...getDefaultTemplate(), id: 'conference', name: 'Conference' };
+  });
+
+  afterEach(() => {
+    (global as any).chrome = undefined;
+  });
+
+  describe('getAllTemplates', () => {
+    it('should list the built-in templates before the custom ones', async () => {
+      await service.saveTemplate(conference);
+
+      const templates = await service.getAllTemplates();
+
+      expect(templates.map(template => template.id)).toEqual(['default', 'minimal', 'colorful', 'conference']);
+      expect(mockChromeStorage.local.get).toHaveBeenCalledWith(STORAGE_KEY);
+    });
+
+    it('should skip stored templates that are no longer valid', async () => {
+      storage[STORAGE_KEY] = [conference, { id: 'broken', name: 'Broken' }];
+
+      expect((await service.getCustomTemplates()).map(template => template.id)).toEqual(['conference']);
+    });
+  });
+
+  describe('saveTemplate', () => {
+    it('should replace a template with the same id', async () => {
+      await service.saveTemplate(conference);
+      await service.saveTemplate({ ...conference, styles: { ...conference.styles, accentColor: '#ff0000' } });
+
+      const templates = await service.getCustomTemplates();
+      expect(templates).toHaveLength(1);
+      expect(templates[0].styles.accentColor).toBe('#ff0000');
+    });
+
+    it('should not change built-in templates', async () => {
+      await expect(service.saveTemplate({ ...conference, id: 'minimal' })).rejects.toThrow("Built-in template minimal can't be changed");
+    });
+
+    it('should reject invalid templates field by field', async () => {
+      await expect(service.saveTemplate({ ...conference, name: '', dimensions: { width: 0, height: 100 } }))
+        .rejects.toThrow('Invalid template: name must be a non-empty string, dimensions.width must be a positive number');
+    });
+  });
+
+  describe('createTemplate / duplicateTemplate', () => {
+    it('should save a copy of a built-in template under a new id', async () => {
+      const created = await service.createTemplate(getDefaultTemplate(), 'Meetup');
+
+      expect(created.id).toMatch(/^custom-/);
+      expect(created.name).toBe('Meetup');
+      expect(await service.getTemplate(created.id)).toEqual(created);
+    });
+
+    it('should duplicate a template with a new name', async () => {
+      await service.saveTemplate(conference);
+
+      const duplicate = await service.duplicateTemplate('conference');
+
+      expect(duplicate.id).not.toBe('conference');
+      expect(duplicate.name).toBe('Conference (copy)');
+      expect(await service.getCustomTemplates()).toHaveLength(2);
+    });
+  });
+
+  describe('renameTemplate', () => {
+    it('should rename a custom template', async () => {
+      await service.saveTemplate(conference);
+
+      await service.renameTemplate('conference', '  Conference 2024 ');
+
+      expect((await service.getTemplate('conference'))?.name).toBe('Conference 2024');
+    });
+
+    it('should reject empty names and built-in templates', async () => {
+      await service.saveTemplate(conference);
+
+      await expect(service.renameTemplate('conference', ' ')).rejects.toThrow('Template name must not be empty');
+      await expect(service.renameTemplate('default', 'Mine')).rejects.toThrow("Built-in template default can't be changed");
+    });
+  });
+
+  describe('deleteTemplate', () => {
+    it('should delete a custom template', async () => {
+      await service.saveTemplate(conference);
+
+      await service.deleteTemplate('conference');
+
+      expect(await service.getTemplate('conference')).toBeNull();
+    });
+
+    it('should reject unknown templates', async () => {
+      await expect(service.deleteTemplate('missing')).rejects.toThrow('Template not found: missing');
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as fontkit from 'fontkit';
+import { TemplateStore } from '../TemplateStore';
+import { FontRegistry } from '../FontRegistry';
+import { TemplatePackageError } from '../../utils/templatePackage';
+import { getDefaultTemplate } from '../../utils/templates';
+
+jest.mock('fontkit', () => ({ ...jest.requireActual('fontkit'), openSync: jest.fn() }));
+
+describe('TemplateStore', () => {
+  const FONT = new Uint8Array([0, 1, 0, 0]);
+  const template = { ...getDefaultTemplate(), id: 'conference', name: 'Conference' };
+
+  let directory: string;
+  let fonts: FontRegistry;
+  let store: TemplateStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'templates-'));
+    fonts = new FontRegistry();
+    store = new TemplateStore(directory, fonts);
+    await store.initialize();
+
+    (fontkit.openSync as jest.Mock).mockReturnValue({ familyName: 'Noto Sans JP', 'OS/2': { usWeightClass: 700 } });
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should store templates and register their fonts', async () => {
+    const saved = await store.save({
+      template,
+      fonts: [{ family: 'Noto Sans JP', weight: 'bold', format: 'truetype', fileName: 'NotoSansJP-Bold.ttf', data: FONT }]
+    });
+
+    expect(saved.fonts).toEqual([{ family: 'Noto Sans JP', weight: 'bold', format: 'truetype' }]);
+    expect(store.get('conference')).toEqual(template);
+    expect(fonts.list()).toHaveLength(1);
+    await expect(fs.readFile(path.join(directory, 'fonts', 'conference', 'NotoSansJP-Bold.ttf'))).resolves.toEqual(Buffer.from(FONT));
+  });
+
+  it('should load stored templates and fonts after a restart', async () => {
+    await store.save({
+      template,
+      fonts: [{ family: 'Noto Sans JP', weight: 'bold', format: 'truetype', fileName: 'NotoSansJP-Bold.ttf', data: FONT }]
+    });
+
+    const restartedFonts = new FontRegistry();
+    const restarted = new TemplateStore(directory, restartedFonts);
+    await restarted.initialize();
+
+    expect(restarted.list()).toEqual([template]);
+    expect(restartedFonts.list()).toEqual([{ family: 'Noto Sans JP', weight: 'bold', format: 'truetype' }]);
+  });
+
+  it('should register fonts under the family and weight the package names, also after a restart', async () => {
+    const saved = await store.save({
+      template,
+      fonts: [{ family: 'Conference Sans', weight: 'normal', format: 'truetype', fileName: 'NotoSansJP-Bold.ttf', data: FONT }]
+    });
+
+    const restartedFonts = new FontRegistry();
+    await new TemplateStore(directory, restartedFonts).initialize();
+
+    expect(saved.fonts).toEqual([{ family: 'Conference Sans', weight: 'normal', format: 'truetype' }]);
+    expect(fonts.list()).toEqual(saved.fonts);
+    expect(restartedFonts.list()).toEqual(saved.fonts);
+  });
+
+  it('should reject font file names that are not safe or repeat', async () => {
+    const font = { family: 'Noto Sans JP', weight: 'bold' as const, format: 'truetype' as const, data: FONT };
+
+    await expect(store.save({
+      template,
+      fonts: [{ ...font, fileName: '..' }, { ...font, fileName: 'Logo.ttf' }, { ...font, fileName: 'fonts/Logo.ttf' }]
+    })).rejects.toMatchObject({
+      errors: [
+        { field: 'fonts[0].file', message: 'must be a .ttf, .otf or .woff2 file name' },
+        { field: 'fonts[2].file', message: 'must not repeat another font\'s file name' }
+      ]
+    });
+    await expect(fs.readdir(directory)).resolves.toEqual(['fonts']);
+  });
+
+  it('should not replace built-in templates', async () => {
+    await expect(store.save({ template: { ...template, id: 'default' }, fonts: [] })).rejects.toThrow(TemplatePackageError);
+  });
+
+  it('should reject ids that are not safe file names', async () => {
+    await expect(store.save({ template: { ...template, id: '../conference' }, fonts: [] }))
+      .rejects.toThrow('template.id must be 1–64 letters, digits, "-" or "_"');
+  });
+
+  it('should reject fonts the registry cannot read', async () => {
+    (fontkit.openSync as jest.Mock).mockImplementation(() => {
+      throw new Error('Unknown font format');
+    });
+
+    await expect(store.save({
+      template,
+      fonts: [{ family: 'Broken', weight: 'normal', format: 'truetype', fileName: 'Broken.ttf', data: FONT }]
+    })).rejects.toThrow('fonts[0].file could not be read as a font');
+    expect(store.get('conference')).toBeNull();
+    expect(fonts.list()).toEqual([]);
+    await expect(fs.readdir(path.join(directory, 'fonts'))).resolves.toEqual([]);
+    await expect(fs.readdir(directory)).resolves.toEqual(['fonts']);
+  });
+
+  it('should keep each template\'s fonts apart when file names are the same', async () => {
+    const font = { family: 'Noto Sans JP', weight: 'bold' as const, format: 'truetype' as const, fileName: 'Logo.ttf' };
+    await store.save({ template, fonts: [{ ...font, data: FONT }] });
+    await store.save({ template: { ...template, id: 'meetup' }, fonts: [{ ...font, data: new Uint8Array([1, 2, 3]) }] });
+
+    await expect(fs.readFile(path.join(directory, 'fonts', 'conference', 'Logo.ttf'))).resolves.toEqual(Buffer.from(FONT));
+    await expect(fs.readFile(path.join(directory, 'fonts', 'meetup', 'Logo.ttf'))).resolves.toEqual(Buffer.from([1, 2, 3]));
+    expect(fonts.list()).toHaveLength(2);
+  });
+
+  it('should replace a template\'s fonts when it is saved again', async () => {
+    await store.save({
+      template,
+      fonts: [{ family: 'Noto Sans JP', weight: 'bold', format: 'truetype', fileName: 'Old.ttf', data: FONT }]
+    });
+    await store.save({
+      template: { ...template, name: 'Conference 2025' },
+      fonts: [{ family: 'Noto Sans JP', weight: 'bold', format: 'truetype', fileName: 'New.ttf', data: FONT }]
+    });
+
+    expect((await fs.readdir(path.join(directory, 'fonts', 'conference'))).sort()).toEqual(['New.ttf', 'fonts.json']);
+    expect(fonts.list()).toHaveLength(1);
+    expect(store.get('conference')?.name).toBe('Conference 2025');
+  });
+
+  it('should keep the stored template and fonts when a replacement has a broken font', async () => {
+    await store.save({
+      template,
+      fonts: [{ family: 'Noto Sans JP', weight: 'bold', format: 'truetype', fileName: 'NotoSansJP-Bold.ttf', data: FONT }]
+    });
+    (fontkit.openSync as jest.Mock).mockImplementation((file: string) => {
+      if (file.endsWith('Broken.ttf')) {
+        throw new Error('Unknown font format');
+      }
+      return { familyName: 'Noto Sans JP', 'OS/2': { usWeightClass: 700 } };
+    });
+
+    await expect(store.save({
+      template: { ...template, name: 'Conference 2025' },
+      fonts: [
+        { family: 'Noto Sans JP', weight: 'bold', format: 'truetype', fileName: 'Other.ttf', data: FONT },
+        { family: 'Broken', weight: 'normal', format: 'truetype', fileName: 'Broken.ttf', data: FONT }
+      ]
+    })).rejects.toThrow('fonts[1].file could not be read as a font');
+
+    expect(store.get('conference')).toEqual(template);
+    expect(fonts.list()).toHaveLength(1);
+    expect((await fs.readdir(path.join(directory, 'fonts', 'conference'))).sort()).toEqual(['NotoSansJP-Bold.ttf', 'fonts.json']);
+    expect(JSON.parse(await fs.readFile(path.join(directory, 'conference.json'), 'utf8')).name).toBe('Conference');
+    expect((await fs.readdir(directory)).sort()).toEqual(['conference.json', 'fonts']);
+  });
+
+  it('should remove staging directories left by an interrupted save', async () => {
+    await fs.mkdir(path.join(directory, '.staging-interrupted', 'fonts'), { recursive: true });
+
+    await new TemplateStore(directory, new FontRegistry()).initialize();
+
+    await expect(fs.readdir(directory)).resolves.toEqual(['fonts']);
+  });
+});
@@ -0,0 +1,304 @@
+import PDFDocument from 'pdfkit';
+import { VectorNameTagRenderer } from '../VectorNameTagRenderer';
+import * as fontkit from 'fontkit';
+import { NameTagService } from '../NameTagService';
+import { FontRegistry } from '../FontRegistry';
+import { XProfile } from '../../types';
+
+// Only needed to convert unusual avatar formats
+jest.mock('sharp', () => jest.fn());
+jest.mock('fontkit', () => ({ ...jest.requireActual('fontkit'), openSync: jest.fn() }));
+
+// 1×1 transparent PNG
+const AVATAR_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+  'base64'
+);
+
+describe('VectorNameTagRenderer', () => {
+  const nameTagService = new NameTagService();
+  const template = nameTagService.getDefaultTemplate();
+  const profile: XProfile = {
+    username: 'testuser',
+    displayName: 'Test User',
+    avatarUrl: 'https://pbs.twimg.com/profile_images/1/avatar.png',
+    profileUrl: 'https://x.com/testuser',
+    verified: false,
+    followerCount: '100',
+    followingCount: '50',
+    extractedAt: new Date()
+  };
+
+  const renderToString = async (renderer: VectorNameTagRenderer, tagProfile: XProfile = profile): Promise<string> => {
+    const doc = new PDFDocument({ size: 'A4', compress: false });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    const finished = new Promise(resolve => doc.on('end', resolve));
+
+    const tag = await renderer.prepare(tagProfile, template);
+    renderer.draw(doc, tag, 50, 50, 300, 200);
+    doc.end();
+    await finished;
+
+    return Buffer.concat(chunks).toString('latin1');
+  };
+
+  /**
+   * Registry of stand-in font files; each covers the characters its pattern matches
+   */
+  const createFonts = (...fonts: { file: string; family: string; bold?: boolean; covers?: RegExp }[]): FontRegistry => {
+    (fontkit.openSync as jest.Mock).mockImplementation((file: string) => {
+      const { family, bold, covers = /./u } = fonts.find(font => font.file === file)!;
+      return {
+        familyName: family,
+        'OS/2': { usWeightClass: bold ? 700 : 400 },
+        unitsPerEm: 1000,
+        hasGlyphForCodePoint: (codePoint: number) => covers.test(String.fromCodePoint(codePoint)),
+        layout: (text: string) => ({ advanceWidth: Array.from(text).length * 500 })
+      };
+    });
+
+    const registry = new FontRegistry();
+    fonts.forEach(font => registry.register(font.file));
+    return registry;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(nameTagService, 'fetchAvatarImage').mockResolvedValue(AVATAR_PNG);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('canRender', () => {
+    it('should accept Western names with the standard fonts', () => {
+      const renderer = new VectorNameTagRenderer(nameTagService, new FontRegistry());
+
+      expect(renderer.canRender({ ...profile, displayName: 'Zoë “Ops” Müller' })).toBe(true);
+    });
+
+    it('should reject characters the standard fonts cannot encode', () => {
+      const renderer = new VectorNameTagRenderer(nameTagService, new FontRegistry());
+
+      expect(renderer.canRender({ ...profile, displayName: '山田太郎' })).toBe(false);
+    });
+
+    it('should accept any text when a font is embedded', () => {
+      const renderer = new VectorNameTagRenderer(nameTagService, createFonts({ file: '/fonts/NotoSansJP-Regular.otf', family: 'Noto Sans JP' }));
+
+      expect(renderer.canRender({ ...profile, displayName: '山田太郎' })).toBe(true);
+    });
+
+    it('should accept text that the registered fonts and standard fonts cover between them', () => {
+      const renderer = new VectorNameTagRenderer(nameTagService, createFonts({
+        file: '/fonts/NotoSansKR-Regular.otf',
+        family: 'Noto Sans KR',
+        covers: /\p{Script=Hangul}/u
+      }));
+
+      expect(renderer.canRender({ ...profile, displayName: 'Kim 김민준' })).toBe(true);
+      expect(renderer.canRender({ ...profile, displayName: 'Kim 山田' })).toBe(false);
+    });
+
+    it('should leave right-to-left text and emoji to the raster path', () => {
+      const renderer = new VectorNameTagRenderer(nameTagService, createFonts({ file: '/fonts/NotoSans-Regular.ttf', family: 'Noto Sans' }));
+
+      expect(renderer.canRender({ ...profile, displayName: 'דוד לוי' })).toBe(false);
+      expect(renderer.canRender({ ...profile, displayName: 'Ada 👩‍💻' })).toBe(false);
+    });
+
+    it('should not treat the bio as front-side text', () => {
+      const renderer = new VectorNameTagRenderer(nameTagService, new FontRegistry());
+
+      expect(renderer.canRender({ ...profile, bio: '東京から' })).toBe(true);
+    });
+
+    it('should check the text of every text element in the template', () => {
+      const renderer = new VectorNameTagRenderer(nameTagService, new FontRegistry());
+      const elementTemplate = {
+        ...template,
+        elements: [{ type: 'text' as const, text: '{bio}', x: 0, y: 0, width: 100, height: 20, fontSize: 10, color: '#000' }]
+      };
+
+      expect(renderer.canRender({ ...profile, bio: 'Zoë' }, elementTemplate)).toBe(true);
+      expect(renderer.canRender({ ...profile, bio: '東京から' }, elementTemplate)).toBe(false);
+    });
+  });
+
+  describe('prepare', () => {
+    it('should encode the profile URL as a QR matrix and fetch the avatar', async () => {
+      const renderer = new VectorNameTagRenderer(nameTagService, new FontRegistry());
+
+      const tag = await renderer.prepare(profile, template);
+
+      expect(tag.qrModules.size).toBeGreaterThanOrEqual(21);
+      expect(tag.qrModules.isDark(0, 0)).toBe(true); // Finder pattern corner
+      expect(tag.avatar).toBe(AVATAR_PNG);
+      expect(nameTagService.fetchAvatarImage).toHaveBeenCalledWith(profile.avatarUrl);
+    });
+
+    it('should continue without an avatar when it cannot be fetched', async () => {
+      (nameTagService.fetchAvatarImage as jest.Mock).mockResolvedValue(null);
+      const renderer = new VectorNameTagRenderer(nameTagService, new FontRegistry());
+
+      const tag = await renderer.prepare(profile, template);
+
+      expect(tag.avatar).toBeNull();
+    });
+
+    it('should not fetch the avatar when no element shows it', async () => {
+      const renderer = new VectorNameTagRenderer(nameTagService, new FontRegistry());
+
+      const tag = await renderer.prepare(profile, {
+        ...template,
+        elements: [{ type: 'qrcode', x: 0, y: 0, width: 80, height: 80 }]
+      });
+
+      expect(tag.avatar).toBeNull();
+      expect(nameTagService.fetchAvatarImage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('draw', () => {
+    it('should write text, QR modules and a clipped avatar as PDF vector content', async () => {
+      const pdf = await renderToString(new VectorNameTagRenderer(nameTagService, new FontRegistry()));
+
+      expect(pdf).toContain('/BaseFont /Helvetica-Bold');
+      expect(pdf).toContain('/BaseFont /Helvetica');
+      expect(pdf).toMatch(/\] TJ/); // Text shown as text, not an image
+      expect(pdf).toMatch(/ re\n/); // QR modules as rectangles
+      expect(pdf).toContain('W n'); // Clipping path for the avatar
+      expect(pdf).toContain('/Subtype /Image'); // The avatar; without it there are no images at all
+    });
+
+    it('should skip the avatar when there is none', async () => {
+      (nameTagService.fetchAvatarImage as jest.Mock).mockResolvedValue(null);
+
+      const pdf = await renderToString(new VectorNameTagRenderer(nameTagService, new FontRegistry()));
+
+      expect(pdf).not.toContain('/Subtype /Image');
+    });
+
+    it('should scale the tag to fit the slot', () => {
+      const renderer = new VectorNameTagRenderer(nameTagService, new FontRegistry());
+      const doc = new PDFDocument({ size: 'A4' });
+      const scale = jest.spyOn(doc, 'scale');
+      const translate = jest.spyOn(doc, 'translate');
+
+      renderer.draw(doc, {
+        profile,
+        template,
+        avatar: null,
+        qrModules: { size: 21, isDark: () => false }
+      }, 0, 0, 150, 150);
+
+      expect(scale).toHaveBeenCalledWith(0.5);
+      expect(translate).toHaveBeenCalledWith(0, 25);
+    });
+
+    it('should draw template elements in their boxes', () => {
+      const renderer = new VectorNameTagRenderer(nameTagService, new FontRegistry());
+      const doc = new PDFDocument({ size: 'A4' });
+      const text = jest.spyOn(doc, 'text');
+      const roundedRect = jest.spyOn(doc, 'roundedRect');
+      const rotate = jest.spyOn(doc, 'rotate');
+      const moveTo = jest.spyOn(doc, 'moveTo');
+
+      renderer.draw(doc, {
+        profile,
+        template: {
+          ...template,
+          elements: [
+            { type: 'shape', shape: 'rect', x: 0, y: 0, width: 300, height: 40, fill: '#1da1f2', cornerRadius: 4 },
+            { type: 'text', text: '{followerCount} followers', x: 10, y: 50, width: 280, height: 20, fontSize: 10, color: '#333333', rotation: 90 },
+            { type: 'divider', x: 10, y: 80, width: 280, height: 2, color: '#cccccc' }
+          ]
+        },
+        avatar: null,
+        qrModules: { size: 21, isDark: () => false }
+      }, 0, 0, 300, 200);
+
+      expect(roundedRect).toHaveBeenCalledWith(0, 0, 300, 40, 4);
+      expect(text).toHaveBeenCalledWith('100 followers', 10, 58, expect.objectContaining({ baseline: 'alphabetic' }));
+      expect(rotate).toHaveBeenCalledWith(90, { origin: [150, 60] });
+      expect(moveTo).toHaveBeenCalledWith(10, 81);
+    });
+
+    it('should fit long names to the space beside the QR code', () => {
+      const renderer = new VectorNameTagRenderer(nameTagService, new FontRegistry());
+      const doc = new PDFDocument({ size: 'A4' });
+      const text = jest.spyOn(doc, 'text');
+      const fontSize = jest.spyOn(doc, 'fontSize');
+
+      renderer.draw(doc, {
+        profile: { ...profile, displayName: 'Augusta Ada King, Countess of Lovelace' },
+        template,
+        avatar: null,
+        qrModules: { size: 21, isDark: () => false }
+      }, 0, 0, 300, 200);
+
+      const name = text.mock.calls[0][0] as string;
+      expect(name.endsWith('…')).toBe(true);
+      expect(fontSize).toHaveBeenLastCalledWith(12); // Username, after the name at 60%
+      expect(fontSize).toHaveBeenCalledWith(16 * 0.6);
+      expect(doc.font('Helvetica-Bold').fontSize(16 * 0.6).widthOfString(name)).toBeLessThanOrEqual(100);
+    });
+
+    it('should register embedded fonts once per document', () => {
+      const renderer = new VectorNameTagRenderer(nameTagService, createFonts(
+        { file: '/fonts/NotoSans-Regular.ttf', family: 'Noto Sans' },
+        { file: '/fonts/NotoSans-Bold.ttf', family: 'Noto Sans', bold: true }
+      ));
+      const doc = new PDFDocument({ size: 'A4' });
+      const registerFont = jest.spyOn(doc, 'registerFont').mockReturnThis();
+      const font = jest.spyOn(doc, 'font').mockReturnThis();
+      jest.spyOn(doc, 'widthOfString').mockReturnValue(50);
+      jest.spyOn(doc, 'text').mockReturnThis();
+      const tag = { profile, template, avatar: null, qrModules: { size: 21, isDark: () => false } };
+
+      renderer.draw(doc, tag, 0, 0, 300, 200);
+      renderer.draw(doc, tag, 0, 200, 300, 200);
+
+      expect(registerFont).toHaveBeenCalledTimes(2);
+      expect(registerFont).toHaveBeenCalledWith('Noto Sans-normal', '/fonts/NotoSans-Regular.ttf');
+      expect(registerFont).toHaveBeenCalledWith('Noto Sans-bold', '/fonts/NotoSans-Bold.ttf');
+      expect(font).toHaveBeenCalledWith('Noto Sans-bold');
+    });
+  });
+
+  describe('drawBack', () => {
+    it('should draw the QR code with the bio and schedule as text', () => {
+      const renderer = new VectorNameTagRenderer(nameTagService, new FontRegistry());
+      const back = { ...nameTagService.getDefaultBackSide(template), schedule: ['09:00 Keynote'] };
+      const tag = renderer.prepareBack({ ...profile, bio: 'Building things' }, { ...template, back });
+      const doc = new PDFDocument({ size: 'A4', compress: false });
+      const text = jest.spyOn(doc, 'text');
+      const rect = jest.spyOn(doc, 'rect');
+
+      renderer.drawBack(doc, tag, 0, 0, 300, 200);
+
+      expect(text).toHaveBeenCalledWith('Building things', 190, 20, expect.objectContaining({ width: 90, ellipsis: true }));
+      expect(text).toHaveBeenCalledWith('09:00 Keynote', 190, expect.any(Number), expect.any(Object));
+      expect(rect).toHaveBeenCalledWith(20, 25, 150, 150); // QR code quiet zone
+      expect(tag.avatar).toBeNull();
+    });
+
+    it('should use the default back design when the template has none', () => {
+      const renderer = new VectorNameTagRenderer(nameTagService, new FontRegistry());
+
+      const tag = renderer.prepareBack(profile, template);
+
+      expect(tag.template.back).toEqual(nameTagService.getDefaultBackSide(template));
+    });
+
+    it('should reject bios the standard fonts cannot encode', () => {
+      const renderer = new VectorNameTagRenderer(nameTagService, new FontRegistry());
+      const back = nameTagService.getDefaultBackSide(template);
+
+      expect(renderer.canRenderBack({ ...profile, bio: 'Zoë' }, back)).toBe(true);
+      expect(renderer.canRenderBack({ ...profile, bio: '東京から' }, back)).toBe(false);
+      expect(renderer.canRenderBack({ ...profile, bio: '東京から' }, { ...back, showBio: false })).toBe(true);
+    });
+  });
+});
@@ -57,6 +57,78 @@ export interface NameTagTemplate {
     borderWidth?: number;
     borderColor?: string;
   };
+  back?: NameTagBackSide; // Printed on the reverse in duplex PDFs
+  elements?: TemplateElement[]; // Replaces the fixed layout slots when present
+}
+
+/**
+ * Profile fields that text and QR code elements can show through `{field}` placeholders
+ */
+export type ProfileField = 'username' | 'displayName' | 'bio' | 'profileUrl' | 'followerCount' | 'followingCount';
+
+interface TemplateElementBase {
+  id?: string;
+  x: number; // Top-left corner of the element's box
+  y: number;
+  width: number;
+  height: number;
+  rotation?: number; // Degrees clockwise around the center of the box
+  zIndex?: number; // Higher is drawn on top; elements with the same value keep their list order
+}
+
+export interface TextElement extends TemplateElementBase {
+  type: 'text';
+  text: string; // e.g. "@{username}" or "{followerCount} followers"
+  fontSize: number;
+  fontWeight?: 'normal' | 'bold';
+  color: string;
+  align?: 'left' | 'center' | 'right'; // Left for left-to-right text and right for right-to-left text by default
+  minFontSize?: number; // Shrink text that is too wide down to this size before wrapping, no shrinking by default
+  maxLines?: number; // Then wrap to the box width, 1 by default; what still doesn't fit is ellipsized
+  maxLength?: number; // Ellipsize text longer than this many characters
+}
+
+export interface ImageElement extends TemplateElementBase {
+  type: 'image';
+  src: string; // 'avatar', or a PNG/JPEG data: URI such as an event logo
+  shape?: 'rect' | 'circle';
+}
+
+export interface ShapeElement extends TemplateElementBase {
+  type: 'shape';
+  shape: 'rect' | 'ellipse';
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+  cornerRadius?: number;
+}
+
+export interface QRCodeElement extends TemplateElementBase {
+  type: 'qrcode'; // Square, sized to the smaller side of the box
+  content?: string; // "{profileUrl}" by default
+  color?: string;
+  background?: string;
+}
+
+export interface DividerElement extends TemplateElementBase {
+  type: 'divider'; // Horizontal line across the middle of the box; rotate for vertical dividers
+  color: string;
+  thickness?: number;
+}
+
+export type TemplateElement = TextElement | ImageElement | ShapeElement | QRCodeElement | DividerElement;
+
+/**
+ * Design for the back of a double-sided badge. It shares the front's dimensions and colors.
+ */
+export interface NameTagBackSide {
+  qrCodePosition: Position;
+  qrCodeSize: number;
+  textPosition: Position; // Top-left corner of the bio and schedule block
+  textWidth: number;
+  fontSize: number;
+  showBio: boolean;
+  schedule?: string[]; // Lines such as "09:00 Keynote", listed below the bio
 }
 
 export interface Position {
@@ -72,14 +144,36 @@ export interface FontConfig {
   weight?: string;
 }
 
+export type FontFormat = 'truetype' | 'opentype' | 'woff2';
+
+/**
+ * A font file registered with the renderers, bundled with the project or uploaded in the settings
+ */
+export interface FontDescriptor {
+  family: string;
+  weight: 'normal' | 'bold';
+  format: FontFormat;
+}
+
+/**
+ * File formats a name tag can be downloaded as
+ */
+export type ExportFormat = 'pdf' | 'png' | 'svg' | 'webp';
+
 // Application Settings
 export interface AppSettings {
-  autoDownload: boolean;
-  downloadFormat: 'pdf' | 'png';
+  autoDownload: boolean; // Save without asking; otherwise every download opens a Save As dialog
+  downloadFolder?: string; // Subfolder of the Downloads folder, the Downloads folder itself when unset
+  downloadFormat: ExportFormat;
+  exportDpi?: number; // Resolution of PNG and WebP downloads, 300 when unset
+  transparentBackground?: boolean; // Leave the background out of PNG, WebP and SVG downloads
+  fileNamePattern?: string; // Download name with placeholders such as {username} and {date}
+  eventName?: string; // Fills the {event} placeholder of the file name pattern
   pdfQuality: 'low' | 'medium' | 'high';
   defaultTemplate: string;
   recentProfiles: string[];
   maxRecentProfiles: number;
+  labelSheet?: string; // Label sheet id, plain paper when unset
   fontSize?: number;
   primaryColor?: string;
   backgroundColor?: string;
@@ -95,6 +189,7 @@ export enum ErrorCode {
   GENERATION_ERROR = 'GENERATION_ERROR',
   STORAGE_ERROR = 'STORAGE_ERROR',
   PERMISSION_DENIED = 'PERMISSION_DENIED',
+  INVALID_REQUEST = 'INVALID_REQUEST',
   UNKNOWN_ERROR = 'UNKNOWN_ERROR'
 }
 
@@ -0,0 +1,43 @@
+import { mapWithConcurrency } from '../concurrency';
+
+describe('mapWithConcurrency', () => {
+  it('should preserve input order', async () => {
+    const delays = [30, 10, 20, 0];
+
+    const result = await mapWithConcurrency(delays, 2, async (delay, index) => {
+      await new Promise(resolve => setTimeout(resolve, delay));
+      return index;
+    });
+
+    expect(result).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should never run more than the limit at once', async () => {
+    let active = 0;
+    let maxActive = 0;
+
+    await mapWithConcurrency(Array.from({ length: 10 }), 3, async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+    });
+
+    expect(maxActive).toBe(3);
+  });
+
+  it('should handle empty input', async () => {
+    await expect(mapWithConcurrency([], 4, async item => item)).resolves.toEqual([]);
+  });
+
+  it('should reject when a mapper fails', async () => {
+    await expect(
+      mapWithConcurrency([1, 2, 3], 2, async item => {
+        if (item === 2) {
+          throw new Error('Mapper failed');
+        }
+        return item;
+      })
+    ).rejects.toThrow('Mapper failed');
+  });
+});
@@ -0,0 +1,52 @@
+import { getBackSideLayout } from '../duplex';
+import { calculateGridLayout } from '../layout';
+
+describe('Duplex', () => {
+  // 2×2 grid of 100×50 tags with a 10pt gutter, starting at (195, 345) on a 600×800 page
+  const portrait = { width: 600, height: 800 };
+  const landscape = { width: 800, height: 600 };
+  const layoutFor = (page: { width: number; height: number }) => calculateGridLayout({
+    pageWidth: page.width,
+    pageHeight: page.height,
+    margin: 50,
+    tagWidth: 100,
+    tagHeight: 50,
+    gutter: 10,
+    grid: { rows: 2, columns: 2 }
+  });
+
+  describe('getBackSideLayout', () => {
+    it('should mirror portrait pages left to right for long-edge flipping', () => {
+      const back = getBackSideLayout(layoutFor(portrait), portrait, 'long-edge');
+
+      expect(back.positions).toEqual([
+        { x: 305, y: 345 },
+        { x: 195, y: 345 },
+        { x: 305, y: 405 },
+        { x: 195, y: 405 }
+      ]);
+    });
+
+    it('should mirror portrait pages top to bottom for short-edge flipping', () => {
+      const back = getBackSideLayout(layoutFor(portrait), portrait, 'short-edge');
+
+      expect(back.positions[0]).toEqual({ x: 195, y: 405 });
+      expect(back.positions[3]).toEqual({ x: 305, y: 345 });
+    });
+
+    it('should swap the axes for landscape pages', () => {
+      const layout = layoutFor(landscape);
+
+      expect(getBackSideLayout(layout, landscape, 'long-edge').positions[0]).toEqual({ x: 295, y: 305 });
+      expect(getBackSideLayout(layout, landscape, 'short-edge').positions[0]).toEqual({ x: 405, y: 245 });
+    });
+
+    it('should keep the grid and tag size', () => {
+      const layout = layoutFor(portrait);
+      const back = getBackSideLayout(layout, portrait, 'long-edge');
+
+      expect(back).toEqual({ ...layout, positions: expect.any(Array) });
+      expect(back.positions).toHaveLength(layout.positions.length);
+    });
+  });
+});
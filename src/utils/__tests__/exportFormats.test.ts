@@ -0,0 +1,55 @@
+import { getExportScale, getImageExportErrors, isExportFormat, negotiateExportFormat } from '../exportFormats';
+
+describe('Export Formats', () => {
+  describe('negotiateExportFormat', () => {
+    it('should default to PDF', () => {
+      expect(negotiateExportFormat(undefined)).toBe('pdf');
+      expect(negotiateExportFormat('')).toBe('pdf');
+      expect(negotiateExportFormat('*/*')).toBe('pdf');
+    });
+
+    it('should match supported MIME types', () => {
+      expect(negotiateExportFormat('image/png')).toBe('png');
+      expect(negotiateExportFormat('image/svg+xml')).toBe('svg');
+      expect(negotiateExportFormat('image/webp')).toBe('webp');
+      expect(negotiateExportFormat('application/pdf')).toBe('pdf');
+      expect(negotiateExportFormat('image/*')).toBe('png');
+    });
+
+    it('should prefer higher quality, then earlier types', () => {
+      expect(negotiateExportFormat('image/png;q=0.5, image/webp')).toBe('webp');
+      expect(negotiateExportFormat('image/svg+xml, image/png')).toBe('svg');
+      expect(negotiateExportFormat('text/html, image/webp;q=0.9, */*;q=0.8')).toBe('webp');
+    });
+
+    it('should skip unsupported and refused types', () => {
+      expect(negotiateExportFormat('image/gif, image/png;q=0')).toBeNull();
+      expect(negotiateExportFormat('application/json')).toBeNull();
+    });
+  });
+
+  describe('getImageExportErrors', () => {
+    it('should accept valid options', () => {
+      expect(getImageExportErrors({ format: 'png', dpi: 300, transparent: true })).toEqual([]);
+      expect(getImageExportErrors({ format: 'svg' })).toEqual([]);
+    });
+
+    it('should list every problem', () => {
+      expect(getImageExportErrors({ format: 'pdf', dpi: 72.5, transparent: 'yes' })).toEqual([
+        'format must be "png", "svg" or "webp"',
+        'dpi must be a whole number from 72 to 600',
+        'transparent must be a boolean'
+      ]);
+    });
+  });
+
+  it('should recognize export formats', () => {
+    expect(isExportFormat('webp')).toBe(true);
+    expect(isExportFormat('toString')).toBe(false);
+  });
+
+  it('should scale template points to the DPI', () => {
+    expect(getExportScale(144)).toBe(2);
+    expect(getExportScale()).toBeCloseTo(300 / 72);
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  DEFAULT_FILE_NAME_PATTERN,
+  formatDownloadPath,
+  formatFileName,
+  getDownloadFolderErrors,
+  getFileNamePatternErrors,
+  sanitizeFileName
+} from '../fileNames';
+
+describe('File Names', () => {
+  const date = new Date(2024, 4, 1, 9, 5, 7);
+
+  describe('formatFileName', () => {
+    it('should fill in placeholders', () => {
+      expect(formatFileName('{event}-{username}-{date}.pdf', { format: 'pdf', event: 'TechConf', username: 'alice', date }))
+        .toBe('TechConf-alice-2024-05-01.pdf');
+      expect(formatFileName('{template} {time} ({count})', { format: 'png', template: 'Modern', count: 12, date }))
+        .toBe('Modern 090507 (12).png');
+    });
+
+    it('should name single and batch downloads with the default pattern', () => {
+      expect(formatFileName(DEFAULT_FILE_NAME_PATTERN, { format: 'pdf', username: 'alice', date })).toBe('name-tag-alice-2024-05-01.pdf');
+      expect(formatFileName(DEFAULT_FILE_NAME_PATTERN, { format: 'pdf', date })).toBe('name-tag-2024-05-01.pdf');
+    });
+
+    it('should match the extension to the format', () => {
+      expect(formatFileName('{username}.pdf', { format: 'webp', username: 'alice' })).toBe('alice.webp');
+      expect(formatFileName('{username}.v2', { format: 'svg', username: 'alice' })).toBe('alice.v2.svg');
+    });
+
+    it('should not let profile values escape the file name', () => {
+      expect(formatFileName('{displayName}', { format: 'pdf', displayName: '../../etc/passwd' })).toBe('etc-passwd.pdf');
+      expect(formatFileName('{displayName}', { format: 'pdf', displayName: 'Evil\u202efdp.exe' })).toBe('Evilfdp.exe.pdf');
+    });
+  });
+
+  describe('sanitizeFileName', () => {
+    it('should replace reserved characters and drop control characters', () => {
+      expect(sanitizeFileName('a<b>c:d"e|f?g*h\\i/j')).toBe('a-b-c-d-e-f-g-h-i-j');
+      expect(sanitizeFileName('tab\there\u0000')).toBe('tab here');
+    });
+
+    it('should trim dots, spaces and separators from the ends', () => {
+      expect(sanitizeFileName(' .hidden. ')).toBe('hidden');
+      expect(sanitizeFileName('--alice--')).toBe('alice');
+    });
+
+    it('should avoid reserved Windows device names', () => {
+      expect(sanitizeFileName('CON')).toBe('_CON');
+      expect(sanitizeFileName('lpt1.name')).toBe('_lpt1.name');
+      expect(sanitizeFileName('console')).toBe('console');
+    });
+
+    it('should limit the length without splitting characters', () => {
+      expect(new TextEncoder().encode(sanitizeFileName('a'.repeat(300))).length).toBe(200);
+      expect(sanitizeFileName('名'.repeat(100))).toBe('名'.repeat(66));
+    });
+
+    it('should fall back when nothing is left', () => {
+      expect(sanitizeFileName('...')).toBe('name-tag');
+    });
+  });
+
+  describe('getFileNamePatternErrors', () => {
+    it('should accept known placeholders', () => {
+      expect(getFileNamePatternErrors('{event}-{username}-{date}.pdf')).toEqual([]);
+    });
+
+    it('should reject empty patterns and unknown placeholders', () => {
+      expect(getFileNamePatternErrors('  ')).toEqual(['file name pattern must be a non-empty string']);
+      expect(getFileNamePatternErrors(42)).toEqual(['file name pattern must be a non-empty string']);
+      expect(getFileNamePatternErrors('{user}-{user}')).toEqual(['unknown placeholder {user} in file name pattern']);
+    });
+  });
+
+  describe('formatDownloadPath', () => {
+    it('should place the file in the sanitized subfolder', () => {
+      expect(formatDownloadPath('name-tags\\TechConf: 2024/', 'alice.pdf')).toBe('name-tags/TechConf- 2024/alice.pdf');
+      expect(formatDownloadPath('./events//day 1 ', 'alice.pdf')).toBe('events/day 1/alice.pdf');
+    });
+
+    it('should save into the Downloads folder without a subfolder', () => {
+      expect(formatDownloadPath(undefined, 'alice.pdf')).toBe('alice.pdf');
+      expect(formatDownloadPath('', 'alice.pdf')).toBe('alice.pdf');
+    });
+  });
+
+  describe('getDownloadFolderErrors', () => {
+    it('should keep downloads inside the Downloads folder', () => {
+      expect(getDownloadFolderErrors('name-tags/2024')).toEqual([]);
+      expect(getDownloadFolderErrors('../Desktop')).toEqual(['download folder must stay inside the Downloads folder']);
+    });
+  });
+});
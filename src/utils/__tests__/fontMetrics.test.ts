@@ -0,0 +1,36 @@
+import { getStandardFontNames, isStandardFontCharacter, measureStandardFontText } from '../fontMetrics';
+
+describe('Font Metrics', () => {
+  describe('getStandardFontNames', () => {
+    it('should map CSS font families to the closest standard font', () => {
+      expect(getStandardFontNames('Arial, sans-serif').regular).toBe('Helvetica');
+      expect(getStandardFontNames('Georgia, serif').bold).toBe('Times-Bold');
+      expect(getStandardFontNames('"Courier New", monospace').regular).toBe('Courier');
+    });
+  });
+
+  describe('isStandardFontCharacter', () => {
+    it('should accept Windows-1252 characters only', () => {
+      expect(['A', 'ë', '€', '“'].every(isStandardFontCharacter)).toBe(true);
+      expect(isStandardFontCharacter('山')).toBe(false);
+    });
+  });
+
+  describe('measureStandardFontText', () => {
+    it('should measure with the font metrics', () => {
+      // Courier is monospaced at 600 units per em
+      expect(measureStandardFontText('Name', 'monospace', 'normal', 10)).toBeCloseTo(24);
+      expect(measureStandardFontText('WWW', 'Arial', 'normal', 10)).toBeGreaterThan(measureStandardFontText('iii', 'Arial', 'normal', 10));
+      expect(measureStandardFontText('Name', 'Arial', 'bold', 10)).toBeGreaterThan(measureStandardFontText('Name', 'Arial', 'normal', 10));
+    });
+
+    it('should count characters without a glyph as one em', () => {
+      expect(measureStandardFontText('山田', 'monospace', 'normal', 10)).toBe(20);
+    });
+
+    it('should measure emoji as one glyph and ignore combining marks', () => {
+      expect(measureStandardFontText('👩‍👩‍👧', 'monospace', 'normal', 10)).toBe(12.5);
+      expect(measureStandardFontText('e\u0301', 'monospace', 'normal', 10)).toBeCloseTo(6);
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { buildFontStack, detectFontFormat, formatFontFamilies, getFontFormat, parseFontFamilies, parseFontFileName } from '../fonts';
+
+describe('Fonts', () => {
+  describe('getFontFormat', () => {
+    it('should accept TrueType, OpenType and WOFF2 files only', () => {
+      expect(getFontFormat('NotoSansJP-Regular.TTF')).toBe('truetype');
+      expect(getFontFormat('Inter.otf')).toBe('opentype');
+      expect(getFontFormat('Inter.woff2')).toBe('woff2');
+      expect(getFontFormat('Inter.woff')).toBeNull();
+    });
+  });
+
+  describe('detectFontFormat', () => {
+    it('should read the format from the file signature', () => {
+      expect(detectFontFormat(new Uint8Array([0, 1, 0, 0, 0]))).toBe('truetype');
+      expect(detectFontFormat(new TextEncoder().encode('OTTO'))).toBe('opentype');
+      expect(detectFontFormat(new TextEncoder().encode('wOF2'))).toBe('woff2');
+      expect(detectFontFormat(new TextEncoder().encode('<svg'))).toBeNull();
+    });
+  });
+
+  describe('parseFontFileName', () => {
+    it('should derive family and weight from the file name', () => {
+      expect(parseFontFileName('NotoSansJP-Bold.ttf')).toEqual({ family: 'Noto Sans JP', weight: 'bold' });
+      expect(parseFontFileName('Open_Sans.woff2')).toEqual({ family: 'Open Sans', weight: 'normal' });
+    });
+  });
+
+  describe('parseFontFamilies / formatFontFamilies', () => {
+    it('should round-trip a CSS font-family list', () => {
+      const families = parseFontFamilies(`"Noto Sans", 'Helvetica Neue', sans-serif`);
+
+      expect(families).toEqual(['Noto Sans', 'Helvetica Neue', 'sans-serif']);
+      expect(formatFontFamilies(families)).toBe('"Noto Sans", "Helvetica Neue", sans-serif');
+    });
+  });
+
+  describe('buildFontStack', () => {
+    it('should put registered families before fallbacks and host families last', () => {
+      expect(buildFontStack('Arial, "Noto Sans", sans-serif', ['Noto Sans', 'Noto Sans JP'], ['Noto Sans JP', 'Missing']))
+        .toEqual(['Noto Sans', 'Noto Sans JP', 'Arial', 'sans-serif']);
+    });
+
+    it('should not repeat families that differ only in case', () => {
+      expect(buildFontStack('noto sans', ['Noto Sans'], ['Noto Sans'])).toEqual(['noto sans']);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { calculateLabelSheetLayout, getLabelSheet, LABEL_SHEETS } from '../labelSheets';
+import { getPageDimensions } from '../layout';
+
+describe('Label Sheets', () => {
+  describe('getLabelSheet', () => {
+    it('should find sheets by id', () => {
+      expect(getLabelSheet('avery-5395')?.name).toBe('Avery 5395');
+    });
+
+    it('should return null for unknown sheets', () => {
+      expect(getLabelSheet('avery-0000')).toBeNull();
+    });
+  });
+
+  describe('LABEL_SHEETS', () => {
+    it('should have unique ids', () => {
+      const ids = LABEL_SHEETS.map(sheet => sheet.id);
+
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it.each(LABEL_SHEETS.map(sheet => [sheet.id, sheet]))('%s should fit on its page', (_, sheet) => {
+      const page = getPageDimensions(sheet.pageSize, 'portrait', 'pt');
+      const layout = calculateLabelSheetLayout(sheet, 'pt');
+      const last = layout.positions[layout.positions.length - 1];
+
+      expect(last.x + layout.tagWidth).toBeLessThanOrEqual(page.width);
+      expect(last.y + layout.tagHeight).toBeLessThanOrEqual(page.height);
+      expect(sheet.horizontalPitch).toBeGreaterThanOrEqual(sheet.labelWidth);
+      expect(sheet.verticalPitch).toBeGreaterThanOrEqual(sheet.labelHeight);
+    });
+  });
+
+  describe('calculateLabelSheetLayout', () => {
+    it('should place one tag per label in points', () => {
+      const layout = calculateLabelSheetLayout(getLabelSheet('avery-5395')!, 'pt');
+
+      expect(layout.rows).toBe(4);
+      expect(layout.columns).toBe(2);
+      expect(layout.tagsPerPage).toBe(8);
+      expect(layout.tagWidth).toBeCloseTo(243);
+      expect(layout.tagHeight).toBeCloseTo(168, 0);
+      expect(layout.positions[0].x).toBeCloseTo(49.5);
+      expect(layout.positions[1].x).toBeCloseTo(319.5);
+      expect(layout.positions[2].y - layout.positions[0].y).toBeCloseTo(180);
+    });
+
+    it('should convert inch sheets to millimetres', () => {
+      const layout = calculateLabelSheetLayout(getLabelSheet('avery-5390')!, 'mm');
+
+      expect(layout.tagWidth).toBeCloseTo(88.9);
+      expect(layout.tagHeight).toBeCloseTo(57.15);
+      expect(layout.positions[0]).toEqual({ x: expect.closeTo(19.05), y: expect.closeTo(25.4) });
+    });
+
+    it('should keep millimetre sheets in millimetres', () => {
+      const layout = calculateLabelSheetLayout(getLabelSheet('avery-l4785')!, 'mm');
+
+      expect(layout.positions[1]).toEqual({ x: expect.closeTo(112.5), y: expect.closeTo(23.5) });
+      expect(layout.positions[9]).toEqual({ x: expect.closeTo(112.5), y: expect.closeTo(223.5) });
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { calculateGridLayout, fitToSlot, getPageDimensions, LayoutError, GridLayoutOptions } from '../layout';
+
+describe('Layout Utils', () => {
+  describe('getPageDimensions', () => {
+    it('should return portrait dimensions in points', () => {
+      expect(getPageDimensions('Letter')).toEqual({ width: 612, height: 792 });
+    });
+
+    it('should swap dimensions for landscape', () => {
+      expect(getPageDimensions('Legal', 'landscape')).toEqual({ width: 1008, height: 612 });
+    });
+
+    it('should convert to millimetres', () => {
+      const a4 = getPageDimensions('A4', 'portrait', 'mm');
+
+      expect(a4.width).toBeCloseTo(210, 0);
+      expect(a4.height).toBeCloseTo(297, 0);
+    });
+  });
+
+  describe('calculateGridLayout', () => {
+    // A4 portrait in mm with 85×54mm business-card tags
+    const baseOptions: GridLayoutOptions = {
+      pageWidth: 210,
+      pageHeight: 297,
+      margin: 10,
+      tagWidth: 85,
+      tagHeight: 54,
+      gutter: 5
+    };
+
+    it('should fit as many rows and columns as the printable area allows', () => {
+      const layout = calculateGridLayout(baseOptions);
+
+      expect(layout.columns).toBe(2);
+      expect(layout.rows).toBe(4);
+      expect(layout.tagsPerPage).toBe(8);
+      expect(layout.positions).toHaveLength(8);
+    });
+
+    it('should use more columns in landscape', () => {
+      const layout = calculateGridLayout({ ...baseOptions, pageWidth: 297, pageHeight: 210 });
+
+      expect(layout.columns).toBe(3);
+      expect(layout.rows).toBe(3);
+    });
+
+    it('should keep every tag inside the margins', () => {
+      const layout = calculateGridLayout(baseOptions);
+
+      layout.positions.forEach(({ x, y }) => {
+        expect(x).toBeGreaterThanOrEqual(baseOptions.margin);
+        expect(y).toBeGreaterThanOrEqual(baseOptions.margin);
+        expect(x + layout.tagWidth).toBeLessThanOrEqual(baseOptions.pageWidth - baseOptions.margin);
+        expect(y + layout.tagHeight).toBeLessThanOrEqual(baseOptions.pageHeight - baseOptions.margin);
+      });
+    });
+
+    it('should center the grid on the page', () => {
+      const layout = calculateGridLayout(baseOptions);
+      const last = layout.positions[layout.positions.length - 1];
+
+      expect(layout.positions[0].x).toBeCloseTo(baseOptions.pageWidth - (last.x + layout.tagWidth));
+      expect(layout.positions[0].y).toBeCloseTo(baseOptions.pageHeight - (last.y + layout.tagHeight));
+    });
+
+    it('should cap the number of tags per page', () => {
+      const layout = calculateGridLayout({ ...baseOptions, maxTagsPerPage: 3 });
+
+      expect(layout.columns).toBe(2);
+      expect(layout.rows).toBe(2);
+      expect(layout.tagsPerPage).toBe(3);
+      expect(layout.positions).toHaveLength(3);
+    });
+
+    it('should not exceed what fits when more tags per page are requested', () => {
+      const layout = calculateGridLayout({ ...baseOptions, maxTagsPerPage: 20 });
+
+      expect(layout.tagsPerPage).toBe(8);
+    });
+
+    it('should honor an explicit grid', () => {
+      const layout = calculateGridLayout({ ...baseOptions, grid: { rows: 3, columns: 1 } });
+
+      expect(layout.rows).toBe(3);
+      expect(layout.columns).toBe(1);
+      expect(layout.tagsPerPage).toBe(3);
+      expect(new Set(layout.positions.map(position => position.x)).size).toBe(1);
+    });
+
+    it('should throw when an explicit grid does not fit', () => {
+      expect(() => calculateGridLayout({ ...baseOptions, grid: { rows: 5, columns: 2 } })).toThrow(LayoutError);
+      expect(() => calculateGridLayout({ ...baseOptions, grid: { rows: 5, columns: 2 } })).toThrow(
+        'A 5×2 grid of 85×54 name tags needs 175×290 but only 190×277 fits inside the margins'
+      );
+    });
+
+    it('should throw for invalid grids', () => {
+      expect(() => calculateGridLayout({ ...baseOptions, grid: { rows: 0, columns: 2 } })).toThrow('Invalid grid');
+    });
+
+    it('should throw when a single tag does not fit', () => {
+      expect(() => calculateGridLayout({ ...baseOptions, tagWidth: 300 })).toThrow(
+        'does not fit inside the 190×277 printable area'
+      );
+    });
+
+    it('should throw when margins leave no printable area', () => {
+      expect(() => calculateGridLayout({ ...baseOptions, margin: 150 })).toThrow('leaves no printable area');
+    });
+  });
+
+  describe('fitToSlot', () => {
+    const layout = { tagWidth: 90, tagHeight: 50 };
+
+    it('should fill a slot with the same aspect ratio', () => {
+      expect(fitToSlot(layout, { x: 10, y: 20 }, 900, 500)).toEqual({ x: 10, y: 20, width: 90, height: 50 });
+    });
+
+    it('should center an image of another aspect ratio', () => {
+      expect(fitToSlot(layout, { x: 10, y: 20 }, 300, 300)).toEqual({ x: 30, y: 20, width: 50, height: 50 });
+      expect(fitToSlot(layout, { x: 10, y: 20 }, 900, 100)).toEqual({ x: 10, y: 40, width: 90, height: 10 });
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { calculateCropMarks, calculateFoldMarks, getTrimLines } from '../printMarks';
+import { calculateGridLayout } from '../layout';
+
+describe('Print Marks', () => {
+  // 2×2 grid of 100×50 tags with a 10pt gutter, starting at (195, 345) on a 600×800 page
+  const page = { width: 600, height: 800 };
+  const layout = calculateGridLayout({
+    pageWidth: page.width,
+    pageHeight: page.height,
+    margin: 50,
+    tagWidth: 100,
+    tagHeight: 50,
+    gutter: 10,
+    grid: { rows: 2, columns: 2 }
+  });
+
+  describe('getTrimLines', () => {
+    it('should return both edges of every occupied column and row', () => {
+      expect(getTrimLines(layout, 4)).toEqual({
+        xs: [195, 295, 305, 405],
+        ys: [345, 395, 405, 455]
+      });
+    });
+
+    it('should only include occupied rows and columns', () => {
+      expect(getTrimLines(layout, 1)).toEqual({ xs: [195, 295], ys: [345, 395] });
+    });
+
+    it('should merge shared edges when there is no gutter', () => {
+      const flush = calculateGridLayout({
+        pageWidth: page.width,
+        pageHeight: page.height,
+        margin: 50,
+        tagWidth: 100,
+        tagHeight: 50,
+        gutter: 0,
+        grid: { rows: 1, columns: 2 }
+      });
+
+      expect(getTrimLines(flush, 2).xs).toEqual([200, 300, 400]);
+    });
+  });
+
+  describe('calculateCropMarks', () => {
+    it('should place marks outside the grid in line with every trim line', () => {
+      const marks = calculateCropMarks(layout, 4, page, { bleed: 0 });
+
+      // 4 vertical trim lines × (top + bottom) + 4 horizontal × (left + right)
+      expect(marks).toHaveLength(16);
+      expect(marks).toContainEqual({ x1: 195, y1: 330, x2: 195, y2: 342 });
+      expect(marks).toContainEqual({ x1: 195, y1: 458, x2: 195, y2: 470 });
+      expect(marks).toContainEqual({ x1: 180, y1: 345, x2: 192, y2: 345 });
+      expect(marks).toContainEqual({ x1: 408, y1: 455, x2: 420, y2: 455 });
+    });
+
+    it('should keep marks clear of the bleed', () => {
+      const marks = calculateCropMarks(layout, 4, page, { bleed: 9 });
+
+      expect(marks).toContainEqual({ x1: 195, y1: 321, x2: 195, y2: 333 });
+    });
+
+    it('should shorten marks that would run off the page', () => {
+      const marks = calculateCropMarks(layout, 4, { width: 600, height: 800 }, { bleed: 0, length: 400 });
+      const topMark = marks.find(mark => mark.x1 === 195 && mark.y2 === 342)!;
+
+      expect(topMark.y1).toBe(0);
+    });
+
+    it('should return no marks for an empty page', () => {
+      expect(calculateCropMarks(layout, 0, page, { bleed: 0 })).toEqual([]);
+    });
+  });
+
+  describe('calculateFoldMarks', () => {
+    it('should mark the middle of every occupied row on both sides of the grid', () => {
+      expect(calculateFoldMarks(layout, 4, page, { bleed: 0 })).toEqual([
+        { x1: 180, y1: 370, x2: 192, y2: 370 },
+        { x1: 408, y1: 370, x2: 420, y2: 370 },
+        { x1: 180, y1: 430, x2: 192, y2: 430 },
+        { x1: 408, y1: 430, x2: 420, y2: 430 }
+      ]);
+    });
+
+    it('should only mark occupied rows and keep clear of the bleed', () => {
+      const marks = calculateFoldMarks(layout, 2, page, { bleed: 9 });
+
+      expect(marks).toEqual([
+        { x1: 171, y1: 370, x2: 183, y2: 370 },
+        { x1: 417, y1: 370, x2: 429, y2: 370 }
+      ]);
+    });
+
+    it('should return no marks for an empty page', () => {
+      expect(calculateFoldMarks(layout, 0, page, { bleed: 0 })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import { getQualityProfile, getRasterScale, QUALITY_PROFILES } from '../quality';
+
+describe('Quality', () => {
+  describe('getQualityProfile', () => {
+    it('should return the profile for each level', () => {
+      expect(getQualityProfile('low')).toEqual({ dpi: 96, imageFormat: 'jpeg', jpegQuality: 60 });
+      expect(getQualityProfile('high')).toEqual({ dpi: 300, imageFormat: 'png', jpegQuality: 95 });
+    });
+
+    it('should default to medium', () => {
+      expect(getQualityProfile(undefined)).toBe(QUALITY_PROFILES.medium);
+      expect(getQualityProfile('ultra' as any)).toBe(QUALITY_PROFILES.medium);
+    });
+
+    it('should increase resolution with each level', () => {
+      expect(QUALITY_PROFILES.low.dpi).toBeLessThan(QUALITY_PROFILES.medium.dpi);
+      expect(QUALITY_PROFILES.medium.dpi).toBeLessThan(QUALITY_PROFILES.high.dpi);
+    });
+  });
+
+  describe('getRasterScale', () => {
+    it('should convert DPI to pixels per point', () => {
+      expect(getRasterScale(QUALITY_PROFILES.high)).toBeCloseTo(300 / 72);
+      expect(getRasterScale({ dpi: 72, imageFormat: 'png', jpegQuality: 90 })).toBe(1);
+    });
+  });
+});
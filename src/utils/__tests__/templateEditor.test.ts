@@ -0,0 +1,169 @@
+import {
+  EditHistory,
+  hitTest,
+  moveBox,
+  resizeBox,
+  snapToGrid,
+  SnapOptions,
+  toEditableTemplate,
+  updateElementBox,
+  MIN_ELEMENT_SIZE
+} from '../templateEditor';
+import { getDefaultTemplate } from '../templates';
+import { NameTagTemplate } from '../../types';
+
+describe('Template Editor', () => {
+  const options: SnapOptions = {
+    gridSize: 0,
+    guides: true,
+    targets: [],
+    bounds: { width: 300, height: 200 }
+  };
+
+  const template: NameTagTemplate = {
+    ...getDefaultTemplate(),
+    elements: [
+      { type: 'shape', shape: 'rect', x: 0, y: 0, width: 300, height: 200, fill: '#ffffff' },
+      { type: 'text', text: '{displayName}', x: 20, y: 20, width: 100, height: 30, fontSize: 20, color: '#000000', zIndex: 1 },
+      { type: 'qrcode', x: 200, y: 100, width: 80, height: 80 }
+    ]
+  };
+
+  describe('toEditableTemplate', () => {
+    it('should turn fixed layout slots into elements', () => {
+      const editable = toEditableTemplate(getDefaultTemplate());
+
+      expect(editable.elements!.map(element => element.type)).toEqual(['qrcode', 'image', 'text', 'text']);
+    });
+
+    it('should copy elements so edits do not change the original', () => {
+      const editable = toEditableTemplate(template);
+      editable.elements![1].x = 50;
+
+      expect(template.elements![1].x).toBe(20);
+    });
+  });
+
+  describe('hitTest', () => {
+    it('should find the topmost element under a point', () => {
+      expect(hitTest(template, 30, 30)).toBe(1);
+      expect(hitTest(template, 210, 110)).toBe(2);
+      expect(hitTest(template, 150, 150)).toBe(0);
+    });
+
+    it('should return null outside every element', () => {
+      expect(hitTest({ ...template, elements: [template.elements![1]] }, 200, 150)).toBeNull();
+    });
+  });
+
+  describe('updateElementBox', () => {
+    it('should replace one element box and round it', () => {
+      const updated = updateElementBox(template, 1, { x: 10.123, y: 12, width: 80, height: 30 });
+
+      expect(updated.elements![1]).toMatchObject({ type: 'text', x: 10.12, y: 12, width: 80 });
+      expect(updated.elements![2]).toBe(template.elements![2]);
+      expect(template.elements![1].x).toBe(20);
+    });
+  });
+
+  describe('snapping', () => {
+    it('should snap to the grid', () => {
+      expect(snapToGrid(13, 10)).toBe(10);
+      expect(snapToGrid(16, 10)).toBe(20);
+      expect(snapToGrid(13, 0)).toBe(13);
+    });
+
+    it('should snap a moved box to the grid when no guide is near', () => {
+      const { box, guides } = moveBox({ x: 20, y: 20, width: 50, height: 50 }, 17, 24, { ...options, gridSize: 10 });
+
+      expect(box).toEqual({ x: 40, y: 40, width: 50, height: 50 });
+      expect(guides).toEqual([]);
+    });
+
+    it('should align a moved box with the tag center', () => {
+      const { box, guides } = moveBox({ x: 20, y: 20, width: 50, height: 40 }, 107, 0, { ...options, guides: true });
+
+      expect(box.x).toBe(125);
+      expect(guides).toContainEqual({ orientation: 'vertical', position: 150 });
+    });
+
+    it('should align a moved box with other elements', () => {
+      const targets = [{ x: 200, y: 100, width: 80, height: 80 }];
+      const { box, guides } = moveBox({ x: 20, y: 20, width: 40, height: 40 }, 182, 78, { ...options, targets });
+
+      expect(box).toMatchObject({ x: 200, y: 100 });
+      expect(guides).toEqual(expect.arrayContaining([
+        { orientation: 'vertical', position: 200 },
+        { orientation: 'horizontal', position: 100 }
+      ]));
+    });
+
+    it('should prefer guides over the grid and skip them when turned off', () => {
+      const moved = moveBox({ x: 0, y: 0, width: 40, height: 40 }, 148, 0, { ...options, gridSize: 10 });
+      expect(moved.box.x).toBe(150);
+
+      const unguided = moveBox({ x: 0, y: 0, width: 40, height: 40 }, 128, 0, { ...options, gridSize: 10, guides: false });
+      expect(unguided.box.x).toBe(130);
+      expect(unguided.guides).toEqual([]);
+    });
+  });
+
+  describe('resizeBox', () => {
+    const box = { x: 100, y: 50, width: 60, height: 40 };
+
+    it('should move only the dragged edges', () => {
+      expect(resizeBox(box, 'se', 13, 7, { ...options, guides: false }).box).toEqual({ x: 100, y: 50, width: 73, height: 47 });
+      expect(resizeBox(box, 'w', -13, 7, { ...options, guides: false }).box).toEqual({ x: 87, y: 50, width: 73, height: 40 });
+      expect(resizeBox(box, 'n', 5, -10, { ...options, guides: false }).box).toEqual({ x: 100, y: 40, width: 60, height: 50 });
+    });
+
+    it('should snap the dragged edges', () => {
+      expect(resizeBox(box, 'e', 27, 0, { ...options, guides: false, gridSize: 10 }).box.width).toBe(90);
+
+      const targets = [{ x: 200, y: 0, width: 50, height: 20 }];
+      const { box: snapped, guides } = resizeBox(box, 'e', 38, 0, { ...options, targets });
+      expect(snapped.width).toBe(100);
+      expect(guides).toEqual([{ orientation: 'vertical', position: 200 }]);
+    });
+
+    it('should keep a minimum size', () => {
+      const { box: resized } = resizeBox(box, 'nw', 100, 100, { ...options, guides: false });
+
+      expect(resized).toEqual({ x: 160 - MIN_ELEMENT_SIZE, y: 90 - MIN_ELEMENT_SIZE, width: MIN_ELEMENT_SIZE, height: MIN_ELEMENT_SIZE });
+    });
+  });
+
+  describe('EditHistory', () => {
+    it('should undo and redo states', () => {
+      const history = new EditHistory(1);
+      history.push(2);
+      history.push(3);
+
+      expect(history.undo()).toBe(2);
+      expect(history.undo()).toBe(1);
+      expect(history.canUndo).toBe(false);
+      expect(history.undo()).toBe(1);
+      expect(history.redo()).toBe(2);
+      expect(history.canRedo).toBe(true);
+    });
+
+    it('should drop undone states on a new edit', () => {
+      const history = new EditHistory('a');
+      history.push('b');
+      history.undo();
+      history.push('c');
+
+      expect(history.canRedo).toBe(false);
+      expect(history.undo()).toBe('a');
+    });
+
+    it('should keep at most the limit of states to undo', () => {
+      const history = new EditHistory(0, 2);
+      [1, 2, 3].forEach(state => history.push(state));
+
+      expect(history.undo()).toBe(2);
+      expect(history.undo()).toBe(1);
+      expect(history.canUndo).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import {
+  getTemplateElements,
+  getLayoutElements,
+  resolveText,
+  layoutTextElement,
+  scaleElement,
+  validateElement,
+  getElementErrors,
+  decodeDataUri
+} from '../templateElements';
+import { NameTagTemplate, TemplateElement, TextElement, XProfile } from '../../types';
+
+// 1×1 transparent PNG
+const PNG_DATA_URI = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+describe('Template Elements', () => {
+  const profile: XProfile = {
+    username: 'testuser',
+    displayName: 'Test User',
+    bio: 'Building tools for event organizers',
+    avatarUrl: 'https://pbs.twimg.com/profile_images/1/avatar.jpg',
+    profileUrl: 'https://x.com/testuser',
+    verified: false,
+    followerCount: '1,234',
+    followingCount: '56',
+    extractedAt: new Date('2023-01-01')
+  };
+
+  const template: NameTagTemplate = {
+    id: 'default',
+    name: 'Default Template',
+    dimensions: { width: 300, height: 200 },
+    layout: {
+      avatarPosition: { x: 20, y: 20 },
+      avatarSize: 60,
+      namePosition: { x: 100, y: 40, align: 'left' },
+      usernamePosition: { x: 150, y: 70, align: 'center' },
+      qrCodePosition: { x: 210, y: 20 },
+      qrCodeSize: 80
+    },
+    styles: {
+      backgroundColor: '#ffffff',
+      textColor: '#000000',
+      accentColor: '#1da1f2',
+      fontFamily: 'Arial, sans-serif',
+      nameFontSize: 16,
+      usernameFontSize: 12
+    }
+  };
+
+  const text = (overrides: Partial<TextElement> = {}): TextElement => ({
+    type: 'text',
+    text: '{displayName}',
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 20,
+    fontSize: 10,
+    color: '#000000',
+    ...overrides
+  });
+
+  describe('getLayoutElements', () => {
+    it('should turn the fixed slots into elements', () => {
+      const elements = getLayoutElements(template);
+
+      expect(elements.map(element => element.type)).toEqual(['qrcode', 'image', 'text', 'text']);
+      expect(elements[0]).toEqual(expect.objectContaining({ x: 210, y: 20, width: 80, height: 80 }));
+      expect(elements[1]).toEqual(expect.objectContaining({ src: 'avatar', shape: 'circle', x: 20, y: 20, width: 60 }));
+    });
+
+    it('should keep text baselines and anchors where the slots put them', () => {
+      const [, , name, username] = getLayoutElements(template) as TextElement[];
+
+      // Baseline 40 minus 0.8em ascent; the box ends 10 short of the QR code
+      expect(name).toEqual(expect.objectContaining({ x: 100, y: 27.2, width: 100, fontWeight: 'bold' }));
+      expect(username).toEqual(expect.objectContaining({ x: 100, width: 100, align: 'center', text: '@{username}' }));
+    });
+
+    it('should let text use the full width when the QR code is above or below it', () => {
+      const [, , name] = getLayoutElements({
+        ...template,
+        layout: { ...template.layout, qrCodePosition: { x: 210, y: 110 } }
+      }) as TextElement[];
+
+      expect(name.width).toBe(200);
+    });
+
+    it('should shrink fixed-layout text to 60% before ellipsizing', () => {
+      const [, , name] = getLayoutElements(template) as TextElement[];
+
+      expect(name.minFontSize).toBeCloseTo(9.6);
+    });
+  });
+
+  describe('getTemplateElements', () => {
+    it('should use the fixed layout when the template has no elements', () => {
+      expect(getTemplateElements(template)).toEqual(getLayoutElements(template));
+    });
+
+    it('should order elements by z-index, keeping list order for ties', () => {
+      const elements: TemplateElement[] = [
+        text({ id: 'a', zIndex: 2 }),
+        text({ id: 'b' }),
+        text({ id: 'c', zIndex: -1 }),
+        text({ id: 'd' })
+      ];
+
+      expect(getTemplateElements({ ...template, elements }).map(element => element.id)).toEqual(['c', 'b', 'd', 'a']);
+    });
+  });
+
+  describe('resolveText', () => {
+    it('should replace profile field placeholders', () => {
+      expect(resolveText('{followerCount} followers · @{username}', profile)).toBe('1,234 followers · @testuser');
+    });
+
+    it('should blank missing fields and keep unknown placeholders', () => {
+      expect(resolveText('{bio}|{avatarUrl}', { ...profile, bio: undefined })).toBe('|{avatarUrl}');
+    });
+  });
+
+  describe('layoutTextElement', () => {
+    // Every character is half an em wide
+    const measure = (value: string, fontSize: number) => Array.from(value).length * fontSize * 0.5;
+
+    it('should place the first baseline 0.8em below the box top', () => {
+      expect(layoutTextElement(text({ y: 10 }), profile, measure)).toEqual({
+        fontSize: 10,
+        direction: 'ltr',
+        align: 'left',
+        lines: [{ text: 'Test User', baseline: 18 }]
+      });
+    });
+
+    it('should center shrunk text on the full-size line', () => {
+      // 9 characters in 30 wide: 6.5 is the largest half-point size that fits
+      const layout = layoutTextElement(text({ width: 30, minFontSize: 5 }), profile, measure);
+
+      expect(layout.fontSize).toBe(6.5);
+      expect(layout.lines[0].baseline).toBeCloseTo((10 - 6.5) * 1.3 / 2 + 6.5 * 0.8);
+    });
+
+    it('should wrap to the box width and stack lines', () => {
+      const layout = layoutTextElement(text({ text: '{bio}', maxLines: 3 }), profile, measure);
+
+      expect(layout.lines.map(line => line.text)).toEqual(['Building tools for', 'event organizers']);
+      expect(layout.lines[1].baseline - layout.lines[0].baseline).toBe(13);
+    });
+
+    it('should ellipsize to maxLength before fitting', () => {
+      expect(layoutTextElement(text({ maxLength: 8 }), profile, measure).lines[0].text).toBe('Test ...');
+    });
+
+    it('should right-align right-to-left text unless the element sets an alignment', () => {
+      const hebrew = { ...profile, displayName: 'דוד לוי' };
+
+      expect(layoutTextElement(text(), hebrew, measure)).toEqual(expect.objectContaining({ direction: 'rtl', align: 'right' }));
+      expect(layoutTextElement(text({ align: 'left' }), hebrew, measure).align).toBe('left');
+    });
+  });
+
+  describe('scaleElement', () => {
+    it('should scale the box and sizes', () => {
+      expect(scaleElement(text({ x: 10, y: 5 }), 2)).toEqual(text({ x: 20, y: 10, width: 200, height: 40, fontSize: 20 }));
+      expect(scaleElement(text({ minFontSize: 6 }), 2)).toEqual(expect.objectContaining({ minFontSize: 12 }));
+      expect(scaleElement({ type: 'divider', x: 0, y: 0, width: 10, height: 2, color: '#000' }, 3)).toEqual(
+        expect.objectContaining({ thickness: 3, height: 6 })
+      );
+    });
+  });
+
+  describe('validateElement', () => {
+    it('should accept well-formed elements', () => {
+      expect(validateElement(text({ rotation: -15, maxLines: 2 }))).toBe(true);
+      expect(validateElement({ type: 'image', src: PNG_DATA_URI, x: 0, y: 0, width: 10, height: 10 })).toBe(true);
+      expect(validateElement({ type: 'shape', shape: 'ellipse', x: 0, y: 0, width: 10, height: 10 })).toBe(true);
+    });
+
+    it('should reject unknown types and empty boxes', () => {
+      expect(validateElement({ ...text(), type: 'video' } as any)).toBe(false);
+      expect(validateElement(text({ width: 0 }))).toBe(false);
+      expect(validateElement(text({ x: NaN }))).toBe(false);
+      expect(validateElement(text({ minFontSize: 12 }))).toBe(false);
+    });
+
+    it('should only allow the avatar or embedded images as image sources', () => {
+      expect(validateElement({ type: 'image', src: 'https://example.com/logo.png', x: 0, y: 0, width: 10, height: 10 })).toBe(false);
+      expect(validateElement({ type: 'image', src: 'data:image/svg+xml;base64,PHN2Zy8+', x: 0, y: 0, width: 10, height: 10 })).toBe(false);
+    });
+  });
+
+  describe('getElementErrors', () => {
+    const box = { x: 0, y: 0, width: 10, height: 10 };
+
+    it('should reject sizes and z-indexes that are not finite numbers', () => {
+      expect(getElementErrors({ ...box, type: 'shape', shape: 'rect', cornerRadius: '4"/><script>' as any, strokeWidth: -1 }))
+        .toEqual([
+          { field: 'element.strokeWidth', message: 'must be a number of at least 0' },
+          { field: 'element.cornerRadius', message: 'must be a number of at least 0' }
+        ]);
+      expect(getElementErrors({ ...box, type: 'divider', color: '#000000', thickness: '2' as any }))
+        .toEqual([{ field: 'element.thickness', message: 'must be a positive number' }]);
+      expect(getElementErrors(text({ zIndex: Infinity, minFontSize: '5' as any })).map(error => error.field))
+        .toEqual(['element.zIndex', 'element.minFontSize']);
+    });
+
+    it('should reject unknown font weights and alignments', () => {
+      expect(getElementErrors(text({ fontWeight: 'bold;fill:red' as any, align: 'justify' as any }))).toEqual([
+        { field: 'element.fontWeight', message: 'must be one of normal, bold' },
+        { field: 'element.align', message: 'must be one of left, center, right' }
+      ]);
+    });
+
+    it('should reject colors that are not strings', () => {
+      expect(getElementErrors({ ...box, type: 'shape', shape: 'rect', fill: { toString: () => 'red' } as any, stroke: 1 as any })
+        .map(error => error.field)).toEqual(['element.fill', 'element.stroke']);
+      expect(getElementErrors({ ...box, type: 'qrcode', color: ['#000000'] as any }).map(error => error.field))
+        .toEqual(['element.color']);
+    });
+  });
+
+  describe('decodeDataUri', () => {
+    it('should decode PNG and JPEG data URIs', () => {
+      expect(decodeDataUri(PNG_DATA_URI)?.subarray(1, 4).toString()).toBe('PNG');
+      expect(decodeDataUri('avatar')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { NameTagTemplate } from '../../types';
+import { getDefaultTemplate } from '../templates';
+import {
+  exportTemplatePackage,
+  importTemplatePackage,
+  TemplatePackageError,
+  TEMPLATE_PACKAGE_FORMAT,
+  TEMPLATE_PACKAGE_VERSION
+} from '../templatePackage';
+
+describe('Template Package', () => {
+  const LOGO = 'data:image/png;base64,iVBORw0KGgo=';
+  const FONT = new Uint8Array([0, 1, 0, 0, 0, 12, 0, 128]);
+
+  const template: NameTagTemplate = {
+    ...getDefaultTemplate(),
+    id: 'conference',
+    name: 'Conference',
+    styles: { ...getDefaultTemplate().styles, fontFamily: '"Noto Sans JP", sans-serif' },
+    elements: [
+      { type: 'image', src: LOGO, x: 10, y: 10, width: 40, height: 20 },
+      { type: 'image', src: 'avatar', shape: 'circle', x: 10, y: 40, width: 60, height: 60 },
+      { type: 'text', text: '{displayName}', x: 80, y: 40, width: 150, height: 24, fontSize: 18, color: '#000000' }
+    ]
+  };
+  const fonts = [{ family: 'Noto Sans JP', weight: 'bold' as const, format: 'truetype' as const, fileName: 'NotoSansJP-Bold.ttf', data: FONT }];
+
+  // Package with a hand-written manifest, to test files other tools produce
+  const createPackage = (manifest: unknown, files: Record<string, Uint8Array> = {}) =>
+    zipSync({ 'template.json': strToU8(JSON.stringify(manifest)), ...files });
+
+  const expectErrors = (data: Uint8Array) => {
+    try {
+      importTemplatePackage(data);
+    } catch (error) {
+      expect(error).toBeInstanceOf(TemplatePackageError);
+      return (error as TemplatePackageError).errors;
+    }
+    throw new Error('Expected the package to be rejected');
+  };
+
+  describe('exportTemplatePackage', () => {
+    it('should store images and fonts as files next to the manifest', () => {
+      const files = unzipSync(exportTemplatePackage({ template, fonts }));
+      const manifest = JSON.parse(strFromU8(files['template.json']));
+
+      expect(manifest.format).toBe(TEMPLATE_PACKAGE_FORMAT);
+      expect(manifest.version).toBe(TEMPLATE_PACKAGE_VERSION);
+      expect(manifest.template.elements[0].src).toBe('assets/image-1.png');
+      expect(manifest.template.elements[1].src).toBe('avatar');
+      expect(manifest.fonts).toEqual([{ file: 'fonts/NotoSansJP-Bold.ttf', family: 'Noto Sans JP', weight: 'bold', format: 'truetype' }]);
+      expect(Array.from(files['fonts/NotoSansJP-Bold.ttf'])).toEqual(Array.from(FONT));
+    });
+  });
+
+  describe('importTemplatePackage', () => {
+    it('should load an exported package as the original template', () => {
+      const imported = importTemplatePackage(exportTemplatePackage({ template, fonts }));
+
+      expect(imported.template).toEqual(template);
+      expect(imported.fonts).toEqual([{ ...fonts[0], data: expect.any(Uint8Array) }]);
+    });
+
+    it('should reject files that are not packages', () => {
+      expect(expectErrors(strToU8('not a zip'))).toEqual([{ field: 'package', message: 'is not a zip file' }]);
+      expect(expectErrors(zipSync({ 'readme.txt': strToU8('hi') }))).toEqual([{ field: 'template.json', message: 'is missing' }]);
+      expect(expectErrors(zipSync({ 'template.json': strToU8('{') }))).toEqual([{ field: 'template.json', message: 'is not valid JSON' }]);
+    });
+
+    it('should reject packages from a newer version', () => {
+      const errors = expectErrors(createPackage({ format: TEMPLATE_PACKAGE_FORMAT, version: TEMPLATE_PACKAGE_VERSION + 1, template }));
+
+      expect(errors).toEqual([{ field: 'version', message: `must be a version up to ${TEMPLATE_PACKAGE_VERSION}` }]);
+    });
+
+    it('should report every invalid field', () => {
+      const errors = expectErrors(createPackage({
+        format: TEMPLATE_PACKAGE_FORMAT,
+        version: 1,
+        template: {
+          ...template,
+          dimensions: { width: 0, height: 200 },
+          elements: [
+            { type: 'image', src: 'assets/missing.png', x: 0, y: 0, width: 10, height: 10 },
+            { type: 'text', text: 'Hi', x: 0, y: 0, width: 10, height: 10, fontSize: -1, color: '#000000' }
+          ]
+        },
+        fonts: [{ file: 'fonts/readme.txt', family: '', weight: 'light' }]
+      }, { 'fonts/readme.txt': strToU8('hi') }));
+
+      expect(errors).toEqual([
+        { field: 'template.elements[0].src', message: 'refers to missing file assets/missing.png' },
+        { field: 'template.dimensions.width', message: 'must be a positive number' },
+        { field: 'template.elements[1].fontSize', message: 'must be a positive number' },
+        { field: 'fonts[0].file', message: 'must be a TrueType, OpenType or WOFF2 font' },
+        { field: 'fonts[0].family', message: 'must be a non-empty string' },
+        { field: 'fonts[0].weight', message: 'must be normal or bold' }
+      ]);
+    });
+
+    it('should summarize the errors in the message', () => {
+      expect(() => importTemplatePackage(createPackage({ format: 'other' })))
+        .toThrow(`Invalid template package: format must be "${TEMPLATE_PACKAGE_FORMAT}"`);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { escapeXml, getTextDirection, getVisualLength, sanitizeText, splitGraphemes, truncateText, wrapText } from '../text';
+
+describe('Text', () => {
+  describe('truncateText', () => {
+    it('should leave short text unchanged', () => {
+      expect(truncateText('Test User', 20)).toBe('Test User');
+    });
+
+    it('should count full-width characters twice', () => {
+      expect(truncateText('山田太郎山田太郎山田太郎', 10)).toBe('山田太...');
+    });
+
+    it('should keep emoji and accented letters whole', () => {
+      // Family ZWJ sequence, flag, skin tone, e + combining acute
+      expect(truncateText('👨‍👩‍👧🇯🇵👋🏽 Rene\u0301e Dupont', 8)).toBe('👨‍👩‍👧🇯🇵...');
+      expect(truncateText('Rene\u0301e Dupont-Lefèvre', 8)).toBe('Rene\u0301e...');
+    });
+
+    it('should leave text of at most maxLength graphemes unchanged', () => {
+      expect(truncateText('🇯🇵🇯🇵🇯🇵', 3)).toBe('🇯🇵🇯🇵🇯🇵');
+    });
+  });
+
+  describe('splitGraphemes', () => {
+    it('should split text into user-perceived characters', () => {
+      expect(splitGraphemes('a👋🏽🇯🇵e\u0301')).toEqual(['a', '👋🏽', '🇯🇵', 'e\u0301']);
+    });
+  });
+
+  describe('getVisualLength', () => {
+    it('should count emoji twice and combining marks not at all', () => {
+      expect(getVisualLength('Hi 👩‍💻')).toBe(5);
+      expect(getVisualLength('e\u0301')).toBe(1);
+    });
+  });
+
+  describe('getTextDirection', () => {
+    it('should follow the first letter', () => {
+      expect(getTextDirection('محمد Ali')).toBe('rtl');
+      expect(getTextDirection('(1) דוד')).toBe('rtl');
+      expect(getTextDirection('Ali محمد')).toBe('ltr');
+      expect(getTextDirection('123 🎉')).toBe('ltr');
+    });
+  });
+
+  describe('wrapText', () => {
+    it('should break text at word boundaries', () => {
+      expect(wrapText('Building tools for event organizers', 15, 5)).toEqual([
+        'Building tools',
+        'for event',
+        'organizers'
+      ]);
+    });
+
+    it('should split words longer than a line', () => {
+      expect(wrapText('abcdefghij', 4, 5)).toEqual(['abcd', 'efgh', 'ij']);
+    });
+
+    it('should ellipsize the last line when there are too many lines', () => {
+      const lines = wrapText('one two three four five six seven', 9, 2);
+
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toBe('one two');
+      expect(lines[1]).toMatch(/\.\.\.$/);
+      expect(lines[1].length).toBeLessThanOrEqual(9);
+    });
+
+    it('should return no lines for blank text', () => {
+      expect(wrapText('  ', 10, 3)).toEqual([]);
+    });
+  });
+
+  describe('escapeXml', () => {
+    it('should escape markup characters', () => {
+      expect(escapeXml(`<b>"Q&A"</b> it's`)).toBe('&lt;b&gt;&quot;Q&amp;A&quot;&lt;/b&gt; it&apos;s');
+    });
+
+    it('should drop characters XML cannot contain', () => {
+      expect(escapeXml('a\u0000b\u0008c\uD800d\uFFFE\te')).toBe('abcd\te');
+    });
+  });
+
+  describe('sanitizeText', () => {
+    it('should turn line breaks into spaces and drop control characters', () => {
+      expect(sanitizeText('Ada\r\nLovelace\u0000\u001b[31m\u0085')).toBe('Ada Lovelace[31m');
+    });
+
+    it('should drop unpaired surrogates but keep emoji and joiners', () => {
+      expect(sanitizeText('\uDC00👩‍💻\uD83D')).toBe('👩‍💻');
+    });
+  });
+});
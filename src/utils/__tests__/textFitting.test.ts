@@ -0,0 +1,87 @@
+import { fitText, wrapToWidth, ellipsizeToWidth, ELLIPSIS } from '../textFitting';
+
+describe('Text Fitting', () => {
+  // Every character is half an em wide, full-width characters a whole em
+  const measure = (text: string, fontSize: number) =>
+    Array.from(text).reduce((width, char) => width + (char.charCodeAt(0) > 0x2e80 ? 1 : 0.5), 0) * fontSize;
+
+  describe('fitText', () => {
+    it('should keep text that fits at full size', () => {
+      expect(fitText('Ada Lovelace', { width: 100, fontSize: 16 }, measure)).toEqual({
+        lines: ['Ada Lovelace'],
+        fontSize: 16
+      });
+    });
+
+    it('should shrink to the largest half-point size that keeps one line', () => {
+      // 12 characters × 0.5em ≤ 80 → 13.33, rounded down to 13
+      expect(fitText('Ada Lovelace', { width: 80, fontSize: 16, minFontSize: 10 }, measure)).toEqual({
+        lines: ['Ada Lovelace'],
+        fontSize: 13
+      });
+    });
+
+    it('should wrap once shrinking reaches the minimum size', () => {
+      // One line would need 8pt; two lines fit from 15pt down
+      const fitted = fitText('Augusta Ada King Lovelace', { width: 100, fontSize: 16, minFontSize: 12, maxLines: 2 }, measure);
+
+      expect(fitted).toEqual({ lines: ['Augusta Ada', 'King Lovelace'], fontSize: 15 });
+    });
+
+    it('should prefer the largest size that fits the lines', () => {
+      const fitted = fitText('Augusta Ada King Lovelace', { width: 140, fontSize: 16, minFontSize: 14, maxLines: 2 }, measure);
+
+      expect(fitted.fontSize).toBe(16);
+      expect(fitted.lines).toEqual(['Augusta Ada King', 'Lovelace']);
+    });
+
+    it('should ellipsize the last line at the minimum size', () => {
+      const fitted = fitText('Augusta Ada King, Countess of Lovelace', {
+        width: 100,
+        fontSize: 16,
+        minFontSize: 12,
+        maxLines: 2
+      }, measure);
+
+      expect(fitted.fontSize).toBe(12);
+      expect(fitted.lines).toHaveLength(2);
+      expect(fitted.lines[1].endsWith(ELLIPSIS)).toBe(true);
+      fitted.lines.forEach(line => expect(measure(line, 12)).toBeLessThanOrEqual(100));
+    });
+
+    it('should ellipsize without shrinking or wrapping by default', () => {
+      expect(fitText('Ada Lovelace', { width: 40, fontSize: 10 }, measure)).toEqual({
+        lines: [`Ada Lov${ELLIPSIS}`],
+        fontSize: 10
+      });
+    });
+
+    it('should break text without spaces between characters', () => {
+      const fitted = fitText('山田太郎左衛門', { width: 50, fontSize: 12, minFontSize: 10, maxLines: 2 }, measure);
+
+      expect(fitted).toEqual({ lines: ['山田太郎', '左衛門'], fontSize: 12 });
+    });
+  });
+
+  describe('wrapToWidth', () => {
+    it('should split words longer than a line', () => {
+      expect(wrapToWidth('Supercalifragilistic', 50, 10, measure)).toEqual(['Supercalif', 'ragilistic']);
+    });
+  });
+
+  describe('ellipsizeToWidth', () => {
+    it('should drop trailing spaces before the ellipsis', () => {
+      expect(ellipsizeToWidth('Ada Lovelace', 25, 10, measure)).toBe(`Ada${ELLIPSIS}`);
+    });
+
+    it('should not cut emoji sequences apart', () => {
+      // The family emoji is five code points, 40 wide, but one grapheme
+      expect(ellipsizeToWidth('Ada 👩‍👩‍👧 Lovelace', 65, 10, measure)).toBe(`Ada 👩‍👩‍👧${ELLIPSIS}`);
+      expect(ellipsizeToWidth('Ada 👩‍👩‍👧 Lovelace', 60, 10, measure)).toBe(`Ada${ELLIPSIS}`);
+    });
+
+    it('should return the ellipsis alone when nothing else fits', () => {
+      expect(ellipsizeToWidth('Ada', 5, 10, measure)).toBe(ELLIPSIS);
+    });
+  });
+});
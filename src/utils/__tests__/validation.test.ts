@@ -3,12 +3,22 @@ import {
   extractUsernameFromUrl,
   validateXProfile,
   validateNameTagTemplate,
-  validateAppSettings,
+  getTemplateValidationErrors,
   createAPIError
 } from '../validation';
 import { ErrorCode } from '../../types';
+import { getDefaultTemplate } from '../templates';
 
 describe('Validation Utils', () => {
+  const nameTagBackSide = {
+    qrCodePosition: { x: 20, y: 20 },
+    qrCodeSize: 100,
+    textPosition: { x: 140, y: 20 },
+    textWidth: 140,
+    fontSize: 10,
+    showBio: true
+  };
+
   describe('isValidXProfileUrl', () => {
     it('should validate correct X.com URLs', () => {
       expect(isValidXProfileUrl('https://x.com/username')).toBe(true);
@@ -112,55 +122,45 @@ describe('Validation Utils', () => {
     });
   });
 
-  describe('validateAppSettings', () => {
-    it('should return defaults for invalid input', () => {
-      expect(validateAppSettings(null)).toEqual({
-        autoDownload: true,
-        downloadFormat: 'pdf',
-        pdfQuality: 'high',
-        defaultTemplate: 'standard',
-        recentProfiles: [],
-        maxRecentProfiles: 10
-      });
-    });
-
-    it('should validate correct settings', () => {
-      const settings = {
-        autoDownload: false,
-        downloadFormat: 'png',
-        pdfQuality: 'medium',
-        defaultTemplate: 'custom',
-        recentProfiles: ['user1', 'user2'],
-        maxRecentProfiles: 20
-      };
-      
-      const result = validateAppSettings(settings);
-      expect(result.autoDownload).toBe(false);
-      expect(result.downloadFormat).toBe('png');
-      expect(result.pdfQuality).toBe('medium');
-      expect(result.maxRecentProfiles).toBe(20);
+  describe('validateNameTagTemplate', () => {
+    it('should accept the default template', () => {
+      expect(validateNameTagTemplate(getDefaultTemplate())).toEqual(getDefaultTemplate());
     });
 
-    it('should handle invalid enum values', () => {
-      const settings = {
-        downloadFormat: 'invalid',
-        pdfQuality: 'invalid'
-      };
-      
-      const result = validateAppSettings(settings);
-      expect(result.downloadFormat).toBe('pdf');
-      expect(result.pdfQuality).toBe('high');
+    it('should reject incomplete templates', () => {
+      expect(validateNameTagTemplate({ id: 'custom', name: 'Custom' })).toBeNull();
+      expect(validateNameTagTemplate(null)).toBeNull();
     });
+  });
 
-    it('should limit recent profiles array', () => {
-      const settings = {
-        recentProfiles: new Array(100).fill('user'),
-        maxRecentProfiles: 100
-      };
-      
-      const result = validateAppSettings(settings);
-      expect(result.recentProfiles.length).toBe(50);
-      expect(result.maxRecentProfiles).toBe(50);
+  describe('getTemplateValidationErrors', () => {
+    it('should report each invalid field by path', () => {
+      const template = getDefaultTemplate();
+
+      expect(getTemplateValidationErrors({
+        ...template,
+        name: '',
+        layout: { ...template.layout, namePosition: { x: 'left' } },
+        styles: { ...template.styles, nameFontSize: 0 },
+        elements: [{ type: 'shape', shape: 'star', x: 0, y: 0, width: 10, height: -1 }],
+        back: { ...nameTagBackSide, showBio: 'yes', schedule: 'Keynote' }
+      })).toEqual([
+        { field: 'name', message: 'must be a non-empty string' },
+        { field: 'layout.namePosition', message: 'must have numeric x and y' },
+        { field: 'styles.nameFontSize', message: 'must be a positive number' },
+        { field: 'elements[0].height', message: 'must be a positive number' },
+        { field: 'elements[0].shape', message: 'must be rect or ellipse' },
+        { field: 'back.showBio', message: 'must be a boolean' },
+        { field: 'back.schedule', message: 'must be an array of strings' }
+      ]);
+    });
+
+    it('should report missing sections once', () => {
+      expect(getTemplateValidationErrors({ id: 'custom', name: 'Custom' })).toEqual([
+        { field: 'dimensions', message: 'is required' },
+        { field: 'layout', message: 'is required' },
+        { field: 'styles', message: 'is required' }
+      ]);
     });
   });
 
@@ -0,0 +1,27 @@
+import { GridLayout } from './layout';
+
+/**
+ * Which sheet edge the printer flips around when printing the back
+ */
+export type DuplexMode = 'long-edge' | 'short-edge';
+
+/**
+ * Get the back-side positions that line up with each front position once the sheet is flipped.
+ * Flipping around a vertical edge mirrors positions left to right; flipping around a horizontal
+ * edge mirrors them top to bottom. Which edge is vertical depends on the page's orientation.
+ */
+export function getBackSideLayout(
+  layout: GridLayout,
+  page: { width: number; height: number },
+  duplex: DuplexMode
+): GridLayout {
+  const longEdgeIsVertical = page.height >= page.width;
+  const mirrorHorizontally = (duplex === 'long-edge') === longEdgeIsVertical;
+
+  return {
+    ...layout,
+    positions: layout.positions.map(({ x, y }) => mirrorHorizontally
+      ? { x: page.width - x - layout.tagWidth, y }
+      : { x, y: page.height - y - layout.tagHeight })
+  };
+}
@@ -10,6 +10,7 @@ const ERROR_MESSAGES: Record<ErrorCode, string> = {
   [ErrorCode.GENERATION_ERROR]: 'Failed to generate name tag',
   [ErrorCode.STORAGE_ERROR]: 'Failed to save settings or data',
   [ErrorCode.PERMISSION_DENIED]: 'Permission denied. Please check extension permissions',
+  [ErrorCode.INVALID_REQUEST]: 'The request contains missing or invalid parameters',
   [ErrorCode.UNKNOWN_ERROR]: 'An unexpected error occurred'
 };
 
@@ -0,0 +1,101 @@
+import { ExportFormat } from '../types';
+
+/**
+ * Formats a single name tag can be exported as besides PDF
+ */
+export type ImageFormat = Exclude<ExportFormat, 'pdf'>;
+
+export interface ExportFormatInfo {
+  label: string;
+  mimeType: string;
+  extension: string;
+  raster: boolean; // Rendered at a DPI; otherwise vector
+  transparency: boolean; // Can leave the background out
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  pdf: { label: 'PDF', mimeType: 'application/pdf', extension: 'pdf', raster: false, transparency: false },
+  png: { label: 'PNG', mimeType: 'image/png', extension: 'png', raster: true, transparency: true },
+  svg: { label: 'SVG', mimeType: 'image/svg+xml', extension: 'svg', raster: false, transparency: true },
+  webp: { label: 'WebP', mimeType: 'image/webp', extension: 'webp', raster: true, transparency: true }
+};
+
+export const DEFAULT_EXPORT_DPI = 300;
+export const MIN_EXPORT_DPI = 72;
+export const MAX_EXPORT_DPI = 600;
+
+const POINTS_PER_INCH = 72;
+
+/**
+ * How to export a single name tag as an image
+ */
+export interface ImageExportOptions {
+  format: ImageFormat;
+  dpi?: number; // PNG and WebP only, DEFAULT_EXPORT_DPI by default
+  transparent?: boolean;
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, value);
+}
+
+/**
+ * Pick the export format an Accept header prefers, by quality and then by order. `image/*`
+ * means PNG and `*\/*` PDF; null when nothing acceptable is supported.
+ */
+export function negotiateExportFormat(accept: string | undefined): ExportFormat | null {
+  if (!accept || !accept.trim()) {
+    return 'pdf';
+  }
+
+  const ranges = accept.split(',').map((part, index) => {
+    const [type, ...params] = part.trim().toLowerCase().split(';').map(value => value.trim());
+    const q = params.find(param => param.startsWith('q='));
+    return { type, quality: q ? parseFloat(q.slice(2)) : 1, index };
+  });
+
+  const candidates = ranges
+    .filter(range => range.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  for (const { type } of candidates) {
+    if (type === '*/*') {
+      return 'pdf';
+    }
+    if (type === 'image/*') {
+      return 'png';
+    }
+    const format = (Object.keys(EXPORT_FORMATS) as ExportFormat[]).find(key => EXPORT_FORMATS[key].mimeType === type);
+    if (format) {
+      return format;
+    }
+  }
+  return null;
+}
+
+/**
+ * Problems with image export options, empty when they are valid
+ */
+export function getImageExportErrors(options: { format: unknown; dpi?: unknown; transparent?: unknown }): string[] {
+  const errors: string[] = [];
+
+  if (!isExportFormat(options.format) || options.format === 'pdf') {
+    errors.push('format must be "png", "svg" or "webp"');
+  }
+  if (options.dpi !== undefined &&
+      (typeof options.dpi !== 'number' || !Number.isInteger(options.dpi) || options.dpi < MIN_EXPORT_DPI || options.dpi > MAX_EXPORT_DPI)) {
+    errors.push(`dpi must be a whole number from ${MIN_EXPORT_DPI} to ${MAX_EXPORT_DPI}`);
+  }
+  if (options.transparent !== undefined && typeof options.transparent !== 'boolean') {
+    errors.push('transparent must be a boolean');
+  }
+
+  return errors;
+}
+
+/**
+ * Pixels per template unit for a DPI. Template units are points, as in the PDF.
+ */
+export function getExportScale(dpi: number = DEFAULT_EXPORT_DPI): number {
+  return dpi / POINTS_PER_INCH;
+}
@@ -0,0 +1,151 @@
+import { ExportFormat } from '../types';
+import { EXPORT_FORMATS } from './exportFormats';
+
+/**
+ * Default download name: `name-tag-alice-2024-05-01.pdf`, or `name-tag-2024-05-01.pdf`
+ * for a batch
+ */
+export const DEFAULT_FILE_NAME_PATTERN = 'name-tag-{username}-{date}';
+
+export const FILE_NAME_PLACEHOLDERS = ['username', 'displayName', 'event', 'template', 'date', 'time', 'count', 'format'] as const;
+
+export type FileNamePlaceholder = typeof FILE_NAME_PLACEHOLDERS[number];
+
+/**
+ * What a download is named after. Missing values leave their placeholder empty.
+ */
+export interface FileNameValues {
+  format: ExportFormat;
+  username?: string;
+  displayName?: string;
+  event?: string;
+  template?: string; // Template name
+  count?: number; // Name tags in the file
+  date?: Date; // Now by default
+}
+
+const MAX_FILE_NAME_BYTES = 200; // Leaves room below the common 255-byte limit for "(1)" suffixes and the extension
+const FALLBACK_FILE_NAME = 'name-tag';
+const RESERVED_WINDOWS_NAMES = /^(con|prn|aux|nul|com[0-9]|lpt[0-9])(\..*)?$/i;
+const KNOWN_EXTENSIONS = new Set(Object.values(EXPORT_FORMATS).map(format => format.extension));
+
+/**
+ * Problems with a file name pattern, empty when it is valid
+ */
+export function getFileNamePatternErrors(pattern: unknown): string[] {
+  if (typeof pattern !== 'string' || !pattern.trim()) {
+    return ['file name pattern must be a non-empty string'];
+  }
+  if (pattern.length > 200) {
+    return ['file name pattern must be at most 200 characters'];
+  }
+
+  const unknown = Array.from(pattern.matchAll(/\{([^}]*)\}/g))
+    .map(match => match[1])
+    .filter(name => !(FILE_NAME_PLACEHOLDERS as readonly string[]).includes(name));
+  return Array.from(new Set(unknown)).map(name => `unknown placeholder {${name}} in file name pattern`);
+}
+
+/**
+ * Fill in a file name pattern such as `{event}-{username}-{date}.pdf` and make the result
+ * safe on every filesystem. The extension always matches the format: one in the pattern
+ * is replaced, otherwise it is added.
+ */
+export function formatFileName(pattern: string, values: FileNameValues): string {
+  const date = values.date || new Date();
+  const replacements: Record<FileNamePlaceholder, string> = {
+    username: values.username || '',
+    displayName: values.displayName || '',
+    event: values.event || '',
+    template: values.template || '',
+    date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    time: `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`,
+    count: values.count !== undefined ? String(values.count) : '',
+    format: values.format
+  };
+
+  const filled = pattern.replace(/\{([^}]*)\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(replacements, name) ? replacements[name as FileNamePlaceholder] : placeholder);
+
+  const extension = EXPORT_FORMATS[values.format].extension;
+  const match = /\.([A-Za-z0-9]+)$/.exec(filled);
+  const base = match && KNOWN_EXTENSIONS.has(match[1].toLowerCase()) ? filled.slice(0, match.index) : filled;
+
+  return `${sanitizeFileName(base)}.${extension}`;
+}
+
+/**
+ * Make a file name (without extension) valid on Windows, macOS and Linux, and for
+ * chrome.downloads: no path separators, reserved characters, control characters, leading
+ * or trailing dots and spaces or reserved device names, and at most 200 UTF-8 bytes
+ */
+export function sanitizeFileName(name: string): string {
+  let sanitized = name
+    .normalize('NFC')
+    .replace(/\s+/g, ' ')
+    // Control characters and bidi overrides, which can disguise the extension
+    .replace(/[\u0000-\u001f\u007f-\u009f\u200e\u200f\u202a-\u202e\u2066-\u2069]/g, '')
+    .replace(/[<>:"/\\|?*]/g, '-')
+    // Collapse separator runs left by empty placeholders
+    .replace(/ {2,}/g, ' ')
+    .replace(/-{2,}/g, '-')
+    .replace(/_{2,}/g, '_')
+    .replace(/^[-_. ]+|[-_. ]+$/g, '');
+
+  sanitized = truncateBytes(sanitized, MAX_FILE_NAME_BYTES).replace(/[-_. ]+$/g, '');
+
+  if (!sanitized) {
+    return FALLBACK_FILE_NAME;
+  }
+  return RESERVED_WINDOWS_NAMES.test(sanitized) ? `_${sanitized}` : sanitized;
+}
+
+/**
+ * Problems with a download subfolder, empty when it is valid
+ */
+export function getDownloadFolderErrors(folder: unknown): string[] {
+  if (typeof folder !== 'string') {
+    return ['download folder must be a string'];
+  }
+  if (folder.length > 200) {
+    return ['download folder must be at most 200 characters'];
+  }
+  return folder.split(/[\\/]/).some(segment => segment.trim() === '..')
+    ? ['download folder must stay inside the Downloads folder']
+    : [];
+}
+
+/**
+ * Path of a download relative to the Downloads folder, as chrome.downloads expects it:
+ * forward slashes, each folder sanitized like a file name, empty and `.` folders dropped
+ */
+export function formatDownloadPath(folder: string | undefined, fileName: string): string {
+  const folders = (folder || '')
+    .split(/[\\/]/)
+    .filter(segment => segment.trim() && !/^[. ]+$/.test(segment))
+    .map(sanitizeFileName);
+  return [...folders, fileName].join('/');
+}
+
+function truncateBytes(text: string, maxBytes: number): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(text).length <= maxBytes) {
+    return text;
+  }
+
+  // Cut between code points so no character is split
+  let result = '';
+  let bytes = 0;
+  for (const character of text) {
+    bytes += encoder.encode(character).length;
+    if (bytes > maxBytes) {
+      break;
+    }
+    result += character;
+  }
+  return result;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
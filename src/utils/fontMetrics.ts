@@ -0,0 +1,60 @@
+import PDFDocument from 'pdfkit';
+import { isEmoji, splitGraphemes } from './text';
+
+// Characters of Windows-1252 outside Latin-1, which the standard fonts can also encode
+export const WIN_ANSI_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+
+const EMOJI_WIDTH = 1.25; // In em, the advance of Noto Color Emoji
+
+let metricsDocument: any = null;
+
+/**
+ * Whether a character has a glyph in the PDF standard fonts
+ */
+export function isStandardFontCharacter(char: string): boolean {
+  return char.charCodeAt(0) <= 0xff || WIN_ANSI_EXTRAS.includes(char);
+}
+
+/**
+ * Closest PDF standard fonts for a CSS font family
+ */
+export function getStandardFontNames(fontFamily: string): { regular: string; bold: string } {
+  const family = fontFamily.toLowerCase();
+  if (family.includes('mono') || family.includes('courier')) {
+    return { regular: 'Courier', bold: 'Courier-Bold' };
+  }
+  if (family.includes('times') || family.includes('georgia') || /(^|,\s*)serif/.test(family)) {
+    return { regular: 'Times-Roman', bold: 'Times-Bold' };
+  }
+  return { regular: 'Helvetica', bold: 'Helvetica-Bold' };
+}
+
+/**
+ * Measure text with the metrics of the closest standard font, for renderers that can't
+ * measure themselves (SVG). Helvetica matches Arial's widths. Combining marks add no
+ * width; emoji and other characters the standard fonts don't cover, such as CJK, are
+ * counted at the emoji font's width and one em.
+ */
+export function measureStandardFontText(text: string, fontFamily: string, fontWeight: 'normal' | 'bold', fontSize: number): number {
+  if (!metricsDocument) {
+    metricsDocument = new PDFDocument({ autoFirstPage: false });
+  }
+
+  const fonts = getStandardFontNames(fontFamily);
+  let covered = '';
+  let uncoveredEms = 0;
+
+  for (const grapheme of splitGraphemes(text)) {
+    const base = String.fromCodePoint(grapheme.codePointAt(0)!);
+    if (isEmoji(grapheme)) {
+      uncoveredEms += EMOJI_WIDTH;
+    } else if (isStandardFontCharacter(base)) {
+      covered += base;
+    } else {
+      uncoveredEms += 1;
+    }
+  }
+
+  metricsDocument.font(fontWeight === 'bold' ? fonts.bold : fonts.regular).fontSize(fontSize);
+  return metricsDocument.widthOfString(covered) + uncoveredEms * fontSize;
+}
@@ -0,0 +1,98 @@
+import { FontFormat } from '../types';
+
+// CSS generic families, which are never quoted and always resolve to some host font
+const GENERIC_FAMILIES = ['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui', 'emoji'];
+
+const FONT_EXTENSIONS: Record<string, FontFormat> = {
+  ttf: 'truetype',
+  otf: 'opentype',
+  woff2: 'woff2'
+};
+
+// Code points that only modify the grapheme before them and need no glyph of their own
+const MODIFIER_CODE_POINTS = [0x200C, 0x200D, 0xFE0E, 0xFE0F];
+
+/**
+ * Font format for a file name, or null if the extension isn't a supported font
+ */
+export function getFontFormat(fileName: string): FontFormat | null {
+  const extension = fileName.split('.').pop()!.toLowerCase();
+  return FONT_EXTENSIONS[extension] || null;
+}
+
+/**
+ * Font format from a file's signature, to reject files that aren't what their name says
+ */
+export function detectFontFormat(data: Uint8Array): FontFormat | null {
+  const signature = String.fromCharCode(...Array.from(data.slice(0, 4)));
+  if (signature === '\u0000\u0001\u0000\u0000' || signature === 'true') {
+    return 'truetype';
+  }
+  if (signature === 'OTTO') {
+    return 'opentype';
+  }
+  return signature === 'wOF2' ? 'woff2' : null;
+}
+
+/**
+ * Family and weight from a file name such as "NotoSansJP-Bold.ttf", for fonts whose
+ * name table can't be read
+ */
+export function parseFontFileName(fileName: string): { family: string; weight: 'normal' | 'bold' } {
+  const [name, style = ''] = fileName.replace(/\.[^.]+$/, '').split('-');
+  const family = name.replace(/_/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').trim();
+  return { family: family || fileName, weight: /bold|black|heavy/i.test(style) ? 'bold' : 'normal' };
+}
+
+/**
+ * Family names in a CSS font-family list, unquoted
+ */
+export function parseFontFamilies(fontFamily: string): string[] {
+  return fontFamily
+    .split(',')
+    .map(family => family.trim().replace(/^(['"])(.*)\1$/, '$2').trim())
+    .filter(Boolean);
+}
+
+/**
+ * CSS font-family list for family names, quoting all but the generic families
+ */
+export function formatFontFamilies(families: string[]): string {
+  return families
+    .map(family => GENERIC_FAMILIES.includes(family) ? family : `"${family.replace(/["\\]/g, '')}"`)
+    .join(', ');
+}
+
+/**
+ * Deterministic font stack for a template's font family: its registered families first,
+ * then the registered fallback fonts in order (e.g. CJK fonts), and only then the families
+ * left to the host, so a glyph comes from the same font wherever the tag is rendered
+ */
+export function buildFontStack(fontFamily: string, registeredFamilies: string[], fallbackFamilies: string[]): string[] {
+  const isRegistered = (family: string) => registeredFamilies.some(registered => sameFamily(registered, family));
+  const families = parseFontFamilies(fontFamily);
+  const stack = families.filter(isRegistered);
+
+  fallbackFamilies.filter(isRegistered).forEach(family => {
+    if (!stack.some(included => sameFamily(included, family))) {
+      stack.push(family);
+    }
+  });
+
+  return [...stack, ...families.filter(family => !isRegistered(family))];
+}
+
+/**
+ * Whether two family names refer to the same family; CSS matches them case-insensitively
+ */
+export function sameFamily(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Whether a code point needs a glyph of its own, as opposed to joiners and variation
+ * selectors that modify the one before
+ */
+export function needsGlyph(codePoint: number): boolean {
+  return !MODIFIER_CODE_POINTS.includes(codePoint);
+}
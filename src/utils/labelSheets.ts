@@ -0,0 +1,135 @@
+import { GridLayout, LayoutUnit, PageSize } from './layout';
+
+export type LabelSheetUnit = 'mm' | 'in';
+
+/**
+ * Geometry of a pre-cut label sheet, measured from the top-left corner of a portrait page.
+ * Pitch is the distance from one label's edge to the same edge of the next label.
+ */
+export interface LabelSheet {
+  id: string;
+  name: string;
+  description: string;
+  pageSize: PageSize;
+  unit: LabelSheetUnit;
+  labelWidth: number;
+  labelHeight: number;
+  topMargin: number;
+  leftMargin: number;
+  horizontalPitch: number;
+  verticalPitch: number;
+  columns: number;
+  rows: number;
+}
+
+// Measurements from the manufacturers' printing templates
+export const LABEL_SHEETS: LabelSheet[] = [
+  {
+    id: 'avery-5395',
+    name: 'Avery 5395',
+    description: 'Adhesive name badges, 3⅜" × 2⅓", 8 per sheet',
+    pageSize: 'Letter',
+    unit: 'in',
+    labelWidth: 3.375,
+    labelHeight: 2.3333,
+    topMargin: 0.5903,
+    leftMargin: 0.6875,
+    horizontalPitch: 3.75,
+    verticalPitch: 2.5,
+    columns: 2,
+    rows: 4
+  },
+  {
+    id: 'avery-5390',
+    name: 'Avery 5390',
+    description: 'Name badge inserts, 3½" × 2¼", 8 per sheet',
+    pageSize: 'Letter',
+    unit: 'in',
+    labelWidth: 3.5,
+    labelHeight: 2.25,
+    topMargin: 1,
+    leftMargin: 0.75,
+    horizontalPitch: 3.5,
+    verticalPitch: 2.25,
+    columns: 2,
+    rows: 4
+  },
+  {
+    id: 'avery-74459',
+    name: 'Avery 74459',
+    description: 'Name badge inserts, 4" × 3", 6 per sheet',
+    pageSize: 'Letter',
+    unit: 'in',
+    labelWidth: 4,
+    labelHeight: 3,
+    topMargin: 1,
+    leftMargin: 0.25,
+    horizontalPitch: 4,
+    verticalPitch: 3,
+    columns: 2,
+    rows: 3
+  },
+  {
+    id: 'avery-l4785',
+    name: 'Avery Zweckform L4785',
+    description: 'Adhesive name badges, 80 × 50 mm, 10 per sheet',
+    pageSize: 'A4',
+    unit: 'mm',
+    labelWidth: 80,
+    labelHeight: 50,
+    topMargin: 23.5,
+    leftMargin: 17.5,
+    horizontalPitch: 95,
+    verticalPitch: 50,
+    columns: 2,
+    rows: 5
+  },
+  {
+    id: 'herma-4412',
+    name: 'Herma 4412',
+    description: 'Adhesive name badges, 80 × 50 mm, 10 per sheet (equivalent to L4785)',
+    pageSize: 'A4',
+    unit: 'mm',
+    labelWidth: 80,
+    labelHeight: 50,
+    topMargin: 23.5,
+    leftMargin: 17.5,
+    horizontalPitch: 95,
+    verticalPitch: 50,
+    columns: 2,
+    rows: 5
+  }
+];
+
+const POINTS_PER_UNIT: Record<LabelSheetUnit | LayoutUnit, number> = {
+  pt: 1,
+  mm: 72 / 25.4,
+  in: 72
+};
+
+/**
+ * Look up a label sheet by id
+ */
+export function getLabelSheet(id: string): LabelSheet | null {
+  return LABEL_SHEETS.find(sheet => sheet.id === id) || null;
+}
+
+/**
+ * Place one tag on every label of the sheet, in reading order
+ */
+export function calculateLabelSheetLayout(sheet: LabelSheet, unit: LayoutUnit = 'pt'): GridLayout {
+  const scale = POINTS_PER_UNIT[sheet.unit] / POINTS_PER_UNIT[unit];
+  const positions = Array.from({ length: sheet.rows * sheet.columns }, (_, index) => ({
+    x: (sheet.leftMargin + (index % sheet.columns) * sheet.horizontalPitch) * scale,
+    y: (sheet.topMargin + Math.floor(index / sheet.columns) * sheet.verticalPitch) * scale
+  }));
+
+  return {
+    rows: sheet.rows,
+    columns: sheet.columns,
+    tagsPerPage: positions.length,
+    tagWidth: sheet.labelWidth * scale,
+    tagHeight: sheet.labelHeight * scale,
+    positions
+  };
+}
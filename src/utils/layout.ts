@@ -0,0 +1,166 @@
+export type PageSize = 'A4' | 'Letter' | 'Legal';
+export type PageOrientation = 'portrait' | 'landscape';
+export type LayoutUnit = 'pt' | 'mm';
+
+export interface GridSpec {
+  rows: number;
+  columns: number;
+}
+
+export interface GridLayoutOptions {
+  pageWidth: number;
+  pageHeight: number;
+  margin: number;
+  tagWidth: number;
+  tagHeight: number;
+  gutter: number;
+  grid?: GridSpec;
+  maxTagsPerPage?: number;
+}
+
+export interface GridLayout {
+  rows: number;
+  columns: number;
+  tagsPerPage: number;
+  tagWidth: number;
+  tagHeight: number;
+  positions: Array<{ x: number; y: number }>;
+}
+
+export class LayoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LayoutError';
+  }
+}
+
+// Portrait page sizes in PDF points (1/72 inch)
+const PAGE_SIZES_PT: Record<PageSize, { width: number; height: number }> = {
+  A4: { width: 595.28, height: 841.89 },
+  Letter: { width: 612, height: 792 },
+  Legal: { width: 612, height: 1008 }
+};
+
+const MM_PER_POINT = 25.4 / 72;
+
+/**
+ * Get page dimensions for a paper size and orientation
+ */
+export function getPageDimensions(
+  pageSize: PageSize,
+  orientation: PageOrientation = 'portrait',
+  unit: LayoutUnit = 'pt'
+): { width: number; height: number } {
+  const size = PAGE_SIZES_PT[pageSize];
+  if (!size) {
+    throw new LayoutError(`Unknown page size: ${pageSize}`);
+  }
+
+  const scale = unit === 'mm' ? MM_PER_POINT : 1;
+  const short = size.width * scale;
+  const long = size.height * scale;
+
+  return orientation === 'landscape'
+    ? { width: long, height: short }
+    : { width: short, height: long };
+}
+
+/**
+ * Compute where name tags go on a page.
+ * With an explicit grid the grid must fit or a LayoutError is thrown; otherwise as many
+ * rows and columns as fit inside the margins are used, capped at `maxTagsPerPage`.
+ * All values share one unit (points or millimetres); the grid is centered in the printable area.
+ */
+export function calculateGridLayout(options: GridLayoutOptions): GridLayout {
+  const { pageWidth, pageHeight, margin, tagWidth, tagHeight, gutter, grid, maxTagsPerPage } = options;
+  const availableWidth = pageWidth - 2 * margin;
+  const availableHeight = pageHeight - 2 * margin;
+
+  if (tagWidth <= 0 || tagHeight <= 0) {
+    throw new LayoutError('Name tag dimensions must be positive');
+  }
+
+  if (availableWidth <= 0 || availableHeight <= 0) {
+    throw new LayoutError(`Margin of ${margin} leaves no printable area on a ${formatSize(pageWidth, pageHeight)} page`);
+  }
+
+  let rows: number;
+  let columns: number;
+
+  if (grid) {
+    if (!Number.isInteger(grid.rows) || !Number.isInteger(grid.columns) || grid.rows < 1 || grid.columns < 1) {
+      throw new LayoutError(`Invalid grid: ${grid.rows}×${grid.columns}`);
+    }
+
+    rows = grid.rows;
+    columns = grid.columns;
+
+    const requiredWidth = columns * tagWidth + (columns - 1) * gutter;
+    const requiredHeight = rows * tagHeight + (rows - 1) * gutter;
+
+    if (requiredWidth > availableWidth || requiredHeight > availableHeight) {
+      throw new LayoutError(
+        `A ${rows}×${columns} grid of ${formatSize(tagWidth, tagHeight)} name tags needs ` +
+        `${formatSize(requiredWidth, requiredHeight)} but only ${formatSize(availableWidth, availableHeight)} ` +
+        'fits inside the margins'
+      );
+    }
+  } else {
+    columns = Math.floor((availableWidth + gutter) / (tagWidth + gutter));
+    rows = Math.floor((availableHeight + gutter) / (tagHeight + gutter));
+
+    if (columns < 1 || rows < 1) {
+      throw new LayoutError(
+        `A ${formatSize(tagWidth, tagHeight)} name tag does not fit inside the ` +
+        `${formatSize(availableWidth, availableHeight)} printable area`
+      );
+    }
+
+    // Shrink the grid to the requested tag count, keeping rows filled first
+    if (maxTagsPerPage && maxTagsPerPage < rows * columns) {
+      columns = Math.min(columns, maxTagsPerPage);
+      rows = Math.ceil(maxTagsPerPage / columns);
+    }
+  }
+
+  const tagsPerPage = Math.min(rows * columns, maxTagsPerPage || Infinity);
+  const startX = margin + (availableWidth - (columns * tagWidth + (columns - 1) * gutter)) / 2;
+  const startY = margin + (availableHeight - (rows * tagHeight + (rows - 1) * gutter)) / 2;
+
+  const positions = Array.from({ length: tagsPerPage }, (_, index) => ({
+    x: startX + (index % columns) * (tagWidth + gutter),
+    y: startY + Math.floor(index / columns) * (tagHeight + gutter)
+  }));
+
+  return {
+    rows,
+    columns,
+    tagsPerPage,
+    tagWidth,
+    tagHeight,
+    positions
+  };
+}
+
+/**
+ * Where an image of the given size goes in a tag slot: scaled to fit without distortion
+ * and centered
+ */
+export function fitToSlot(
+  layout: Pick<GridLayout, 'tagWidth' | 'tagHeight'>,
+  position: { x: number; y: number },
+  width: number,
+  height: number
+): { x: number; y: number; width: number; height: number } {
+  const scale = Math.min(layout.tagWidth / width, layout.tagHeight / height);
+  return {
+    x: position.x + (layout.tagWidth - width * scale) / 2,
+    y: position.y + (layout.tagHeight - height * scale) / 2,
+    width: width * scale,
+    height: height * scale
+  };
+}
+
+function formatSize(width: number, height: number): string {
+  return `${Math.round(width * 10) / 10}×${Math.round(height * 10) / 10}`;
+}
@@ -0,0 +1,134 @@
+import { GridLayout } from './layout';
+
+export interface LineSegment {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface CropMarkOptions {
+  bleed: number;
+  offset?: number; // Gap between the bleed edge and the mark
+  length?: number;
+}
+
+const DEFAULT_CROP_MARK_OFFSET = 3;
+const DEFAULT_CROP_MARK_LENGTH = 12;
+
+/**
+ * Trim lines of the tags placed on a page: the left/right edge of every occupied column
+ * and the top/bottom edge of every occupied row
+ */
+export function getTrimLines(layout: GridLayout, tagCount: number): { xs: number[]; ys: number[] } {
+  const count = Math.min(tagCount, layout.tagsPerPage);
+  const columns = Math.min(count, layout.columns);
+  const rows = Math.ceil(count / layout.columns);
+  const xs: number[] = [];
+  const ys: number[] = [];
+
+  for (let column = 0; column < columns; column++) {
+    const { x } = layout.positions[column];
+    xs.push(x, x + layout.tagWidth);
+  }
+
+  for (let row = 0; row < rows; row++) {
+    const { y } = layout.positions[row * layout.columns];
+    ys.push(y, y + layout.tagHeight);
+  }
+
+  return { xs: unique(xs), ys: unique(ys) };
+}
+
+/**
+ * Crop marks for a page, drawn outside the grid (beyond the bleed) in line with every trim line.
+ * Marks are shortened to stay on the page and dropped when there is no room for them.
+ */
+export function calculateCropMarks(
+  layout: GridLayout,
+  tagCount: number,
+  page: { width: number; height: number },
+  options: CropMarkOptions
+): LineSegment[] {
+  const { xs, ys } = getTrimLines(layout, tagCount);
+  if (xs.length === 0 || ys.length === 0) {
+    return [];
+  }
+
+  const offset = options.bleed + (options.offset ?? DEFAULT_CROP_MARK_OFFSET);
+  const length = options.length ?? DEFAULT_CROP_MARK_LENGTH;
+  const left = xs[0];
+  const right = xs[xs.length - 1];
+  const top = ys[0];
+  const bottom = ys[ys.length - 1];
+
+  const topLength = Math.min(length, top - offset);
+  const bottomLength = Math.min(length, page.height - bottom - offset);
+  const leftLength = Math.min(length, left - offset);
+  const rightLength = Math.min(length, page.width - right - offset);
+  const marks: LineSegment[] = [];
+
+  xs.forEach(x => {
+    if (topLength > 0) {
+      marks.push({ x1: x, y1: top - offset - topLength, x2: x, y2: top - offset });
+    }
+    if (bottomLength > 0) {
+      marks.push({ x1: x, y1: bottom + offset, x2: x, y2: bottom + offset + bottomLength });
+    }
+  });
+
+  ys.forEach(y => {
+    if (leftLength > 0) {
+      marks.push({ x1: left - offset - leftLength, y1: y, x2: left - offset, y2: y });
+    }
+    if (rightLength > 0) {
+      marks.push({ x1: right + offset, y1: y, x2: right + offset + rightLength, y2: y });
+    }
+  });
+
+  return marks;
+}
+
+/**
+ * Fold marks for tent cards: short lines left and right of the grid, in line with the fold
+ * across the middle of every occupied row. Like crop marks they stay clear of the bleed.
+ */
+export function calculateFoldMarks(
+  layout: GridLayout,
+  tagCount: number,
+  page: { width: number; height: number },
+  options: CropMarkOptions
+): LineSegment[] {
+  const { xs } = getTrimLines(layout, tagCount);
+  if (xs.length === 0) {
+    return [];
+  }
+
+  const offset = options.bleed + (options.offset ?? DEFAULT_CROP_MARK_OFFSET);
+  const length = options.length ?? DEFAULT_CROP_MARK_LENGTH;
+  const left = xs[0];
+  const right = xs[xs.length - 1];
+  const leftLength = Math.min(length, left - offset);
+  const rightLength = Math.min(length, page.width - right - offset);
+  const rows = Math.ceil(Math.min(tagCount, layout.tagsPerPage) / layout.columns);
+  const marks: LineSegment[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    const y = layout.positions[row * layout.columns].y + layout.tagHeight / 2;
+
+    if (leftLength > 0) {
+      marks.push({ x1: left - offset - leftLength, y1: y, x2: left - offset, y2: y });
+    }
+    if (rightLength > 0) {
+      marks.push({ x1: right + offset, y1: y, x2: right + offset + rightLength, y2: y });
+    }
+  }
+
+  return marks;
+}
+
+function unique(values: number[]): number[] {
+  return values
+    .sort((a, b) => a - b)
+    .filter((value, index, sorted) => index === 0 || Math.abs(value - sorted[index - 1]) > 0.01);
+}
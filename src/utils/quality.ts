@@ -0,0 +1,32 @@
+export type RenderQuality = 'low' | 'medium' | 'high';
+
+/**
+ * Concrete rendering settings behind a quality level
+ */
+export interface QualityProfile {
+  dpi: number; // Resolution of rasterized tags and embedded avatars
+  imageFormat: 'jpeg' | 'png'; // How rasters are embedded in the PDF
+  jpegQuality: number; // 1–100, used when imageFormat is 'jpeg'
+}
+
+export const QUALITY_PROFILES: Record<RenderQuality, QualityProfile> = {
+  low: { dpi: 96, imageFormat: 'jpeg', jpegQuality: 60 },
+  medium: { dpi: 150, imageFormat: 'jpeg', jpegQuality: 85 },
+  high: { dpi: 300, imageFormat: 'png', jpegQuality: 95 }
+};
+
+const POINTS_PER_INCH = 72;
+
+/**
+ * Get the rendering settings for a quality level, defaulting to medium
+ */
+export function getQualityProfile(quality: RenderQuality | undefined): QualityProfile {
+  return QUALITY_PROFILES[quality || 'medium'] || QUALITY_PROFILES.medium;
+}
+
+/**
+ * Pixels per point needed to reach the profile's DPI
+ */
+export function getRasterScale(profile: QualityProfile): number {
+  return profile.dpi / POINTS_PER_INCH;
+}
@@ -0,0 +1,223 @@
+import { NameTagTemplate, TemplateElement } from '../types';
+import { getLayoutElements } from './templateElements';
+
+export const MIN_ELEMENT_SIZE = 4; // Template units
+export const GUIDE_THRESHOLD = 4; // Distance within which an edge or center snaps to a guide
+
+/**
+ * Position and size of an element being edited
+ */
+export type ElementBox = Pick<TemplateElement, 'x' | 'y' | 'width' | 'height'>;
+
+/**
+ * Edge or side that a resize drags; the opposite side stays in place
+ */
+export type ResizeHandle = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
+/**
+ * A line an edited element lines up with: the tag's edges and center or another element's
+ */
+export interface AlignmentGuide {
+  orientation: 'vertical' | 'horizontal';
+  position: number;
+}
+
+export interface SnapOptions {
+  gridSize: number; // 0 to turn the grid off
+  guides: boolean;
+  targets: ElementBox[]; // Other elements to line up with
+  bounds: { width: number; height: number };
+}
+
+export interface SnapResult {
+  box: ElementBox;
+  guides: AlignmentGuide[];
+}
+
+/**
+ * Template in the form the editor works on: fixed layout slots become elements, which
+ * then replace them
+ */
+export function toEditableTemplate(template: NameTagTemplate): NameTagTemplate {
+  return { ...template, elements: (template.elements || getLayoutElements(template)).map(element => ({ ...element })) };
+}
+
+/**
+ * Replace one element's box, keeping the rest of the template as it was
+ */
+export function updateElementBox(template: NameTagTemplate, index: number, box: ElementBox): NameTagTemplate {
+  const elements = [...(template.elements || [])];
+  elements[index] = { ...elements[index], ...roundBox(box) };
+  return { ...template, elements };
+}
+
+/**
+ * Index of the topmost element under a point, or null; rotation is ignored
+ */
+export function hitTest(template: NameTagTemplate, x: number, y: number): number | null {
+  const elements = template.elements || [];
+  const order = elements
+    .map((element, index) => ({ element, index }))
+    .sort((a, b) => (a.element.zIndex ?? 0) - (b.element.zIndex ?? 0));
+
+  for (let i = order.length - 1; i >= 0; i--) {
+    const { element, index } = order[i];
+    if (x >= element.x && x <= element.x + element.width && y >= element.y && y <= element.y + element.height) {
+      return index;
+    }
+  }
+  return null;
+}
+
+export function snapToGrid(value: number, gridSize: number): number {
+  return gridSize > 0 ? Math.round(value / gridSize) * gridSize : value;
+}
+
+/**
+ * Move a box, lining up its edges or center with a guide where one is near and snapping
+ * to the grid otherwise
+ */
+export function moveBox(box: ElementBox, dx: number, dy: number, options: SnapOptions): SnapResult {
+  const moved = { ...box, x: box.x + dx, y: box.y + dy };
+  const guides: AlignmentGuide[] = [];
+
+  const x = snapAxis([moved.x, moved.x + moved.width / 2, moved.x + moved.width], 'vertical', options);
+  moved.x = x.offset !== null ? moved.x + x.offset : snapToGrid(moved.x, options.gridSize);
+  guides.push(...x.guides);
+
+  const y = snapAxis([moved.y, moved.y + moved.height / 2, moved.y + moved.height], 'horizontal', options);
+  moved.y = y.offset !== null ? moved.y + y.offset : snapToGrid(moved.y, options.gridSize);
+  guides.push(...y.guides);
+
+  return { box: moved, guides };
+}
+
+/**
+ * Resize a box by dragging a handle. The dragged edges snap like a moved box's; the
+ * opposite edges stay put and the box never gets smaller than MIN_ELEMENT_SIZE.
+ */
+export function resizeBox(box: ElementBox, handle: ResizeHandle, dx: number, dy: number, options: SnapOptions): SnapResult {
+  let left = box.x;
+  let top = box.y;
+  let right = box.x + box.width;
+  let bottom = box.y + box.height;
+  const guides: AlignmentGuide[] = [];
+
+  const snapEdge = (edge: number, orientation: AlignmentGuide['orientation']) => {
+    const snapped = snapAxis([edge], orientation, options);
+    guides.push(...snapped.guides);
+    return snapped.offset !== null ? edge + snapped.offset : snapToGrid(edge, options.gridSize);
+  };
+
+  if (handle.includes('w')) {
+    left = Math.min(snapEdge(left + dx, 'vertical'), right - MIN_ELEMENT_SIZE);
+  }
+  if (handle.includes('e')) {
+    right = Math.max(snapEdge(right + dx, 'vertical'), left + MIN_ELEMENT_SIZE);
+  }
+  if (handle.includes('n')) {
+    top = Math.min(snapEdge(top + dy, 'horizontal'), bottom - MIN_ELEMENT_SIZE);
+  }
+  if (handle.includes('s')) {
+    bottom = Math.max(snapEdge(bottom + dy, 'horizontal'), top + MIN_ELEMENT_SIZE);
+  }
+
+  return { box: { x: left, y: top, width: right - left, height: bottom - top }, guides };
+}
+
+/**
+ * Undo/redo history of editor states. Each state is kept whole, which is cheap for
+ * templates and keeps undo exact.
+ */
+export class EditHistory<T> {
+  private past: T[] = [];
+  private future: T[] = [];
+
+  constructor(private current: T, private readonly limit: number = 100) {}
+
+  get present(): T {
+    return this.current;
+  }
+
+  get canUndo(): boolean {
+    return this.past.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.future.length > 0;
+  }
+
+  /**
+   * Record a new state; anything undone before is dropped
+   */
+  push(state: T): void {
+    this.past.push(this.current);
+    if (this.past.length > this.limit) {
+      this.past.shift();
+    }
+    this.current = state;
+    this.future = [];
+  }
+
+  undo(): T {
+    if (this.past.length) {
+      this.future.push(this.current);
+      this.current = this.past.pop()!;
+    }
+    return this.current;
+  }
+
+  redo(): T {
+    if (this.future.length) {
+      this.past.push(this.current);
+      this.current = this.future.pop()!;
+    }
+    return this.current;
+  }
+}
+
+/**
+ * Lines to align with along one axis: the tag's edges and center, then every target's
+ * edges and center
+ */
+function getGuideLines(orientation: AlignmentGuide['orientation'], options: SnapOptions): number[] {
+  if (!options.guides) {
+    return [];
+  }
+
+  const size = orientation === 'vertical' ? options.bounds.width : options.bounds.height;
+  const lines = [0, size / 2, size];
+  options.targets.forEach(target => {
+    const start = orientation === 'vertical' ? target.x : target.y;
+    const length = orientation === 'vertical' ? target.width : target.height;
+    lines.push(start, start + length / 2, start + length);
+  });
+  return lines;
+}
+
+/**
+ * Smallest shift within GUIDE_THRESHOLD that puts one of the points on a line, with every
+ * line the shifted points then touch
+ */
+function snapAxis(points: number[], orientation: AlignmentGuide['orientation'], options: SnapOptions): { offset: number | null; guides: AlignmentGuide[] } {
+  const lines = getGuideLines(orientation, options);
+  let offset: number | null = null;
+  points.forEach(point => lines.forEach(line => {
+    const distance = line - point;
+    if (Math.abs(distance) <= GUIDE_THRESHOLD && (offset === null || Math.abs(distance) < Math.abs(offset))) {
+      offset = distance;
+    }
+  }));
+
+  if (offset === null) {
+    return { offset, guides: [] };
+  }
+
+  const touched = Array.from(new Set(lines.filter(line => points.some(point => Math.abs(point + offset! - line) < 0.01))));
+  return { offset, guides: touched.map(position => ({ orientation, position })) };
+}
+
+function roundBox(box: ElementBox): ElementBox {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return { x: round(box.x), y: round(box.y), width: round(box.width), height: round(box.height) };
+}
@@ -0,0 +1,313 @@
+import { XProfile, NameTagTemplate, TemplateElement, TextElement, ProfileField, Position } from '../types';
+import { getTextDirection, sanitizeText, truncateText } from './text';
+import { fitText, MeasureText } from './textFitting';
+
+export const TEXT_ASCENT = 0.8; // Distance from the top of a line to its baseline, in em
+export const LINE_HEIGHT = 1.3; // In em
+export const AVERAGE_CHAR_WIDTH = 0.55; // In em, to estimate how much text fits a box
+
+// Fixed-layout text stops this far short of the QR code, and shrinks to this share of its size
+const LAYOUT_TEXT_GAP = 10;
+const LAYOUT_MIN_FONT_RATIO = 0.6;
+
+/**
+ * Lines of a text element fitted to its box, with the baseline of each line
+ */
+export interface TextLayout {
+  fontSize: number;
+  direction: 'ltr' | 'rtl';
+  align: 'left' | 'center' | 'right';
+  lines: { text: string; baseline: number }[];
+}
+
+export const PROFILE_FIELDS: ProfileField[] = [
+  'username',
+  'displayName',
+  'bio',
+  'profileUrl',
+  'followerCount',
+  'followingCount'
+];
+
+const ELEMENT_TYPES = ['text', 'image', 'shape', 'qrcode', 'divider'];
+const DATA_URI_PATTERN = /^data:image\/(png|jpeg);base64,[A-Za-z0-9+/=]+$/;
+
+/**
+ * Elements of a template in drawing order. Templates without an element list get
+ * elements matching their fixed avatar, name, username and QR code slots.
+ */
+export function getTemplateElements(template: NameTagTemplate): TemplateElement[] {
+  const elements = template.elements || getLayoutElements(template);
+
+  // Array.prototype.sort is stable, so equal z-indexes keep their list order
+  return [...elements].sort((a, b) => (a.zIndex ?? 0) - (b.zIndex ?? 0));
+}
+
+/**
+ * Express a template's fixed layout slots as elements. Slot positions for text are
+ * baselines anchored according to `align`; element boxes are converted to match and
+ * end before the QR code when it sits beside the text.
+ */
+export function getLayoutElements(template: NameTagTemplate): TemplateElement[] {
+  const { dimensions, layout, styles } = template;
+  const qrCode = { x: layout.qrCodePosition.x, y: layout.qrCodePosition.y, size: layout.qrCodeSize };
+  const textBox = (position: Position, fontSize: number) => {
+    const align = position.align || 'left';
+    const top = position.y - TEXT_ASCENT * fontSize;
+    const height = LINE_HEIGHT * fontSize;
+    const besideQRCode = top < qrCode.y + qrCode.size && top + height > qrCode.y;
+    const left = besideQRCode && qrCode.x + qrCode.size <= position.x ? qrCode.x + qrCode.size + LAYOUT_TEXT_GAP : 0;
+    const right = besideQRCode && qrCode.x > position.x ? qrCode.x - LAYOUT_TEXT_GAP : dimensions.width;
+    const width = Math.max(align === 'center'
+      ? 2 * Math.min(position.x - left, right - position.x)
+      : align === 'right' ? position.x - left : right - position.x, 1);
+
+    return {
+      x: align === 'center' ? position.x - width / 2 : align === 'right' ? position.x - width : position.x,
+      y: top,
+      width,
+      height,
+      align,
+      fontSize,
+      minFontSize: fontSize * LAYOUT_MIN_FONT_RATIO
+    };
+  };
+
+  return [
+    {
+      type: 'qrcode',
+      x: layout.qrCodePosition.x,
+      y: layout.qrCodePosition.y,
+      width: layout.qrCodeSize,
+      height: layout.qrCodeSize,
+      color: styles.textColor,
+      background: styles.backgroundColor
+    },
+    {
+      type: 'image',
+      src: 'avatar',
+      shape: 'circle',
+      x: layout.avatarPosition.x,
+      y: layout.avatarPosition.y,
+      width: layout.avatarSize,
+      height: layout.avatarSize
+    },
+    {
+      type: 'text',
+      text: '{displayName}',
+      ...textBox(layout.namePosition, styles.nameFontSize),
+      fontWeight: 'bold',
+      color: styles.textColor
+    },
+    {
+      type: 'text',
+      text: '@{username}',
+      ...textBox(layout.usernamePosition, styles.usernameFontSize),
+      color: styles.accentColor
+    }
+  ];
+}
+
+/**
+ * Replace `{field}` placeholders with profile values, cleaned of control characters
+ * (see `sanitizeText`); missing values become empty
+ */
+export function resolveText(text: string, profile: XProfile): string {
+  const resolved = text.replace(/\{(\w+)\}/g, (placeholder, field) => {
+    if (!PROFILE_FIELDS.includes(field as ProfileField)) {
+      return placeholder;
+    }
+    return String(profile[field as ProfileField] ?? '');
+  });
+  return sanitizeText(resolved);
+}
+
+/**
+ * Fit a text element's text to its box with measured widths (see `fitText`) and place
+ * its lines. The first baseline sits TEXT_ASCENT below the box top; shrunk text stays
+ * centered on the line it would have filled at full size. Right-to-left text is
+ * right-aligned unless the element sets `align`.
+ */
+export function layoutTextElement(element: TextElement, profile: XProfile, measure: MeasureText): TextLayout {
+  const text = resolveText(element.text, profile);
+  const { lines, fontSize } = fitText(element.maxLength ? truncateText(text, element.maxLength) : text, {
+    width: element.width,
+    fontSize: element.fontSize,
+    minFontSize: element.minFontSize,
+    maxLines: element.maxLines
+  }, measure);
+
+  const offset = Math.max((element.fontSize - lines.length * fontSize) * LINE_HEIGHT / 2, 0);
+  const direction = getTextDirection(text);
+  return {
+    fontSize,
+    direction,
+    align: element.align || (direction === 'rtl' ? 'right' : 'left'),
+    lines: lines.map((line, index) => ({
+      text: line,
+      baseline: element.y + offset + fontSize * (TEXT_ASCENT + index * LINE_HEIGHT)
+    }))
+  };
+}
+
+/**
+ * Scale an element's box and sizes
+ */
+export function scaleElement(element: TemplateElement, scale: number): TemplateElement {
+  const scaled = {
+    ...element,
+    x: element.x * scale,
+    y: element.y * scale,
+    width: element.width * scale,
+    height: element.height * scale
+  };
+
+  switch (scaled.type) {
+    case 'text':
+      return {
+        ...scaled,
+        fontSize: scaled.fontSize * scale,
+        minFontSize: scaled.minFontSize !== undefined ? scaled.minFontSize * scale : undefined
+      };
+    case 'shape':
+      return {
+        ...scaled,
+        strokeWidth: scaled.strokeWidth !== undefined ? scaled.strokeWidth * scale : undefined,
+        cornerRadius: scaled.cornerRadius !== undefined ? scaled.cornerRadius * scale : undefined
+      };
+    case 'divider':
+      return { ...scaled, thickness: (scaled.thickness ?? 1) * scale };
+    default:
+      return scaled;
+  }
+}
+
+/**
+ * A problem with one field of an untrusted template definition, e.g.
+ * `{ field: 'elements[2].fontSize', message: 'must be a positive number' }`
+ */
+export interface TemplateFieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * Check an element from an untrusted template definition
+ */
+export function validateElement(element: TemplateElement): boolean {
+  return getElementErrors(element).length === 0;
+}
+
+/**
+ * Field-by-field problems with an element from an untrusted template definition
+ * @param field Path of the element in the template, prefixed to each error's field
+ */
+export function getElementErrors(element: TemplateElement, field: string = 'element'): TemplateFieldError[] {
+  const errors: TemplateFieldError[] = [];
+  const error = (name: string, message: string) => errors.push({ field: `${field}.${name}`, message });
+  const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+  const checkOneOf = (name: string, value: unknown, allowed: string[]) => {
+    if (value !== undefined && !allowed.includes(value as string)) {
+      error(name, `must be one of ${allowed.join(', ')}`);
+    }
+  };
+  const checkNonNegative = (name: string, value: unknown) => {
+    if (value !== undefined && !(isNumber(value) && value >= 0)) {
+      error(name, 'must be a number of at least 0');
+    }
+  };
+  const checkColor = (name: string, value: unknown) => {
+    if (value !== undefined && typeof value !== 'string') {
+      error(name, 'must be a color string');
+    }
+  };
+
+  if (!element || typeof element !== 'object') {
+    return [{ field, message: 'must be an object' }];
+  }
+  if (!ELEMENT_TYPES.includes(element.type)) {
+    return [{ field: `${field}.type`, message: `must be one of ${ELEMENT_TYPES.join(', ')}` }];
+  }
+
+  (['x', 'y'] as const).forEach(name => {
+    if (!isNumber(element[name])) {
+      error(name, 'must be a number');
+    }
+  });
+  (['width', 'height'] as const).forEach(name => {
+    if (!isNumber(element[name]) || element[name] <= 0) {
+      error(name, 'must be a positive number');
+    }
+  });
+  (['rotation', 'zIndex'] as const).forEach(name => {
+    if (element[name] !== undefined && !isNumber(element[name])) {
+      error(name, 'must be a number');
+    }
+  });
+
+  switch (element.type) {
+    case 'text':
+      if (typeof element.text !== 'string') {
+        error('text', 'must be a string');
+      }
+      if (!isNumber(element.fontSize) || element.fontSize <= 0) {
+        error('fontSize', 'must be a positive number');
+      }
+      if (typeof element.color !== 'string') {
+        error('color', 'must be a color string');
+      }
+      checkOneOf('fontWeight', element.fontWeight, ['normal', 'bold']);
+      checkOneOf('align', element.align, ['left', 'center', 'right']);
+      if (element.maxLines !== undefined && !(Number.isInteger(element.maxLines) && element.maxLines >= 1)) {
+        error('maxLines', 'must be a whole number of at least 1');
+      }
+      if (element.maxLength !== undefined && !(Number.isInteger(element.maxLength) && element.maxLength >= 1)) {
+        error('maxLength', 'must be a whole number of at least 1');
+      }
+      if (element.minFontSize !== undefined && !(isNumber(element.minFontSize) && element.minFontSize > 0 && element.minFontSize <= element.fontSize)) {
+        error('minFontSize', 'must be positive and at most fontSize');
+      }
+      break;
+    case 'image':
+      if (element.src !== 'avatar' && !DATA_URI_PATTERN.test(element.src)) {
+        error('src', 'must be "avatar" or a PNG/JPEG data: URI');
+      }
+      checkOneOf('shape', element.shape, ['rect', 'circle']);
+      break;
+    case 'shape':
+      if (!['rect', 'ellipse'].includes(element.shape)) {
+        error('shape', 'must be rect or ellipse');
+      }
+      checkColor('fill', element.fill);
+      checkColor('stroke', element.stroke);
+      checkNonNegative('strokeWidth', element.strokeWidth);
+      checkNonNegative('cornerRadius', element.cornerRadius);
+      break;
+    case 'qrcode':
+      if (element.content !== undefined && typeof element.content !== 'string') {
+        error('content', 'must be a string');
+      }
+      checkColor('color', element.color);
+      checkColor('background', element.background);
+      break;
+    case 'divider':
+      if (typeof element.color !== 'string') {
+        error('color', 'must be a color string');
+      }
+      if (element.thickness !== undefined && !(isNumber(element.thickness) && element.thickness > 0)) {
+        error('thickness', 'must be a positive number');
+      }
+      break;
+  }
+  return errors;
+}
+
+/**
+ * Decode a PNG/JPEG data: URI from an image element
+ */
+export function decodeDataUri(src: string): Buffer | null {
+  if (!DATA_URI_PATTERN.test(src)) {
+    return null;
+  }
+  return Buffer.from(src.slice(src.indexOf(',') + 1), 'base64');
+}
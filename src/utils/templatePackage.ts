@@ -0,0 +1,223 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import { FontDescriptor, NameTagTemplate } from '../types';
+import { TemplateFieldError } from './templateElements';
+import { detectFontFormat, getFontFormat } from './fonts';
+import { getTemplateValidationErrors } from './validation';
+
+export const TEMPLATE_PACKAGE_FORMAT = 'x-card-template';
+export const TEMPLATE_PACKAGE_VERSION = 1;
+
+const MANIFEST_FILE = 'template.json';
+const MAX_PACKAGE_SIZE = 32 * 1024 * 1024; // Uncompressed, to refuse zip bombs
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg'
+};
+
+/**
+ * A font file shipped with a template
+ */
+export interface TemplatePackageFont extends FontDescriptor {
+  fileName: string;
+  data: Uint8Array;
+}
+
+/**
+ * A template with the font files it needs, as shared between teams
+ */
+export interface TemplatePackage {
+  template: NameTagTemplate;
+  fonts: TemplatePackageFont[];
+}
+
+/**
+ * `template.json` at the root of a package zip. Image elements refer to files under
+ * `assets/` instead of embedding data: URIs, and fonts are stored under `fonts/`.
+ */
+interface TemplatePackageManifest {
+  format: typeof TEMPLATE_PACKAGE_FORMAT;
+  version: number;
+  template: NameTagTemplate;
+  fonts: Array<FontDescriptor & { file: string }>;
+}
+
+export class TemplatePackageError extends Error {
+  constructor(readonly errors: TemplateFieldError[]) {
+    super(`Invalid template package: ${errors.map(error => `${error.field} ${error.message}`).join('; ')}`);
+    this.name = 'TemplatePackageError';
+  }
+}
+
+/**
+ * Zip a template with its images and fonts into a package
+ */
+export function exportTemplatePackage({ template, fonts }: TemplatePackage): Uint8Array {
+  const files: Record<string, Uint8Array> = {};
+
+  const elements = template.elements?.map((element, index) => {
+    const match = element.type === 'image' && /^data:image\/(png|jpeg);base64,(.*)$/.exec(element.src);
+    if (!match) {
+      return element;
+    }
+
+    const file = `assets/image-${index + 1}.${match[1] === 'png' ? 'png' : 'jpg'}`;
+    files[file] = base64ToBytes(match[2]);
+    return { ...element, src: file };
+  });
+
+  const manifest: TemplatePackageManifest = {
+    format: TEMPLATE_PACKAGE_FORMAT,
+    version: TEMPLATE_PACKAGE_VERSION,
+    template: elements ? { ...template, elements } : template,
+    fonts: fonts.map(({ family, weight, format, fileName, data }) => {
+      const file = `fonts/${fileName.split(/[\\/]/).pop()}`;
+      files[file] = data;
+      return { file, family, weight, format };
+    })
+  };
+  files[MANIFEST_FILE] = strToU8(JSON.stringify(manifest, null, 2));
+
+  return zipSync(files);
+}
+
+/**
+ * Read a template package, resolving its images into data: URIs so the template loads like
+ * any other. Throws a TemplatePackageError listing every problem by field.
+ */
+export function importTemplatePackage(data: Uint8Array): TemplatePackage {
+  let files: Record<string, Uint8Array>;
+  try {
+    let size = 0;
+    files = unzipSync(data, {
+      filter: file => {
+        size += file.originalSize;
+        if (size > MAX_PACKAGE_SIZE) {
+          throw new Error(`is larger than ${MAX_PACKAGE_SIZE / 1024 / 1024}MB uncompressed`);
+        }
+        return true;
+      }
+    });
+  } catch (error) {
+    const message = error instanceof Error && error.message.startsWith('is ') ? error.message : 'is not a zip file';
+    throw new TemplatePackageError([{ field: 'package', message }]);
+  }
+
+  if (!files[MANIFEST_FILE]) {
+    throw new TemplatePackageError([{ field: MANIFEST_FILE, message: 'is missing' }]);
+  }
+
+  let manifest: TemplatePackageManifest;
+  try {
+    manifest = JSON.parse(strFromU8(files[MANIFEST_FILE]));
+  } catch {
+    throw new TemplatePackageError([{ field: MANIFEST_FILE, message: 'is not valid JSON' }]);
+  }
+
+  if (!manifest || typeof manifest !== 'object' || manifest.format !== TEMPLATE_PACKAGE_FORMAT) {
+    throw new TemplatePackageError([{ field: 'format', message: `must be "${TEMPLATE_PACKAGE_FORMAT}"` }]);
+  }
+  if (!Number.isInteger(manifest.version) || manifest.version < 1 || manifest.version > TEMPLATE_PACKAGE_VERSION) {
+    throw new TemplatePackageError([{ field: 'version', message: `must be a version up to ${TEMPLATE_PACKAGE_VERSION}` }]);
+  }
+
+  const errors: TemplateFieldError[] = [];
+  const template = resolveAssets(manifest.template, files, errors);
+  getTemplateValidationErrors(template).forEach(error => {
+    // An image that couldn't be resolved is already reported
+    const field = `template.${error.field}`;
+    if (!errors.some(other => other.field === field)) {
+      errors.push({ ...error, field });
+    }
+  });
+  const fonts = readFonts(manifest.fonts, files, errors);
+
+  if (errors.length) {
+    throw new TemplatePackageError(errors);
+  }
+  return { template, fonts };
+}
+
+/**
+ * Base64 for binary data such as font files, in the browser and on the server
+ */
+export function bytesToBase64(data: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(data.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function resolveAssets(template: NameTagTemplate, files: Record<string, Uint8Array>, errors: TemplateFieldError[]): NameTagTemplate {
+  if (!template || typeof template !== 'object' || !Array.isArray(template.elements)) {
+    return template;
+  }
+
+  const elements = template.elements.map((element, index) => {
+    if (!element || element.type !== 'image' || typeof element.src !== 'string' || !element.src.startsWith('assets/')) {
+      return element;
+    }
+
+    const field = `template.elements[${index}].src`;
+    const type = IMAGE_TYPES[element.src.split('.').pop()!.toLowerCase()];
+    if (!type) {
+      errors.push({ field, message: 'must be a PNG or JPEG file' });
+    } else if (!files[element.src]) {
+      errors.push({ field, message: `refers to missing file ${element.src}` });
+    } else {
+      return { ...element, src: `data:${type};base64,${bytesToBase64(files[element.src])}` };
+    }
+    return element;
+  });
+
+  return { ...template, elements };
+}
+
+function readFonts(entries: TemplatePackageManifest['fonts'], files: Record<string, Uint8Array>, errors: TemplateFieldError[]): TemplatePackageFont[] {
+  if (entries === undefined) {
+    return [];
+  }
+  if (!Array.isArray(entries)) {
+    errors.push({ field: 'fonts', message: 'must be an array' });
+    return [];
+  }
+
+  return entries.flatMap((entry, index) => {
+    const field = `fonts[${index}]`;
+    const data = typeof entry?.file === 'string' ? files[entry.file] : undefined;
+    const format = data && getFontFormat(entry.file);
+    const entryErrors: TemplateFieldError[] = [];
+
+    if (!data) {
+      entryErrors.push({ field: `${field}.file`, message: 'must name a font file in the package' });
+    } else if (!format || detectFontFormat(data) !== format) {
+      entryErrors.push({ field: `${field}.file`, message: 'must be a TrueType, OpenType or WOFF2 font' });
+    }
+    if (typeof entry?.family !== 'string' || !entry.family.trim()) {
+      entryErrors.push({ field: `${field}.family`, message: 'must be a non-empty string' });
+    }
+    if (!['normal', 'bold'].includes(entry?.weight)) {
+      entryErrors.push({ field: `${field}.weight`, message: 'must be normal or bold' });
+    }
+
+    errors.push(...entryErrors);
+    return entryErrors.length ? [] : [{
+      family: entry.family,
+      weight: entry.weight,
+      format: format!,
+      fileName: entry.file.split('/').pop()!,
+      data: data!
+    }];
+  });
+}
@@ -0,0 +1,82 @@
+import { NameTagTemplate } from '../types';
+
+/**
+ * Get default template configuration
+ */
+export function getDefaultTemplate(): NameTagTemplate {
+  return {
+    id: 'default',
+    name: 'Default Template',
+    dimensions: {
+      width: 300,
+      height: 200
+    },
+    layout: {
+      avatarPosition: { x: 20, y: 20 },
+      avatarSize: 60,
+      namePosition: { x: 100, y: 40, align: 'left' },
+      usernamePosition: { x: 100, y: 70, align: 'left' },
+      qrCodePosition: { x: 210, y: 20 },
+      qrCodeSize: 80
+    },
+    styles: {
+      backgroundColor: '#ffffff',
+      textColor: '#000000',
+      accentColor: '#1da1f2',
+      fontFamily: 'Arial, sans-serif',
+      nameFontSize: 16,
+      usernameFontSize: 12,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: '#e1e8ed'
+    }
+  };
+}
+
+export const BUILT_IN_TEMPLATE_IDS = ['default', 'minimal', 'colorful'];
+
+/**
+ * Get every built-in template, in the order settings offers them
+ */
+export function getBuiltInTemplates(): NameTagTemplate[] {
+  return BUILT_IN_TEMPLATE_IDS.map(id => getBuiltInTemplate(id)!);
+}
+
+/**
+ * Get a built-in template by id (matches the templates offered in settings)
+ */
+export function getBuiltInTemplate(templateId: string): NameTagTemplate | null {
+  const template = getDefaultTemplate();
+
+  switch (templateId) {
+    case 'default':
+      return template;
+    case 'minimal':
+      return {
+        ...template,
+        id: 'minimal',
+        name: 'Minimal Template',
+        styles: {
+          ...template.styles,
+          backgroundColor: '#ffffff',
+          textColor: '#333333',
+          accentColor: '#666666'
+        }
+      };
+    case 'colorful':
+      return {
+        ...template,
+        id: 'colorful',
+        name: 'Colorful Template',
+        styles: {
+          ...template.styles,
+          backgroundColor: '#667eea',
+          textColor: '#ffffff',
+          accentColor: '#ffd700',
+          borderColor: '#667eea'
+        }
+      };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,166 @@
+// Display names longer than this are ellipsized on name tags
+export const MAX_DISPLAY_NAME_LENGTH = 20;
+
+// Scripts written right to left
+const RTL_CHARACTER = /[\p{Script=Hebrew}\p{Script=Arabic}\p{Script=Syriac}\p{Script=Thaana}\p{Script=Nko}]/u;
+// Graphemes shown as color emoji: emoji-style code points and text symbols followed by VS16
+const EMOJI_GRAPHEME = /\p{Emoji_Presentation}|\p{Extended_Pictographic}\uFE0F/u;
+
+// Control characters (C0, DEL, C1), unpaired surrogates and the U+FFFE/U+FFFF noncharacters
+const UNDRAWABLE_CHARACTERS = /[\p{Cc}\uD800-\uDFFF\uFFFE\uFFFF]/gu;
+// Characters outside the XML 1.0 Char production
+const XML_INVALID_CHARACTERS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uD800-\uDFFF\uFFFE\uFFFF]/gu;
+
+let graphemeSegmenter: Intl.Segmenter | null = null;
+
+/**
+ * Split text into grapheme clusters, the units a reader sees as one character: an emoji
+ * with its skin tone or ZWJ sequence, a flag, a letter with its combining marks
+ */
+export function splitGraphemes(text: string): string[] {
+  if (!graphemeSegmenter) {
+    graphemeSegmenter = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+  }
+  return Array.from(graphemeSegmenter.segment(text), segment => segment.segment);
+}
+
+/**
+ * Whether a grapheme cluster is displayed as an emoji
+ */
+export function isEmoji(grapheme: string): boolean {
+  return EMOJI_GRAPHEME.test(grapheme);
+}
+
+/**
+ * Whether text contains characters of a right-to-left script such as Hebrew or Arabic
+ */
+export function containsRightToLeft(text: string): boolean {
+  return RTL_CHARACTER.test(text);
+}
+
+/**
+ * Base direction of text, set by its first letter as in the Unicode bidi algorithm.
+ * Text without letters is left-to-right.
+ */
+export function getTextDirection(text: string): 'ltr' | 'rtl' {
+  const letter = text.match(/\p{L}/u);
+  return letter && RTL_CHARACTER.test(letter[0]) ? 'rtl' : 'ltr';
+}
+
+/**
+ * Visual width of text in character cells (full-width chars and emoji count as 2)
+ */
+export function getVisualLength(str: string): number {
+  let length = 0;
+  for (const grapheme of splitGraphemes(str)) {
+    // Check if character is full-width (CJK, etc.); combining marks add no width
+    const code = grapheme.codePointAt(0)!;
+    if ((code >= 0x1100 && code <= 0x115F) || // Hangul Jamo
+        (code >= 0x2E80 && code <= 0x9FFF) || // CJK
+        (code >= 0xAC00 && code <= 0xD7AF) || // Hangul Syllables
+        (code >= 0xF900 && code <= 0xFAFF) || // CJK Compatibility
+        (code >= 0xFE30 && code <= 0xFE4F) || // CJK Compatibility Forms
+        (code >= 0xFF00 && code <= 0xFF60) || // Fullwidth Forms
+        (code >= 0xFFE0 && code <= 0xFFE6) || // Fullwidth Forms
+        isEmoji(grapheme)) {
+      length += 2;
+    } else {
+      length += 1;
+    }
+  }
+  return length;
+}
+
+/**
+ * Truncate text with ellipsis if it's too long
+ * Considers full-width characters for accurate text width calculation and never
+ * cuts a grapheme cluster (emoji, accented letter) apart
+ */
+export function truncateText(text: string, maxLength: number): string {
+  const graphemes = splitGraphemes(text);
+  if (graphemes.length <= maxLength) {
+    return text;
+  }
+  
+  // Find the cutoff point considering visual width
+  let visualLength = 0;
+  let cutoffIndex = 0;
+  const ellipsisLength = 3; // "..." takes 3 visual units
+  
+  for (let i = 0; i < graphemes.length; i++) {
+    const charVisualLength = getVisualLength(graphemes[i]);
+    if (visualLength + charVisualLength + ellipsisLength > maxLength) {
+      break;
+    }
+    visualLength += charVisualLength;
+    cutoffIndex = i + 1;
+  }
+  
+  return graphemes.slice(0, cutoffIndex).join('') + '...';
+}
+
+/**
+ * Break text into lines of at most `maxLength` visual units, ellipsizing the last line
+ * when the text needs more than `maxLines`. Words longer than a line are split.
+ */
+export function wrapText(text: string, maxLength: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (getVisualLength(candidate) <= maxLength) {
+      line = candidate;
+      continue;
+    }
+
+    if (line) {
+      lines.push(line);
+    }
+    line = word;
+    while (getVisualLength(line) > maxLength) {
+      const chars = splitGraphemes(line);
+      let cut = 0;
+      for (let width = 0; cut < chars.length && width + getVisualLength(chars[cut]) <= maxLength; cut++) {
+        width += getVisualLength(chars[cut]);
+      }
+      lines.push(chars.slice(0, Math.max(cut, 1)).join(''));
+      line = chars.slice(Math.max(cut, 1)).join('');
+    }
+  }
+
+  if (line) {
+    lines.push(line);
+  }
+
+  if (lines.length <= maxLines) {
+    return lines;
+  }
+
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = truncateText(`${kept[maxLines - 1]} ${lines[maxLines]}`, maxLength);
+  return kept;
+}
+
+/**
+ * Clean profile text for display: line breaks and tabs become spaces, and control
+ * characters, unpaired surrogates and noncharacters, which no renderer can draw, are removed.
+ * Zero-width joiners and other format characters that emoji and scripts rely on are kept.
+ */
+export function sanitizeText(text: string): string {
+  return text.replace(/[\t\n\r\u2028\u2029]+/g, ' ').replace(UNDRAWABLE_CHARACTERS, '');
+}
+
+/**
+ * Escape text for use inside SVG/XML markup, dropping characters XML 1.0 does not allow
+ * even when escaped
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(XML_INVALID_CHARACTERS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,144 @@
+import { splitGraphemes } from './text';
+
+/**
+ * Width of a single line of text at a font size, in the same units as the box
+ */
+export type MeasureText = (text: string, fontSize: number) => number;
+
+export interface TextFitOptions {
+  width: number;
+  fontSize: number;
+  minFontSize?: number; // Smallest size to shrink to, the full size by default (no shrinking)
+  maxLines?: number; // Lines to wrap to once the text is at its smallest, 1 by default
+}
+
+export interface FittedText {
+  lines: string[];
+  fontSize: number;
+}
+
+export const ELLIPSIS = '…';
+const FONT_SIZE_STEP = 0.5;
+
+/**
+ * Fit text into a box width: keep it on one line by shrinking the font down to the minimum
+ * size, then wrap it at the largest size that fits `maxLines`, and finally ellipsize the
+ * last line at the minimum size
+ */
+export function fitText(text: string, options: TextFitOptions, measure: MeasureText): FittedText {
+  const { width, fontSize } = options;
+  const minFontSize = Math.min(options.minFontSize ?? fontSize, fontSize);
+  const maxLines = Math.max(options.maxLines ?? 1, 1);
+
+  if (measure(text, fontSize) <= width) {
+    return { lines: [text], fontSize };
+  }
+
+  const sizes = getCandidateSizes(fontSize, minFontSize);
+
+  // Widths grow linearly with the font size, so start from the size that should just fit
+  const estimate = fontSize * width / measure(text, fontSize);
+  for (const size of sizes.filter(candidate => candidate <= estimate)) {
+    if (measure(text, size) <= width) {
+      return { lines: [text], fontSize: size };
+    }
+  }
+
+  if (maxLines > 1) {
+    for (const size of sizes) {
+      const lines = wrapToWidth(text, width, size, measure);
+      if (lines.length <= maxLines) {
+        return { lines, fontSize: size };
+      }
+    }
+  }
+
+  const lines = maxLines > 1 ? wrapToWidth(text, width, minFontSize, measure) : [text];
+  const kept = lines.slice(0, maxLines);
+  kept[kept.length - 1] = ellipsizeToWidth(lines.slice(kept.length - 1).join(' '), width, minFontSize, measure);
+  return { lines: kept, fontSize: minFontSize };
+}
+
+/**
+ * Break text into lines no wider than `width`, at spaces where possible. Words wider
+ * than a line, and text without spaces such as Japanese, are split between grapheme clusters.
+ */
+export function wrapToWidth(text: string, width: number, fontSize: number, measure: MeasureText): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (measure(candidate, fontSize) <= width) {
+      line = candidate;
+      continue;
+    }
+
+    if (line) {
+      lines.push(line);
+    }
+    line = word;
+    while (line && measure(line, fontSize) > width) {
+      const chars = splitGraphemes(line);
+      const cut = Math.max(fitPrefix(chars, width, fontSize, measure), 1);
+      lines.push(chars.slice(0, cut).join(''));
+      line = chars.slice(cut).join('');
+    }
+  }
+
+  if (line) {
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Shorten text with an ellipsis until it fits `width`, keeping whole grapheme clusters
+ */
+export function ellipsizeToWidth(text: string, width: number, fontSize: number, measure: MeasureText): string {
+  if (measure(text, fontSize) <= width) {
+    return text;
+  }
+
+  const chars = splitGraphemes(text);
+  const fits = (count: number) => measure(chars.slice(0, count).join('').trimEnd() + ELLIPSIS, fontSize) <= width;
+
+  // Longest prefix that fits with the ellipsis; widths only grow with more characters
+  let low = 0;
+  let high = chars.length;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (fits(middle)) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return chars.slice(0, low).join('').trimEnd() + ELLIPSIS;
+}
+
+/**
+ * Number of leading graphemes that fit `width`
+ */
+function fitPrefix(chars: string[], width: number, fontSize: number, measure: MeasureText): number {
+  let count = 0;
+  while (count < chars.length && measure(chars.slice(0, count + 1).join(''), fontSize) <= width) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Font sizes to try from largest to smallest, always ending with the minimum
+ */
+function getCandidateSizes(fontSize: number, minFontSize: number): number[] {
+  const sizes: number[] = [];
+  for (let size = Math.floor(fontSize / FONT_SIZE_STEP) * FONT_SIZE_STEP; size > minFontSize; size -= FONT_SIZE_STEP) {
+    if (size < fontSize) {
+      sizes.push(size);
+    }
+  }
+  sizes.push(minFontSize);
+  return fontSize > minFontSize ? [fontSize, ...sizes] : sizes;
+}
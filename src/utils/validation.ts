@@ -1,4 +1,5 @@
-import { XProfile, NameTagTemplate, AppSettings, APIError, ErrorCode } from '../types';
+import { XProfile, NameTagTemplate, APIError, ErrorCode, TemplateElement } from '../types';
+import { getElementErrors, TemplateFieldError } from './templateElements';
 
 // URL Validation
 export function isValidXProfileUrl(url: string): boolean {
@@ -77,49 +78,99 @@ export function validateXProfile(data: any): XProfile | null {
 
 // Template Validation
 export function validateNameTagTemplate(data: any): NameTagTemplate | null {
-  if (!data || typeof data !== 'object') {
-    return null;
+  return getTemplateValidationErrors(data).length === 0 ? data as NameTagTemplate : null;
+}
+
+/**
+ * Field-by-field problems with an untrusted template definition, such as an imported
+ * template package; empty when the template can be rendered
+ */
+export function getTemplateValidationErrors(data: any): TemplateFieldError[] {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return [{ field: 'template', message: 'must be an object' }];
   }
-  
-  const required = ['id', 'name', 'dimensions', 'layout', 'styles'];
-  for (const field of required) {
-    if (!data[field]) {
-      return null;
+
+  const errors: TemplateFieldError[] = [];
+  const error = (field: string, message: string) => errors.push({ field, message });
+  const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+  const isObject = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object';
+  const checkPositive = (field: string, value: unknown) => {
+    if (!isNumber(value) || value <= 0) {
+      error(field, 'must be a positive number');
     }
+  };
+  const checkPosition = (field: string, value: unknown) => {
+    if (!isObject(value) || !isNumber(value.x) || !isNumber(value.y)) {
+      error(field, 'must have numeric x and y');
+    }
+  };
+
+  ['id', 'name'].forEach(field => {
+    if (typeof data[field] !== 'string' || !data[field].trim()) {
+      error(field, 'must be a non-empty string');
+    }
+  });
+
+  if (!isObject(data.dimensions)) {
+    error('dimensions', 'is required');
+  } else {
+    checkPositive('dimensions.width', data.dimensions.width);
+    checkPositive('dimensions.height', data.dimensions.height);
   }
-  
-  // Validate dimensions
-  if (!data.dimensions.width || !data.dimensions.height ||
-      data.dimensions.width <= 0 || data.dimensions.height <= 0) {
-    return null;
+
+  if (!isObject(data.layout)) {
+    error('layout', 'is required');
+  } else {
+    ['avatarPosition', 'namePosition', 'usernamePosition', 'qrCodePosition'].forEach(field => {
+      checkPosition(`layout.${field}`, data.layout[field]);
+    });
+    checkPositive('layout.avatarSize', data.layout.avatarSize);
+    checkPositive('layout.qrCodeSize', data.layout.qrCodeSize);
   }
-  
-  return data as NameTagTemplate;
-}
 
-// Settings Validation
-export function validateAppSettings(data: any): AppSettings {
-  const defaults: AppSettings = {
-    autoDownload: true,
-    downloadFormat: 'pdf',
-    pdfQuality: 'high',
-    defaultTemplate: 'standard',
-    recentProfiles: [],
-    maxRecentProfiles: 10
-  };
-  
-  if (!data || typeof data !== 'object') {
-    return defaults;
+  if (!isObject(data.styles)) {
+    error('styles', 'is required');
+  } else {
+    ['backgroundColor', 'textColor', 'accentColor', 'fontFamily'].forEach(field => {
+      if (typeof data.styles[field] !== 'string' || !data.styles[field]) {
+        error(`styles.${field}`, 'must be a non-empty string');
+      }
+    });
+    checkPositive('styles.nameFontSize', data.styles.nameFontSize);
+    checkPositive('styles.usernameFontSize', data.styles.usernameFontSize);
   }
-  
-  return {
-    autoDownload: typeof data.autoDownload === 'boolean' ? data.autoDownload : defaults.autoDownload,
-    downloadFormat: ['pdf', 'png'].includes(data.downloadFormat) ? data.downloadFormat : defaults.downloadFormat,
-    pdfQuality: ['low', 'medium', 'high'].includes(data.pdfQuality) ? data.pdfQuality : defaults.pdfQuality,
-    defaultTemplate: data.defaultTemplate || defaults.defaultTemplate,
-    recentProfiles: Array.isArray(data.recentProfiles) ? data.recentProfiles.slice(0, 50) : defaults.recentProfiles,
-    maxRecentProfiles: typeof data.maxRecentProfiles === 'number' ? Math.min(50, Math.max(0, data.maxRecentProfiles)) : defaults.maxRecentProfiles
-  };
+
+  if (data.elements !== undefined) {
+    if (!Array.isArray(data.elements)) {
+      error('elements', 'must be an array');
+    } else {
+      data.elements.forEach((element: TemplateElement, index: number) => {
+        errors.push(...getElementErrors(element, `elements[${index}]`));
+      });
+    }
+  }
+
+  if (data.back !== undefined) {
+    const { back } = data;
+    if (!isObject(back)) {
+      error('back', 'must be an object');
+    } else {
+      checkPosition('back.qrCodePosition', back.qrCodePosition);
+      checkPosition('back.textPosition', back.textPosition);
+      checkPositive('back.qrCodeSize', back.qrCodeSize);
+      checkPositive('back.textWidth', back.textWidth);
+      checkPositive('back.fontSize', back.fontSize);
+      if (back.showBio !== undefined && typeof back.showBio !== 'boolean') {
+        error('back.showBio', 'must be a boolean');
+      }
+      if (back.schedule !== undefined &&
+          (!Array.isArray(back.schedule) || !back.schedule.every((line: unknown) => typeof line === 'string'))) {
+        error('back.schedule', 'must be an array of strings');
+      }
+    }
+  }
+
+  return errors;
 }
 
 // Error Validation
@@ -5,6 +5,7 @@ module.exports = {
   entry: {
     popup: './src/popup/popup.ts',
     settings: './src/popup/settings.ts',
+    editor: './src/popup/editor.ts',
     background: './src/background/background.ts',
     content: './src/content/content.ts'
   },
@@ -27,6 +28,8 @@ module.exports = {
         { from: 'src/popup/popup.css', to: 'popup.css' },
         { from: 'src/popup/settings.html', to: 'settings.html' },
         { from: 'src/popup/settings.css', to: 'settings.css' },
+        { from: 'src/popup/editor.html', to: 'editor.html' },
+        { from: 'src/popup/editor.css', to: 'editor.css' },
         { from: 'manifest.json', to: 'manifest.json' },
         { from: 'src/icons', to: 'icons', noErrorOnMissing: true }
       ]